@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+contract MyPermitToken is ERC20, ERC20Permit {
+    constructor() ERC20("MyPermitToken", "MPTK") ERC20Permit("MyPermitToken") {
+        _mint(msg.sender, 1000000 * (10 ** uint256(decimals())));
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// ERC-4337 v0.7 user operation, with gas limits and fees packed two
+// uint128s to a word: accountGasLimits is verificationGasLimit << 128 |
+// callGasLimit, gasFees is maxPriorityFeePerGas << 128 | maxFeePerGas.
+struct PackedUserOperation {
+    address sender;
+    uint256 nonce;
+    bytes initCode;
+    bytes callData;
+    bytes32 accountGasLimits;
+    uint256 preVerificationGas;
+    bytes32 gasFees;
+    bytes paymasterAndData;
+    bytes signature;
+}
+
+// Account side of ERC-4337 validation. validationData packs
+// validAfter << 208 | validUntil << 160 | authorizer, where the authorizer
+// is 0 for a valid signature and 1 (SIG_VALIDATION_FAILED) otherwise and a
+// validUntil of 0 means no expiry. Aggregators are not used here.
+interface IAccount {
+    function validateUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash,
+        uint256 missingAccountFunds
+    ) external returns (uint256 validationData);
+}
@@ -0,0 +1,138 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IAccount.sol";
+
+// Minimal stand-in for the ERC-4337 v0.7 EntryPoint, so user operations
+// can run on a local node without a public bundler. It computes the same
+// userOpHash, keeps nonces the same way (192-bit key, 64-bit sequence),
+// prefunds gas from deposits, enforces the validity window accounts
+// return and emits the same UserOperationEvent. Factories (initCode),
+// paymasters and aggregators are not supported.
+contract LocalEntryPoint {
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(uint192 => uint256)) public nonceSequenceNumber;
+
+    event Deposited(address indexed account, uint256 totalDeposit);
+    event UserOperationEvent(
+        bytes32 indexed userOpHash,
+        address indexed sender,
+        address indexed paymaster,
+        uint256 nonce,
+        bool success,
+        uint256 actualGasCost,
+        uint256 actualGasUsed
+    );
+    event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason);
+
+    // Reasons use the EntryPoint's AAxx codes
+    error FailedOp(uint256 opIndex, string reason);
+
+    receive() external payable {
+        depositTo(msg.sender);
+    }
+
+    function depositTo(address account) public payable {
+        balanceOf[account] += msg.value;
+        emit Deposited(account, balanceOf[account]);
+    }
+
+    function getNonce(address sender, uint192 key) public view returns (uint256) {
+        return nonceSequenceNumber[sender][key] | (uint256(key) << 64);
+    }
+
+    function getUserOpHash(PackedUserOperation calldata userOp) public view returns (bytes32) {
+        bytes32 packed = keccak256(abi.encode(
+            userOp.sender,
+            userOp.nonce,
+            keccak256(userOp.initCode),
+            keccak256(userOp.callData),
+            userOp.accountGasLimits,
+            userOp.preVerificationGas,
+            userOp.gasFees,
+            keccak256(userOp.paymasterAndData)
+        ));
+        return keccak256(abi.encode(packed, address(this), block.chainid));
+    }
+
+    // Validate and execute each operation, then pay the gas they used to `beneficiary`
+    function handleOps(PackedUserOperation[] calldata ops, address payable beneficiary) external {
+        uint256 collected = 0;
+        for (uint256 i = 0; i < ops.length; i++) {
+            collected += _handleOp(i, ops[i]);
+        }
+
+        (bool paid, ) = beneficiary.call{value: collected}("");
+        if (!paid) revert FailedOp(ops.length, "AA91 failed send to beneficiary");
+    }
+
+    function _handleOp(uint256 opIndex, PackedUserOperation calldata op) private returns (uint256 actualGasCost) {
+        uint256 preGas = gasleft();
+        bytes32 userOpHash = getUserOpHash(op);
+
+        if (op.initCode.length != 0) revert FailedOp(opIndex, "AA10 initCode not supported");
+        if (op.paymasterAndData.length != 0) revert FailedOp(opIndex, "AA30 paymasters not supported");
+
+        uint192 key = uint192(op.nonce >> 64);
+        if (uint64(op.nonce) != nonceSequenceNumber[op.sender][key]++) {
+            revert FailedOp(opIndex, "AA25 invalid account nonce");
+        }
+
+        uint256 requiredPrefund = _validatePrepayment(opIndex, op, userOpHash);
+
+        (bool success, bytes memory result) = op.sender.call{gas: uint128(uint256(op.accountGasLimits))}(op.callData);
+        if (!success) {
+            emit UserOperationRevertReason(userOpHash, op.sender, op.nonce, result);
+        }
+
+        uint256 actualGasUsed = preGas - gasleft() + op.preVerificationGas;
+        actualGasCost = actualGasUsed * _gasPrice(op.gasFees);
+        // The prefund caps the charge; it covers the op's own limits, not this contract's overhead
+        if (actualGasCost > requiredPrefund) {
+            actualGasCost = requiredPrefund;
+        }
+        balanceOf[op.sender] -= actualGasCost;
+
+        emit UserOperationEvent(userOpHash, op.sender, address(0), op.nonce, success, actualGasCost, actualGasUsed);
+    }
+
+    // Have the account validate `op` and top up its deposit to the most the op can cost
+    function _validatePrepayment(
+        uint256 opIndex,
+        PackedUserOperation calldata op,
+        bytes32 userOpHash
+    ) private returns (uint256 requiredPrefund) {
+        uint256 verificationGasLimit = uint128(bytes16(op.accountGasLimits));
+        uint256 callGasLimit = uint128(uint256(op.accountGasLimits));
+        requiredPrefund = (verificationGasLimit + callGasLimit + op.preVerificationGas) * uint128(uint256(op.gasFees));
+
+        uint256 deposit = balanceOf[op.sender];
+        uint256 missingFunds = requiredPrefund > deposit ? requiredPrefund - deposit : 0;
+        try IAccount(op.sender).validateUserOp{gas: verificationGasLimit}(op, userOpHash, missingFunds) returns (
+            uint256 validationData
+        ) {
+            _checkValidationData(opIndex, validationData);
+        } catch {
+            revert FailedOp(opIndex, "AA23 reverted");
+        }
+        if (balanceOf[op.sender] < requiredPrefund) revert FailedOp(opIndex, "AA21 didn't pay prefund");
+    }
+
+    // Signature result and validity window an account returned
+    function _checkValidationData(uint256 opIndex, uint256 validationData) private view {
+        if (address(uint160(validationData)) != address(0)) revert FailedOp(opIndex, "AA24 signature error");
+
+        uint48 validUntil = uint48(validationData >> 160);
+        uint48 validAfter = uint48(validationData >> (160 + 48));
+        if ((validUntil != 0 && block.timestamp > validUntil) || block.timestamp < validAfter) {
+            revert FailedOp(opIndex, "AA22 expired or not due");
+        }
+    }
+
+    // min(maxFeePerGas, basefee + maxPriorityFeePerGas)
+    function _gasPrice(bytes32 gasFees) private view returns (uint256) {
+        uint256 maxPriorityFeePerGas = uint128(bytes16(gasFees));
+        uint256 maxFeePerGas = uint128(uint256(gasFees));
+        return maxFeePerGas < block.basefee + maxPriorityFeePerGas ? maxFeePerGas : block.basefee + maxPriorityFeePerGas;
+    }
+}
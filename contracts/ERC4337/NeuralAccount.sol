@@ -0,0 +1,300 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IAccount.sol";
+import "../neural/IPatternKnowledgeVerifier.sol";
+
+// ERC-4337 smart account whose user operations are authorized by a neural
+// signature. userOp.signature is laid out as
+//
+//   neuralHash (32) || abi.encode(px, parity, e, s) (128) || owner signature (65)
+//
+// The neuralHash must be registered with the account, the ZK proof must
+// show knowledge of the pattern behind it bound to the userOpHash, and the
+// owner must have signed the userOpHash (EIP-191). Nonces are kept by the
+// EntryPoint.
+//
+// The recovery module can hand the account to a new owner key once the
+// account's guardians have approved and the delay has passed; see
+// NeuralRecoveryModule.
+//
+// Neural-signed ops can grant session keys: short-lived keys that sign ops
+// on their own (sessionKey (20) || session key signature (65)) but may only
+// execute the calls their policy allows, within its value caps. The gas an
+// op may be charged counts against the caps too, since the account prefunds
+// it to whichever beneficiary the op's submitter picks. The checks mirror
+// SessionKeyValidator in examples/utils/session-keys.ts.
+contract NeuralAccount is IAccount {
+    struct Session {
+        uint48 validAfter;
+        // 0 for no session
+        uint48 validUntil;
+        uint128 maxValuePerOp;
+        uint128 maxTotalValue;
+        // Call value plus the most each op could be charged for gas
+        uint128 spent;
+        // Most an op may be charged for gas: (verification + call + preVerification gas) * maxFeePerGas
+        uint128 maxGasFeePerOp;
+        // Which grant the session's permissions belong to
+        uint32 grant;
+    }
+
+    uint256 internal constant SIG_VALIDATION_FAILED = 1;
+    uint256 public constant NEURAL_SIGNATURE_LENGTH = 225;
+    uint256 public constant SESSION_SIGNATURE_LENGTH = 85;
+
+    address public immutable entryPoint;
+    IPatternKnowledgeVerifier public immutable patternVerifier;
+    address public immutable recoveryModule;
+    address public owner;
+
+    mapping(bytes32 => bool) public verifiedNeuralHashes;
+    mapping(address => Session) public sessions;
+    // keccak256(sessionKey, grant, target, selector) for each allowed call; plain ETH transfers use selector 0
+    mapping(bytes32 => bool) private sessionCalls;
+    uint32 private grants;
+
+    event NeuralHashRegistered(bytes32 indexed neuralHash);
+    event NeuralHashRevoked(bytes32 indexed neuralHash);
+    event SessionGranted(address indexed sessionKey, uint48 validAfter, uint48 validUntil);
+    event SessionRevoked(address indexed sessionKey);
+    event OwnerChanged(address indexed previousOwner, address indexed newOwner);
+
+    error NotEntryPoint(address caller);
+    error NotOwnerOrEntryPoint(address caller);
+    error NotRecoveryModule(address caller);
+    error LengthMismatch();
+    error InvalidSessionWindow(uint48 validAfter, uint48 validUntil);
+
+    modifier onlyEntryPoint() {
+        if (msg.sender != entryPoint) revert NotEntryPoint(msg.sender);
+        _;
+    }
+
+    modifier onlyOwnerOrEntryPoint() {
+        if (msg.sender != owner && msg.sender != entryPoint) revert NotOwnerOrEntryPoint(msg.sender);
+        _;
+    }
+
+    constructor(address entryPoint_, address verifier, address recoveryModule_, address owner_, bytes32 neuralHash) {
+        entryPoint = entryPoint_;
+        patternVerifier = IPatternKnowledgeVerifier(verifier);
+        recoveryModule = recoveryModule_;
+        owner = owner_;
+        verifiedNeuralHashes[neuralHash] = true;
+        emit NeuralHashRegistered(neuralHash);
+    }
+
+    receive() external payable {}
+
+    function validateUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash,
+        uint256 missingAccountFunds
+    ) external onlyEntryPoint returns (uint256 validationData) {
+        if (userOp.signature.length == SESSION_SIGNATURE_LENGTH) {
+            validationData = _validateSession(userOp, userOpHash);
+        } else {
+            validationData = _validateNeuralSignature(userOp.signature, userOpHash);
+        }
+
+        if (missingAccountFunds > 0) {
+            // The EntryPoint checks the prefund itself, so a failed payment is not handled here
+            (bool paid, ) = payable(msg.sender).call{value: missingAccountFunds}("");
+            (paid);
+        }
+    }
+
+    function execute(address dest, uint256 value, bytes calldata func) external onlyOwnerOrEntryPoint {
+        _call(dest, value, func);
+    }
+
+    function executeBatch(
+        address[] calldata dest,
+        uint256[] calldata value,
+        bytes[] calldata func
+    ) external onlyOwnerOrEntryPoint {
+        if (dest.length != value.length || dest.length != func.length) revert LengthMismatch();
+        for (uint256 i = 0; i < dest.length; i++) {
+            _call(dest[i], value[i], func[i]);
+        }
+    }
+
+    function registerNeuralHash(bytes32 neuralHash) external onlyOwnerOrEntryPoint {
+        verifiedNeuralHashes[neuralHash] = true;
+        emit NeuralHashRegistered(neuralHash);
+    }
+
+    function revokeNeuralHash(bytes32 neuralHash) external onlyOwnerOrEntryPoint {
+        delete verifiedNeuralHashes[neuralHash];
+        emit NeuralHashRevoked(neuralHash);
+    }
+
+    // Only through a user op, and session ops can't call the account itself, so
+    // every grant carries a neural signature. Replaces any earlier session for the key.
+    function grantSession(
+        address sessionKey,
+        uint48 validAfter,
+        uint48 validUntil,
+        uint128 maxValuePerOp,
+        uint128 maxTotalValue,
+        uint128 maxGasFeePerOp,
+        address[] calldata targets,
+        bytes4[] calldata selectors
+    ) external onlyEntryPoint {
+        if (validUntil == 0 || validUntil <= validAfter) revert InvalidSessionWindow(validAfter, validUntil);
+        if (targets.length != selectors.length) revert LengthMismatch();
+
+        uint32 grant = ++grants;
+        sessions[sessionKey] = Session(validAfter, validUntil, maxValuePerOp, maxTotalValue, 0, maxGasFeePerOp, grant);
+        for (uint256 i = 0; i < targets.length; i++) {
+            sessionCalls[_sessionCallId(sessionKey, grant, targets[i], selectors[i])] = true;
+        }
+        emit SessionGranted(sessionKey, validAfter, validUntil);
+    }
+
+    // The owner can revoke directly, without a neural signature, to cut off a leaked key quickly
+    function revokeSession(address sessionKey) external onlyOwnerOrEntryPoint {
+        delete sessions[sessionKey];
+        emit SessionRevoked(sessionKey);
+    }
+
+    // A guardian-approved recovery: new owner key, and optionally a neural hash swapped for another (0 to keep)
+    function recover(address newOwner, bytes32 oldNeuralHash, bytes32 newNeuralHash) external {
+        if (msg.sender != recoveryModule) revert NotRecoveryModule(msg.sender);
+
+        emit OwnerChanged(owner, newOwner);
+        owner = newOwner;
+        if (oldNeuralHash != bytes32(0)) {
+            delete verifiedNeuralHashes[oldNeuralHash];
+            emit NeuralHashRevoked(oldNeuralHash);
+        }
+        if (newNeuralHash != bytes32(0)) {
+            verifiedNeuralHashes[newNeuralHash] = true;
+            emit NeuralHashRegistered(newNeuralHash);
+        }
+    }
+
+    function sessionAllows(address sessionKey, address target, bytes4 selector) external view returns (bool) {
+        Session storage session = sessions[sessionKey];
+        return session.validUntil != 0 && sessionCalls[_sessionCallId(sessionKey, session.grant, target, selector)];
+    }
+
+    // Signature failures return SIG_VALIDATION_FAILED rather than revert, as ERC-4337 asks
+    function _validateNeuralSignature(bytes calldata signature, bytes32 userOpHash) private view returns (uint256) {
+        if (signature.length != NEURAL_SIGNATURE_LENGTH) {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        bytes32 neuralHash = bytes32(signature[0:32]);
+        if (!verifiedNeuralHashes[neuralHash]) {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        (uint256 px, uint8 parity, uint256 e, uint256 s) =
+            abi.decode(signature[32:160], (uint256, uint8, uint256, uint256));
+        if (!patternVerifier.verify(neuralHash, px, parity, userOpHash, e, s)) {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        address signer = _recover(userOpHash, signature[160:225]);
+        if (signer == address(0) || signer != owner) {
+            return SIG_VALIDATION_FAILED;
+        }
+        return 0;
+    }
+
+    // Session key signature and policy. The time window goes back to the
+    // EntryPoint in validationData; value and the op's maximum gas fee are
+    // counted against the cap when validated, whether or not the call then
+    // succeeds.
+    function _validateSession(PackedUserOperation calldata userOp, bytes32 userOpHash) private returns (uint256) {
+        address sessionKey = address(bytes20(userOp.signature[0:20]));
+        Session storage session = sessions[sessionKey];
+        if (session.validUntil == 0 || _recover(userOpHash, userOp.signature[20:85]) != sessionKey) {
+            return SIG_VALIDATION_FAILED;
+        }
+
+        (bool allowed, uint256 value) = _sessionCallValue(sessionKey, session.grant, userOp.callData);
+        uint256 gasFee = _maxGasFee(userOp);
+        if (
+            !allowed
+            || value > session.maxValuePerOp
+            || gasFee > session.maxGasFeePerOp
+            || session.spent + value + gasFee > session.maxTotalValue
+        ) {
+            return SIG_VALIDATION_FAILED;
+        }
+        session.spent += uint128(value + gasFee);
+
+        return (uint256(session.validUntil) << 160) | (uint256(session.validAfter) << (160 + 48));
+    }
+
+    // The prefund the EntryPoint asks for: the most the op can be charged, whoever submits it
+    function _maxGasFee(PackedUserOperation calldata userOp) private pure returns (uint256) {
+        uint256 verificationGasLimit = uint128(bytes16(userOp.accountGasLimits));
+        uint256 callGasLimit = uint128(uint256(userOp.accountGasLimits));
+        uint256 maxFeePerGas = uint128(uint256(userOp.gasFees));
+        return (verificationGasLimit + callGasLimit + userOp.preVerificationGas) * maxFeePerGas;
+    }
+
+    // Whether every call in execute/executeBatch `callData` is allowed, and the ETH they send
+    function _sessionCallValue(
+        address sessionKey,
+        uint32 grant,
+        bytes calldata callData
+    ) private view returns (bool allowed, uint256 value) {
+        if (callData.length < 4) {
+            return (false, 0);
+        }
+
+        bytes4 selector = bytes4(callData[0:4]);
+        if (selector == this.execute.selector) {
+            (address dest, uint256 callValue, bytes memory func) = abi.decode(callData[4:], (address, uint256, bytes));
+            return (_sessionCallAllowed(sessionKey, grant, dest, func), callValue);
+        }
+        if (selector == this.executeBatch.selector) {
+            (address[] memory dest, uint256[] memory callValue, bytes[] memory func) =
+                abi.decode(callData[4:], (address[], uint256[], bytes[]));
+            if (dest.length != callValue.length || dest.length != func.length) {
+                return (false, 0);
+            }
+            for (uint256 i = 0; i < dest.length; i++) {
+                if (!_sessionCallAllowed(sessionKey, grant, dest[i], func[i])) {
+                    return (false, 0);
+                }
+                value += callValue[i];
+            }
+            return (true, value);
+        }
+        return (false, 0);
+    }
+
+    function _sessionCallAllowed(address sessionKey, uint32 grant, address target, bytes memory func) private view returns (bool) {
+        // Sessions can't reach the account's own settings or its guardians
+        if (target == address(this) || target == recoveryModule || (func.length != 0 && func.length < 4)) {
+            return false;
+        }
+        bytes4 selector = func.length == 0 ? bytes4(0) : bytes4(func);
+        return sessionCalls[_sessionCallId(sessionKey, grant, target, selector)];
+    }
+
+    function _sessionCallId(address sessionKey, uint32 grant, address target, bytes4 selector) private pure returns (bytes32) {
+        return keccak256(abi.encode(sessionKey, grant, target, selector));
+    }
+
+    // EIP-191 signer of `hash`; address(0) for a malformed signature
+    function _recover(bytes32 hash, bytes calldata signature) private pure returns (address) {
+        bytes32 digest = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", hash));
+        return ecrecover(digest, uint8(signature[64]), bytes32(signature[0:32]), bytes32(signature[32:64]));
+    }
+
+    function _call(address target, uint256 value, bytes calldata data) private {
+        (bool success, bytes memory result) = target.call{value: value}(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+}
@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+interface INeuralAccountRecovery {
+    function recover(address newOwner, bytes32 oldNeuralHash, bytes32 newNeuralHash) external;
+}
+
+// Social recovery for NeuralAccounts. An account registers its guardians,
+// how many of them must approve and a delay. When the owner's device is
+// lost, M of the N guardians sign an EIP-712 Recovery naming a new owner
+// key (and optionally a neural hash to rotate); after the delay anyone can
+// execute it. Until then the account can cancel it, so an owner who still
+// has their device can stop a recovery they didn't ask for. The checks
+// mirror examples/utils/social-recovery.ts.
+contract NeuralRecoveryModule is EIP712 {
+    struct GuardianConfig {
+        address[] guardians;
+        uint256 threshold;
+        uint256 delay;
+    }
+
+    struct PendingRecovery {
+        address newOwner;
+        bytes32 oldNeuralHash;
+        bytes32 newNeuralHash;
+        // 0 when nothing is pending
+        uint256 executeAfter;
+    }
+
+    bytes32 public constant RECOVERY_TYPEHASH = keccak256(
+        "Recovery(address account,address newOwner,bytes32 oldNeuralHash,bytes32 newNeuralHash,uint256 nonce)"
+    );
+
+    mapping(address => GuardianConfig) private configs;
+    mapping(address => mapping(address => bool)) public isGuardian;
+    mapping(address => PendingRecovery) public pendingRecoveries;
+    // Bumped by every initiation and guardian change, so approvals are single-use
+    mapping(address => uint256) public nonces;
+
+    event GuardiansSet(address indexed account, address[] guardians, uint256 threshold, uint256 delay);
+    event RecoveryInitiated(address indexed account, address newOwner, uint256 executeAfter);
+    event RecoveryCancelled(address indexed account);
+    event RecoveryExecuted(address indexed account, address newOwner);
+
+    error InvalidGuardianConfig();
+    error RecoveryNotConfigured(address account);
+    error RecoveryAlreadyPending(address account);
+    error NoPendingRecovery(address account);
+    error RecoveryNotReady(uint256 executeAfter);
+    error InvalidNewOwner();
+    error NotEnoughApprovals(uint256 approvals, uint256 threshold);
+    error UnsortedApprovals();
+    error NotGuardian(address signer);
+
+    constructor() EIP712("NeuralRecovery", "1") {}
+
+    // Called by the account. Replaces the guardians, voids outstanding approvals and cancels a pending recovery.
+    function setGuardians(address[] calldata guardians, uint256 threshold, uint256 delay) external {
+        if (threshold == 0 || threshold > guardians.length || delay == 0) revert InvalidGuardianConfig();
+
+        GuardianConfig storage config = configs[msg.sender];
+        for (uint256 i = 0; i < config.guardians.length; i++) {
+            delete isGuardian[msg.sender][config.guardians[i]];
+        }
+        for (uint256 i = 0; i < guardians.length; i++) {
+            if (guardians[i] == address(0) || guardians[i] == msg.sender || isGuardian[msg.sender][guardians[i]]) {
+                revert InvalidGuardianConfig();
+            }
+            isGuardian[msg.sender][guardians[i]] = true;
+        }
+
+        configs[msg.sender] = GuardianConfig(guardians, threshold, delay);
+        delete pendingRecoveries[msg.sender];
+        nonces[msg.sender]++;
+        emit GuardiansSet(msg.sender, guardians, threshold, delay);
+    }
+
+    function guardiansOf(address account) external view returns (address[] memory guardians, uint256 threshold, uint256 delay) {
+        GuardianConfig storage config = configs[account];
+        return (config.guardians, config.threshold, config.delay);
+    }
+
+    // Start the timelock with at least `threshold` guardian signatures, ordered by signer address
+    function initiateRecovery(
+        address account,
+        address newOwner,
+        bytes32 oldNeuralHash,
+        bytes32 newNeuralHash,
+        bytes[] calldata signatures
+    ) external {
+        GuardianConfig storage config = configs[account];
+        if (config.threshold == 0) revert RecoveryNotConfigured(account);
+        if (pendingRecoveries[account].executeAfter != 0) revert RecoveryAlreadyPending(account);
+        if (newOwner == address(0)) revert InvalidNewOwner();
+        if (signatures.length < config.threshold) revert NotEnoughApprovals(signatures.length, config.threshold);
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            RECOVERY_TYPEHASH,
+            account,
+            newOwner,
+            oldNeuralHash,
+            newNeuralHash,
+            nonces[account]
+        )));
+        address previous = address(0);
+        for (uint256 i = 0; i < signatures.length; i++) {
+            address signer = ECDSA.recover(digest, signatures[i]);
+            if (signer <= previous) revert UnsortedApprovals();
+            if (!isGuardian[account][signer]) revert NotGuardian(signer);
+            previous = signer;
+        }
+
+        uint256 executeAfter = block.timestamp + config.delay;
+        pendingRecoveries[account] = PendingRecovery(newOwner, oldNeuralHash, newNeuralHash, executeAfter);
+        nonces[account]++;
+        emit RecoveryInitiated(account, newOwner, executeAfter);
+    }
+
+    // Called by the account, during the delay
+    function cancelRecovery() external {
+        if (pendingRecoveries[msg.sender].executeAfter == 0) revert NoPendingRecovery(msg.sender);
+        delete pendingRecoveries[msg.sender];
+        emit RecoveryCancelled(msg.sender);
+    }
+
+    // Anyone may execute once the delay has passed
+    function executeRecovery(address account) external {
+        PendingRecovery memory recovery = pendingRecoveries[account];
+        if (recovery.executeAfter == 0) revert NoPendingRecovery(account);
+        if (block.timestamp < recovery.executeAfter) revert RecoveryNotReady(recovery.executeAfter);
+
+        delete pendingRecoveries[account];
+        INeuralAccountRecovery(account).recover(recovery.newOwner, recovery.oldNeuralHash, recovery.newNeuralHash);
+        emit RecoveryExecuted(account, recovery.newOwner);
+    }
+}
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+
+// Push-style airdrop: the sender approves this contract once, then pays for
+// every transfer, one call per chunk of recipients. Stateless, so one
+// deployment serves every token and sender.
+contract BatchDistributor {
+    using SafeERC20 for IERC20;
+
+    error LengthMismatch();
+
+    function pushERC20(IERC20 token, address[] calldata recipients, uint256[] calldata amounts) external {
+        if (recipients.length != amounts.length) revert LengthMismatch();
+        for (uint256 i = 0; i < recipients.length; i++) {
+            token.safeTransferFrom(msg.sender, recipients[i], amounts[i]);
+        }
+    }
+
+    function pushERC721(IERC721 token, address[] calldata recipients, uint256[] calldata tokenIds) external {
+        if (recipients.length != tokenIds.length) revert LengthMismatch();
+        for (uint256 i = 0; i < recipients.length; i++) {
+            token.safeTransferFrom(msg.sender, recipients[i], tokenIds[i]);
+        }
+    }
+
+    function pushERC1155(
+        IERC1155 token,
+        address[] calldata recipients,
+        uint256[] calldata ids,
+        uint256[] calldata amounts
+    ) external {
+        if (recipients.length != ids.length || recipients.length != amounts.length) revert LengthMismatch();
+        for (uint256 i = 0; i < recipients.length; i++) {
+            token.safeTransferFrom(msg.sender, recipients[i], ids[i], amounts[i], "");
+        }
+    }
+}
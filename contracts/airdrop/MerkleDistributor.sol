@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/structs/BitMaps.sol";
+
+// Claim-based airdrop: recipients (or anyone on their behalf) claim their
+// entry with a Merkle proof and the tokens move straight from the funder,
+// who approves this contract once. Leaves are
+// keccak256(keccak256(abi.encode(index, account, tokenId, amount))), as
+// built by examples/utils/airdrop.ts; tokenId is 0 for ERC-20 and amount
+// is 1 for ERC-721.
+contract MerkleDistributor {
+    using SafeERC20 for IERC20;
+    using BitMaps for BitMaps.BitMap;
+
+    enum Standard {
+        ERC20,
+        ERC721,
+        ERC1155
+    }
+
+    address public immutable token;
+    Standard public immutable standard;
+    bytes32 public immutable merkleRoot;
+    address public immutable funder;
+
+    BitMaps.BitMap private _claimed;
+
+    event Claimed(uint256 indexed index, address indexed account, uint256 tokenId, uint256 amount);
+
+    error AlreadyClaimed(uint256 index);
+    error InvalidProof();
+
+    constructor(address token_, Standard standard_, bytes32 merkleRoot_, address funder_) {
+        token = token_;
+        standard = standard_;
+        merkleRoot = merkleRoot_;
+        funder = funder_;
+    }
+
+    function isClaimed(uint256 index) external view returns (bool) {
+        return _claimed.get(index);
+    }
+
+    function claim(
+        uint256 index,
+        address account,
+        uint256 tokenId,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external {
+        if (_claimed.get(index)) revert AlreadyClaimed(index);
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(index, account, tokenId, amount))));
+        if (!MerkleProof.verifyCalldata(proof, merkleRoot, leaf)) revert InvalidProof();
+
+        _claimed.set(index);
+        if (standard == Standard.ERC20) {
+            IERC20(token).safeTransferFrom(funder, account, amount);
+        } else if (standard == Standard.ERC721) {
+            IERC721(token).safeTransferFrom(funder, account, tokenId);
+        } else {
+            IERC1155(token).safeTransferFrom(funder, account, tokenId, amount, "");
+        }
+        emit Claimed(index, account, tokenId, amount);
+    }
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// PatternKnowledgeVerifier as its callers see it
+interface IPatternKnowledgeVerifier {
+    function verify(
+        bytes32 neuralHash,
+        uint256 px,
+        uint8 parity,
+        bytes32 context,
+        uint256 e,
+        uint256 s
+    ) external view returns (bool);
+}
@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "./IPatternKnowledgeVerifier.sol";
+
+// ERC-1155 whose holders move several token ids to several recipients with
+// one NeuralProof: the holder's EIP-712 signature over the whole batch plus
+// a ZK proof of their pattern bound to the same digest. Each recipient's
+// items go out as one safeBatchTransferFrom. The proof checks match
+// NeuralToken's; the batch hashing mirrors examples/utils/neural-batch.ts.
+contract NeuralMultiToken is ERC1155, Ownable, EIP712 {
+    struct NeuralProof {
+        bytes32 neuralHash;
+        // abi.encode(px, parity, e, s), bound to the EIP-712 digest the holder signs
+        bytes zkProof;
+        uint256 nonce;
+        uint256 timestamp;
+        uint256 expiry;
+        bytes signature;
+    }
+
+    // The items one recipient receives
+    struct RecipientBatch {
+        address to;
+        uint256[] ids;
+        uint256[] amounts;
+    }
+
+    bytes32 public constant RECIPIENT_BATCH_TYPEHASH =
+        keccak256("RecipientBatch(address to,uint256[] ids,uint256[] amounts)");
+    bytes32 public constant BATCH_TRANSFER_TYPEHASH = keccak256(
+        "BatchTransfer(address from,RecipientBatch[] batches)"
+        "RecipientBatch(address to,uint256[] ids,uint256[] amounts)"
+    );
+    bytes32 public constant NEURAL_BATCH_PROOF_TYPEHASH = keccak256(
+        "NeuralBatchProof(BatchTransfer batch,address sender,bytes32 neuralHash,uint256 nonce,uint256 timestamp,uint256 expiry)"
+        "BatchTransfer(address from,RecipientBatch[] batches)"
+        "RecipientBatch(address to,uint256[] ids,uint256[] amounts)"
+    );
+
+    // Clock difference tolerated between the prover and the chain
+    uint256 public constant MAX_CLOCK_SKEW = 30;
+
+    IPatternKnowledgeVerifier public immutable patternVerifier;
+
+    mapping(address => bytes32) public neuralHashes;
+    mapping(address => uint256) public nonces;
+
+    event NeuralSignatureRegistered(address indexed account, bytes32 neuralHash);
+
+    error NeuralSignatureNotRegistered(address account);
+    error NeuralHashMismatch();
+    error NeuralProofExpired(uint256 expiry);
+    error NeuralProofNotYetValid(uint256 timestamp);
+    error InvalidNeuralNonce(uint256 expected);
+    error InvalidNeuralSigner(address signer);
+    error InvalidPatternProof();
+    error EmptyBatch();
+
+    constructor(address verifier, string memory uri_)
+        ERC1155(uri_)
+        Ownable(msg.sender)
+        EIP712("NeuralMultiToken", "1")
+    {
+        patternVerifier = IPatternKnowledgeVerifier(verifier);
+    }
+
+    function mintBatch(address to, uint256[] calldata ids, uint256[] calldata amounts) external onlyOwner {
+        _mintBatch(to, ids, amounts, "");
+    }
+
+    function registerNeuralSignature(bytes32 neuralHash) external {
+        neuralHashes[msg.sender] = neuralHash;
+        emit NeuralSignatureRegistered(msg.sender, neuralHash);
+    }
+
+    // Send every batch from `from`, authorized by one proof that only msg.sender may submit
+    function neuralBatchTransfer(
+        address from,
+        RecipientBatch[] calldata batches,
+        NeuralProof calldata proof
+    ) external returns (bool) {
+        if (batches.length == 0) revert EmptyBatch();
+        bytes32 registered = neuralHashes[from];
+        if (registered == bytes32(0)) revert NeuralSignatureNotRegistered(from);
+        if (proof.neuralHash != registered) revert NeuralHashMismatch();
+        if (block.timestamp > proof.expiry) revert NeuralProofExpired(proof.expiry);
+        if (proof.timestamp > block.timestamp + MAX_CLOCK_SKEW) revert NeuralProofNotYetValid(proof.timestamp);
+        if (proof.nonce != nonces[from]) revert InvalidNeuralNonce(nonces[from]);
+
+        bytes32 digest = _proofDigest(hashBatch(from, batches), proof);
+        address signer = ECDSA.recover(digest, proof.signature);
+        if (signer != from) revert InvalidNeuralSigner(signer);
+
+        // The digest covers chain, contract, sender, nonce and expiry, so the ZK proof can't be reused either
+        (uint256 px, uint8 parity, uint256 e, uint256 s) = abi.decode(proof.zkProof, (uint256, uint8, uint256, uint256));
+        if (!patternVerifier.verify(registered, px, parity, digest, e, s)) revert InvalidPatternProof();
+
+        nonces[from] = proof.nonce + 1;
+        for (uint256 i = 0; i < batches.length; i++) {
+            _safeBatchTransferFrom(from, batches[i].to, batches[i].ids, batches[i].amounts, "");
+        }
+        return true;
+    }
+
+    // EIP-712 struct hash of a BatchTransfer
+    function hashBatch(address from, RecipientBatch[] calldata batches) public pure returns (bytes32) {
+        bytes32[] memory batchHashes = new bytes32[](batches.length);
+        for (uint256 i = 0; i < batches.length; i++) {
+            batchHashes[i] = keccak256(
+                abi.encode(
+                    RECIPIENT_BATCH_TYPEHASH,
+                    batches[i].to,
+                    keccak256(abi.encodePacked(batches[i].ids)),
+                    keccak256(abi.encodePacked(batches[i].amounts))
+                )
+            );
+        }
+        return keccak256(abi.encode(BATCH_TRANSFER_TYPEHASH, from, keccak256(abi.encodePacked(batchHashes))));
+    }
+
+    function _proofDigest(bytes32 batchHash, NeuralProof calldata proof) private view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    NEURAL_BATCH_PROOF_TYPEHASH,
+                    batchHash,
+                    msg.sender,
+                    proof.neuralHash,
+                    proof.nonce,
+                    proof.timestamp,
+                    proof.expiry
+                )
+            )
+        );
+    }
+}
@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+// ERC-5192: minimal soulbound NFTs
+interface IERC5192 {
+    event Locked(uint256 tokenId);
+    event Unlocked(uint256 tokenId);
+
+    function locked(uint256 tokenId) external view returns (bool);
+}
+
+// Soulbound identity credential bound to a neural hash. Tokens can't be
+// transferred or approved; if a holder loses their wallet, the issuer
+// revokes the token and reissues the same credential to a new wallet.
+contract NeuralSBT is ERC721, IERC5192 {
+    address public immutable issuer;
+    uint256 private _nextTokenId = 1;
+
+    mapping(uint256 => bytes32) public neuralHashOf;
+    mapping(uint256 => string) private _tokenURIs;
+
+    event Revoked(uint256 indexed tokenId);
+    event Reissued(uint256 indexed oldTokenId, uint256 indexed newTokenId, address indexed to);
+
+    error NotIssuer(address account);
+    error TokenIsSoulbound(uint256 tokenId);
+    error SoulboundApprovalDisabled();
+
+    modifier onlyIssuer() {
+        if (msg.sender != issuer) revert NotIssuer(msg.sender);
+        _;
+    }
+
+    constructor(address issuer_) ERC721("NeuralSBT", "NSBT") {
+        issuer = issuer_;
+    }
+
+    function issue(address to, bytes32 neuralHash, string calldata uri) external onlyIssuer returns (uint256) {
+        return _issue(to, neuralHash, uri);
+    }
+
+    function revoke(uint256 tokenId) external onlyIssuer {
+        _revoke(tokenId);
+    }
+
+    // Recovery: move the credential to a new wallet as a fresh token
+    function reissue(uint256 tokenId, address to) external onlyIssuer returns (uint256 newTokenId) {
+        bytes32 neuralHash = neuralHashOf[tokenId];
+        string memory uri = _tokenURIs[tokenId];
+        _revoke(tokenId);
+        newTokenId = _issue(to, neuralHash, uri);
+        emit Reissued(tokenId, newTokenId, to);
+    }
+
+    function locked(uint256 tokenId) external view returns (bool) {
+        _requireOwned(tokenId);
+        return true;
+    }
+
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        return _tokenURIs[tokenId];
+    }
+
+    function approve(address, uint256) public pure override {
+        revert SoulboundApprovalDisabled();
+    }
+
+    function setApprovalForAll(address, bool) public pure override {
+        revert SoulboundApprovalDisabled();
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override returns (bool) {
+        return interfaceId == type(IERC5192).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    // Mints and burns only: every transfer path ends here
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        address from = _ownerOf(tokenId);
+        if (from != address(0) && to != address(0)) revert TokenIsSoulbound(tokenId);
+        return super._update(to, tokenId, auth);
+    }
+
+    function _issue(address to, bytes32 neuralHash, string memory uri) private returns (uint256 tokenId) {
+        tokenId = _nextTokenId++;
+        neuralHashOf[tokenId] = neuralHash;
+        _tokenURIs[tokenId] = uri;
+        _safeMint(to, tokenId);
+        emit Locked(tokenId);
+    }
+
+    function _revoke(uint256 tokenId) private {
+        _burn(tokenId);
+        delete neuralHashOf[tokenId];
+        delete _tokenURIs[tokenId];
+        emit Revoked(tokenId);
+    }
+}
@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "./IPatternKnowledgeVerifier.sol";
+
+// ERC-20 whose holders register a neural hash and then move tokens with a
+// NeuralProof: the holder's EIP-712 signature over the transfer plus a ZK
+// proof of the pattern behind the registered hash, bound to the same
+// digest. The checks mirror NeuralProofVerifier in
+// examples/utils/neural-proof.ts.
+//
+// The neural path is opt-in: registering a hash adds neuralTransfer but
+// does not restrict the holder's plain ERC-20 transfer, transferFrom and
+// approve, so the private key alone still moves the tokens.
+contract NeuralToken is ERC20, EIP712 {
+    struct NeuralProof {
+        bytes32 neuralHash;
+        // abi.encode(px, parity, e, s), bound to the EIP-712 digest the holder signs
+        bytes zkProof;
+        uint256 nonce;
+        uint256 timestamp;
+        uint256 expiry;
+        bytes signature;
+    }
+
+    bytes32 public constant TOKEN_TRANSFER_TYPEHASH =
+        keccak256("TokenTransfer(address from,address to,uint256 amount,uint256 tokenId)");
+    bytes32 public constant NEURAL_PROOF_TYPEHASH = keccak256(
+        "NeuralProof(TokenTransfer transfer,address sender,bytes32 neuralHash,uint256 nonce,uint256 timestamp,uint256 expiry)"
+        "TokenTransfer(address from,address to,uint256 amount,uint256 tokenId)"
+    );
+
+    // Clock difference tolerated between the prover and the chain
+    uint256 public constant MAX_CLOCK_SKEW = 30;
+    // tokenId signed for fungible transfers
+    uint256 private constant NO_TOKEN_ID = type(uint256).max;
+
+    IPatternKnowledgeVerifier public immutable patternVerifier;
+
+    mapping(address => bytes32) public neuralHashes;
+    mapping(address => uint256) public nonces;
+
+    event NeuralSignatureRegistered(address indexed account, bytes32 neuralHash);
+
+    error NeuralSignatureNotRegistered(address account);
+    error NeuralHashMismatch();
+    error NeuralProofExpired(uint256 expiry);
+    error NeuralProofNotYetValid(uint256 timestamp);
+    error InvalidNeuralNonce(uint256 expected);
+    error InvalidNeuralSigner(address signer);
+    error InvalidPatternProof();
+
+    constructor(address verifier) ERC20("NeuralToken", "NRL") EIP712("NeuralToken", "1") {
+        patternVerifier = IPatternKnowledgeVerifier(verifier);
+        _mint(msg.sender, 1000000 * (10 ** uint256(decimals())));
+    }
+
+    // Enables neuralTransfer from msg.sender; plain transfers stay available
+    function registerNeuralSignature(bytes32 neuralHash) external {
+        neuralHashes[msg.sender] = neuralHash;
+        emit NeuralSignatureRegistered(msg.sender, neuralHash);
+    }
+
+    // Move `amount` from `from` to `to`, authorized by a proof that only msg.sender may submit
+    function neuralTransfer(address from, address to, uint256 amount, NeuralProof calldata proof) external returns (bool) {
+        bytes32 registered = neuralHashes[from];
+        if (registered == bytes32(0)) revert NeuralSignatureNotRegistered(from);
+        if (proof.neuralHash != registered) revert NeuralHashMismatch();
+        if (block.timestamp > proof.expiry) revert NeuralProofExpired(proof.expiry);
+        if (proof.timestamp > block.timestamp + MAX_CLOCK_SKEW) revert NeuralProofNotYetValid(proof.timestamp);
+        if (proof.nonce != nonces[from]) revert InvalidNeuralNonce(nonces[from]);
+
+        bytes32 payloadHash = keccak256(abi.encode(TOKEN_TRANSFER_TYPEHASH, from, to, amount, NO_TOKEN_ID));
+        bytes32 digest = _proofDigest(payloadHash, proof);
+        address signer = ECDSA.recover(digest, proof.signature);
+        if (signer != from) revert InvalidNeuralSigner(signer);
+
+        // The digest covers chain, contract, sender, nonce and expiry, so the ZK proof can't be reused either
+        (uint256 px, uint8 parity, uint256 e, uint256 s) = abi.decode(proof.zkProof, (uint256, uint8, uint256, uint256));
+        if (!patternVerifier.verify(registered, px, parity, digest, e, s)) revert InvalidPatternProof();
+
+        nonces[from] = proof.nonce + 1;
+        _transfer(from, to, amount);
+        return true;
+    }
+
+    function _proofDigest(bytes32 payloadHash, NeuralProof calldata proof) private view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    NEURAL_PROOF_TYPEHASH,
+                    payloadHash,
+                    msg.sender,
+                    proof.neuralHash,
+                    proof.nonce,
+                    proof.timestamp,
+                    proof.expiry
+                )
+            )
+        );
+    }
+}
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Verifies Schnorr proofs of knowledge of a neural pattern secret on
+// secp256k1. The registered neuralHash commits to the public point
+// X = x·G, where x is derived from the pattern; a proof (e, s) shows the
+// prover knows x without revealing it or the pattern.
+//
+// s·G - e·X is recovered with ecrecover instead of doing curve arithmetic
+// in the EVM, so verification costs one precompile call plus two hashes.
+contract PatternKnowledgeVerifier {
+    // secp256k1 group order
+    uint256 private constant Q = 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141;
+
+    // neuralHash registered for the public point (px, parity); parity is 27 for even y, 28 for odd
+    function commitment(uint256 px, uint8 parity) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(parity, px));
+    }
+
+    // True if (e, s) proves knowledge of the secret behind `neuralHash`, bound to `context`
+    function verify(
+        bytes32 neuralHash,
+        uint256 px,
+        uint8 parity,
+        bytes32 context,
+        uint256 e,
+        uint256 s
+    ) public pure returns (bool) {
+        if (commitment(px, parity) != neuralHash) {
+            return false;
+        }
+        if (px == 0 || px >= Q || s >= Q || (parity != 27 && parity != 28)) {
+            return false;
+        }
+
+        // ecrecover(-s·px, parity, px, -e·px) returns the address of s·G - e·X
+        bytes32 sp = bytes32(Q - mulmod(s, px, Q));
+        bytes32 ep = bytes32(Q - mulmod(e, px, Q));
+        address nonceAddress = ecrecover(sp, parity, bytes32(px), ep);
+        if (nonceAddress == address(0)) {
+            return false;
+        }
+
+        return e == uint256(keccak256(abi.encodePacked(nonceAddress, parity, px, context)));
+    }
+}
@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Baseline: reverts carry a revert string
+contract RevertStringToken {
+    mapping(address => uint256) public balanceOf;
+
+    constructor(uint256 supply) {
+        balanceOf[msg.sender] = supply;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "ERC20: transfer amount exceeds balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+}
+
+// Optimized: reverts carry a 4-byte custom error selector
+contract CustomErrorToken {
+    error InsufficientBalance(uint256 balance, uint256 needed);
+
+    mapping(address => uint256) public balanceOf;
+
+    constructor(uint256 supply) {
+        balanceOf[msg.sender] = supply;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        uint256 fromBalance = balanceOf[msg.sender];
+        if (fromBalance < amount) {
+            revert InsufficientBalance(fromBalance, amount);
+        }
+        balanceOf[msg.sender] = fromBalance - amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+}
+
+// Calls a target and swallows its revert, so revert paths can be measured in a mined transaction
+contract RevertProbe {
+    event Probed(bool success, uint256 returnDataSize);
+
+    function probe(address target, bytes calldata data) external {
+        (bool success, bytes memory returnData) = target.call(data);
+        emit Probed(success, returnData.length);
+    }
+}
@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC1155Receiver {
+    function onERC1155Received(address operator, address from, uint256 id, uint256 value, bytes calldata data)
+        external
+        returns (bytes4);
+
+    function onERC1155BatchReceived(
+        address operator,
+        address from,
+        uint256[] calldata ids,
+        uint256[] calldata values,
+        bytes calldata data
+    ) external returns (bytes4);
+}
+
+// Optimized counterpart of the OpenZeppelin-based MultiToken: same
+// constructor and transfer interface, but no supply tracking or pause check
+// on transfers, an immutable owner, custom errors, and a sender balance
+// that is checked once and then updated unchecked
+contract LeanMultiToken {
+    error NotOwner(address caller);
+    error NotApproved(address operator, address owner);
+    error InsufficientBalance(uint256 id, uint256 balance, uint256 needed);
+    error LengthMismatch(uint256 ids, uint256 values);
+    error InvalidReceiver(address receiver);
+
+    event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value);
+    event TransferBatch(
+        address indexed operator,
+        address indexed from,
+        address indexed to,
+        uint256[] ids,
+        uint256[] values
+    );
+    event ApprovalForAll(address indexed account, address indexed operator, bool approved);
+    event URI(string value, uint256 indexed id);
+
+    string public name;
+    string public symbol;
+    address public immutable owner;
+    string private _uri;
+
+    mapping(uint256 => mapping(address => uint256)) public balanceOf;
+    mapping(address => mapping(address => bool)) public isApprovedForAll;
+
+    constructor(string memory name_, string memory symbol_, string memory uri_) {
+        name = name_;
+        symbol = symbol_;
+        _uri = uri_;
+        owner = msg.sender;
+    }
+
+    function uri(uint256) external view returns (string memory) {
+        return _uri;
+    }
+
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        // ERC-165, ERC-1155 and ERC-1155 metadata URI
+        return interfaceId == 0x01ffc9a7 || interfaceId == 0xd9b67a26 || interfaceId == 0x0e89341c;
+    }
+
+    function balanceOfBatch(address[] calldata accounts, uint256[] calldata ids)
+        external
+        view
+        returns (uint256[] memory balances)
+    {
+        if (accounts.length != ids.length) revert LengthMismatch(ids.length, accounts.length);
+        balances = new uint256[](accounts.length);
+        for (uint256 i = 0; i < accounts.length; ) {
+            balances[i] = balanceOf[ids[i]][accounts[i]];
+            unchecked { ++i; }
+        }
+    }
+
+    function setApprovalForAll(address operator, bool approved) external {
+        isApprovedForAll[msg.sender][operator] = approved;
+        emit ApprovalForAll(msg.sender, operator, approved);
+    }
+
+    function mintBatch(address to, uint256[] calldata ids, uint256[] calldata values, bytes calldata data) external {
+        if (msg.sender != owner) revert NotOwner(msg.sender);
+        if (ids.length != values.length) revert LengthMismatch(ids.length, values.length);
+        for (uint256 i = 0; i < ids.length; ) {
+            balanceOf[ids[i]][to] += values[i];
+            unchecked { ++i; }
+        }
+        emit TransferBatch(msg.sender, address(0), to, ids, values);
+        _checkBatchReceiver(address(0), to, ids, values, data);
+    }
+
+    function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes calldata data) external {
+        if (from != msg.sender && !isApprovedForAll[from][msg.sender]) revert NotApproved(msg.sender, from);
+        _move(from, to, id, value);
+        emit TransferSingle(msg.sender, from, to, id, value);
+        if (to.code.length > 0) {
+            if (IERC1155Receiver(to).onERC1155Received(msg.sender, from, id, value, data)
+                != IERC1155Receiver.onERC1155Received.selector) revert InvalidReceiver(to);
+        } else if (to == address(0)) {
+            revert InvalidReceiver(to);
+        }
+    }
+
+    function safeBatchTransferFrom(
+        address from,
+        address to,
+        uint256[] calldata ids,
+        uint256[] calldata values,
+        bytes calldata data
+    ) external {
+        if (from != msg.sender && !isApprovedForAll[from][msg.sender]) revert NotApproved(msg.sender, from);
+        if (ids.length != values.length) revert LengthMismatch(ids.length, values.length);
+        for (uint256 i = 0; i < ids.length; ) {
+            _move(from, to, ids[i], values[i]);
+            unchecked { ++i; }
+        }
+        emit TransferBatch(msg.sender, from, to, ids, values);
+        _checkBatchReceiver(from, to, ids, values, data);
+    }
+
+    function _move(address from, address to, uint256 id, uint256 value) private {
+        uint256 fromBalance = balanceOf[id][from];
+        if (fromBalance < value) revert InsufficientBalance(id, fromBalance, value);
+        unchecked {
+            balanceOf[id][from] = fromBalance - value;
+        }
+        balanceOf[id][to] += value;
+    }
+
+    function _checkBatchReceiver(
+        address from,
+        address to,
+        uint256[] calldata ids,
+        uint256[] calldata values,
+        bytes calldata data
+    ) private {
+        if (to.code.length > 0) {
+            if (IERC1155Receiver(to).onERC1155BatchReceived(msg.sender, from, ids, values, data)
+                != IERC1155Receiver.onERC1155BatchReceived.selector) revert InvalidReceiver(to);
+        } else if (to == address(0)) {
+            revert InvalidReceiver(to);
+        }
+    }
+}
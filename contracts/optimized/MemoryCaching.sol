@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Baseline: the sender's balance is read and written on every loop iteration
+contract StorageLoopToken {
+    mapping(address => uint256) public balanceOf;
+
+    constructor(uint256 supply) {
+        balanceOf[msg.sender] = supply;
+    }
+
+    function batchTransfer(address[] calldata recipients, uint256[] calldata amounts) external returns (bool) {
+        require(recipients.length == amounts.length, "Arrays length mismatch");
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(balanceOf[msg.sender] >= amounts[i], "Insufficient balance");
+            balanceOf[msg.sender] -= amounts[i];
+            balanceOf[recipients[i]] += amounts[i];
+        }
+        return true;
+    }
+}
+
+// Optimized: the sender's balance is cached in memory and written once
+contract CachedLoopToken {
+    mapping(address => uint256) public balanceOf;
+
+    constructor(uint256 supply) {
+        balanceOf[msg.sender] = supply;
+    }
+
+    function batchTransfer(address[] calldata recipients, uint256[] calldata amounts) external returns (bool) {
+        require(recipients.length == amounts.length, "Arrays length mismatch");
+        uint256 senderBalance = balanceOf[msg.sender];
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(senderBalance >= amounts[i], "Insufficient balance");
+            senderBalance -= amounts[i];
+            balanceOf[recipients[i]] += amounts[i];
+        }
+        balanceOf[msg.sender] = senderBalance;
+        return true;
+    }
+}
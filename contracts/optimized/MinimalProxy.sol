@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/proxy/Clones.sol";
+
+// Token that can be deployed directly or cloned: setup lives in initialize()
+contract CloneableToken {
+    string public name;
+    string public symbol;
+    bool private _initialized;
+    // Clones run this code with their own storage, so initialize() can tell
+    // them from the deployed contract, which only its deployer may set up
+    address private immutable _self = address(this);
+    address private immutable _deployer = msg.sender;
+
+    mapping(address => uint256) public balanceOf;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    function initialize(string calldata name_, string calldata symbol_, uint256 supply, address owner) external {
+        require(!_initialized, "Already initialized");
+        require(address(this) != _self || msg.sender == _deployer, "Only the deployer initializes");
+        _initialized = true;
+        name = name_;
+        symbol = symbol_;
+        balanceOf[owner] = supply;
+        emit Transfer(address(0), owner, supply);
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "Insufficient balance");
+        unchecked {
+            balanceOf[msg.sender] -= amount;
+        }
+        balanceOf[to] += amount;
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+}
+
+// EIP-1167 factory: clones any implementation and runs its initializer
+contract CloneFactory {
+    event CloneCreated(address indexed implementation, address clone);
+
+    function clone(address implementation, bytes calldata initData) external returns (address instance) {
+        instance = Clones.clone(implementation);
+        if (initData.length > 0) {
+            (bool ok, bytes memory reason) = instance.call(initData);
+            if (!ok) {
+                assembly {
+                    revert(add(reason, 32), mload(reason))
+                }
+            }
+        }
+        emit CloneCreated(implementation, instance);
+    }
+}
@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Baseline: balance and last-transfer time live in separate storage slots
+contract UnpackedBalanceToken {
+    mapping(address => uint256) public balanceOf;
+    mapping(address => uint256) public lastTransferAt;
+
+    constructor(uint256 supply) {
+        balanceOf[msg.sender] = supply;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "Insufficient balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        lastTransferAt[msg.sender] = block.timestamp;
+        lastTransferAt[to] = block.timestamp;
+        return true;
+    }
+}
+
+// Optimized: both fields packed into a single slot per account
+contract PackedBalanceToken {
+    struct Account {
+        uint192 balance;
+        uint64 lastTransferAt;
+    }
+
+    mapping(address => Account) private _accounts;
+
+    constructor(uint256 supply) {
+        _accounts[msg.sender].balance = uint192(supply);
+    }
+
+    function balanceOf(address account) external view returns (uint256) {
+        return _accounts[account].balance;
+    }
+
+    function lastTransferAt(address account) external view returns (uint256) {
+        return _accounts[account].lastTransferAt;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        Account storage sender = _accounts[msg.sender];
+        Account storage recipient = _accounts[to];
+        require(sender.balance >= amount, "Insufficient balance");
+        sender.balance -= uint192(amount);
+        sender.lastTransferAt = uint64(block.timestamp);
+        recipient.balance += uint192(amount);
+        recipient.lastTransferAt = uint64(block.timestamp);
+        return true;
+    }
+}
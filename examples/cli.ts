@@ -0,0 +1,465 @@
+#!/usr/bin/env tsx
+/**
+ * Token Standards Demo CLI
+ *
+ * Usage:
+ *   tsx examples/cli.ts <gas|neural> [scenario...] [flags]
+ *   tsx examples/cli.ts tokenomics [config.yaml] [flags]
+ *
+ * Common flags (env var in brackets, read from --env-file or .env):
+ *   --rpc-url <url>        node to talk to [RPC_URL]
+ *   --network <name>       localhost | hardhat | anvil, or any name with a <NAME>_RPC_URL entry [NETWORK]
+ *   --keys <k1,k2,...>     signer private keys; gas fails instead of simulating if it can't deploy [SIGNER_KEYS]
+ *   --out <path>           JSON report path (gas only) [REPORT_PATH]
+ *   --scenario <a,b>       scenarios to run (same as positional names)
+ *   --env-file <path>      env file to read (default .env)
+ *   --json                 print only a JSON result on stdout
+ *   --list                 list scenarios and exit
+ *
+ * Gas flags:
+ *   --compare <baseline.json>  diff this run against a saved report
+ *   --current <report.json>    with --compare: diff this saved report instead of running the demos
+ *   --threshold <percent>      allowed increase per operation (default 2%)
+ *   --pricing <config.json>    static per-chain gas and fiat prices
+ *   --price-feed <feed.json>   local JSON feed for fiat prices
+ *   --gas-source <source>      fee-data | fee-history: live gas price from the node
+ *   --format <list>            extra outputs: markdown,csv,html,junit
+ *   --out-dir <dir>            where to write the extra outputs (default .)
+ *   --sweep-max <K>            largest batch size for the batch-sweep scenario (default 10)
+ *   --clone-max <K>            largest clone count for the deployment scenario (default 10)
+ *   --airdrop <list.csv>       airdrop for the airdrop scenario, with a header of address,amount (ERC-20),
+ *                              address,tokenId (ERC-721) or address,tokenId,amount (ERC-1155)
+ *   --airdrop-recipients <N>   recipients per synthetic airdrop when no list is given (default 25)
+ *   --airdrop-chunk <N>        recipients per push-style distributor call (default 100)
+ *
+ * Neural flags:
+ *   --keystore <path>          enrolled neural templates (default neural-keystore.json) [NEURAL_KEYSTORE]
+ *                              encrypted with NEURAL_KEYSTORE_PASSPHRASE when set (env only, never a flag)
+ *   --reenroll                 replace templates enrolled from another --neural-input [NEURAL_REENROLL]
+ *   --neural-input <source>    synthetic (feature vectors, default), signal (synthetic EEG)
+ *                              or a directory of <subject>/*.csv|*.edf recordings [NEURAL_INPUT]
+ *   --neural-noise <uV>        white noise for the signal source (default 2)
+ *   --neural-drift <uV/s>      baseline drift for the signal source (default 0)
+ *   --offline                  deploy to the in-process Hardhat network, no node needed [NEURAL_OFFLINE]
+ *
+ * Tokenomics flags (--pricing and --price-feed as for gas):
+ *   --config <path>            tokenomics YAML (default tokenomics.yaml) [TOKENOMICS_CONFIG]
+ *   --months <N>               months to simulate (default: until the last allocation unlocks, at least 12)
+ *   --volume-pct <percent>     share of circulating supply transacted per month (default 10)
+ */
+
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import type { GasDemoName, LiveGasSource } from './gas-optimization-demo';
+import type { NeuralDemoName } from './neural-token-demo';
+import {
+  GasReport,
+  GasSummary,
+  DEFAULT_REGRESSION_THRESHOLD_PCT,
+  compareGasReports,
+  loadGasReport,
+  printGasComparison,
+} from './utils/gas-report';
+import { GasCostEstimator, JsonPriceFeed, PricingConfig, defaultPricing, loadPricingConfig } from './utils/gas-pricing';
+import { resolveReportFormats, writeGasReports } from './utils/gas-reporters';
+import { loadAirdropCsv } from './utils/airdrop';
+import { loadTokenomics, planDeployment, printTokenomicsReport, simulateSupply } from './utils/tokenomics';
+import { NeuralInputSource, SyntheticFeatureSource } from './utils/neural-signature';
+import { FileReplayReader, SignalFeatureSource, SyntheticSignalReader } from './utils/neural-input';
+
+const COMMANDS = ['gas', 'neural', 'tokenomics'] as const;
+
+type Command = typeof COMMANDS[number];
+
+// Flags that take no value
+const BOOLEAN_FLAGS = new Set(['json', 'list', 'help', 'offline', 'reenroll']);
+
+// Networks served by a local dev node on the default port
+const LOCAL_NETWORKS = new Set(['localhost', 'hardhat', 'anvil']);
+const LOCAL_RPC_URL = 'http://localhost:8545';
+
+// The demos are loaded on demand: the gas demo needs compiled Hardhat artifacts
+const loadGasDemo = () => import('./gas-optimization-demo');
+const loadNeuralDemo = () => import('./neural-token-demo');
+
+export interface CliArgs {
+  command?: string;
+  positionals: string[];
+  flags: Record<string, string | true>;
+}
+
+interface CommonOptions {
+  rpcUrl: string;
+  network: string;
+  signerKeys?: string[];
+  reportPath?: string;
+  scenarios: string[];
+  json: boolean;
+}
+
+/**
+ * Split argv into command, positional scenario names and `--flag value` pairs
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const [command, ...rest] = argv;
+  const args: CliArgs = { command, positionals: [], flags: {} };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      args.positionals.push(arg);
+      continue;
+    }
+
+    const [name, ...inline] = arg.slice(2).split('=');
+    const inlineValue = inline.length > 0 ? inline.join('=') : undefined;
+    if (inlineValue !== undefined) {
+      args.flags[name] = inlineValue;
+    } else if (BOOLEAN_FLAGS.has(name)) {
+      args.flags[name] = true;
+    } else if (i + 1 < rest.length) {
+      args.flags[name] = rest[++i];
+    } else {
+      throw new Error(`Missing value for --${name}`);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Read an env file without touching process.env; process.env wins on conflicts
+ */
+export function loadEnv(envFile?: string): Record<string, string | undefined> {
+  const filePath = envFile ?? '.env';
+  if (!fs.existsSync(filePath)) {
+    if (envFile) {
+      throw new Error(`Env file not found: ${envFile}`);
+    }
+    return { ...process.env };
+  }
+
+  return { ...dotenv.parse(fs.readFileSync(filePath)), ...process.env };
+}
+
+/**
+ * Read `--name` as a positive integer; undefined when the flag isn't given
+ */
+export function positiveIntegerFlag(args: CliArgs, name: string): number | undefined {
+  const value = args.flags[name];
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (typeof value !== 'string' || !Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Resolve RPC URL, network, keys, output path and scenarios from flags, then env
+ */
+function resolveCommonOptions(args: CliArgs, env: Record<string, string | undefined>): CommonOptions {
+  const flag = (name: string) => {
+    const value = args.flags[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const network = flag('network') ?? env.NETWORK ?? 'localhost';
+  const networkRpcUrl = LOCAL_NETWORKS.has(network)
+    ? LOCAL_RPC_URL
+    : env[`${network.toUpperCase().replace(/-/g, '_')}_RPC_URL`];
+  const rpcUrl = flag('rpc-url') ?? env.RPC_URL ?? networkRpcUrl;
+  if (!rpcUrl) {
+    throw new Error(`No RPC URL for network "${network}": pass --rpc-url or set RPC_URL`);
+  }
+
+  const keys = flag('keys') ?? env.SIGNER_KEYS;
+
+  return {
+    rpcUrl,
+    network,
+    signerKeys: keys ? keys.split(',').map(key => key.trim()).filter(Boolean) : undefined,
+    reportPath: flag('out') ?? env.REPORT_PATH,
+    scenarios: [...args.positionals, ...(flag('scenario')?.split(',').filter(Boolean) ?? [])],
+    json: args.flags.json === true,
+  };
+}
+
+/**
+ * Validate scenario names against a demo's list; none selected means all
+ */
+function selectScenarios<T extends string>(requested: string[], available: readonly T[]): T[] {
+  if (requested.length === 0) {
+    return [...available];
+  }
+
+  const unknown = requested.filter(name => !available.includes(name as T));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scenario(s): ${unknown.join(', ')} (available: ${available.join(', ')})`);
+  }
+
+  // Keep the demo's own order
+  return available.filter(name => requested.includes(name));
+}
+
+// Console methods the demos print progress, warnings and errors through
+const CONSOLE_METHODS = ['log', 'info', 'debug', 'warn', 'error'] as const;
+
+/**
+ * Run `fn` with console output silenced when `quiet` is set, so --json prints
+ * only its result; failures still reach the caller as thrown errors
+ */
+async function quietly<T>(quiet: boolean, fn: () => Promise<T>): Promise<T> {
+  if (!quiet) {
+    return fn();
+  }
+
+  const saved = CONSOLE_METHODS.map(method => console[method]);
+  CONSOLE_METHODS.forEach(method => {
+    console[method] = () => {};
+  });
+  try {
+    return await fn();
+  } finally {
+    CONSOLE_METHODS.forEach((method, i) => {
+      console[method] = saved[i];
+    });
+  }
+}
+
+/**
+ * Static pricing from --pricing, fiat prices from --price-feed when given
+ */
+function resolvePricing(args: CliArgs): PricingConfig {
+  const pricingPath = args.flags.pricing;
+  const feedPath = args.flags['price-feed'];
+  const pricing = typeof pricingPath === 'string' ? loadPricingConfig(pricingPath) : defaultPricing();
+  if (typeof feedPath === 'string') {
+    pricing.fiat = new JsonPriceFeed(feedPath);
+  }
+  return pricing;
+}
+
+function printJson(value: unknown) {
+  process.stdout.write(
+    JSON.stringify(value, (key, v) => (typeof v === 'bigint' ? v.toString() : v), 2) + '\n'
+  );
+}
+
+async function runGasCommand(args: CliArgs, options: CommonOptions): Promise<number> {
+  const flag = (name: string) => {
+    const value = args.flags[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const baselinePath = flag('compare');
+  const currentPath = flag('current');
+  const thresholdPct = Number(flag('threshold') ?? DEFAULT_REGRESSION_THRESHOLD_PCT);
+  const gasSource = flag('gas-source');
+  const formats = resolveReportFormats(flag('format')?.split(',').filter(Boolean) ?? []);
+
+  if (currentPath && !baselinePath) {
+    throw new Error('--current needs --compare <baseline.json> to diff against');
+  }
+  if (Number.isNaN(thresholdPct)) {
+    throw new Error('--threshold must be a number (percent)');
+  }
+  const sweepMaxBatch = positiveIntegerFlag(args, 'sweep-max');
+  const cloneMaxCount = positiveIntegerFlag(args, 'clone-max');
+  const airdropRecipients = positiveIntegerFlag(args, 'airdrop-recipients');
+  const airdropChunkSize = positiveIntegerFlag(args, 'airdrop-chunk');
+  if (gasSource && gasSource !== 'fee-data' && gasSource !== 'fee-history') {
+    throw new Error('--gas-source must be fee-data or fee-history');
+  }
+
+  let current: GasReport[];
+  let summary: GasSummary | undefined;
+  let scenarios: GasDemoName[] = [];
+  if (currentPath) {
+    current = loadGasReport(currentPath);
+  } else {
+    const { GasOptimizationDemo, GAS_DEMOS } = await loadGasDemo();
+    scenarios = selectScenarios<GasDemoName>(options.scenarios, GAS_DEMOS);
+
+    const pricing = resolvePricing(args);
+
+    const demo = new GasOptimizationDemo(options.rpcUrl, {
+      pricing,
+      liveGasSource: gasSource as LiveGasSource | undefined,
+      signerKeys: options.signerKeys,
+      reportPath: options.reportPath,
+      sweepMaxBatch,
+      cloneMaxCount,
+      airdropList: flag('airdrop') ? loadAirdropCsv(flag('airdrop')!) : undefined,
+      airdropRecipients,
+      airdropChunkSize,
+    });
+    await quietly(options.json, () => demo.runDemos(scenarios));
+    current = demo.getReports();
+    summary = await demo.getSummary();
+  }
+
+  const comparison = baselinePath
+    ? compareGasReports(loadGasReport(baselinePath), current, thresholdPct)
+    : undefined;
+  const written = formats.length > 0
+    ? writeGasReports(formats, flag('out-dir') ?? '.', { reports: current, summary, comparison })
+    : [];
+
+  if (options.json) {
+    printJson({ command: 'gas', scenarios, reports: current, summary, comparison, written });
+  } else {
+    if (comparison) {
+      printGasComparison(comparison);
+    }
+    written.forEach(filePath => console.log(`📁 Report written to: ${filePath}`));
+  }
+
+  return comparison && comparison.regressions.length > 0 ? 1 : 0;
+}
+
+async function runTokenomicsCommand(
+  args: CliArgs,
+  options: CommonOptions,
+  env: Record<string, string | undefined>
+): Promise<number> {
+  const flag = (name: string) => {
+    const value = args.flags[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const months = flag('months') !== undefined ? Number(flag('months')) : undefined;
+  const monthlyVolumePct = flag('volume-pct') !== undefined ? Number(flag('volume-pct')) : undefined;
+  if (months !== undefined && !(Number.isInteger(months) && months >= 0)) {
+    throw new Error('--months must be a whole number');
+  }
+  if (monthlyVolumePct !== undefined && !(monthlyVolumePct >= 0 && monthlyVolumePct <= 100)) {
+    throw new Error('--volume-pct must be a percentage from 0 to 100');
+  }
+
+  const configPath = flag('config') ?? options.scenarios[0] ?? env.TOKENOMICS_CONFIG ?? 'tokenomics.yaml';
+  const config = loadTokenomics(configPath);
+  const supply = simulateSupply(config, { months, monthlyVolumePct });
+  const plan = await planDeployment(config, new GasCostEstimator(resolvePricing(args)));
+
+  if (options.json) {
+    printJson({ command: 'tokenomics', config: configPath, tokenomics: config, supply, plan });
+  } else {
+    printTokenomicsReport(config, supply, plan);
+  }
+  return 0;
+}
+
+/**
+ * Build the neural input source named by --neural-input / NEURAL_INPUT
+ */
+function resolveNeuralInput(args: CliArgs, env: Record<string, string | undefined>): NeuralInputSource {
+  const flag = (name: string) => {
+    const value = args.flags[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+  const input = flag('neural-input') ?? env.NEURAL_INPUT ?? 'synthetic';
+  const noise = flag('neural-noise') !== undefined ? Number(flag('neural-noise')) : undefined;
+  const drift = flag('neural-drift') !== undefined ? Number(flag('neural-drift')) : undefined;
+  if (Number.isNaN(noise) || Number.isNaN(drift)) {
+    throw new Error('--neural-noise and --neural-drift must be numbers');
+  }
+
+  if (input === 'synthetic') {
+    return new SyntheticFeatureSource();
+  }
+  if (input === 'signal') {
+    return new SignalFeatureSource(new SyntheticSignalReader({ noise, drift }));
+  }
+  if (!fs.existsSync(input) || !fs.statSync(input).isDirectory()) {
+    throw new Error(`--neural-input must be synthetic, signal or a recordings directory (got "${input}")`);
+  }
+  return new SignalFeatureSource(new FileReplayReader(input));
+}
+
+async function runNeuralCommand(
+  args: CliArgs,
+  options: CommonOptions,
+  env: Record<string, string | undefined>
+): Promise<number> {
+  const { NeuralTokenDemo, NEURAL_DEMOS } = await loadNeuralDemo();
+  const scenarios = selectScenarios<NeuralDemoName>(options.scenarios, NEURAL_DEMOS);
+  const inputSource = resolveNeuralInput(args, env);
+  const offline = args.flags.offline === true || ['1', 'true'].includes(env.NEURAL_OFFLINE ?? '');
+
+  const results = await quietly(options.json, () => {
+    const demo = new NeuralTokenDemo(options.rpcUrl, {
+      network: options.network,
+      signerKeys: options.signerKeys,
+      keystorePath: (args.flags.keystore as string | undefined) ?? env.NEURAL_KEYSTORE,
+      keystorePassphrase: env.NEURAL_KEYSTORE_PASSPHRASE,
+      reenroll: args.flags.reenroll === true || ['1', 'true'].includes(env.NEURAL_REENROLL ?? ''),
+      inputSource,
+      offline,
+    });
+    return scenarios.length === NEURAL_DEMOS.length ? demo.runAllDemos() : demo.runDemos(scenarios);
+  });
+
+  if (options.json) {
+    printJson({ command: 'neural', network: options.network, mode: offline ? 'offline' : 'online', results });
+  }
+
+  return results.some(result => result.status === 'failed') ? 1 : 0;
+}
+
+function printUsage() {
+  console.log('Usage: tsx examples/cli.ts <gas|neural> [scenario...] [flags]');
+  console.log('       tsx examples/cli.ts tokenomics [config.yaml] [flags]');
+  console.log('  tsx examples/cli.ts <gas|neural> --list   list scenarios');
+  console.log('  See the header of examples/cli.ts for all flags.');
+}
+
+/**
+ * Entry point shared by this file and the demos; resolves to the exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let json = false;
+  try {
+    const args = parseCliArgs(argv);
+    json = args.flags.json === true;
+
+    if (!args.command || args.flags.help || !COMMANDS.includes(args.command as Command)) {
+      printUsage();
+      return args.flags.help ? 0 : 1;
+    }
+
+    if (args.flags.list) {
+      if (args.command === 'tokenomics') {
+        throw new Error('tokenomics has no scenarios');
+      }
+      const scenarios = args.command === 'gas'
+        ? (await loadGasDemo()).GAS_DEMOS
+        : (await loadNeuralDemo()).NEURAL_DEMOS;
+      json ? printJson(scenarios) : scenarios.forEach(name => console.log(name));
+      return 0;
+    }
+
+    const env = loadEnv(args.flags['env-file'] as string | undefined);
+    const options = resolveCommonOptions(args, env);
+    if (args.command === 'tokenomics') {
+      return await runTokenomicsCommand(args, options, env);
+    }
+    return args.command === 'gas'
+      ? await runGasCommand(args, options)
+      : await runNeuralCommand(args, options, env);
+  } catch (error) {
+    if (json) {
+      printJson({ error: (error as Error).message });
+    } else {
+      console.error('Demo failed:', error);
+    }
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(exitCode => process.exit(exitCode));
+}
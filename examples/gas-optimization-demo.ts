@@ -7,63 +7,273 @@
  */
 
 import { ethers } from 'ethers';
-import { GasAnalyzer } from './utils/gas-analyzer';
+import { GasAnalyzer, GasBreakdown, formatGasBreakdown } from './utils/gas-analyzer';
+import { GasReport, GasSource, GasSummary } from './utils/gas-report';
+import { SweepSeries, BreakEven, buildSeries, findBreakEven, printSweep } from './utils/batch-sweep';
+import { withTimeout } from './utils/timeout';
+import { HolderSnapshot, TokenEventIndexer, TokenStandard } from './utils/event-indexer';
+import { TokenClient } from './utils/token-client';
+import {
+  AIRDROP_STANDARDS,
+  AirdropList,
+  AirdropPlan,
+  AirdropStandard,
+  DEFAULT_PUSH_CHUNK_SIZE,
+  planAirdrop,
+  syntheticAirdrop,
+} from './utils/airdrop';
+import {
+  BenchmarkContext,
+  OPTIMIZATION_BENCHMARKS,
+  loadOptimizedArtifact,
+  runOptimizationBenchmark,
+} from './utils/optimization-benchmark';
+import {
+  CloneComparison,
+  DeployableArtifact,
+  DeploymentProfile,
+  DeploymentProfiler,
+  printCloneComparison,
+  printDeploymentProfiles,
+  profileArtifact,
+} from './utils/deployment-profiler';
+import {
+  PERMIT2_ADDRESS,
+  buildPermit2TransferTypedData,
+  buildPermitTypedData,
+  randomPermit2Nonce,
+  readPermitDomain,
+  signTypedData,
+} from './utils/typed-data';
+import {
+  PricingConfig,
+  GasCostEstimator,
+  ChainCostEstimate,
+  FeeHistorySource,
+  ProviderFeeDataSource,
+  defaultPricing,
+} from './utils/gas-pricing';
+import { ChainNeuralLedger } from './utils/neural-ledger';
+import { SchnorrPatternBackend } from './utils/neural-zk';
+import { ETH_TRANSFER_SELECTOR, createSessionPolicy, grantSession } from './utils/session-keys';
+import { LocalBundler, UserOperationBuilder, neuralUserOpSigner } from './utils/user-operation';
 
 // Mock contracts for demonstration
 // In real usage, import your actual contract factories
+const CONTRACT_ARTIFACTS = {
+  ERC20: require('../artifacts/contracts/ERC20/MyToken.sol/MyToken.json'),
+  ERC721: require('../artifacts/contracts/ERC721/MyNFT.sol/MyNFT.json'),
+  ERC1155: require('../artifacts/contracts/ERC1155/MultiToken.sol/MultiToken.json'),
+  ERC20Permit: require('../artifacts/contracts/ERC20/MyPermitToken.sol/MyPermitToken.json'),
+  Permit2: require('../artifacts/contracts/permit/SignatureTransfer.sol/SignatureTransfer.json'),
+  BatchDistributor: require('../artifacts/contracts/airdrop/BatchDistributor.sol/BatchDistributor.json'),
+  MerkleDistributor: require('../artifacts/contracts/airdrop/MerkleDistributor.sol/MerkleDistributor.json'),
+};
+
 const CONTRACT_ABIS = {
-  ERC20: require('../artifacts/contracts/ERC20/MyToken.sol/MyToken.json').abi,
-  ERC721: require('../artifacts/contracts/ERC721/MyNFT.sol/MyNFT.json').abi,
-  ERC1155: require('../artifacts/contracts/ERC1155/MultiToken.sol/MultiToken.json').abi,
+  ERC20: CONTRACT_ARTIFACTS.ERC20.abi,
+  ERC721: CONTRACT_ARTIFACTS.ERC721.abi,
+  ERC1155: CONTRACT_ARTIFACTS.ERC1155.abi,
+};
+
+const DEFAULT_RPC_URL = 'http://localhost:8545';
+
+// Calldata assumed for simulated entries (a token transfer is ~68 bytes)
+const DEFAULT_CALLDATA_BYTES_PER_TX = 68;
+
+// How long to wait for the local node before falling back to simulated numbers
+const CONNECT_TIMEOUT_MS = 3000;
+
+// Constructor arguments used for the ERC-1155 artifact everywhere it is deployed
+const ERC1155_CONSTRUCTOR_ARGS = ['Game Items', 'GITM', 'https://api.gitdigital.com/tokens/{id}'];
+
+// Simulated airdrop costs from measured runs: a push call pays a fixed part plus a transfer
+// per recipient; a claim pays a fixed part plus one hash per proof level
+const SIMULATED_AIRDROP_GAS: Record<AirdropStandard, {
+  approve: bigint;
+  pushBase: bigint;
+  pushPerRecipient: bigint;
+  deploy: bigint;
+  claimBase: bigint;
+  claimPerProofHash: bigint;
+}> = {
+  'ERC-20': { approve: 46319n, pushBase: 30239n, pushPerRecipient: 27336n, deploy: 472831n, claimBase: 68681n, claimPerProofHash: 850n },
+  'ERC-721': { approve: 46207n, pushBase: 27368n, pushPerRecipient: 37507n, deploy: 472828n, claimBase: 76078n, claimPerProofHash: 850n },
+  'ERC-1155': { approve: 46207n, pushBase: 29929n, pushPerRecipient: 32147n, deploy: 472783n, claimBase: 72050n, claimPerProofHash: 850n },
 };
 
-interface GasReport {
+interface DeployedContracts {
+  erc20: ethers.Contract;
+  erc721: ethers.Contract;
+  erc1155: ethers.Contract;
+  // contracts/optimized counterpart of erc1155, seeded with the same balances
+  optimizedErc1155: ethers.Contract;
+  // EIP-2612 token and the Permit2 SignatureTransfer contract for the approval demo
+  permitToken: ethers.Contract;
+  permit2: ethers.Contract;
+  // Push-style airdrops; claim-based ones deploy a MerkleDistributor per airdrop
+  batchDistributor: ethers.Contract;
+}
+
+// A demo entry: the simulated fallback plus the transactions that measure it
+interface GasScenario {
   standard: string;
-  operation: string;
-  gasUsed: bigint;
-  gasCostUSD?: number;
-  savings?: string;
+  simulated: bigint;
+  description?: string;
+  run?: (contracts: DeployedContracts) => Promise<string[]>;
+}
+
+interface GasMeasurement {
+  gas: bigint;
+  source: GasSource;
+  txCount?: number;
+  calldataBytes?: number;
+  // Where the gas went, for single-transaction scenarios
+  breakdown?: GasBreakdown;
 }
 
+// Gas price read from the connected node instead of the pricing config
+type LiveGasSource = 'fee-data' | 'fee-history';
+
+interface GasDemoOptions {
+  pricing?: PricingConfig;
+  // Replaces the first chain's gas price when a node is reachable
+  liveGasSource?: LiveGasSource;
+  // Private keys for deployer and recipient; defaults to the node's unlocked accounts
+  signerKeys?: string[];
+  reportPath?: string;
+  // Largest batch size for the batch-sweep scenario
+  sweepMaxBatch?: number;
+  // Largest clone count for the deployment scenario
+  cloneMaxCount?: number;
+  // Airdrop to distribute; defaults to a synthetic list per standard
+  airdropList?: AirdropList;
+  // Recipients in each synthetic airdrop list
+  airdropRecipients?: number;
+  // Recipients per push-style distributor call
+  airdropChunkSize?: number;
+}
+
+// Demo scenarios, in the order runAllDemos runs them
+const GAS_DEMOS = [
+  'single-transfers',
+  'batch-operations',
+  'batch-sweep',
+  'airdrop',
+  'minting',
+  'approvals',
+  'custom-optimizations',
+  'deployment',
+] as const;
+
+type GasDemoName = typeof GAS_DEMOS[number];
+
 class GasOptimizationDemo {
   private provider: ethers.JsonRpcProvider;
   private gasAnalyzer: GasAnalyzer;
+  private pricing: PricingConfig;
+  private costEstimator: GasCostEstimator;
+  private liveGasSource?: LiveGasSource;
+  private signerKeys: string[];
+  private reportPath: string;
   private reports: GasReport[] = [];
+  private contracts: DeployedContracts | null = null;
+  private signer: ethers.Signer | null = null;
+  private network: ethers.Network | null = null;
+  private deployer = ethers.ZeroAddress;
+  private recipient = ethers.ZeroAddress;
+  private nextNftId = 0n;
+  private sweepMaxBatch: number;
+  private sweep: { series: SweepSeries[]; breakEvens: BreakEven[] } | null = null;
+  private cloneMaxCount: number;
+  private deployment: { profiles: DeploymentProfile[]; clones: CloneComparison | null } | null = null;
+  private airdropList?: AirdropList;
+  private airdropRecipients: number;
+  private airdropChunkSize: number;
+  private airdrops: AirdropPlan[] | null = null;
+  // First block of the run, where the indexer starts reading token events
+  private startBlock = 0;
+  private holders: HolderSnapshot[] | null = null;
 
-  constructor(rpcUrl: string = 'http://localhost:8545') {
+  constructor(rpcUrl: string = DEFAULT_RPC_URL, options: GasDemoOptions = {}) {
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
     this.gasAnalyzer = new GasAnalyzer(this.provider);
+    this.pricing = options.pricing ?? defaultPricing();
+    this.costEstimator = new GasCostEstimator(this.pricing);
+    this.liveGasSource = options.liveGasSource;
+    this.signerKeys = options.signerKeys ?? [];
+    this.reportPath = options.reportPath ?? 'gas-optimization-report.json';
+    this.sweepMaxBatch = options.sweepMaxBatch ?? 10;
+    this.cloneMaxCount = options.cloneMaxCount ?? 10;
+    this.airdropList = options.airdropList;
+    this.airdropRecipients = options.airdropRecipients ?? 25;
+    this.airdropChunkSize = options.airdropChunkSize ?? DEFAULT_PUSH_CHUNK_SIZE;
   }
 
   /**
    * Run all gas optimization demos
    */
   async runAllDemos() {
+    await this.runDemos([...GAS_DEMOS]);
+  }
+
+  /**
+   * Run the selected demos in order, then generate the report
+   */
+  async runDemos(names: GasDemoName[]) {
     console.log('🚀 Starting Gas Optimization Demo\n');
     
     console.log('='.repeat(60));
     console.log('GAS OPTIMIZATION COMPARISON ACROSS TOKEN STANDARDS');
     console.log('='.repeat(60) + '\n');
 
-    // Demo 1: Single Transfer Comparison
-    await this.demoSingleTransfers();
-    
-    // Demo 2: Batch Operations
-    await this.demoBatchOperations();
-    
-    // Demo 3: Minting Costs
-    await this.demoMintingCosts();
+    // Deploy contracts for measured mode (falls back to simulated numbers)
+    await this.setupLocalChain();
+
+    const demos: Record<GasDemoName, () => Promise<void>> = {
+      // Demo 1: Single Transfer Comparison
+      'single-transfers': () => this.demoSingleTransfers(),
+      // Demo 2: Batch Operations
+      'batch-operations': () => this.demoBatchOperations(),
+      // Demo 2b: Batch size sweep
+      'batch-sweep': () => this.demoBatchSweep(),
+      // Demo 2c: Airdrop distribution
+      'airdrop': () => this.demoAirdrop(),
+      // Demo 3: Minting Costs
+      'minting': () => this.demoMintingCosts(),
+      // Demo 4: Approval Patterns
+      'approvals': () => this.demoApprovalPatterns(),
+      // Demo 5: Custom Optimizations
+      'custom-optimizations': () => this.demoCustomOptimizations(),
+      // Demo 6: Deployment Costs
+      'deployment': () => this.demoDeploymentCosts(),
+    };
     
-    // Demo 4: Approval Patterns
-    await this.demoApprovalPatterns();
+    for (const name of names) {
+      await demos[name]();
+    }
     
-    // Demo 5: Custom Optimizations
-    await this.demoCustomOptimizations();
+    // Check the demos' transfers against the chain's events
+    await this.checkOnChainState();
     
     // Generate Report
     await this.generateReport();
   }
 
+  /**
+   * Gas entries collected by the demos so far
+   */
+  getReports(): GasReport[] {
+    return [...this.reports];
+  }
+
+  /**
+   * Summary statistics for the entries collected so far
+   */
+  async getSummary(): Promise<GasSummary> {
+    return this.generateSummary();
+  }
+
   /**
    * Demo 1: Compare single transfer costs
    */
@@ -71,29 +281,59 @@ class GasOptimizationDemo {
     console.log('📊 DEMO 1: Single Transfer Gas Costs');
     console.log('-----------------------------------');
     
-    // Simulate gas costs (in real demo, these would be actual transactions)
-    const simulatedCosts = [
-      { standard: 'ERC-20', gas: 45312n },
-      { standard: 'ERC-721', gas: 59847n },
-      { standard: 'ERC-1155', gas: 49123n },
-      { standard: 'ERC-1155 (Optimized)', gas: 42100n },
+    // Measured on the local chain when available, simulated otherwise
+    const scenarios: GasScenario[] = [
+      {
+        standard: 'ERC-20',
+        simulated: 45312n,
+        run: async c => [await this.send(c.erc20.transfer(this.recipient, 1000n))],
+      },
+      {
+        standard: 'ERC-721',
+        simulated: 59847n,
+        run: async c => {
+          const { tokenIds: [tokenId] } = await this.mintNfts(c, 1);
+          return [await this.send(c.erc721.transferFrom(this.deployer, this.recipient, tokenId))];
+        },
+      },
+      {
+        standard: 'ERC-1155',
+        simulated: 49123n,
+        run: async c => [
+          await this.send(c.erc1155.safeTransferFrom(this.deployer, this.recipient, 1n, 10n, '0x')),
+        ],
+      },
+      {
+        standard: 'ERC-1155 (Optimized)',
+        simulated: 42100n,
+        run: async c => [
+          await this.send(c.optimizedErc1155.safeTransferFrom(this.deployer, this.recipient, 1n, 10n, '0x')),
+        ],
+      },
     ];
     
-    simulatedCosts.forEach(cost => {
+    const costs = await this.measureScenarios(scenarios);
+    
+    costs.forEach((cost, i) => {
       this.reports.push({
-        standard: cost.standard,
+        standard: scenarios[i].standard,
         operation: 'Single Transfer',
         gasUsed: cost.gas,
+        source: cost.source,
+        txCount: cost.txCount,
+        calldataBytes: cost.calldataBytes,
       });
       
-      console.log(`  ${cost.standard.padEnd(20)}: ${cost.gas.toString().padStart(8)} gas`);
+      console.log(`  ${scenarios[i].standard.padEnd(20)}: ${cost.gas.toString().padStart(8)} gas [${cost.source}]`);
+      if (cost.breakdown) {
+        console.log(`  ${''.padEnd(20)}  ↳ ${formatGasBreakdown(cost.breakdown)}`);
+      }
     });
     
-    const erc20Cost = simulatedCosts[0].gas;
-    const erc1155Optimized = simulatedCosts[3].gas;
-    const savings = (Number(erc20Cost - erc1155Optimized) / Number(erc20Cost)) * 100;
-    
-    console.log(`\n  💰 Savings: ${savings.toFixed(1)}% with optimized ERC-1155\n`);
+    const savings = this.savingsPct(costs[2], costs[3]);
+    console.log(savings === undefined
+      ? '\n  💰 Savings: not compared, one side is simulated\n'
+      : `\n  💰 Savings: ${savings.toFixed(1)}% with optimized ERC-1155\n`);
   }
 
   /**
@@ -105,46 +345,409 @@ class GasOptimizationDemo {
     
     const batchSize = 10;
     
-    // Simulated costs for 10 items
-    const simulatedCosts = [
+    const ids = Array.from({ length: batchSize }, (_, i) => BigInt(i + 1));
+    
+    const scenarios: GasScenario[] = [
       { 
         standard: 'ERC-20 (10 separate)', 
-        gas: 453120n, // 45,312 * 10
-        description: 'Individual transfers' 
+        simulated: 453120n, // 45,312 * 10
+        description: 'Individual transfers',
+        run: async c => {
+          const hashes: string[] = [];
+          for (let i = 0; i < batchSize; i++) {
+            hashes.push(await this.send(c.erc20.transfer(this.recipient, 1000n)));
+          }
+          return hashes;
+        },
       },
       { 
         standard: 'ERC-721 (10 separate)', 
-        gas: 598470n, // 59,847 * 10
-        description: 'Individual transfers' 
+        simulated: 598470n, // 59,847 * 10
+        description: 'Individual transfers',
+        run: async c => {
+          const { tokenIds } = await this.mintNfts(c, batchSize);
+          const hashes: string[] = [];
+          for (const tokenId of tokenIds) {
+            hashes.push(await this.send(c.erc721.transferFrom(this.deployer, this.recipient, tokenId)));
+          }
+          return hashes;
+        },
       },
       { 
         standard: 'ERC-1155 (1 batch)', 
-        gas: 78456n,
-        description: 'Single batch transaction' 
+        simulated: 78456n,
+        description: 'Single batch transaction',
+        run: async c => [
+          await this.send(c.erc1155.safeBatchTransferFrom(
+            this.deployer,
+            this.recipient,
+            ids,
+            ids.map(() => 10n),
+            '0x'
+          )),
+        ],
       },
       { 
         standard: 'Gas-Optimized Batch', 
-        gas: 65432n,
-        description: 'Custom optimized batch' 
+        simulated: 65432n,
+        description: 'Optimized ERC-1155 batch',
+        run: async c => [
+          await this.send(c.optimizedErc1155.safeBatchTransferFrom(
+            this.deployer,
+            this.recipient,
+            ids,
+            ids.map(() => 10n),
+            '0x'
+          )),
+        ],
       },
     ];
     
-    simulatedCosts.forEach(cost => {
+    const costs = await this.measureScenarios(scenarios);
+    
+    costs.forEach((cost, i) => {
       this.reports.push({
-        standard: cost.standard,
+        standard: scenarios[i].standard,
         operation: `Batch Transfer (${batchSize} items)`,
         gasUsed: cost.gas,
+        source: cost.source,
+        txCount: cost.txCount,
+        calldataBytes: cost.calldataBytes,
       });
       
-      console.log(`  ${cost.standard.padEnd(30)}: ${cost.gas.toString().padStart(8)} gas - ${cost.description}`);
+      console.log(`  ${scenarios[i].standard.padEnd(30)}: ${cost.gas.toString().padStart(8)} gas [${cost.source}] - ${scenarios[i].description}`);
     });
     
     // Calculate savings
-    const erc20BatchCost = simulatedCosts[0].gas;
-    const erc1155BatchCost = simulatedCosts[2].gas;
-    const savings = (Number(erc20BatchCost - erc1155BatchCost) / Number(erc20BatchCost)) * 100;
+    const savings = this.savingsPct(costs[0], costs[2]);
+    const optimizedSavings = this.savingsPct(costs[0], costs[3]);
+    console.log(savings === undefined
+      ? '\n  💰 Batch savings: not compared, one side is simulated'
+      : `\n  💰 Batch savings: ${savings.toFixed(1)}% using ERC-1155`);
+    console.log(optimizedSavings === undefined
+      ? '  💰 Optimized batch savings: not compared, one side is simulated\n'
+      : `  💰 Optimized batch savings: ${optimizedSavings.toFixed(1)}% using the optimized ERC-1155\n`);
+  }
+
+  /**
+   * Demo 2b: Sweep batch sizes 1..K and find where ERC-1155 batching
+   * beats individual ERC-20/721 calls
+   */
+  private async demoBatchSweep() {
+    console.log(`📈 DEMO 2b: Batch Size Sweep (N = 1..${this.sweepMaxBatch})`);
+    console.log('-------------------------------------');
+    
+    const maxBatch = this.sweepMaxBatch;
+    // Fresh ERC-1155 ids per sweep so earlier demos don't skew storage costs
+    const transferIds = Array.from({ length: maxBatch }, (_, i) => BigInt(1001 + i));
+    let nextMintId = 2001n;
     
-    console.log(`\n  💰 Batch savings: ${savings.toFixed(1)}% using ERC-1155\n`);
+    if (this.contracts) {
+      try {
+        await this.send(this.contracts.erc1155.mintBatch(
+          this.deployer,
+          transferIds,
+          transferIds.map(() => 1000n),
+          '0x'
+        ));
+      } catch (error) {
+        console.log(`  ⚠️ Sweep setup failed (${(error as Error).message}), using simulated values`);
+      }
+    }
+    
+    // Simulated models: individual calls scale linearly, batches pay a fixed overhead once
+    const definitions: {
+      standard: string;
+      operation: SweepSeries['operation'];
+      mode: SweepSeries['mode'];
+      simulated: (n: number) => bigint;
+      run: (c: DeployedContracts, n: number) => Promise<string[]>;
+    }[] = [
+      {
+        standard: 'ERC-20 (individual transfers)',
+        operation: 'transfer',
+        mode: 'individual',
+        simulated: n => 45312n * BigInt(n),
+        run: async (c, n) => {
+          const hashes: string[] = [];
+          for (let i = 0; i < n; i++) {
+            hashes.push(await this.send(c.erc20.transfer(this.recipient, 1000n)));
+          }
+          return hashes;
+        },
+      },
+      {
+        standard: 'ERC-721 (individual transfers)',
+        operation: 'transfer',
+        mode: 'individual',
+        simulated: n => 59847n * BigInt(n),
+        run: async (c, n) => {
+          const { tokenIds } = await this.mintNfts(c, n);
+          const hashes: string[] = [];
+          for (const tokenId of tokenIds) {
+            hashes.push(await this.send(c.erc721.transferFrom(this.deployer, this.recipient, tokenId)));
+          }
+          return hashes;
+        },
+      },
+      {
+        standard: 'ERC-1155 (batch transfer)',
+        operation: 'transfer',
+        mode: 'batch',
+        simulated: n => 34000n + 4450n * BigInt(n),
+        run: async (c, n) => {
+          const ids = transferIds.slice(0, n);
+          return [await this.send(c.erc1155.safeBatchTransferFrom(
+            this.deployer,
+            this.recipient,
+            ids,
+            ids.map(() => 1n),
+            '0x'
+          ))];
+        },
+      },
+      {
+        standard: 'ERC-721 (individual mints)',
+        operation: 'mint',
+        mode: 'individual',
+        simulated: n => 121349n * BigInt(n),
+        run: async (c, n) => (await this.mintNfts(c, n, this.recipient)).hashes,
+      },
+      {
+        standard: 'ERC-1155 (batch mint)',
+        operation: 'mint',
+        mode: 'batch',
+        simulated: n => 58000n + 6789n * BigInt(n),
+        run: async (c, n) => {
+          const ids = Array.from({ length: n }, () => nextMintId++);
+          return [await this.send(c.erc1155.mintBatch(this.recipient, ids, ids.map(() => 1n), '0x'))];
+        },
+      },
+    ];
+    
+    const series: SweepSeries[] = [];
+    for (const definition of definitions) {
+      const sizes = Array.from({ length: maxBatch }, (_, i) => i + 1);
+      const costs = await this.measureScenarios(sizes.map(n => ({
+        standard: `${definition.standard} N=${n}`,
+        simulated: definition.simulated(n),
+        run: c => definition.run(c, n),
+      })));
+      
+      // A series is only "measured" if every point came from a receipt
+      const source: GasSource = costs.every(cost => cost.source === 'measured') ? 'measured' : 'simulated';
+      series.push(buildSeries(
+        definition.standard,
+        definition.operation,
+        definition.mode,
+        source,
+        costs.map((cost, i) => ({ batchSize: sizes[i], totalGas: cost.gas }))
+      ));
+    }
+    
+    const batchSeries = series.filter(s => s.mode === 'batch');
+    const breakEvens = series
+      .filter(s => s.mode === 'individual')
+      .flatMap(individual => batchSeries
+        .filter(batch => batch.operation === individual.operation)
+        .map(batch => findBreakEven(batch, individual)));
+    
+    this.sweep = { series, breakEvens };
+    printSweep(series, breakEvens);
+    console.log('');
+  }
+
+  /**
+   * Demo 2c: Distribute an airdrop push-style through BatchDistributor and
+   * by Merkle claims, each from its own freshly deployed token so both
+   * start from empty recipient balances
+   */
+  private async demoAirdrop() {
+    console.log('🪂 DEMO 2c: Airdrop Distribution (push vs Merkle claims)');
+    console.log('-------------------------------------------------------');
+    
+    const lists = this.airdropList
+      ? [this.airdropList]
+      : AIRDROP_STANDARDS.map(standard => syntheticAirdrop(standard, this.airdropRecipients));
+    
+    this.airdrops = [];
+    for (const list of lists) {
+      const pushToken = await this.fundAirdrop(list);
+      const claimToken = await this.fundAirdrop(list);
+      // MyNFT numbers its tokens itself, so ERC-721 lists are renumbered onto the minted ids
+      const plan = planAirdrop(claimToken?.list ?? list, this.airdropChunkSize);
+      this.airdrops.push(plan);
+      await this.measureAirdrop(plan, pushToken?.token, claimToken?.token);
+    }
+  }
+
+  /**
+   * Deploy a token of the list's standard and give the deployer what the
+   * list sends. Null when there is no chain or funding fails.
+   */
+  private async fundAirdrop(list: AirdropList): Promise<{ token: ethers.Contract; list: AirdropList } | null> {
+    if (!this.signer) {
+      return null;
+    }
+    
+    try {
+      if (list.standard === 'ERC-20') {
+        // MyToken mints its whole supply to the deployer
+        return { token: await this.deploy(CONTRACT_ARTIFACTS.ERC20, this.signer), list };
+      }
+      
+      if (list.standard === 'ERC-721') {
+        const token = await this.deploy(CONTRACT_ARTIFACTS.ERC721, this.signer);
+        const entries = [];
+        for (const [i, entry] of list.entries.entries()) {
+          await this.send(token.safeMint(this.deployer, `ipfs://airdrop/${i}`));
+          entries.push({ ...entry, tokenId: BigInt(i) });
+        }
+        return { token, list: { ...list, entries } };
+      }
+      
+      const token = await this.deploy(CONTRACT_ARTIFACTS.ERC1155, this.signer, ...ERC1155_CONSTRUCTOR_ARGS);
+      const totals = new Map<bigint, bigint>();
+      list.entries.forEach(entry => totals.set(entry.tokenId, (totals.get(entry.tokenId) ?? 0n) + entry.amount));
+      await this.send(token.mintBatch(this.deployer, [...totals.keys()], [...totals.values()], '0x'));
+      return { token, list };
+    } catch (error) {
+      console.log(`  ⚠️ ${list.standard} airdrop setup failed (${(error as Error).message}), using simulated values`);
+      return null;
+    }
+  }
+
+  /**
+   * Measure pushing `plan` from `pushToken` and claiming it from `claimToken`,
+   * falling back to the simulated model for a missing token
+   */
+  private async measureAirdrop(plan: AirdropPlan, pushToken?: ethers.Contract, claimToken?: ethers.Contract) {
+    const model = SIMULATED_AIRDROP_GAS[plan.standard];
+    const recipients = plan.entries.length;
+    const total = plan.entries.reduce((sum, entry) => sum + entry.amount, 0n);
+    let distributor: ethers.Contract | null = null;
+    
+    const scenarios: GasScenario[] = [
+      {
+        standard: `${plan.standard} push`,
+        simulated: plan.chunks.reduce(
+          (sum, chunk) => sum + model.pushBase + model.pushPerRecipient * BigInt(chunk.length),
+          model.approve
+        ),
+        run: pushToken && (async c => {
+          const hashes = [await this.send(this.approveAirdrop(plan.standard, pushToken, await c.batchDistributor.getAddress(), total))];
+          for (const chunk of plan.chunks) {
+            const to = chunk.map(entry => entry.account);
+            const ids = chunk.map(entry => entry.tokenId);
+            const amounts = chunk.map(entry => entry.amount);
+            hashes.push(await this.send(
+              plan.standard === 'ERC-20' ? c.batchDistributor.pushERC20(pushToken, to, amounts)
+                : plan.standard === 'ERC-721' ? c.batchDistributor.pushERC721(pushToken, to, ids)
+                : c.batchDistributor.pushERC1155(pushToken, to, ids, amounts)
+            ));
+          }
+          return hashes;
+        }),
+      },
+      {
+        standard: `${plan.standard} Merkle setup`,
+        simulated: model.deploy + model.approve,
+        run: claimToken && (async () => {
+          const { abi, bytecode } = CONTRACT_ARTIFACTS.MerkleDistributor;
+          const deployed = await new ethers.ContractFactory(abi, bytecode, this.signer!).deploy(
+            await claimToken.getAddress(),
+            AIRDROP_STANDARDS.indexOf(plan.standard),
+            plan.root,
+            this.deployer
+          );
+          await deployed.waitForDeployment();
+          distributor = new ethers.Contract(await deployed.getAddress(), abi, this.signer!);
+          return [
+            deployed.deploymentTransaction()!.hash,
+            await this.send(this.approveAirdrop(plan.standard, claimToken, await distributor.getAddress(), total)),
+          ];
+        }),
+      },
+      {
+        standard: `${plan.standard} Merkle claims`,
+        simulated: plan.claims.reduce(
+          (sum, claim) => sum + model.claimBase + model.claimPerProofHash * BigInt(claim.proof.length),
+          0n
+        ),
+        // Sent by the deployer on each recipient's behalf; a recipient sending it pays the same
+        run: claimToken && (async () => {
+          if (!distributor) {
+            throw new Error('MerkleDistributor was not deployed');
+          }
+          const hashes: string[] = [];
+          for (const claim of plan.claims) {
+            hashes.push(await this.send(distributor.claim(claim.index, claim.account, claim.tokenId, claim.amount, claim.proof)));
+          }
+          return hashes;
+        }),
+      },
+    ];
+    
+    const [push, setup, claims] = await this.measureScenarios(scenarios);
+    const perRecipient = (gas: bigint) => gas / BigInt(recipients);
+    const operations: [string, GasMeasurement][] = [
+      [`Push (${recipients} recipients)`, push],
+      ['Push per recipient', { ...push, gas: perRecipient(push.gas), txCount: undefined, calldataBytes: undefined }],
+      ['Merkle setup (deploy + approve)', setup],
+      [`Merkle claims (${recipients} recipients)`, claims],
+      ['Merkle claim per recipient', { ...claims, gas: perRecipient(claims.gas), txCount: 1, calldataBytes: undefined }],
+    ];
+    operations.forEach(([operation, cost]) => {
+      this.reports.push({
+        standard: `Airdrop ${plan.standard}`,
+        operation,
+        gasUsed: cost.gas,
+        source: cost.source,
+        txCount: cost.txCount,
+        calldataBytes: cost.calldataBytes,
+      });
+    });
+    
+    const depths = plan.claims.map(claim => claim.proof.length);
+    console.log(
+      `  ${plan.standard}: ${recipients} recipients, Merkle root ${plan.root.slice(0, 10)}..., ` +
+      `proofs of ${Math.min(...depths)}-${Math.max(...depths)} hashes`
+    );
+    console.log(
+      `    ${`Push (${plan.chunks.length} call(s) + approve)`.padEnd(34)}: ${push.gas.toString().padStart(9)} gas, ` +
+      `${perRecipient(push.gas).toString().padStart(6)} per recipient [${push.source}]`
+    );
+    console.log(`    ${'Merkle setup (deploy + approve)'.padEnd(34)}: ${setup.gas.toString().padStart(9)} gas [${setup.source}]`);
+    console.log(
+      `    ${`Merkle claims (${recipients} txs)`.padEnd(34)}: ${claims.gas.toString().padStart(9)} gas, ` +
+      `${perRecipient(claims.gas).toString().padStart(6)} per recipient [${claims.source}]`
+    );
+    
+    // The sender pays for every push; with claims it pays the setup and recipients pay the rest
+    const savings = setup.source === claims.source
+      ? this.savingsPct(push, { gas: setup.gas + claims.gas, source: claims.source })
+      : undefined;
+    if (savings === undefined) {
+      console.log('    💰 Claims vs push: not compared, one side is simulated\n');
+      return;
+    }
+    const delta = -savings;
+    console.log(
+      `    💰 Claims cost ${delta >= 0 ? '+' : ''}${delta.toFixed(1)}% gas in total vs push, ` +
+      `but the sender only pays the ${setup.gas} gas setup\n`
+    );
+  }
+
+  /**
+   * Let `spender` move the deployer's airdrop tokens
+   */
+  private approveAirdrop(
+    standard: AirdropStandard,
+    token: ethers.Contract,
+    spender: string,
+    amount: bigint
+  ): Promise<ethers.ContractTransactionResponse> {
+    return standard === 'ERC-20' ? token.approve(spender, amount) : token.setApprovalForAll(spender, true);
   }
 
   /**
@@ -154,34 +757,61 @@ class GasOptimizationDemo {
     console.log('🎨 DEMO 3: Minting Cost Comparison');
     console.log('---------------------------------');
     
-    const simulatedCosts = [
-      { standard: 'ERC-20 Mint', gas: 54892n },
-      { standard: 'ERC-721 Safe Mint', gas: 121349n },
-      { standard: 'ERC-1155 Mint', gas: 69238n },
-      { standard: 'ERC-1155 Batch Mint (10)', gas: 125892n },
-      { standard: 'ERC-721 Batch Mint (10)', gas: 1213490n },
+    const batchSize = 10;
+    const batchIds = Array.from({ length: batchSize }, (_, i) => BigInt(101 + i));
+    
+    const scenarios: GasScenario[] = [
+      // MyToken mints its supply in the constructor and has no mint function
+      { standard: 'ERC-20 Mint', simulated: 54892n },
+      {
+        standard: 'ERC-721 Safe Mint',
+        simulated: 121349n,
+        run: async c => (await this.mintNfts(c, 1, this.recipient)).hashes,
+      },
+      {
+        standard: 'ERC-1155 Mint',
+        simulated: 69238n,
+        run: async c => [await this.send(c.erc1155.mint(this.recipient, 100n, 1n, '0x'))],
+      },
+      {
+        standard: 'ERC-1155 Batch Mint (10)',
+        simulated: 125892n,
+        run: async c => [
+          await this.send(c.erc1155.mintBatch(this.recipient, batchIds, batchIds.map(() => 1n), '0x')),
+        ],
+      },
+      {
+        standard: 'ERC-721 Batch Mint (10)',
+        simulated: 1213490n,
+        run: async c => (await this.mintNfts(c, batchSize, this.recipient)).hashes,
+      },
     ];
     
-    simulatedCosts.forEach(cost => {
+    const costs = await this.measureScenarios(scenarios);
+    
+    costs.forEach((cost, i) => {
       this.reports.push({
-        standard: cost.standard,
+        standard: scenarios[i].standard,
         operation: 'Minting',
         gasUsed: cost.gas,
+        source: cost.source,
+        txCount: cost.txCount,
+        calldataBytes: cost.calldataBytes,
       });
       
-      console.log(`  ${cost.standard.padEnd(30)}: ${cost.gas.toString().padStart(8)} gas`);
+      console.log(`  ${scenarios[i].standard.padEnd(30)}: ${cost.gas.toString().padStart(8)} gas [${cost.source}]`);
     });
     
     // Show the massive savings for batch minting
-    const erc721Batch = simulatedCosts[4].gas;
-    const erc1155Batch = simulatedCosts[3].gas;
-    const savings = (Number(erc721Batch - erc1155Batch) / Number(erc721Batch)) * 100;
-    
-    console.log(`\n  💰 Batch mint savings: ${savings.toFixed(1)}% (10 items)\n`);
+    const savings = this.savingsPct(costs[4], costs[3]);
+    console.log(savings === undefined
+      ? '\n  💰 Batch mint savings: not compared, one side is simulated\n'
+      : `\n  💰 Batch mint savings: ${savings.toFixed(1)}% (10 items)\n`);
   }
 
   /**
-   * Demo 4: Approval pattern optimizations
+   * Demo 4: Approval pattern optimizations. Permits are signed for real and
+   * measured end to end, including the transaction that consumes them.
    */
   private async demoApprovalPatterns() {
     console.log('🔐 DEMO 4: Approval Pattern Optimizations');
@@ -194,26 +824,144 @@ class GasOptimizationDemo {
     
     console.log('\n  Optimized Patterns:');
     console.log('  - ERC-1155 setApprovalForAll: ~42,891 gas (all tokens)');
-    console.log('  - Permit2-style approvals: ~0 gas (off-chain signing)');
-    console.log('  - Neural session keys: ~15,000 gas (temporary permissions)');
-    
-    // Simulated costs
-    const simulatedCosts = [
-      { pattern: 'Traditional ERC-20 Approve (per token)', gas: 44182n },
-      { pattern: 'ERC-1155 setApprovalForAll (all tokens)', gas: 42891n },
-      { pattern: 'Permit2 Off-chain Signature', gas: 0n },
-      { pattern: 'Neural Session Key', gas: 15000n },
+    console.log('  - EIP-2612 permit: signed off-chain, paid for by whoever submits it');
+    console.log('  - Permit2 signature transfers: one approve per token, then signed transfers');
+    console.log('  - Neural session keys: one neural-signed user op to grant, then scoped ops need no proof');
+    
+    const amount = 1000n;
+    // The spender submits permits and pulls tokens; funded once, outside the measurements.
+    // NonceManager because the provider caches nonce lookups between back-to-back sends.
+    const spender = new ethers.NonceManager(ethers.Wallet.createRandom().connect(this.provider));
+    const spenderAddress = await spender.getAddress();
+    let funding: Promise<unknown> | null = null;
+    const asSpender = async (contract: ethers.Contract) => {
+      funding ??= this.signer!.sendTransaction({ to: spenderAddress, value: ethers.parseEther('1') })
+        .then(tx => tx.wait());
+      await funding;
+      return contract.connect(spender) as ethers.Contract;
+    };
+    const deadline = async () => BigInt((await this.provider.getBlock('latest'))!.timestamp + 3600);
+    
+    const scenarios: GasScenario[] = [
+      {
+        standard: 'Traditional ERC-20 Approve (per token)',
+        simulated: 44182n,
+        run: async c => [await this.send(c.erc20.approve(this.recipient, 1000n))],
+      },
+      {
+        standard: 'ERC-1155 setApprovalForAll (all tokens)',
+        simulated: 42891n,
+        run: async c => [await this.send(c.erc1155.setApprovalForAll(this.recipient, true))],
+      },
+      {
+        standard: 'ERC-20 approve + transferFrom',
+        simulated: 82000n,
+        run: async c => {
+          const token = await asSpender(c.permitToken);
+          return [
+            await this.send(c.permitToken.approve(spenderAddress, amount)),
+            await this.send(token.transferFrom(this.deployer, this.recipient, amount)),
+          ];
+        },
+      },
+      {
+        standard: 'EIP-2612 permit + transferFrom',
+        simulated: 110000n,
+        run: async c => {
+          const token = await asSpender(c.permitToken);
+          const message = {
+            owner: this.deployer,
+            spender: spenderAddress,
+            value: amount,
+            nonce: await c.permitToken.nonces(this.deployer),
+            deadline: await deadline(),
+          };
+          const { v, r, s } = await signTypedData(
+            this.signer!,
+            buildPermitTypedData(await readPermitDomain(c.permitToken), message)
+          );
+          return [
+            await this.send(token.permit(message.owner, message.spender, message.value, message.deadline, v, r, s)),
+            await this.send(token.transferFrom(this.deployer, this.recipient, amount)),
+          ];
+        },
+      },
+      {
+        standard: 'Permit2 one-time approve',
+        simulated: 46700n,
+        run: async c => [await this.send(c.permitToken.approve(await c.permit2.getAddress(), ethers.MaxUint256))],
+      },
+      {
+        standard: 'Permit2 permitTransferFrom',
+        simulated: 71000n,
+        run: async c => {
+          const permit2 = await asSpender(c.permit2);
+          const typedData = buildPermit2TransferTypedData(
+            this.network!.chainId,
+            {
+              token: await c.permitToken.getAddress(),
+              amount,
+              spender: spenderAddress,
+              nonce: randomPermit2Nonce(),
+              deadline: await deadline(),
+            },
+            await c.permit2.getAddress()
+          );
+          const { signature } = await signTypedData(this.signer!, typedData);
+          return [await this.send(permit2.permitTransferFrom(
+            typedData.message,
+            { to: this.recipient, requestedAmount: amount },
+            this.deployer,
+            signature
+          ))];
+        },
+      },
+      // The grantSession bundle the neural demo sends, for a fresh NeuralAccount
+      {
+        standard: 'Neural Session Key',
+        simulated: 219249n,
+        run: async () => [await this.grantNeuralSession()],
+      },
     ];
     
-    simulatedCosts.forEach(cost => {
+    const costs = await this.measureScenarios(scenarios);
+    
+    console.log('\n  This run:');
+    costs.forEach((cost, i) => {
       this.reports.push({
         standard: 'Approval Pattern',
-        operation: cost.pattern,
+        operation: scenarios[i].standard,
         gasUsed: cost.gas,
+        source: cost.source,
+        txCount: cost.txCount,
+        calldataBytes: cost.calldataBytes,
       });
+      
+      console.log(`  ${scenarios[i].standard.padEnd(42)}: ${cost.gas.toString().padStart(8)} gas [${cost.source}]`);
     });
     
-    console.log(`\n  💰 Use Permit2 for maximum gas savings on approvals\n`);
+    // End to end, a permit is not free: it moves the approval gas to the spender
+    const [, , approveFlow, permitFlow, permit2Approve, permit2Flow] = costs;
+    const permitSavings = this.savingsPct(approveFlow, permitFlow);
+    if (permitSavings === undefined) {
+      console.log('\n  💰 EIP-2612 permit flow: not compared, one side is simulated');
+    } else {
+      const permitDelta = -permitSavings;
+      console.log(
+        `\n  💰 EIP-2612 permit flow: ${permitDelta >= 0 ? '+' : ''}${permitDelta.toFixed(1)}% gas vs approve + transferFrom, ` +
+        'but the owner sends no transaction'
+      );
+    }
+    const permit2Delta = approveFlow.gas - permit2Flow.gas;
+    if (this.savingsPct(approveFlow, permit2Flow) === undefined || permit2Approve.source !== permit2Flow.source) {
+      console.log('  💰 Permit2: not compared, one side is simulated\n');
+    } else {
+      console.log(
+        permit2Delta > 0n
+          ? `  💰 Permit2: ${permit2Delta} gas saved per transfer, one-time approve repaid after ${(permit2Approve.gas + permit2Delta - 1n) / permit2Delta} transfer(s)\n`
+          : '  💰 Permit2: no per-transfer saving over approve + transferFrom on this chain\n'
+      );
+    }
   }
 
   /**
@@ -223,44 +971,179 @@ class GasOptimizationDemo {
     console.log('⚡ DEMO 5: Custom Optimization Techniques');
     console.log('----------------------------------------');
     
-    const optimizations = [
-      {
-        technique: 'Packed Storage',
-        description: 'Store multiple values in single storage slot',
-        savings: '30-50%',
-        example: 'address + timestamp in single bytes32'
-      },
-      {
-        technique: 'Unchecked Arithmetic',
-        description: 'Safe use of unchecked blocks',
-        savings: '5-10% per operation',
-        example: 'balances[from] -= amount; (unchecked)'
-      },
-      {
-        technique: 'Memory Variables',
-        description: 'Cache storage reads in memory',
-        savings: '15-25%',
-        example: 'uint256 balance = balances[user];'
-      },
-      {
-        technique: 'Custom Errors',
-        description: 'Replace require() with custom errors',
-        savings: '~50 gas per revert',
-        example: 'error InsufficientBalance();'
-      },
-      {
-        technique: 'Minimal Proxy',
-        description: 'Use EIP-1167 for cheap deployments',
-        savings: '90-95% deployment gas',
-        example: 'Clone factory pattern'
-      },
+    if (!this.signer) {
+      // No chain to measure on: the claims stay unverified
+      OPTIMIZATION_BENCHMARKS.forEach(opt => {
+        console.log(`  ${opt.technique.padEnd(25)}: ${opt.claim.text.padEnd(10)} - ${opt.description} [unverified]`);
+      });
+      console.log('\n  💡 Implementation examples in /contracts/optimized/\n');
+      return;
+    }
+    
+    const ctx: BenchmarkContext = {
+      signer: this.signer,
+      owner: this.deployer,
+      recipients: Array.from({ length: 5 }, () => ethers.Wallet.createRandom().address),
+    };
+    
+    console.log(`  ${'Technique'.padEnd(22)} ${'Claimed'.padEnd(24)} ${'Baseline'.padStart(9)} ${'Optimized'.padStart(9)}  Measured`);
+    for (const benchmark of OPTIMIZATION_BENCHMARKS) {
+      try {
+        const result = await runOptimizationBenchmark(benchmark, ctx, this.gasAnalyzer);
+        const measured = benchmark.claim.unit === 'percent'
+          ? `${result.savingsPct.toFixed(1)}%`
+          : `${result.savingsGas} gas`;
+        const status = result.withinClaim ? '✅' : '⚠️ outside claimed range';
+        console.log(
+          `  ${benchmark.technique.padEnd(22)} ${benchmark.claim.text.padEnd(24)} ` +
+          `${result.baselineGas.toString().padStart(9)} ${result.optimizedGas.toString().padStart(9)}  ${measured} ${status}`
+        );
+        
+        this.reports.push(
+          { standard: 'Custom Optimization', operation: `${benchmark.technique} (baseline)`, gasUsed: result.baselineGas, source: 'measured' },
+          { standard: 'Custom Optimization', operation: `${benchmark.technique} (optimized)`, gasUsed: result.optimizedGas, source: 'measured' }
+        );
+      } catch (error) {
+        console.log(`  ${benchmark.technique.padEnd(22)} ${benchmark.claim.text.padEnd(24)} ⚠️ benchmark failed (${(error as Error).message})`);
+      }
+    }
+    
+    console.log('\n  💡 Implementation examples in /contracts/optimized/\n');
+  }
+
+  /**
+   * Demo 6: Deployment cost per standard, then direct deploys vs EIP-1167 clones
+   */
+  private async demoDeploymentCosts() {
+    console.log('🏗️ DEMO 6: Deployment Costs');
+    console.log('---------------------------');
+    
+    const targets: { name: string; artifact: DeployableArtifact; args: unknown[] }[] = [
+      { name: 'ERC-20', artifact: CONTRACT_ARTIFACTS.ERC20, args: [] },
+      { name: 'ERC-721', artifact: CONTRACT_ARTIFACTS.ERC721, args: [] },
+      { name: 'ERC-1155', artifact: CONTRACT_ARTIFACTS.ERC1155, args: ERC1155_CONSTRUCTOR_ARGS },
     ];
+    const profiler = this.signer ? new DeploymentProfiler(this.signer, this.gasAnalyzer) : null;
+    
+    const profiles: DeploymentProfile[] = [];
+    for (const target of targets) {
+      try {
+        profiles.push(profiler
+          ? await profiler.profile(target.name, target.artifact, target.args)
+          : profileArtifact(target.name, target.artifact, target.args));
+      } catch (error) {
+        console.log(`  ⚠️ ${target.name}: deployment failed (${(error as Error).message}), using bytecode estimate`);
+        profiles.push(profileArtifact(target.name, target.artifact, target.args));
+      }
+    }
+    printDeploymentProfiles(profiles);
+    if (!profiler) {
+      console.log('  (no chain: deploy gas is the intrinsic + code deposit lower bound)');
+    }
     
-    optimizations.forEach(opt => {
-      console.log(`  ${opt.technique.padEnd(25)}: ${opt.savings.padEnd(10)} - ${opt.description}`);
+    profiles.forEach(profile => {
+      this.reports.push({
+        standard: 'Deployment',
+        operation: `${profile.name} deploy`,
+        gasUsed: profile.deployGas,
+        source: profile.source,
+        txCount: 1,
+        calldataBytes: profile.initcodeSize,
+      });
     });
     
-    console.log('\n  💡 Implementation examples in /contracts/optimized/\n');
+    let clones: CloneComparison | null = null;
+    if (profiler) {
+      console.log(`\n  Direct deploy vs EIP-1167 clone factory (1..${this.cloneMaxCount} instances):`);
+      try {
+        clones = await profiler.compareClones(
+          'CloneableToken',
+          loadOptimizedArtifact('MinimalProxy.sol', 'CloneableToken'),
+          loadOptimizedArtifact('MinimalProxy.sol', 'CloneFactory'),
+          ['Clone', 'CLN', ethers.parseEther('1000000'), this.deployer],
+          this.cloneMaxCount
+        );
+        printCloneComparison(clones);
+        
+        const lastPoint = clones.points[clones.points.length - 1];
+        this.reports.push(
+          { standard: 'Deployment', operation: 'Direct deploy + initialize', gasUsed: clones.directGas, source: 'measured', txCount: 2 },
+          { standard: 'Deployment', operation: 'EIP-1167 clone + initialize', gasUsed: lastPoint.cloneGas, source: 'measured', txCount: 1 }
+        );
+      } catch (error) {
+        console.log(`  ⚠️ Clone comparison failed (${(error as Error).message})`);
+      }
+    }
+    
+    this.deployment = { profiles, clones };
+    console.log('');
+  }
+
+  /**
+   * Index the token events of the run and compare every indexed holder,
+   * NFT owner and operator approval with what the contracts return
+   */
+  private async checkOnChainState() {
+    if (!this.contracts) {
+      return;
+    }
+    
+    console.log('🔎 ON-CHAIN STATE CHECK');
+    console.log('----------------------');
+    
+    const abis: Record<TokenStandard, ethers.InterfaceAbi> = {
+      'ERC-20': CONTRACT_ABIS.ERC20,
+      'ERC-721': CONTRACT_ABIS.ERC721,
+      'ERC-1155': CONTRACT_ABIS.ERC1155,
+    };
+    
+    try {
+      const { erc20, erc721, erc1155 } = this.contracts;
+      const clients = await Promise.all([erc20, erc721, erc1155].map(
+        async contract => TokenClient.connect(await contract.getAddress(), this.provider)
+      ));
+      const indexer = new TokenEventIndexer(
+        this.provider,
+        clients.map(client => ({ address: client.address, standard: client.standard, abi: abis[client.standard] })),
+        { fromBlock: this.startBlock }
+      );
+      const events = await indexer.sync();
+      const mismatches: string[] = [];
+      let checked = 0;
+      
+      this.holders = [];
+      for (const client of clients) {
+        const snapshot = indexer.snapshot(client.address);
+        this.holders.push(snapshot);
+        
+        for (const { holder, tokenId, amount } of snapshot.balances) {
+          // The indexer files ERC-20 balances under token id 0
+          const actual = (await client.balanceOf(holder, client.is('ERC-20') ? undefined : tokenId)).amount;
+          if (actual !== amount) {
+            mismatches.push(`${client.standard} ${holder} id ${tokenId}: indexed ${amount}, contract ${actual}`);
+          }
+          checked++;
+        }
+        for (const { owner, operator } of snapshot.operators) {
+          if (!(await client.isApprovedForAll(owner, operator))) {
+            mismatches.push(`${client.standard} operator ${operator} of ${owner} is no longer approved`);
+          }
+          checked++;
+        }
+        
+        const holders = new Set(snapshot.balances.map(balance => balance.holder)).size;
+        console.log(`${client.standard.padEnd(10)}: ${String(indexer.getEvents({ contract: client.address }).length).padStart(5)} events, ${holders} holders`);
+      }
+      
+      if (mismatches.length === 0) {
+        console.log(`✅ ${checked} indexed balances and approvals match the contracts (${events} events)\n`);
+      } else {
+        mismatches.forEach(mismatch => console.log(`  ❌ ${mismatch}`));
+        console.log(`❌ ${mismatches.length} of ${checked} indexed balances and approvals differ from the contracts\n`);
+      }
+    } catch (error) {
+      console.log(`  ⚠️ Indexing failed (${(error as Error).message})\n`);
+    }
   }
 
   /**
@@ -295,19 +1178,34 @@ class GasOptimizationDemo {
       console.log(`${standard.padEnd(25)}: ${avgGas.toFixed(0).padStart(8)} gas avg (${data.count} operations)`);
     });
     
+    const measured = this.reports.filter(report => report.source === 'measured').length;
+    console.log(`\nMeasured: ${measured} / Simulated: ${this.reports.length - measured} operations`);
+    
+    // Cost of running every operation once, per chain
+    const costs = await this.estimateChainCosts();
+    console.log('\nCost by Chain (all operations):');
+    console.log('-' .repeat(40));
+    costs.forEach(cost => {
+      const gwei = Number(ethers.formatUnits(cost.gasPriceWei, 'gwei'));
+      const l1Fee = cost.layer === 'L2'
+        ? ` + L1 data ${Number(ethers.formatEther(cost.l1DataFeeWei)).toFixed(6)} ETH`
+        : '';
+      console.log(`${`${cost.chain} (${cost.layer})`.padEnd(25)}: $${cost.costUSD.toFixed(2).padStart(8)} @ ${gwei.toFixed(3)} gwei${l1Fee}`);
+    });
+    
     // Recommendations
     console.log('\n🎯 OPTIMIZATION RECOMMENDATIONS:');
     console.log('-' .repeat(40));
     console.log('1. Use ERC-1155 for multi-token applications');
     console.log('2. Implement batch operations whenever possible');
-    console.log('3. Use Permit2 for gasless approvals');
+    console.log('3. Use Permit2 signature transfers for repeated approvals');
     console.log('4. Consider ERC-4337 for advanced user experiences');
     console.log('5. Implement neural session keys for recurring access');
     
     // Save report to file
     await this.saveReportToFile();
     
-    console.log('\n📁 Full report saved to: gas-optimization-report.json');
+    console.log(`\n📁 Full report saved to: ${this.reportPath}`);
     console.log('\n🚀 Demo complete!');
   }
 
@@ -318,14 +1216,17 @@ class GasOptimizationDemo {
     const fs = await import('fs');
     const report = {
       generatedAt: new Date().toISOString(),
-      network: await this.provider.getNetwork(),
-      gasPrice: await this.provider.getGasPrice(),
+      network: this.network,
       reports: this.reports,
-      summary: this.generateSummary(),
+      sweep: this.sweep,
+      airdrops: this.airdrops,
+      deployment: this.deployment,
+      holders: this.holders,
+      summary: await this.generateSummary(),
     };
     
     fs.writeFileSync(
-      'gas-optimization-report.json',
+      this.reportPath,
       JSON.stringify(report, (key, value) => 
         typeof value === 'bigint' ? value.toString() : value,
         2
@@ -336,56 +1237,272 @@ class GasOptimizationDemo {
   /**
    * Generate summary statistics
    */
-  private generateSummary() {
+  private async generateSummary(): Promise<GasSummary> {
     const totalGas = this.reports.reduce((sum, report) => sum + report.gasUsed, 0n);
     const avgGas = Number(totalGas) / this.reports.length;
     
     return {
       totalOperations: this.reports.length,
+      measuredOperations: this.reports.filter(report => report.source === 'measured').length,
+      simulatedOperations: this.reports.filter(report => report.source === 'simulated').length,
       totalGasUsed: totalGas.toString(),
       averageGasPerOperation: avgGas.toFixed(0),
-      estimatedCostUSD: this.estimateCostUSD(totalGas),
+      estimatedCostUSD: await this.estimateCostUSD(totalGas),
+      costByChain: await this.estimateChainCosts(),
     };
   }
 
   /**
-   * Estimate cost in USD
+   * Price all reported operations on every configured chain
+   */
+  private async estimateChainCosts(): Promise<ChainCostEstimate[]> {
+    const totalGas = this.reports.reduce((sum, report) => sum + report.gasUsed, 0n);
+    const txCount = this.reports.reduce((sum, report) => sum + (report.txCount ?? 1), 0);
+    const calldataBytes = this.reports.reduce(
+      (sum, report) => sum + (report.calldataBytes ?? DEFAULT_CALLDATA_BYTES_PER_TX * (report.txCount ?? 1)),
+      0
+    );
+    
+    return this.costEstimator.estimateAll(totalGas, calldataBytes, txCount);
+  }
+
+  /**
+   * Deploy the token artifacts to the local dev chain (Hardhat/Anvil).
+   * Leaves `contracts` unset when no node is reachable, so every demo
+   * falls back to its simulated numbers.
    */
-  private estimateCostUSD(gasUsed: bigint): string {
-    // Simplified estimation
-    const gasPrice = 20n; // 20 gwei (approximate)
-    const ethPrice = 2000n; // $2000 per ETH (approximate)
+  private async setupLocalChain() {
+    // Signer keys mean the caller wants real gas, so there is no simulated fallback
+    const live = this.signerKeys.length > 0;
+    try {
+      this.network = await withTimeout(this.provider.getNetwork(), CONNECT_TIMEOUT_MS);
+    } catch (error) {
+      this.provider.destroy();
+      if (live) {
+        throw new Error(`Signer keys given but no node reachable: ${(error as Error).message}`);
+      }
+      console.log('⚠️ No local node reachable, using simulated gas numbers\n');
+      return;
+    }
     
-    const costWei = gasUsed * gasPrice * 1000000000n; // gwei to wei
-    const costEth = Number(costWei) / 1e18;
-    const costUSD = costEth * Number(ethPrice);
+    this.applyLiveGasSource();
     
-    return `$${costUSD.toFixed(2)}`;
+    try {
+      this.startBlock = await this.provider.getBlockNumber() + 1;
+      // NonceManager because the provider caches nonce lookups between back-to-back deploys
+      const deployer = live
+        ? new ethers.NonceManager(new ethers.Wallet(this.signerKeys[0], this.provider))
+        : await this.provider.getSigner(0);
+      this.deployer = await deployer.getAddress();
+      this.recipient = live
+        ? (this.signerKeys[1] ? new ethers.Wallet(this.signerKeys[1]).address : ethers.Wallet.createRandom().address)
+        : await (await this.provider.getSigner(1)).getAddress();
+      
+      const erc20 = await this.deploy(CONTRACT_ARTIFACTS.ERC20, deployer);
+      const erc721 = await this.deploy(CONTRACT_ARTIFACTS.ERC721, deployer);
+      const erc1155 = await this.deploy(CONTRACT_ARTIFACTS.ERC1155, deployer, ...ERC1155_CONSTRUCTOR_ARGS);
+      const optimizedErc1155 = await this.deploy(
+        loadOptimizedArtifact('LeanMultiToken.sol', 'LeanMultiToken'),
+        deployer,
+        ...ERC1155_CONSTRUCTOR_ARGS
+      );
+      const permitToken = await this.deploy(CONTRACT_ARTIFACTS.ERC20Permit, deployer);
+      // The recipient already holds some, so every approval flow pays the same balance write
+      await this.send(permitToken.transfer(this.recipient, 1n));
+      // Use the canonical Permit2 on forks that have it, the local stand-in otherwise
+      const permit2 = await this.provider.getCode(PERMIT2_ADDRESS) !== '0x'
+        ? new ethers.Contract(PERMIT2_ADDRESS, CONTRACT_ARTIFACTS.Permit2.abi, deployer)
+        : await this.deploy(CONTRACT_ARTIFACTS.Permit2, deployer);
+      const batchDistributor = await this.deploy(CONTRACT_ARTIFACTS.BatchDistributor, deployer);
+      
+      // Seed ERC-1155 balances for the transfer demos (ids 1-10)
+      const ids = Array.from({ length: 10 }, (_, i) => BigInt(i + 1));
+      await this.send(erc1155.mintBatch(this.deployer, ids, ids.map(() => 1000n), '0x'));
+      await this.send(optimizedErc1155.mintBatch(this.deployer, ids, ids.map(() => 1000n), '0x'));
+      
+      this.contracts = { erc20, erc721, erc1155, optimizedErc1155, permitToken, permit2, batchDistributor };
+      this.signer = deployer;
+      console.log(`✅ Deployed demo contracts to chain ${this.network.chainId}, measuring real gas\n`);
+    } catch (error) {
+      if (live) {
+        throw new Error(`Deploying the demo contracts with the given signer keys failed: ${(error as Error).message}`);
+      }
+      console.log(`⚠️ Contract deployment failed (${(error as Error).message}), using simulated gas numbers\n`);
+      this.contracts = null;
+    }
   }
-}
 
-// Utility class for gas analysis
-class GasAnalyzer {
-  constructor(private provider: ethers.JsonRpcProvider) {}
-  
-  async analyzeTransaction(txHash: string) {
-    const receipt = await this.provider.getTransactionReceipt(txHash);
-    return {
-      gasUsed: receipt?.gasUsed || 0n,
-      effectiveGasPrice: receipt?.gasPrice || 0n,
-      totalCost: (receipt?.gasUsed || 0n) * (receipt?.gasPrice || 0n),
-    };
+  /**
+   * Price the first configured chain from the connected node
+   */
+  private applyLiveGasSource() {
+    if (!this.liveGasSource) {
+      return;
+    }
+    
+    const gasPrice = this.liveGasSource === 'fee-history'
+      ? new FeeHistorySource(this.provider)
+      : new ProviderFeeDataSource(this.provider);
+    const [first, ...rest] = this.pricing.chains;
+    this.costEstimator = new GasCostEstimator({
+      ...this.pricing,
+      chains: [{ ...first, gasPrice }, ...rest],
+    });
+    console.log(`⛽ Pricing ${first.name} with live gas price (${gasPrice.name})\n`);
+  }
+
+  /**
+   * Deploy a Hardhat artifact and attach its ABI
+   */
+  private async deploy(
+    artifact: { abi: ethers.InterfaceAbi; bytecode: string },
+    signer: ethers.Signer,
+    ...args: unknown[]
+  ): Promise<ethers.Contract> {
+    const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, signer);
+    const deployed = await factory.deploy(...args);
+    await deployed.waitForDeployment();
+    return new ethers.Contract(await deployed.getAddress(), artifact.abi, signer);
+  }
+
+  /**
+   * Send a contract call, wait for it to be mined and return its hash
+   */
+  private async send(tx: Promise<ethers.ContractTransactionResponse>): Promise<string> {
+    const response = await tx;
+    await response.wait();
+    return response.hash;
+  }
+
+  /**
+   * Deploy the neural contracts and a NeuralAccount, then grant a session
+   * key with one neural-signed op; returns the hash of that bundle
+   */
+  private async grantNeuralSession(): Promise<string> {
+    // The neural ledger signs with wallets, so fund fresh ones from the deployer
+    const [owner, bundlerWallet] = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom()]
+      .map(wallet => new ethers.Wallet(wallet.privateKey, this.provider));
+    for (const wallet of [owner, bundlerWallet]) {
+      const funding = await this.signer!.sendTransaction({ to: wallet.address, value: ethers.parseEther('1') });
+      await funding.wait();
+    }
+    
+    const backend = new SchnorrPatternBackend();
+    const pattern = ethers.hexlify(ethers.randomBytes(32));
+    const ledger = await ChainNeuralLedger.deploy(owner, backend);
+    const { accounts } = ledger;
+    const account = await accounts.createAccount(owner, backend.commit(pattern));
+    await accounts.depositTo(owner, account.address, ethers.parseEther('0.1'));
+    
+    // Same permissions and caps as the neural demo's session
+    const bundler = new LocalBundler(accounts, bundlerWallet);
+    const policy = createSessionPolicy(ethers.Wallet.createRandom().address, {
+      now: await ledger.now(),
+      permissions: [
+        { target: this.recipient, selectors: [ETH_TRANSFER_SELECTOR] },
+        { target: ledger.domain.verifyingContract, selectors: [ethers.id('transfer(address,uint256)').slice(0, 10)] },
+      ],
+      maxValuePerOp: ethers.parseEther('0.05'),
+      maxTotalValue: ethers.parseEther('0.08'),
+      maxGasFeePerOp: ethers.parseEther('0.01'),
+    });
+    const grant = await grantSession(
+      bundler,
+      new UserOperationBuilder(bundler, ledger.domain.chainId),
+      account.address,
+      policy,
+      neuralUserOpSigner(owner, pattern, backend)
+    );
+    return grant.transactionHash;
+  }
+
+  /**
+   * Percent saved going from `baseline` to `optimized`, undefined unless both have the same source
+   */
+  private savingsPct(baseline: GasMeasurement, optimized: GasMeasurement): number | undefined {
+    if (baseline.source !== optimized.source) {
+      return undefined;
+    }
+    return (Number(baseline.gas - optimized.gas) / Number(baseline.gas)) * 100;
+  }
+
+  /**
+   * Mint ERC-721 tokens (to the deployer by default) and return their ids
+   */
+  private async mintNfts(
+    contracts: DeployedContracts,
+    count: number,
+    to: string = this.deployer
+  ): Promise<{ tokenIds: bigint[]; hashes: string[] }> {
+    const tokenIds: bigint[] = [];
+    const hashes: string[] = [];
+    
+    for (let i = 0; i < count; i++) {
+      const tokenId = this.nextNftId++;
+      hashes.push(await this.send(contracts.erc721.safeMint(to, `ipfs://demo/${tokenId}`)));
+      tokenIds.push(tokenId);
+    }
+    
+    return { tokenIds, hashes };
+  }
+
+  /**
+   * Measure every scenario in order, keeping the simulated figure as a fallback
+   */
+  private async measureScenarios(scenarios: GasScenario[]): Promise<GasMeasurement[]> {
+    const results: GasMeasurement[] = [];
+    for (const scenario of scenarios) {
+      results.push(await this.measureGas(scenario));
+    }
+    return results;
+  }
+
+  /**
+   * Sum the receipt gas of a scenario's transactions
+   */
+  private async measureGas(scenario: GasScenario): Promise<GasMeasurement> {
+    if (!this.contracts || !scenario.run) {
+      return { gas: scenario.simulated, source: 'simulated' };
+    }
+    
+    try {
+      const txHashes = await scenario.run(this.contracts);
+      // Trace single transactions only: tracing is slow and a sum of traces explains little
+      const trace = txHashes.length === 1;
+      let gas = 0n;
+      let calldataBytes = 0;
+      let breakdown: GasBreakdown | undefined;
+      for (const txHash of txHashes) {
+        breakdown = await this.gasAnalyzer.analyzeTransaction(txHash, { trace });
+        gas += breakdown.gasUsed;
+        calldataBytes += breakdown.calldata.zeroBytes + breakdown.calldata.nonZeroBytes;
+      }
+      return {
+        gas,
+        source: 'measured',
+        txCount: txHashes.length,
+        calldataBytes,
+        breakdown: trace ? breakdown : undefined,
+      };
+    } catch (error) {
+      console.log(`  ⚠️ ${scenario.standard}: measurement failed (${(error as Error).message}), using simulated value`);
+      return { gas: scenario.simulated, source: 'simulated' };
+    }
+  }
+
+  /**
+   * Estimate cost in USD on the first configured chain
+   */
+  private async estimateCostUSD(gasUsed: bigint): Promise<string> {
+    return `$${(await this.costEstimator.estimateUSD(gasUsed)).toFixed(2)}`;
   }
 }
 
-// Run the demo if executed directly
+// Run the demo if executed directly (see examples/cli.ts for flags)
 if (require.main === module) {
-  const demo = new GasOptimizationDemo();
-  
-  demo.runAllDemos().catch(error => {
-    console.error('Demo failed:', error);
-    process.exit(1);
-  });
+  import('./cli').then(({ runCli }) => runCli(['gas', ...process.argv.slice(2)]))
+    .then(exitCode => process.exit(exitCode));
 }
 
-export { GasOptimizationDemo, GasAnalyzer };
\ No newline at end of file
+export { GasOptimizationDemo, GasAnalyzer, GAS_DEMOS, DEFAULT_RPC_URL };
+export type { GasDemoName, GasDemoOptions, LiveGasSource };
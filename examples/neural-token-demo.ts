@@ -7,28 +7,120 @@
  */
 
 import { ethers } from 'ethers';
-import { NeuralSignatureGenerator } from './utils/neural-signature';
+import { NeuralInputSource, NeuralKeystore, NeuralSignatureGenerator } from './utils/neural-signature';
+import {
+  NeuralProofNonces,
+  NeuralProofVerifier,
+  TokenTransfer,
+  createNeuralProof,
+  neuralProofDigest,
+} from './utils/neural-proof';
+import { BatchItem, NeuralBatchPlan, checkBatchItems, createNeuralBatchProof, planNeuralBatch } from './utils/neural-batch';
+import { PatternProof, SECP256K1_ORDER, SchnorrPatternBackend, ZkProvingBackend } from './utils/neural-zk';
+import {
+  ChainNeuralLedger,
+  NEURAL_TOKEN_DECIMALS,
+  NeuralLedger,
+  SoulboundAction,
+} from './utils/neural-ledger';
+import { connectHardhatNetwork, fundAccounts } from './utils/hardhat-network';
+import { withTimeout } from './utils/timeout';
+import {
+  ETH_TRANSFER_SELECTOR,
+  SessionKeyValidator,
+  createSessionPolicy,
+  grantSession,
+  sessionUserOpSigner,
+} from './utils/session-keys';
+import {
+  DEFAULT_RECOVERY_DELAY_SECONDS,
+  GuardianConfig,
+  RecoveryRequest,
+  approveRecovery,
+  buildRecoveryTypedData,
+  encodeSetGuardians,
+  orderApprovals,
+} from './utils/social-recovery';
+import {
+  LocalBundler,
+  NEURAL_ACCOUNT_ABI,
+  NEURAL_SIGNATURE_LENGTH,
+  PackedUserOperation,
+  UserOpSigner,
+  UserOperationBuilder,
+  neuralUserOpSigner,
+  packUserOpGas,
+  unpackUserOpGas,
+} from './utils/user-operation';
 
-// Mock interfaces for demonstration
-interface NeuralProof {
-  neuralHash: string;
-  zkProof: string;
-  timestamp: number;
-  nonce: number;
+interface NeuralDemoOptions {
+  network?: string;
+  // Private keys for Alice, Bob and Charlie; defaults to Hardhat dev keys
+  signerKeys?: string[];
+  // Where enrolled neural templates are kept between runs
+  keystorePath?: string;
+  // Encrypts the keystore file; without one templates are stored in plaintext
+  keystorePassphrase?: string;
+  // Re-enroll subjects whose stored template came from another input source
+  reenroll?: boolean;
+  // Where neural captures come from; defaults to synthetic feature vectors
+  inputSource?: NeuralInputSource;
+  // Proves knowledge of enrolled patterns; defaults to the local Schnorr backend
+  zkBackend?: ZkProvingBackend;
+  // Deploy to the in-process Hardhat network instead of a node
+  offline?: boolean;
 }
 
-interface TokenTransfer {
-  from: string;
-  to: string;
-  amount: string;
-  tokenId?: string;
-  neuralProof?: NeuralProof;
+// How long to wait for the node before giving up
+const CONNECT_TIMEOUT_MS = 3000;
+
+// Proofs generated per run of the ZK demo, to average timings over
+const ZK_BENCHMARK_RUNS = 10;
+
+// NeuralToken calls the smart account makes in the account abstraction demo
+const NEURAL_TOKEN_CALLS = [
+  'function transfer(address to, uint256 amount)',
+  'function registerNeuralSignature(bytes32 neuralHash)',
+];
+
+// Token ids Alice mints in the batch demo: fungible ids 1 and 3, NFTs 2 and 4
+const MULTI_TOKEN_COLLECTION = [
+  { tokenId: 1n, supply: 100n },
+  { tokenId: 2n, supply: 1n },
+  { tokenId: 3n, supply: 50n },
+  { tokenId: 4n, supply: 1n },
+];
+
+// The batch demo's item-by-item comparison sends the same items from these ids
+const COMPARISON_ID_OFFSET = 100n;
+
+// Demo scenarios, in the order runAllDemos runs them
+const NEURAL_DEMOS = ['erc20', 'soulbound', 'batch', 'account-abstraction', 'zk-proofs'] as const;
+
+type NeuralDemoName = typeof NEURAL_DEMOS[number];
+
+interface NeuralDemoResult {
+  name: NeuralDemoName;
+  status: 'ok' | 'failed';
+  durationMs: number;
+  error?: string;
 }
 
 class NeuralTokenDemo {
   private provider: ethers.JsonRpcProvider;
+  private rpcUrl: string;
   private neuralGenerator: NeuralSignatureGenerator;
+  private zkBackend: ZkProvingBackend;
+  private offline: boolean;
+  // Created on first use: contracts deployed to the node, or to the in-process network offline
+  private ledger?: Promise<NeuralLedger>;
   private demoWallets: ethers.Wallet[] = [];
+  // Shared by prover and verifier, like the contract's nonces() mapping
+  private proofNonces = new NeuralProofNonces();
+  // NeuralMultiToken keeps its own proof nonces
+  private multiTokenNonces = new NeuralProofNonces();
+  // Gas each demo measured, for the summary
+  private gasImpact: Partial<Record<NeuralDemoName, string>> = {};
   
   // Demo configuration
   private config = {
@@ -37,27 +129,38 @@ class NeuralTokenDemo {
     neuralDifficulty: 3, // Simulated neural pattern complexity
   };
 
-  constructor(rpcUrl?: string) {
-    this.provider = new ethers.JsonRpcProvider(
-      rpcUrl || `https://${this.config.network}.infura.io/v3/YOUR_API_KEY`
-    );
-    this.neuralGenerator = new NeuralSignatureGenerator();
+  constructor(rpcUrl?: string, options: NeuralDemoOptions = {}) {
+    this.config.network = options.network ?? this.config.network;
+    this.rpcUrl = rpcUrl || `https://${this.config.network}.infura.io/v3/YOUR_API_KEY`;
+    // Demos read balances right after changing them, so identical reads must not be served from cache
+    this.provider = new ethers.JsonRpcProvider(this.rpcUrl, undefined, { cacheTimeout: -1 });
+    this.neuralGenerator = new NeuralSignatureGenerator({
+      source: options.inputSource,
+      keystore: new NeuralKeystore(options.keystorePath ?? 'neural-keystore.json', options.keystorePassphrase),
+      reenroll: options.reenroll,
+    });
+    this.zkBackend = options.zkBackend ?? new SchnorrPatternBackend();
+    this.offline = options.offline ?? false;
     
     // Create demo wallets
-    this.initializeDemoWallets();
+    this.initializeDemoWallets(options.signerKeys);
   }
 
   /**
    * Initialize demo wallets with test funds
    */
-  private initializeDemoWallets() {
+  private initializeDemoWallets(signerKeys?: string[]) {
     // In production, you'd use actual wallets
     // For demo, we create mock wallets
-    const privateKeys = [
+    const privateKeys = signerKeys ?? [
       '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80', // Hardhat #0
       '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d', // Hardhat #1
       '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a', // Hardhat #2
     ];
+    
+    if (privateKeys.length < 3) {
+      throw new Error(`Neural demo needs 3 signer keys (Alice, Bob, Charlie), got ${privateKeys.length}`);
+    }
 
     this.demoWallets = privateKeys.map(key => 
       new ethers.Wallet(key, this.provider)
@@ -69,36 +172,62 @@ class NeuralTokenDemo {
   /**
    * Run all neural token demos
    */
-  async runAllDemos() {
+  async runAllDemos(): Promise<NeuralDemoResult[]> {
     console.log('🧠 Starting Neural Token Integration Demo\n');
     console.log('='.repeat(60));
     console.log('NEURAL AUTHENTICATION FOR TOKEN STANDARDS');
-    console.log('='.repeat(60) + '\n');
+    console.log('='.repeat(60));
+    console.log(this.offline
+      ? 'Mode: offline (in-process Hardhat network)\n'
+      : `Mode: online (${this.rpcUrl})\n`);
+
+    const results = await this.runDemos([...NEURAL_DEMOS]);
+    const failed = results.filter(result => result.status === 'failed');
+    
+    if (failed.length > 0) {
+      failed.forEach(result => console.error(`Demo ${result.name} failed:`, result.error));
+      return results;
+    }
+    
+    // Summary
+    await this.generateNeuralDemoSummary();
+    return results;
+  }
 
-    try {
+  /**
+   * Run the selected demos in order and record how each one went
+   */
+  async runDemos(names: NeuralDemoName[]): Promise<NeuralDemoResult[]> {
+    const demos: Record<NeuralDemoName, () => Promise<void>> = {
       // Demo 1: Neural ERC-20 Transfers
-      await this.demoNeuralERC20();
-      
+      'erc20': () => this.demoNeuralERC20(),
       // Demo 2: Neural Soulbound NFTs (ERC-721)
-      await this.demoNeuralSoulboundNFTs();
-      
+      'soulbound': () => this.demoNeuralSoulboundNFTs(),
       // Demo 3: Neural Batch Operations (ERC-1155)
-      await this.demoNeuralBatchOperations();
-      
+      'batch': () => this.demoNeuralBatchOperations(),
       // Demo 4: Neural Account Abstraction (ERC-4337)
-      await this.demoNeuralAccountAbstraction();
-      
+      'account-abstraction': () => this.demoNeuralAccountAbstraction(),
       // Demo 5: Zero-Knowledge Neural Proofs
-      await this.demoZKNeuralProofs();
-      
-      // Summary
-      await this.generateNeuralDemoSummary();
-      
-    } catch (error) {
-      console.error('Demo failed:', error);
-      // For demo purposes, continue with simulated results
-      await this.runSimulatedDemos();
+      'zk-proofs': () => this.demoZKNeuralProofs(),
+    };
+    
+    const results: NeuralDemoResult[] = [];
+    for (const name of names) {
+      const startedAt = Date.now();
+      try {
+        await demos[name]();
+        results.push({ name, status: 'ok', durationMs: Date.now() - startedAt });
+      } catch (error) {
+        results.push({
+          name,
+          status: 'failed',
+          durationMs: Date.now() - startedAt,
+          error: (error as Error).message,
+        });
+      }
     }
+    
+    return results;
   }
 
   /**
@@ -113,39 +242,76 @@ class NeuralTokenDemo {
     console.log(`  Alice: ${alice.address}`);
     console.log(`  Bob:   ${bob.address}`);
     
-    // Step 1: Generate neural signature
+    // Step 1: Enroll (or load) Alice's template and match a fresh capture against it
     console.log('\n  🔄 Step 1: Generating neural signature...');
     const neuralPattern = await this.neuralGenerator.generatePattern('alice-brain-pattern');
-    const neuralHash = this.neuralGenerator.hashPattern(neuralPattern);
+    const neuralHash = this.zkBackend.commit(neuralPattern);
+    const match = await this.neuralGenerator.verify('alice-brain-pattern');
     
     console.log(`  Neural Hash: ${neuralHash.slice(0, 16)}...`);
+    console.log(`  Fresh capture: ${match.matched ? '✅ matched' : '❌ rejected'} (distance ${match.distance.toFixed(3)}, threshold ${match.threshold})`);
+    if (!match.matched) {
+      throw new Error('Neural capture did not match the enrolled template');
+    }
+    
+    // Error rates over fresh captures of every demo subject
+    const subjects = ['alice-brain-pattern', 'bob-brain-pattern', 'charlie-brain-pattern'];
+    for (const subject of subjects) {
+      await this.neuralGenerator.generatePattern(subject);
+    }
+    const rates = this.neuralGenerator.evaluate(await this.neuralGenerator.captureDataset(subjects, 5));
+    console.log(
+      `  Matcher: FAR ${(rates.far * 100).toFixed(1)}% (${rates.impostorAttempts} impostor), ` +
+      `FRR ${(rates.frr * 100).toFixed(1)}% (${rates.genuineAttempts} genuine attempts)`
+    );
     
-    // Step 2: Register neural signature (simulated)
+    // Step 2: Register neural signature
     console.log('\n  📝 Step 2: Registering neural signature on-chain...');
-    // In real implementation: await neuroToken.registerNeuralSignature(neuralHash);
+    const ledger = await this.neuralLedger();
+    const registrationGas = await ledger.registerNeuralSignature(alice, neuralHash);
+    console.log(`  NeuralToken: ${ledger.domain.verifyingContract}`);
+    console.log(`  Registered: ✅ (${registrationGas.toLocaleString()} gas, ${ledger.source})`);
     
     // Step 3: Perform neural transfer
     console.log('\n  💸 Step 3: Performing neural-authenticated transfer...');
     
-    const transfer: TokenTransfer = {
-      from: alice.address,
-      to: bob.address,
-      amount: '100.0',
-      neuralProof: {
-        neuralHash,
-        zkProof: '0x' + '00'.repeat(64), // Mock ZK proof
-        timestamp: Date.now(),
-        nonce: 1,
-      },
-    };
+    const { domain } = ledger;
+    // The token checks expiry against ledger time, which can run ahead of the wall clock
+    const now = await ledger.now();
+    const transfer: TokenTransfer = { from: alice.address, to: bob.address, amount: '100.0' };
+    transfer.neuralProof = await createNeuralProof(alice, domain, this.proofNonces, transfer, {
+      sender: alice.address,
+      neuralHash,
+      proveDigest: async digest => this.zkBackend.encode(await this.zkBackend.prove(neuralPattern, digest)),
+      now,
+    });
+    const digest = neuralProofDigest(domain, transfer, transfer.neuralProof);
+    const zkProof = this.zkBackend.decode(transfer.neuralProof.zkProof, neuralHash, digest);
     
     console.log(`  Transfer: ${transfer.amount} tokens`);
-    console.log(`  Auth: Neural signature + ZK proof`);
-    console.log(`  Security: Biometric + Cryptographic verification`);
+    console.log(`  ZK proof: ${ethers.dataLength(transfer.neuralProof.zkProof)} bytes (${zkProof.backend}), bound to the signed EIP-712 digest`);
+    console.log(`  Auth: EIP-712 neural proof (chain ${domain.chainId}, nonce ${transfer.neuralProof.nonce}, expires ${new Date(transfer.neuralProof.expiry * 1000).toISOString()})`);
+    console.log(`  Signature: ${transfer.neuralProof.signature.slice(0, 18)}...`);
+    
+    // Verify as the contract would, then show that the same proof can't be replayed
+    const verifier = new NeuralProofVerifier(domain, this.proofNonces);
+    if (!await this.zkBackend.verify(zkProof, neuralHash, digest)) {
+      throw new Error('ZK proof does not match the registered neural hash');
+    }
+    const verification = verifier.verify(transfer, alice.address, now);
+    if (!verification.valid) {
+      throw new Error(`Neural proof rejected: ${verification.message}`);
+    }
+    console.log('  Verification: ✅ accepted');
+    
+    const replay = verifier.verify(transfer, alice.address, now);
+    console.log(`  Replay attempt: ❌ rejected (${replay.reason})`);
     
-    // Simulate transaction
-    const simulatedGas = 65000n; // Neural transfer adds ~15K gas
-    console.log(`  Gas estimate: ${simulatedGas.toString()} (base: 45K + neural: 20K)`);
+    const { neuralGas, plainGas, replayError } = await this.executeNeuralTransfer(ledger, transfer);
+    console.log(`  On-chain transfer: ✅ balances moved by ${transfer.amount}`);
+    console.log(`  On-chain replay: ❌ reverted (${replayError})`);
+    console.log(`  Gas used: ${neuralGas.toLocaleString()} (plain transfer: ${plainGas.toLocaleString()}, neural overhead: +${(neuralGas - plainGas).toLocaleString()}, ${ledger.source})`);
+    this.gasImpact.erc20 = `+${(neuralGas - plainGas).toLocaleString()} gas per transfer over a plain transfer`;
     
     console.log('\n  ✅ Neural ERC-20 transfer completed!\n');
   }
@@ -157,15 +323,14 @@ class NeuralTokenDemo {
     console.log('🎨 DEMO 2: Neural Soulbound NFTs (ERC-721)');
     console.log('------------------------------------------');
     
-    const [alice] = this.demoWallets;
+    const [alice, bob, charlie] = this.demoWallets;
     
     console.log(`  Owner: ${alice.address}`);
+    console.log(`  Issuer: ${charlie.address}`);
     
-    // Generate unique neural pattern for this NFT
-    const neuralPattern = await this.neuralGenerator.generatePattern(
-      `nft-${Date.now()}-alice-brain`
-    );
-    const neuralHash = this.neuralGenerator.hashPattern(neuralPattern);
+    // Bind the NFT to Alice's enrolled pattern
+    const neuralPattern = await this.neuralGenerator.generatePattern('alice-brain-pattern');
+    const neuralHash = this.zkBackend.commit(neuralPattern);
     
     console.log('\n  🔗 Creating Neural Soulbound Token:');
     console.log(`  - Token bound to neural hash: ${neuralHash.slice(0, 16)}...`);
@@ -188,9 +353,42 @@ class NeuralTokenDemo {
     
     console.log(`  Metadata: ${JSON.stringify(nftMetadata, null, 2).split('\n').map(l => '    ' + l).join('\n')}`);
     
-    // Demonstrate transfer restriction
-    console.log('\n  🚫 Attempting transfer (should fail)...');
-    console.log('  Error: "NeuralSBT: Token is soulbound and cannot be transferred"');
+    const { soulbound, source } = await this.neuralLedger();
+    const tokenURI = `data:application/json;base64,${Buffer.from(JSON.stringify(nftMetadata)).toString('base64')}`;
+    const minted = await soulbound.issue(charlie, alice.address, neuralHash, tokenURI);
+    if (await soulbound.tokenURI(minted.tokenId) !== tokenURI) {
+      throw new Error(`Token #${minted.tokenId} does not carry the minted metadata`);
+    }
+    console.log(`  NeuralSBT: ${soulbound.address}`);
+    console.log(`  Minted: token #${minted.tokenId} → ${alice.address.slice(0, 10)}... (${minted.gasUsed.toLocaleString()} gas, ${source})`);
+    this.gasImpact.soulbound = `${minted.gasUsed.toLocaleString()} gas to mint`;
+    console.log(`  ERC-5192 locked(${minted.tokenId}): ${await soulbound.locked(minted.tokenId)}`);
+    
+    // Every way out of Alice's wallet must revert with the contract's error
+    console.log('\n  🚫 Attempting transfers (each should revert)...');
+    const attempts: { action: SoulboundAction; expected: string }[] = [
+      { action: 'transferFrom', expected: 'TokenIsSoulbound' },
+      { action: 'safeTransferFrom', expected: 'TokenIsSoulbound' },
+      { action: 'approve', expected: 'SoulboundApprovalDisabled' },
+    ];
+    for (const { action, expected } of attempts) {
+      const error = await soulbound.actionError(alice, action, minted.tokenId, bob.address);
+      console.log(`  ${action} → Bob: ${error ? `❌ reverted (${error})` : '⚠️ succeeded'}`);
+      if (error !== expected) {
+        throw new Error(`${action} should revert with ${expected}, got ${error ?? 'success'}`);
+      }
+    }
+    
+    // Recovery: Alice lost her wallet, so the issuer moves the credential to a new one
+    console.log('\n  🛟 Recovery (issuer revokes and reissues to a new wallet):');
+    const newWallet = ethers.Wallet.createRandom();
+    const reissued = await soulbound.reissue(charlie, minted.tokenId, newWallet.address);
+    if (await soulbound.ownerOf(minted.tokenId) !== undefined || await soulbound.ownerOf(reissued.tokenId) !== newWallet.address) {
+      throw new Error(`Reissue did not move token #${minted.tokenId} to ${newWallet.address}`);
+    }
+    console.log(`  Token #${minted.tokenId}: revoked`);
+    console.log(`  Token #${reissued.tokenId}: → ${newWallet.address.slice(0, 10)}... (${reissued.gasUsed.toLocaleString()} gas, ${source})`);
+    console.log(`  Same neural hash: ${await soulbound.neuralHashOf(reissued.tokenId) === neuralHash ? '✅' : '❌'}, locked(${reissued.tokenId}): ${await soulbound.locked(reissued.tokenId)}`);
     
     console.log('\n  ✅ Neural Soulbound NFT created and secured!\n');
   }
@@ -208,38 +406,110 @@ class NeuralTokenDemo {
     console.log(`  To: ${bob.address}, ${charlie.address}`);
     
     // Generate neural signature for batch
-    const neuralPattern = await this.neuralGenerator.generatePattern('batch-operation-brain');
-    const neuralHash = this.neuralGenerator.hashPattern(neuralPattern);
+    const neuralPattern = await this.neuralGenerator.generatePattern('alice-brain-pattern');
+    const neuralHash = this.zkBackend.commit(neuralPattern);
     
     console.log('\n  🔄 Single neural authentication for batch:');
     console.log(`  Neural Hash: ${neuralHash.slice(0, 16)}...`);
     
+    // Alice owns the collection: fungible ids 1 and 3, NFTs 2 and 4, and the same again from 101 for the comparison run
+    const ledger = await this.neuralLedger();
+    const { multiToken } = ledger;
+    const collection = MULTI_TOKEN_COLLECTION.flatMap(token => [token, { ...token, tokenId: token.tokenId + COMPARISON_ID_OFFSET }]);
+    const mintGas = await multiToken.mintBatch(alice, alice.address, collection.map(token => token.tokenId), collection.map(token => token.supply));
+    const registrationGas = await multiToken.registerNeuralSignature(alice, neuralHash);
+    console.log(`  NeuralMultiToken: ${multiToken.address}`);
+    console.log(`  Minted ${collection.length} token ids (${mintGas.toLocaleString()} gas), neural hash registered (${registrationGas.toLocaleString()} gas, ${ledger.source})`);
+    
     // Batch transfer items
-    const batchTransfer = {
-      neuralProof: {
-        neuralHash,
-        zkProof: '0x' + '00'.repeat(64),
-        timestamp: Date.now(),
-        nonce: 2,
-      },
-      items: [
-        { to: bob.address, tokenId: 1, amount: '50' }, // Fungible token
-        { to: bob.address, tokenId: 2, amount: '1' },  // NFT
-        { to: charlie.address, tokenId: 3, amount: '25' }, // Fungible token
-        { to: charlie.address, tokenId: 4, amount: '1' },  // NFT
-      ],
-    };
+    const items: BatchItem[] = [
+      { to: bob.address, tokenId: 1n, amount: 50n }, // Fungible token
+      { to: bob.address, tokenId: 2n, amount: 1n },  // NFT
+      { to: charlie.address, tokenId: 3n, amount: 25n }, // Fungible token
+      { to: charlie.address, tokenId: 4n, amount: 1n },  // NFT
+    ];
+    const holdings = new Map<bigint, bigint>();
+    for (const token of collection) {
+      holdings.set(token.tokenId, await multiToken.balanceOf(alice.address, token.tokenId));
+    }
     
+    // The planner checks token ids and balances before anything is signed
+    const invalid = [
+      checkBatchItems(alice.address, [...items, { to: bob.address, tokenId: 7n, amount: 1n }], holdings),
+      checkBatchItems(alice.address, [...items, { to: charlie.address, tokenId: 2n, amount: 1n }], holdings),
+    ];
+    if (invalid.some(validation => validation.valid)) {
+      throw new Error('The batch planner accepted an unknown token id or an overdrawn balance');
+    }
+    console.log('\n  🚫 Rejected by the planner:');
+    console.log(`    + token 7 → Bob: ${invalid[0].reason}`);
+    console.log(`    + NFT 2 → Charlie as well: ${invalid[1].reason}`);
+    
+    const plan = planNeuralBatch(alice.address, items, holdings);
     console.log('\n  📊 Batch Transfer Items:');
-    batchTransfer.items.forEach((item, i) => {
+    items.forEach((item, i) => {
       console.log(`  ${i + 1}. ${item.amount} of token ${item.tokenId} → ${item.to.slice(0, 10)}...`);
     });
+    console.log(`  Grouped into ${plan.batches.length} safeBatchTransferFrom calls:`);
+    plan.batches.forEach(batch => {
+      console.log(`    → ${batch.to.slice(0, 10)}... ids [${batch.ids.join(', ')}], amounts [${batch.amounts.join(', ')}]`);
+    });
     
-    // Gas savings demonstration
-    console.log('\n  💰 Gas Savings Analysis:');
-    console.log('    Individual transfers (4 items): ~240K gas');
-    console.log('    Batch transfer with neural auth: ~95K gas');
-    console.log('    Savings: ~60%');
+    // One ZK proof and one signature, both bound to a digest over every batch
+    const { domain } = multiToken;
+    const proveBatch = async (batchPlan: NeuralBatchPlan) => createNeuralBatchProof(alice, domain, this.multiTokenNonces, batchPlan, {
+      sender: alice.address,
+      neuralHash,
+      proveDigest: async digest => this.zkBackend.encode(await this.zkBackend.prove(neuralPattern, digest)),
+      now: await ledger.now(),
+    });
+    const proof = await proveBatch(plan);
+    console.log(`  Batch hash: ${plan.batchHash.slice(0, 18)}..., one proof (nonce ${proof.nonce}) for ${plan.itemCount} items`);
+    
+    // The proof covers every batch: redirecting one of them breaks the signature
+    const redirected = { ...plan, batches: plan.batches.map(batch => ({ ...batch, to: bob.address })) };
+    const redirectError = await multiToken.neuralBatchTransferError(alice, redirected, proof);
+    if (!redirectError) {
+      throw new Error('NeuralMultiToken accepted a batch its proof does not cover');
+    }
+    console.log(`  Redirected batch: ❌ ${redirectError}`);
+    
+    const batchGas = await multiToken.neuralBatchTransfer(alice, plan, proof);
+    this.multiTokenNonces.use(alice.address, proof.nonce);
+    for (const item of items) {
+      if (await multiToken.balanceOf(item.to, item.tokenId) < item.amount) {
+        throw new Error(`Token ${item.tokenId} did not reach ${item.to}`);
+      }
+    }
+    const replayError = await multiToken.neuralBatchTransferError(alice, plan, proof);
+    if (!replayError) {
+      throw new Error('NeuralMultiToken accepted a replayed batch proof');
+    }
+    console.log(`  Executed: ✅ ${plan.batches.length} batches, ${plan.itemCount} items (${batchGas.toLocaleString()} gas)`);
+    console.log(`  Replay: ❌ ${replayError}`);
+    
+    // The same items from the second set of ids, one proof and one call each
+    let individualGas = 0n;
+    for (const item of items) {
+      const single = planNeuralBatch(alice.address, [{ ...item, tokenId: item.tokenId + COMPARISON_ID_OFFSET }], holdings);
+      const singleProof = await proveBatch(single);
+      individualGas += await multiToken.neuralBatchTransfer(alice, single, singleProof);
+      this.multiTokenNonces.use(alice.address, singleProof.nonce);
+    }
+    const plainGas = await multiToken.safeTransferFrom(alice, charlie.address, 1n, 1n);
+    
+    // Gas savings, measured
+    const count = BigInt(plan.itemCount);
+    const savings = Number(individualGas - batchGas) / Number(individualGas) * 100;
+    console.log(`\n  💰 Gas Savings Analysis (${ledger.source}):`);
+    console.log(`    Individual neural transfers (${count} items): ${individualGas.toLocaleString()} gas, ${(individualGas / count).toLocaleString()} per item`);
+    console.log(`    Batch transfer with one neural proof: ${batchGas.toLocaleString()} gas, ${(batchGas / count).toLocaleString()} per item`);
+    console.log(`    Plain safeTransferFrom, no neural auth: ${plainGas.toLocaleString()} gas per item`);
+    this.gasImpact.batch = `${(batchGas / count).toLocaleString()} gas per item batched, ${plainGas.toLocaleString()} for a plain safeTransferFrom`;
+    console.log(`    Savings: ${savings.toFixed(1)}%`);
+    if (batchGas >= individualGas) {
+      throw new Error('Batching did not amortize the neural proof');
+    }
     
     console.log('\n  ✅ Batch operation completed with single neural proof!\n');
   }
@@ -251,54 +521,301 @@ class NeuralTokenDemo {
     console.log('🔐 DEMO 4: Neural Account Abstraction (ERC-4337)');
     console.log('------------------------------------------------');
     
-    const neuralWalletAddress = '0x' + 'neural'.padEnd(40, '0');
+    const [alice, bob, charlie] = this.demoWallets;
+    const ledger = await this.neuralLedger();
+    const { accounts } = ledger;
+    
+    // Alice's account accepts ops carrying a proof of her pattern and her signature
+    const neuralPattern = await this.neuralGenerator.generatePattern('alice-brain-pattern');
+    const neuralHash = this.zkBackend.commit(neuralPattern);
+    const account = await accounts.createAccount(alice, neuralHash);
+    
+    console.log(`  Neural Smart Account: ${account.address} (${account.gasUsed.toLocaleString()} gas, ${ledger.source})`);
+    console.log(`  EntryPoint (local stand-in): ${accounts.entryPoint}`);
+    console.log(`  Owner: Alice, neural hash ${neuralHash.slice(0, 16)}...`);
+    
+    // ETH and tokens for the ops to spend, and a deposit to prepay their gas
+    await accounts.sendEth(alice, account.address, ethers.parseEther('1'));
+    await accounts.depositTo(alice, account.address, ethers.parseEther('0.1'));
+    await ledger.transfer(alice, account.address, ethers.parseUnits('100', NEURAL_TOKEN_DECIMALS));
+    console.log(`  Funded: 1 ETH, 100 NRL, ${ethers.formatEther(await accounts.depositOf(account.address))} ETH EntryPoint deposit`);
     
-    console.log(`  Neural Smart Account: ${neuralWalletAddress}`);
+    // Charlie runs the bundler and collects the gas fees
+    const bundler = new LocalBundler(accounts, charlie);
+    const builder = new UserOperationBuilder(bundler, ledger.domain.chainId);
+    const signNeural = neuralUserOpSigner(alice, neuralPattern, this.zkBackend);
+    const accountCalls = new ethers.Interface(NEURAL_ACCOUNT_ABI);
+    const tokenCalls = new ethers.Interface(NEURAL_TOKEN_CALLS);
+    const token = ledger.domain.verifyingContract;
     
-    // User operations with neural validation
-    const userOps = [
+    const requests = [
       {
-        type: 'Transfer',
-        to: '0xrecipient1',
-        value: '0.1 ETH',
-        neuralValidated: true,
+        label: 'Transfer 0.1 ETH → Bob',
+        callData: accountCalls.encodeFunctionData('execute', [bob.address, ethers.parseEther('0.1'), '0x']),
       },
       {
-        type: 'Swap',
-        dex: 'Uniswap',
-        input: '100 USDC',
-        output: '0.05 ETH',
-        neuralValidated: true,
+        label: 'Transfer 25 NRL → Bob',
+        callData: accountCalls.encodeFunctionData('execute', [
+          token,
+          0,
+          tokenCalls.encodeFunctionData('transfer', [bob.address, ethers.parseUnits('25', NEURAL_TOKEN_DECIMALS)]),
+        ]),
       },
       {
-        type: 'Stake',
-        protocol: 'Aave',
-        amount: '1000 USDC',
-        neuralValidated: true,
+        label: 'Register neural hash with NeuralToken',
+        callData: accountCalls.encodeFunctionData('execute', [
+          token,
+          0,
+          tokenCalls.encodeFunctionData('registerNeuralSignature', [neuralHash]),
+        ]),
       },
     ];
     
+    const firstNonce = await accounts.getNonce(account.address);
+    const userOps: PackedUserOperation[] = [];
+    for (const [i, request] of requests.entries()) {
+      userOps.push(await builder.build(
+        { sender: account.address, callData: request.callData, nonce: firstNonce + BigInt(i) },
+        signNeural
+      ));
+    }
+    
     console.log('\n  📋 Neural-Authenticated User Operations:');
     userOps.forEach((op, i) => {
-      console.log(`  ${i + 1}. ${op.type}: ${op.neuralValidated ? '🧠' : '❌'} ${op.value || op.amount || ''}`);
+      const gas = unpackUserOpGas(op);
+      console.log(`  ${i + 1}. ${requests[i].label}: 🧠 nonce ${op.nonce}, userOpHash ${builder.hash(op).slice(0, 18)}...`);
+      console.log(
+        `     Gas limits: verification ${gas.verificationGasLimit.toLocaleString()}, call ${gas.callGasLimit.toLocaleString()}, ` +
+        `preVerification ${gas.preVerificationGas.toLocaleString()}`
+      );
     });
+    console.log(`  Signature: ${NEURAL_SIGNATURE_LENGTH} bytes = neural hash (32) + ZK proof bound to the userOpHash (128) + owner ECDSA (65)`);
     
-    // Session management
-    console.log('\n  ⏱️ Neural Session Management:');
-    console.log('    Session expires: 24 hours');
-    console.log('    Permissions: Transfer, Swap, Stake');
-    console.log('    Max value per tx: 1 ETH');
-    console.log('    Revocable: Yes (via emergency neural override)');
+    // The EntryPoint rejects ops whose proof or signature doesn't cover them
+    const tampered = {
+      ...userOps[0],
+      callData: accountCalls.encodeFunctionData('execute', [charlie.address, ethers.parseEther('0.5'), '0x']),
+    };
+    const wrongPattern = await builder.build(
+      { sender: account.address, callData: requests[0].callData, nonce: firstNonce },
+      neuralUserOpSigner(alice, await this.neuralGenerator.generatePattern('bob-brain-pattern'), this.zkBackend)
+    );
+    const rejections = [await bundler.simulate([tampered]), await bundler.simulate([wrongPattern])];
+    if (rejections.some(reason => !reason)) {
+      throw new Error('The EntryPoint accepted an op its neural signature does not cover');
+    }
+    console.log('\n  🚫 Rejected before bundling:');
+    console.log(`    Tampered callData: ${rejections[0]}`);
+    console.log(`    Another pattern:   ${rejections[1]}`);
+    
+    // Submit all three as one bundle
+    const ethBefore = await accounts.ethBalance(bob.address);
+    const tokensBefore = await ledger.balanceOf(bob.address);
+    const bundle = await bundler.sendUserOperations(userOps);
+    
+    console.log(`\n  📦 Bundle: ${userOps.length} ops in one handleOps (${bundle.gasUsed.toLocaleString()} gas, ${ledger.source})`);
+    this.gasImpact['account-abstraction'] = `${(bundle.gasUsed / BigInt(userOps.length)).toLocaleString()} gas per neural-signed op in a bundle`;
+    bundle.outcomes.forEach((outcome, i) => {
+      const status = outcome.success ? '✅' : `❌ ${outcome.revertReason}`;
+      console.log(
+        `  ${i + 1}. ${status} ${outcome.actualGasUsed.toLocaleString()} gas, ` +
+        `${ethers.formatEther(outcome.actualGasCost)} ETH from the deposit`
+      );
+    });
+    if (bundle.outcomes.some(outcome => !outcome.success)) {
+      throw new Error('A user operation reverted in the account');
+    }
+    if (await accounts.ethBalance(bob.address) - ethBefore !== ethers.parseEther('0.1')
+      || await ledger.balanceOf(bob.address) - tokensBefore !== ethers.parseUnits('25', NEURAL_TOKEN_DECIMALS)) {
+      throw new Error('User operations did not move the expected ETH and tokens to Bob');
+    }
+    console.log('  Bob received 0.1 ETH and 25 NRL ✅');
+    const replayError = await bundler.simulate([userOps[0]]);
+    if (!replayError) {
+      throw new Error('The EntryPoint accepted a replayed user operation');
+    }
+    console.log(`  Replay of op 1: ${replayError}`);
+    
+    // Session keys: granted by a neural-signed op, then signing ops on their own within the policy
+    console.log('\n  ⏱️ Neural Session Keys:');
+    const sessionKey = ethers.Wallet.createRandom();
+    const policy = createSessionPolicy(sessionKey.address, {
+      now: await ledger.now(),
+      permissions: [
+        { target: bob.address, selectors: [ETH_TRANSFER_SELECTOR] },
+        { target: token, selectors: [tokenCalls.getFunction('transfer')!.selector] },
+      ],
+      maxValuePerOp: ethers.parseEther('0.05'),
+      maxTotalValue: ethers.parseEther('0.08'),
+      maxGasFeePerOp: ethers.parseEther('0.01'),
+    });
+    const grant = await grantSession(bundler, builder, account.address, policy, signNeural);
+    console.log(`    Session key ${sessionKey.address.slice(0, 10)}... granted by a neural-signed op (${grant.gasUsed.toLocaleString()} gas, ${ledger.source})`);
+    console.log(`    Expires: ${new Date(policy.validUntil * 1000).toISOString()} (24 hours)`);
+    console.log('    Permissions: ETH → Bob, NRL transfer()');
+    console.log(`    Value caps: ${ethers.formatEther(policy.maxValuePerOp)} ETH per op, ${ethers.formatEther(policy.maxTotalValue)} ETH in total, gas prefunds included`);
+    console.log(`    Gas cap: ${ethers.formatEther(policy.maxGasFeePerOp)} ETH prefund per op`);
+    
+    // The bundler checks each op against the policy before the EntryPoint does
+    const sessions = new SessionKeyValidator(accounts.entryPoint, ledger.domain.chainId, accounts.recoveryModule);
+    sessions.grant(account.address, policy);
+    const signSession = sessionUserOpSigner(sessionKey);
+    const sendEth = (to: string, amount: string) =>
+      accountCalls.encodeFunctionData('execute', [to, ethers.parseEther(amount), '0x']);
+    const sessionAttempts = [
+      { label: '0.05 ETH → Bob', callData: sendEth(bob.address, '0.05') },
+      { label: '0.05 ETH → Bob again', callData: sendEth(bob.address, '0.05') },
+      { label: '0.2 ETH → Bob', callData: sendEth(bob.address, '0.2') },
+      { label: '0.01 ETH → Charlie', callData: sendEth(charlie.address, '0.01') },
+      {
+        label: 'NRL approve(Charlie)',
+        callData: accountCalls.encodeFunctionData('execute', [
+          token,
+          0,
+          new ethers.Interface(['function approve(address spender, uint256 amount)']).encodeFunctionData('approve', [charlie.address, 1n]),
+        ]),
+      },
+    ];
+    
+    const checkSession = async (label: string, callData: string, maxFeePerGas?: bigint) => {
+      let op = await builder.build({ sender: account.address, callData }, signSession);
+      if (maxFeePerGas !== undefined) {
+        // A session key holder bidding up the fee its own bundler collects
+        op = { ...op, ...packUserOpGas({ ...unpackUserOpGas(op), maxFeePerGas }) };
+        op.signature = await signSession(builder.hash(op));
+      }
+      const verdict = sessions.validate(op, await ledger.now());
+      const entryPointError = await bundler.simulate([op]);
+      if (verdict.valid !== !entryPointError) {
+        throw new Error(`Session validator and EntryPoint disagree on "${label}": ${verdict.reason ?? 'valid'} vs ${entryPointError ?? 'accepted'}`);
+      }
+      if (!verdict.valid) {
+        console.log(`    ${label}: ❌ ${verdict.reason} (EntryPoint: ${entryPointError})`);
+        return;
+      }
+      const sent = await bundler.sendUserOperations([op]);
+      console.log(`    ${label}: ✅ bundled (${sent.gasUsed.toLocaleString()} gas), no neural proof needed`);
+    };
+    for (const attempt of sessionAttempts) {
+      await checkSession(attempt.label, attempt.callData);
+    }
+    await checkSession('0.01 ETH → Bob at 100 gwei', sendEth(bob.address, '0.01'), ethers.parseUnits('100', 'gwei'));
     
-    // Recovery features
-    console.log('\n  🛡️ Recovery Mechanisms:');
-    console.log('    - 3 trusted neural contacts');
-    console.log('    - Time-delayed emergency recovery');
-    console.log('    - Multi-sig fallback');
+    // Emergency revocation: the owner's own transaction, no proof or bundler needed
+    const revokeGas = await accounts.revokeSession(alice, account.address, sessionKey.address);
+    sessions.revoke(account.address, sessionKey.address);
+    console.log(`    Revoked by Alice directly (${revokeGas.toLocaleString()} gas, ${ledger.source})`);
+    await checkSession('0.01 ETH → Bob after revocation', sendEth(bob.address, '0.01'));
+    
+    await this.demoSocialRecovery(account.address, neuralHash, builder, signNeural);
     
     console.log('\n  ✅ Neural Account Abstraction demo complete!\n');
   }
 
+  /**
+   * Social recovery for the demo 4 account: guardians are set by a
+   * neural-signed op, a recovery Alice didn't ask for is cancelled, then
+   * Alice loses her device and guardians move the account to a new key and
+   * neural pattern once the delay has passed.
+   */
+  private async demoSocialRecovery(
+    account: string,
+    neuralHash: string,
+    builder: UserOperationBuilder,
+    signNeural: UserOpSigner
+  ) {
+    const [alice, bob, charlie] = this.demoWallets;
+    const ledger = await this.neuralLedger();
+    const { accounts } = ledger;
+    const bundler = new LocalBundler(accounts, charlie);
+    // Dana only ever signs approvals, so she needs no funds
+    const dana = ethers.Wallet.createRandom();
+    const names = new Map([[bob.address, 'Bob'], [charlie.address, 'Charlie'], [dana.address, 'Dana']]);
+    
+    console.log('\n  🛡️ Social Recovery:');
+    const config: GuardianConfig = {
+      guardians: [bob.address, charlie.address, dana.address],
+      threshold: 2,
+      delaySeconds: DEFAULT_RECOVERY_DELAY_SECONDS,
+    };
+    const setup = await bundler.sendUserOperations([
+      await builder.build({ sender: account, callData: encodeSetGuardians(accounts.recoveryModule, config) }, signNeural),
+    ]);
+    const guardians = await accounts.guardiansOf(account);
+    console.log(`    Recovery module: ${accounts.recoveryModule}`);
+    console.log(
+      `    Guardians ${guardians.guardians.map(guardian => names.get(guardian)).join(', ')}, ` +
+      `${guardians.threshold} of ${guardians.guardians.length} to approve, ` +
+      `${guardians.delaySeconds / 3600}h delay (set by a neural-signed op, ${setup.gasUsed.toLocaleString()} gas, ${ledger.source})`
+    );
+    
+    // Guardians sign an EIP-712 Recovery for the module's current nonce
+    const approve = async (fields: Omit<RecoveryRequest, 'nonce'>, signers: ethers.Signer[]) => {
+      const request = { ...fields, nonce: await accounts.recoveryNonce(account) };
+      const typedData = buildRecoveryTypedData(accounts.recoveryModule, ledger.domain.chainId, request);
+      const approvals = await Promise.all(signers.map(signer => approveRecovery(signer, typedData)));
+      return [request, orderApprovals(approvals)] as const;
+    };
+    
+    // A recovery Alice didn't ask for: she still has her device, so she cancels it during the delay
+    const unwanted = { account, newOwner: ethers.Wallet.createRandom().address, oldNeuralHash: ethers.ZeroHash, newNeuralHash: ethers.ZeroHash };
+    const unwantedGas = await accounts.initiateRecovery(bob, ...await approve(unwanted, [bob, dana]));
+    console.log(`    Unrequested recovery by Bob + Dana: pending (${unwantedGas.toLocaleString()} gas)`);
+    const cancelGas = await accounts.cancelRecovery(alice, account);
+    if (await accounts.pendingRecovery(account)) {
+      throw new Error('The recovery is still pending after the owner cancelled it');
+    }
+    console.log(`    Cancelled by Alice during the delay ✅ (${cancelGas.toLocaleString()} gas, ${ledger.source})`);
+    
+    // Alice loses her device: a new key and a re-enrolled pattern on her new one
+    console.log('\n  📱 Lost device: Alice re-enrolls on a new device and asks her guardians for help');
+    const newOwner = ethers.Wallet.createRandom();
+    const newPattern = await this.neuralGenerator.generatePattern('alice-brain-pattern-new-device');
+    const recovery = {
+      account,
+      newOwner: newOwner.address,
+      oldNeuralHash: neuralHash,
+      newNeuralHash: this.zkBackend.commit(newPattern),
+    };
+    const tooFew = await accounts.initiateRecoveryError(bob, ...await approve(recovery, [bob]));
+    if (!tooFew) {
+      throw new Error('The recovery module accepted fewer approvals than the threshold');
+    }
+    console.log(`    Bob alone: ❌ ${tooFew}`);
+    const initiateGas = await accounts.initiateRecovery(bob, ...await approve(recovery, [bob, charlie]));
+    const pending = await accounts.pendingRecovery(account);
+    console.log(`    Bob + Charlie: ✅ initiated (${initiateGas.toLocaleString()} gas), executable from ${new Date(pending!.executeAfter * 1000).toISOString()}`);
+    
+    const tooEarly = await accounts.executeRecoveryError(charlie, account);
+    if (!tooEarly) {
+      throw new Error('The recovery could be executed before its delay passed');
+    }
+    console.log(`    Execute right away: ❌ ${tooEarly}`);
+    
+    await ledger.advanceTime(config.delaySeconds);
+    const executeGas = await accounts.executeRecovery(charlie, account);
+    if (await accounts.ownerOf(account) !== newOwner.address) {
+      throw new Error('The recovery did not hand the account to the new owner');
+    }
+    console.log(`    After ${config.delaySeconds / 3600}h: ✅ executed by Charlie (${executeGas.toLocaleString()} gas), owner key and neural hash rotated`);
+    
+    // Only the new key and pattern sign for the account now
+    const callData = new ethers.Interface(NEURAL_ACCOUNT_ABI).encodeFunctionData('execute', [bob.address, ethers.parseEther('0.01'), '0x']);
+    const oldOp = await builder.build({ sender: account, callData }, signNeural);
+    const oldError = await bundler.simulate([oldOp]);
+    if (!oldError) {
+      throw new Error('The EntryPoint accepted an op signed with the lost key');
+    }
+    console.log(`    Op signed with the lost key and old pattern: ❌ ${oldError}`);
+    const recovered = await bundler.sendUserOperations([
+      await builder.build({ sender: account, callData }, neuralUserOpSigner(newOwner, newPattern, this.zkBackend)),
+    ]);
+    if (!recovered.outcomes[0].success) {
+      throw new Error(`The recovered account's op reverted: ${recovered.outcomes[0].revertReason}`);
+    }
+    console.log(`    Op signed on the new device (0.01 ETH → Bob): ✅ bundled (${recovered.gasUsed.toLocaleString()} gas)`);
+  }
+
   /**
    * Demo 5: Zero-Knowledge Neural Proofs
    */
@@ -308,22 +825,68 @@ class NeuralTokenDemo {
     
     console.log('  Privacy-Preserving Neural Authentication:');
     console.log('    • Prove neural auth without revealing pattern');
-    console.log('    • ZK-SNARKs for efficient verification');
+    console.log(`    • Backend: ${this.zkBackend.name} (Schnorr proof of knowledge, Fiat-Shamir)`);
     console.log('    • On-chain verification, off-chain computation');
     
     // ZK proof generation and verification
     console.log('\n  🔄 ZK Proof Flow:');
-    console.log('    1. User: Generates neural pattern locally');
-    console.log('    2. User: Creates ZK proof of valid pattern');
-    console.log('    3. On-chain: Verifies proof (no pattern data)');
-    console.log('    4. Result: Authentication without exposure');
+    const neuralPattern = await this.neuralGenerator.generatePattern('alice-brain-pattern');
+    const neuralHash = this.zkBackend.commit(neuralPattern);
+    console.log(`    1. User: Registers neural hash ${neuralHash.slice(0, 16)}... (commitment, no pattern data)`);
+    
+    // The verifier's challenge keeps a proof from being reused elsewhere
+    const context = ethers.hexlify(ethers.randomBytes(32));
+    const proveTimes: number[] = [];
+    const verifyTimes: number[] = [];
+    let proof: PatternProof | undefined;
+    for (let run = 0; run < ZK_BENCHMARK_RUNS; run++) {
+      let startedAt = performance.now();
+      proof = await this.zkBackend.prove(neuralPattern, context);
+      proveTimes.push(performance.now() - startedAt);
+      
+      startedAt = performance.now();
+      const valid = await this.zkBackend.verify(proof, neuralHash, context);
+      verifyTimes.push(performance.now() - startedAt);
+      if (!valid) {
+        throw new Error('ZK proof failed off-chain verification');
+      }
+    }
+    proof = proof!;
+    console.log(`    2. User: Proves knowledge of the pattern for challenge ${context.slice(0, 12)}...`);
+    console.log(`       Public: X.x ${ethers.toBeHex(proof.publicX, 32).slice(0, 12)}..., e ${ethers.toBeHex(proof.challenge, 32).slice(0, 12)}..., s ${ethers.toBeHex(proof.response, 32).slice(0, 12)}...`);
+    console.log('    3. Verifier: ✅ accepted off-chain');
+    
+    // A proof only convinces for the hash and challenge it was made for
+    const bobHash = this.zkBackend.commit(await this.neuralGenerator.generatePattern('bob-brain-pattern'));
+    const rejections = [
+      { label: 'another user\'s neural hash', valid: await this.zkBackend.verify(proof, bobHash, context) },
+      { label: 'a different challenge', valid: await this.zkBackend.verify(proof, neuralHash, ethers.hexlify(ethers.randomBytes(32))) },
+      {
+        label: 'a tampered response',
+        valid: await this.zkBackend.verify({ ...proof, response: (proof.response + 1n) % SECP256K1_ORDER }, neuralHash, context),
+      },
+    ];
+    rejections.forEach(({ label, valid }) => {
+      console.log(`       Checked against ${label}: ${valid ? '⚠️ accepted' : '❌ rejected'}`);
+    });
+    
+    const calldata = this.zkBackend.exportCalldata(proof);
+    console.log(`    4. On-chain: verify() calldata ${calldata.slice(0, 18)}... (${ethers.dataLength(calldata)} bytes)`);
+    const ledger = await this.neuralLedger();
+    const onChain = await ledger.verifyPatternProof(proof);
+    if (!onChain.accepted) {
+      throw new Error('Pattern verifier rejected a proof accepted off-chain');
+    }
+    console.log(`       PatternKnowledgeVerifier: ✅ accepted`);
     
     // Performance metrics
-    console.log('\n  📊 ZK Proof Performance:');
-    console.log('    Proof generation: ~500ms (local)');
-    console.log('    Proof verification: ~45K gas');
-    console.log('    Proof size: ~200 bytes');
-    console.log('    Security: 128-bit zero-knowledge');
+    const average = (times: number[]) => times.reduce((sum, time) => sum + time, 0) / times.length;
+    console.log(`\n  📊 ZK Proof Performance (measured over ${ZK_BENCHMARK_RUNS} proofs):`);
+    console.log(`    Proof generation: ${average(proveTimes).toFixed(2)}ms avg, ${Math.max(...proveTimes).toFixed(2)}ms max (local)`);
+    console.log(`    Off-chain verification: ${average(verifyTimes).toFixed(2)}ms avg`);
+    console.log(`    On-chain verification: ${onChain.total.toLocaleString()} gas (${onChain.execution.toLocaleString()} execution, ${ledger.source})`);
+    console.log(`    Proof size: ${ethers.dataLength(this.zkBackend.encode(proof))} bytes`);
+    console.log('    Security: ~128-bit (secp256k1 discrete log)');
     
     // Use cases
     console.log('\n  🎯 Privacy-Preserving Use Cases:');
@@ -336,36 +899,59 @@ class NeuralTokenDemo {
   }
 
   /**
-   * Run simulated demos if real execution fails
+   * Submit `transfer` to the neural token as its sender, check that balances
+   * moved, and compare it with a plain transfer between the same accounts
    */
-  private async runSimulatedDemos() {
-    console.log('\n⚠️ Running simulated demos (no blockchain connection)...\n');
-    
-    const demos = [
-      this.demoNeuralERC20,
-      this.demoNeuralSoulboundNFTs,
-      this.demoNeuralBatchOperations,
-      this.demoNeuralAccountAbstraction,
-      this.demoZKNeuralProofs,
-    ];
+  private async executeNeuralTransfer(ledger: NeuralLedger, transfer: TokenTransfer) {
+    const sender = this.demoWallets.find(wallet => wallet.address === transfer.from)!;
+    const amount = ethers.parseUnits(transfer.amount, NEURAL_TOKEN_DECIMALS);
     
-    for (const demo of demos) {
-      // Convert async function to sync for simulation
-      const demoName = demo.name.replace('demo', '').replace('bound', ' bound');
-      console.log(`🧠 ${demoName} (Simulated)`);
-      console.log('-'.repeat(40));
-      
-      // Create a mock version
-      if (demo === this.demoNeuralERC20) {
-        console.log('Simulated neural ERC-20 transfer');
-        console.log('Neural hash: 0xabcd...1234');
-        console.log('Transfer: 100.0 tokens');
-        console.log('Gas: 65,000\n');
+    // Give the recipient a balance first, so both measured transfers update existing slots
+    await ledger.transfer(sender, transfer.to, 1n);
+    const plainGas = await ledger.transfer(sender, transfer.to, amount);
+    
+    const balances = () => Promise.all([ledger.balanceOf(transfer.from), ledger.balanceOf(transfer.to)]);
+    const [fromBefore, toBefore] = await balances();
+    const neuralGas = await ledger.neuralTransfer(sender, transfer);
+    const [fromAfter, toAfter] = await balances();
+    if (fromBefore - fromAfter !== amount || toAfter - toBefore !== amount) {
+      throw new Error(`Neural transfer did not move ${transfer.amount} tokens from ${transfer.from} to ${transfer.to}`);
+    }
+    
+    const replayError = await ledger.neuralTransferError(sender, transfer);
+    if (!replayError) {
+      throw new Error('NeuralToken accepted a replayed proof');
+    }
+    
+    return { neuralGas, plainGas, replayError };
+  }
+
+  /**
+   * The ledger every demo runs against: the neural contracts deployed by
+   * the first demo wallet, to the node or, offline, to the in-process
+   * Hardhat network. The third wallet issues soulbound tokens.
+   */
+  private neuralLedger(): Promise<NeuralLedger> {
+    this.ledger ??= (async (): Promise<NeuralLedger> => {
+      const [deployer, , issuer] = this.demoWallets;
+      if (this.offline) {
+        // Nothing uses the node's provider offline; stop it from detecting the network in the background
+        this.provider.destroy();
+        const provider = await connectHardhatNetwork();
+        await fundAccounts(provider, this.demoWallets.map(wallet => wallet.address));
+        return ChainNeuralLedger.deploy(deployer.connect(provider), this.zkBackend, issuer.address);
       }
-      // ... other simulated outputs
       
-      console.log('');
-    }
+      try {
+        await withTimeout(this.provider.getNetwork(), CONNECT_TIMEOUT_MS);
+      } catch {
+        // Stop ethers from retrying network detection in the background
+        this.provider.destroy();
+        throw new Error(`No node reachable at ${this.rpcUrl}; start one or pass --offline to use the in-process Hardhat network`);
+      }
+      return ChainNeuralLedger.deploy(deployer, this.zkBackend, issuer.address);
+    })();
+    return this.ledger;
   }
 
   /**
@@ -380,25 +966,25 @@ class NeuralTokenDemo {
       {
         standard: 'ERC-20',
         neuralFeatures: ['Thought-to-transfer', 'Session keys', 'Biometric security'],
-        gasImpact: '+15-20K gas',
+        gasImpact: this.gasImpact.erc20 ?? 'not measured',
         security: '⭐⭐⭐⭐⭐',
       },
       {
         standard: 'ERC-721',
         neuralFeatures: ['Soulbound NFTs', 'Neural-bound art', 'Identity tokens'],
-        gasImpact: '+10-15K gas',
+        gasImpact: this.gasImpact.soulbound ?? 'not measured',
         security: '⭐⭐⭐⭐⭐',
       },
       {
         standard: 'ERC-1155',
         neuralFeatures: ['Batch neural auth', 'Multi-token sessions', 'Efficient proofs'],
-        gasImpact: '+5K gas (amortized)',
+        gasImpact: this.gasImpact.batch ?? 'not measured',
         security: '⭐⭐⭐⭐⭐',
       },
       {
         standard: 'ERC-4337',
         neuralFeatures: ['Smart account auth', 'Social recovery', 'Programmable sessions'],
-        gasImpact: 'Variable',
+        gasImpact: this.gasImpact['account-abstraction'] ?? 'not measured',
         security: '⭐⭐⭐⭐⭐',
       },
     ];
@@ -409,7 +995,7 @@ class NeuralTokenDemo {
     features.forEach(feature => {
       console.log(`\n${feature.standard}:`);
       console.log(`  Features: ${feature.neuralFeatures.join(', ')}`);
-      console.log(`  Gas Impact: ${feature.gasImpact}`);
+      console.log(`  Gas: ${feature.gasImpact}`);
       console.log(`  Security: ${feature.security}`);
     });
     
@@ -434,42 +1020,11 @@ class NeuralTokenDemo {
   }
 }
 
-// Neural Signature Generator Utility
-class NeuralSignatureGenerator {
-  private patterns = new Map<string, string>();
-  
-  async generatePattern(identifier: string): Promise<string> {
-    // Simulate neural pattern generation
-    // In production, this would interface with BCI hardware
-    const pattern = ethers.keccak256(
-      ethers.toUtf8Bytes(`${identifier}-${Date.now()}-${Math.random()}`)
-    );
-    
-    this.patterns.set(identifier, pattern);
-    return pattern;
-  }
-  
-  hashPattern(pattern: string): string {
-    return ethers.keccak256(ethers.toUtf8Bytes(pattern));
-  }
-  
-  verifyPattern(identifier: string, pattern: string): boolean {
-    const stored = this.patterns.get(identifier);
-    return stored === pattern;
-  }
-}
-
-// Run the demo if executed directly
+// Run the demo if executed directly (see examples/cli.ts for flags)
 if (require.main === module) {
-  const demo = new NeuralTokenDemo();
-  
-  demo.runAllDemos().catch(error => {
-    console.error('Neural demo failed:', error);
-    // Still show summary even if blockchain connection fails
-    demo.runSimulatedDemos().then(() => {
-      process.exit(0);
-    });
-  });
+  import('./cli').then(({ runCli }) => runCli(['neural', ...process.argv.slice(2)]))
+    .then(exitCode => process.exit(exitCode));
 }
 
-export { NeuralTokenDemo, NeuralSignatureGenerator };
\ No newline at end of file
+export { NeuralTokenDemo, NeuralSignatureGenerator, NEURAL_DEMOS };
+export type { NeuralDemoName, NeuralDemoOptions, NeuralDemoResult };
\ No newline at end of file
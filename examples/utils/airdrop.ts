@@ -0,0 +1,258 @@
+/**
+ * Airdrop Planning
+ *
+ * Reads an airdrop list from CSV and prepares both ways of distributing it:
+ * push-style BatchDistributor calls, split into chunks that fit in a block,
+ * and a Merkle tree whose root a MerkleDistributor checks claims against,
+ * with the proof each recipient submits.
+ */
+
+import * as fs from 'fs';
+import { ethers } from 'ethers';
+
+export type AirdropStandard = 'ERC-20' | 'ERC-721' | 'ERC-1155';
+
+// MerkleDistributor.Standard, in enum order
+export const AIRDROP_STANDARDS: readonly AirdropStandard[] = ['ERC-20', 'ERC-721', 'ERC-1155'];
+
+// CSV header per standard; the header picks the standard
+export const AIRDROP_CSV_COLUMNS: Record<AirdropStandard, string[]> = {
+  'ERC-20': ['address', 'amount'],
+  'ERC-721': ['address', 'tokenId'],
+  'ERC-1155': ['address', 'tokenId', 'amount'],
+};
+
+// Recipients per push call by default, well under the block gas limit for every standard
+export const DEFAULT_PUSH_CHUNK_SIZE = 100;
+
+export interface AirdropEntry {
+  // Position in the list; the distributor tracks claims by it
+  index: number;
+  account: string;
+  // 0 for ERC-20
+  tokenId: bigint;
+  // Base units for ERC-20, 1 for ERC-721
+  amount: bigint;
+}
+
+export interface AirdropList {
+  standard: AirdropStandard;
+  entries: AirdropEntry[];
+}
+
+export interface AirdropClaim extends AirdropEntry {
+  leaf: string;
+  proof: string[];
+}
+
+export interface AirdropPlan extends AirdropList {
+  root: string;
+  claims: AirdropClaim[];
+  // Entries per push call
+  chunks: AirdropEntry[][];
+}
+
+export interface AirdropCsvOptions {
+  // Decimals of ERC-20 amounts, which the CSV gives in whole tokens
+  decimals?: number;
+}
+
+/**
+ * Parse an airdrop CSV. The header names the columns and so the standard:
+ * `address,amount` (ERC-20, amounts in whole tokens), `address,tokenId`
+ * (ERC-721) or `address,tokenId,amount` (ERC-1155). Blank lines and lines
+ * starting with `#` are skipped.
+ */
+export function parseAirdropCsv(text: string, options: AirdropCsvOptions = {}): AirdropList {
+  const rows = text.split(/\r?\n/)
+    .map((line, i) => ({ line: i + 1, cells: line.split(',').map(cell => cell.trim()) }))
+    .filter(row => row.cells.join('') !== '' && !row.cells[0].startsWith('#'));
+  if (rows.length < 2) {
+    throw new Error('Airdrop CSV needs a header and at least one recipient row');
+  }
+
+  const header = rows[0].cells.join(',');
+  const standard = AIRDROP_STANDARDS.find(candidate => AIRDROP_CSV_COLUMNS[candidate].join(',') === header);
+  if (!standard) {
+    const expected = AIRDROP_STANDARDS.map(candidate => AIRDROP_CSV_COLUMNS[candidate].join(',')).join(' | ');
+    throw new Error(`Airdrop CSV: unknown header "${header}" (expected ${expected})`);
+  }
+
+  const entries = rows.slice(1).map((row, index) => {
+    if (row.cells.length !== AIRDROP_CSV_COLUMNS[standard].length || !ethers.isAddress(row.cells[0])) {
+      throw new Error(`Airdrop CSV: malformed row ${row.line}`);
+    }
+    try {
+      return parseEntry(standard, index, row.cells, options.decimals ?? 18);
+    } catch {
+      throw new Error(`Airdrop CSV: malformed row ${row.line}`);
+    }
+  });
+
+  const error = airdropListError({ standard, entries });
+  if (error) {
+    throw new Error(`Airdrop CSV: ${error}`);
+  }
+  return { standard, entries };
+}
+
+export function loadAirdropCsv(filePath: string, options: AirdropCsvOptions = {}): AirdropList {
+  try {
+    return parseAirdropCsv(fs.readFileSync(filePath, 'utf8'), options);
+  } catch (error) {
+    throw new Error(`${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Why `list` can't be distributed, undefined if it can. Recipients must
+ * be real addresses receiving something, listed once per token.
+ */
+export function airdropListError(list: AirdropList): string | undefined {
+  const seen = new Set<string>();
+  for (const entry of list.entries) {
+    const row = `entry ${entry.index}`;
+    if (entry.account === ethers.ZeroAddress) {
+      return `${row} sends to the zero address`;
+    }
+    if (entry.amount <= 0n) {
+      return `${row} has no amount`;
+    }
+    // An NFT goes to one recipient; fungible tokens once per recipient and id
+    const key = list.standard === 'ERC-721'
+      ? entry.tokenId.toString()
+      : `${entry.account.toLowerCase()}:${entry.tokenId}`;
+    if (seen.has(key)) {
+      return list.standard === 'ERC-721'
+        ? `${row} sends token ${entry.tokenId} a second time`
+        : `${row} lists ${entry.account} again`;
+    }
+    seen.add(key);
+  }
+  return undefined;
+}
+
+/**
+ * Leaf MerkleDistributor computes for `entry`
+ */
+export function hashAirdropLeaf(entry: AirdropEntry): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+    ['uint256', 'address', 'uint256', 'uint256'],
+    [entry.index, entry.account, entry.tokenId, entry.amount]
+  );
+  return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+/**
+ * Binary Merkle tree with sorted-pair hashing, as OpenZeppelin's MerkleProof
+ * verifies. A level's odd last node moves up unhashed.
+ */
+export class AirdropMerkleTree {
+  private levels: string[][];
+
+  constructor(leaves: string[]) {
+    if (leaves.length === 0) {
+      throw new Error('Merkle tree needs at least one leaf');
+    }
+
+    this.levels = [leaves];
+    while (this.levels[this.levels.length - 1].length > 1) {
+      const level = this.levels[this.levels.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+      }
+      this.levels.push(next);
+    }
+  }
+
+  get root(): string {
+    return this.levels[this.levels.length - 1][0];
+  }
+
+  /**
+   * Sibling hashes from leaf `index` up to the root
+   */
+  proof(index: number): string[] {
+    const proof: string[] = [];
+    let position = index;
+    for (const level of this.levels.slice(0, -1)) {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      if (sibling < level.length) {
+        proof.push(level[sibling]);
+      }
+      position = Math.floor(position / 2);
+    }
+    return proof;
+  }
+
+  static verify(root: string, leaf: string, proof: string[]): boolean {
+    return proof.reduce(hashPair, leaf) === root;
+  }
+}
+
+/**
+ * Build the claim tree and push chunks for `list`
+ */
+export function planAirdrop(list: AirdropList, chunkSize: number = DEFAULT_PUSH_CHUNK_SIZE): AirdropPlan {
+  const error = airdropListError(list);
+  if (error) {
+    throw new Error(`Invalid airdrop: ${error}`);
+  }
+  if (list.entries.length === 0) {
+    throw new Error('Invalid airdrop: no recipients');
+  }
+  if (!(chunkSize >= 1)) {
+    throw new Error('Push chunk size must be at least 1');
+  }
+
+  const leaves = list.entries.map(hashAirdropLeaf);
+  const tree = new AirdropMerkleTree(leaves);
+  const chunks: AirdropEntry[][] = [];
+  for (let i = 0; i < list.entries.length; i += chunkSize) {
+    chunks.push(list.entries.slice(i, i + chunkSize));
+  }
+
+  return {
+    ...list,
+    root: tree.root,
+    claims: list.entries.map((entry, i) => ({ ...entry, leaf: leaves[i], proof: tree.proof(i) })),
+    chunks,
+  };
+}
+
+/**
+ * `count` random recipients for `standard`: ERC-20 amounts of 1-100 whole
+ * tokens, one NFT each from `firstTokenId`, or up to 10 of ids 1-5
+ */
+export function syntheticAirdrop(standard: AirdropStandard, count: number, firstTokenId: bigint = 0n): AirdropList {
+  const entries = Array.from({ length: count }, (_, index) => {
+    const account = ethers.Wallet.createRandom().address;
+    if (standard === 'ERC-20') {
+      return { index, account, tokenId: 0n, amount: ethers.parseEther(String(1 + (index * 37) % 100)) };
+    }
+    if (standard === 'ERC-721') {
+      return { index, account, tokenId: firstTokenId + BigInt(index), amount: 1n };
+    }
+    return { index, account, tokenId: BigInt(1 + index % 5), amount: BigInt(1 + (index * 7) % 10) };
+  });
+  return { standard, entries };
+}
+
+function parseEntry(standard: AirdropStandard, index: number, cells: string[], decimals: number): AirdropEntry {
+  const account = ethers.getAddress(cells[0]);
+  if (standard === 'ERC-20') {
+    return { index, account, tokenId: 0n, amount: ethers.parseUnits(cells[1], decimals) };
+  }
+  const tokenId = BigInt(cells[1]);
+  if (tokenId < 0n) {
+    throw new Error(`negative token id ${tokenId}`);
+  }
+  return { index, account, tokenId, amount: standard === 'ERC-721' ? 1n : BigInt(cells[2]) };
+}
+
+function hashPair(a: string, b: string): string {
+  return ethers.toBigInt(a) < ethers.toBigInt(b)
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
@@ -0,0 +1,153 @@
+/**
+ * Batch Sweep Utilities
+ *
+ * Fit gas-vs-batch-size curves and find where a batched call
+ * becomes cheaper than sending the same items one by one.
+ */
+
+import { GasSource } from './gas-report';
+
+export interface SweepPoint {
+  batchSize: number;
+  totalGas: bigint;
+  gasPerItem: number;
+}
+
+// totalGas ≈ fixedGas + marginalGas × batchSize
+export interface LinearFit {
+  fixedGas: number;
+  marginalGas: number;
+  r2: number;
+}
+
+export interface SweepSeries {
+  standard: string;
+  operation: 'transfer' | 'mint';
+  mode: 'individual' | 'batch';
+  source: GasSource;
+  points: SweepPoint[];
+  fit: LinearFit;
+}
+
+export interface BreakEven {
+  operation: SweepSeries['operation'];
+  batch: string;
+  individual: string;
+  // Smallest batch size where the fitted batch line is cheaper (null: never)
+  fittedBatchSize: number | null;
+  // Smallest swept batch size where the batch actually cost less (null: not within the sweep)
+  observedBatchSize: number | null;
+}
+
+/**
+ * Least-squares line through (batchSize, totalGas)
+ */
+export function fitLinear(points: SweepPoint[]): LinearFit {
+  if (points.length === 0) {
+    return { fixedGas: 0, marginalGas: 0, r2: 0 };
+  }
+  if (points.length === 1) {
+    const [point] = points;
+    return { fixedGas: 0, marginalGas: Number(point.totalGas) / point.batchSize, r2: 1 };
+  }
+
+  const xs = points.map(point => point.batchSize);
+  const ys = points.map(point => Number(point.totalGas));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let covariance = 0;
+  let varianceX = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+  });
+
+  const marginalGas = varianceX === 0 ? 0 : covariance / varianceX;
+  const fixedGas = meanY - marginalGas * meanX;
+
+  const totalSquares = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  const residualSquares = ys.reduce((sum, y, i) => sum + (y - (fixedGas + marginalGas * xs[i])) ** 2, 0);
+  const r2 = totalSquares === 0 ? 1 : 1 - residualSquares / totalSquares;
+
+  return { fixedGas, marginalGas, r2 };
+}
+
+/**
+ * Build a series from raw totals, computing per-item gas and the fitted line
+ */
+export function buildSeries(
+  standard: string,
+  operation: SweepSeries['operation'],
+  mode: SweepSeries['mode'],
+  source: GasSource,
+  totals: { batchSize: number; totalGas: bigint }[]
+): SweepSeries {
+  const points = totals.map(({ batchSize, totalGas }) => ({
+    batchSize,
+    totalGas,
+    gasPerItem: Number(totalGas) / batchSize,
+  }));
+  return { standard, operation, mode, source, points, fit: fitLinear(points) };
+}
+
+/**
+ * Where does `batch` start beating `individual`?
+ */
+export function findBreakEven(batch: SweepSeries, individual: SweepSeries): BreakEven {
+  const observed = batch.points.find(point => {
+    const single = individual.points.find(other => other.batchSize === point.batchSize);
+    return single !== undefined && point.totalGas < single.totalGas;
+  });
+
+  // Solve batchFixed + batchMarginal·n < indFixed + indMarginal·n for the smallest n ≥ 1
+  const fixedDiff = batch.fit.fixedGas - individual.fit.fixedGas;
+  const marginalDiff = individual.fit.marginalGas - batch.fit.marginalGas;
+  let fittedBatchSize: number | null;
+  if (fixedDiff < marginalDiff) {
+    fittedBatchSize = 1;
+  } else if (marginalDiff <= 0) {
+    fittedBatchSize = null;
+  } else {
+    fittedBatchSize = Math.max(1, Math.floor(fixedDiff / marginalDiff) + 1);
+  }
+
+  return {
+    operation: batch.operation,
+    batch: batch.standard,
+    individual: individual.standard,
+    fittedBatchSize,
+    observedBatchSize: observed?.batchSize ?? null,
+  };
+}
+
+/**
+ * Print per-item gas curves, fitted lines and break-even points
+ */
+export function printSweep(series: SweepSeries[], breakEvens: BreakEven[]) {
+  const sizes = [...new Set(series.flatMap(s => s.points.map(point => point.batchSize)))].sort((a, b) => a - b);
+
+  console.log(`  ${'Gas per item'.padEnd(34)}${sizes.map(n => `N=${n}`.padStart(9)).join('')}`);
+  series.forEach(s => {
+    const cells = sizes.map(n => {
+      const point = s.points.find(p => p.batchSize === n);
+      return (point ? point.gasPerItem.toFixed(0) : '-').padStart(9);
+    });
+    console.log(`  ${`${s.standard} [${s.source}]`.padEnd(34)}${cells.join('')}`);
+  });
+
+  console.log('\n  Fitted cost (fixed + marginal × N):');
+  series.forEach(s => {
+    console.log(
+      `  ${s.standard.padEnd(34)}${s.fit.fixedGas.toFixed(0).padStart(9)} + ` +
+      `${s.fit.marginalGas.toFixed(0).padStart(7)} × N  (R² ${s.fit.r2.toFixed(3)})`
+    );
+  });
+
+  console.log('\n  Break-even:');
+  breakEvens.forEach(be => {
+    const fitted = be.fittedBatchSize === null ? 'never' : `N ≥ ${be.fittedBatchSize}`;
+    const observed = be.observedBatchSize === null ? 'not within sweep' : `N = ${be.observedBatchSize}`;
+    console.log(`  ${`${be.batch} vs ${be.individual}`.padEnd(50)}: fitted ${fitted}, observed ${observed}`);
+  });
+}
@@ -0,0 +1,223 @@
+/**
+ * Deployment Profiler
+ *
+ * Reports bytecode size, headroom under the EIP-170 code size limit,
+ * deployment gas and the share paid for constructor arguments, and
+ * compares a direct deploy with EIP-1167 clones as the clone count grows.
+ */
+
+import { ethers } from 'ethers';
+import { GasAnalyzer, calldataCost } from './gas-analyzer';
+import { GasSource } from './gas-report';
+
+// EIP-170 runtime code limit and EIP-3860 initcode limit, in bytes
+export const EIP170_MAX_CODE_SIZE = 24576;
+export const EIP3860_MAX_INITCODE_SIZE = 2 * EIP170_MAX_CODE_SIZE;
+
+// Charged per byte of runtime code stored by a successful CREATE
+const CODE_DEPOSIT_GAS_PER_BYTE = 200n;
+
+// Intrinsic cost of a creation transaction (base + CREATE), before calldata
+const CREATE_TX_BASE_GAS = 21000n + 32000n;
+const INITCODE_WORD_GAS = 2n;
+
+export interface DeployableArtifact {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+  deployedBytecode: string;
+}
+
+export interface DeploymentProfile {
+  name: string;
+  // Runtime code stored on chain
+  codeSize: number;
+  initcodeSize: number;
+  eip170HeadroomBytes: number;
+  eip170UsedPct: number;
+  constructorArgsBytes: number;
+  // Calldata gas for the ABI-encoded constructor arguments appended to the initcode
+  constructorArgsGas: bigint;
+  codeDepositGas: bigint;
+  deployGas: bigint;
+  // Constructor run time: deployGas minus intrinsic gas and code deposit
+  executionGas: bigint;
+  source: GasSource;
+}
+
+export interface ClonePoint {
+  count: number;
+  cloneGas: bigint;
+  // Implementation + factory + every clone so far, divided by `count`
+  amortizedGas: number;
+}
+
+export interface CloneComparison {
+  name: string;
+  // Full deploy plus initializer, paid again for every instance
+  directGas: bigint;
+  implementationGas: bigint;
+  factoryGas: bigint;
+  points: ClonePoint[];
+  // Smallest count where cloning is cheaper in total (null: not within the run)
+  breakEvenCount: number | null;
+}
+
+/**
+ * Sizes and constructor-argument cost from the artifact alone.
+ * Without a chain, deployGas is the intrinsic + code deposit lower bound
+ * (it leaves out the constructor's own execution).
+ */
+export function profileArtifact(name: string, artifact: DeployableArtifact, args: unknown[] = []): DeploymentProfile {
+  const encodedArgs = new ethers.Interface(artifact.abi).encodeDeploy(args);
+  const initcode = ethers.concat([artifact.bytecode, encodedArgs]);
+  const codeSize = ethers.dataLength(artifact.deployedBytecode);
+  const initcodeSize = ethers.dataLength(initcode);
+  const codeDepositGas = BigInt(codeSize) * CODE_DEPOSIT_GAS_PER_BYTE;
+  const intrinsicGas = CREATE_TX_BASE_GAS
+    + calldataCost(initcode).gas
+    + BigInt(Math.ceil(initcodeSize / 32)) * INITCODE_WORD_GAS;
+
+  return {
+    name,
+    codeSize,
+    initcodeSize,
+    eip170HeadroomBytes: EIP170_MAX_CODE_SIZE - codeSize,
+    eip170UsedPct: (codeSize / EIP170_MAX_CODE_SIZE) * 100,
+    constructorArgsBytes: ethers.dataLength(encodedArgs),
+    constructorArgsGas: calldataCost(encodedArgs).gas,
+    codeDepositGas,
+    deployGas: intrinsicGas + codeDepositGas,
+    executionGas: 0n,
+    source: 'simulated',
+  };
+}
+
+export class DeploymentProfiler {
+  constructor(private signer: ethers.Signer, private analyzer: GasAnalyzer) {}
+
+  /**
+   * Deploy an artifact and fill in the measured deployment gas
+   */
+  async profile(name: string, artifact: DeployableArtifact, args: unknown[] = []): Promise<DeploymentProfile> {
+    const profile = profileArtifact(name, artifact, args);
+    const { txHash } = await this.deploy(artifact, args);
+    const breakdown = await this.analyzer.analyzeTransaction(txHash);
+    const overhead = breakdown.intrinsicGas + profile.codeDepositGas;
+
+    return {
+      ...profile,
+      deployGas: breakdown.gasUsed,
+      executionGas: breakdown.gasUsed > overhead ? breakdown.gasUsed - overhead : 0n,
+      source: 'measured',
+    };
+  }
+
+  /**
+   * Deploy `count` instances directly (deploy + initialize) and through a
+   * clone factory, recording the per-clone and amortized cost at each step
+   */
+  async compareClones(
+    name: string,
+    implementation: DeployableArtifact,
+    factory: DeployableArtifact,
+    initArgs: unknown[],
+    count: number
+  ): Promise<CloneComparison> {
+    // Every direct instance costs the same, so one deployment is enough
+    const direct = await this.deploy(implementation);
+    const initHash = await this.send(direct.contract.initialize(...initArgs));
+    const directGas = await this.gasUsed(direct.txHash) + await this.gasUsed(initHash);
+
+    const impl = await this.deploy(implementation);
+    const cloneFactory = await this.deploy(factory);
+    const implementationGas = await this.gasUsed(impl.txHash);
+    const factoryGas = await this.gasUsed(cloneFactory.txHash);
+    const initData = impl.contract.interface.encodeFunctionData('initialize', initArgs);
+    const implementationAddress = await impl.contract.getAddress();
+
+    const points: ClonePoint[] = [];
+    let total = implementationGas + factoryGas;
+    for (let n = 1; n <= count; n++) {
+      const cloneHash = await this.send(cloneFactory.contract.clone(implementationAddress, initData));
+      const cloneGas = await this.gasUsed(cloneHash);
+      total += cloneGas;
+      points.push({ count: n, cloneGas, amortizedGas: Number(total) / n });
+    }
+
+    return {
+      name,
+      directGas,
+      implementationGas,
+      factoryGas,
+      points,
+      breakEvenCount: points.find(point => point.amortizedGas < Number(directGas))?.count ?? null,
+    };
+  }
+
+  private async deploy(
+    artifact: DeployableArtifact,
+    args: unknown[] = []
+  ): Promise<{ contract: ethers.Contract; txHash: string }> {
+    const contractFactory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, this.signer);
+    const deployed = await contractFactory.deploy(...args);
+    await deployed.waitForDeployment();
+    return {
+      contract: new ethers.Contract(await deployed.getAddress(), artifact.abi, this.signer),
+      txHash: deployed.deploymentTransaction()!.hash,
+    };
+  }
+
+  private async send(tx: Promise<ethers.ContractTransactionResponse>): Promise<string> {
+    const response = await tx;
+    await response.wait();
+    return response.hash;
+  }
+
+  private async gasUsed(txHash: string): Promise<bigint> {
+    return (await this.analyzer.analyzeTransaction(txHash)).gasUsed;
+  }
+}
+
+/**
+ * Print size, EIP-170 headroom and deployment gas per artifact
+ */
+export function printDeploymentProfiles(profiles: DeploymentProfile[]) {
+  console.log(
+    `  ${'Contract'.padEnd(12)}${'Code'.padStart(8)}${'EIP-170'.padStart(9)}${'Headroom'.padStart(10)}` +
+    `${'Args'.padStart(7)}${'Args gas'.padStart(10)}${'Deploy gas'.padStart(12)}`
+  );
+  profiles.forEach(profile => {
+    console.log(
+      `  ${profile.name.padEnd(12)}${`${profile.codeSize}B`.padStart(8)}` +
+      `${`${profile.eip170UsedPct.toFixed(1)}%`.padStart(9)}${`${profile.eip170HeadroomBytes}B`.padStart(10)}` +
+      `${`${profile.constructorArgsBytes}B`.padStart(7)}${profile.constructorArgsGas.toString().padStart(10)}` +
+      `${profile.deployGas.toString().padStart(12)} [${profile.source}]`
+    );
+    if (profile.source === 'measured') {
+      console.log(
+        `  ${''.padEnd(12)}↳ code deposit ${profile.codeDepositGas}, constructor execution ${profile.executionGas}`
+      );
+    }
+  });
+}
+
+/**
+ * Print direct vs clone cost and the amortized cost per clone
+ */
+export function printCloneComparison(comparison: CloneComparison) {
+  console.log(`  ${comparison.name}: direct deploy + initialize = ${comparison.directGas} gas per instance`);
+  console.log(`  One-off: implementation ${comparison.implementationGas} + factory ${comparison.factoryGas} gas`);
+  console.log(`  ${'Clones'.padEnd(8)}${'Per clone'.padStart(11)}${'Amortized'.padStart(11)}${'vs direct'.padStart(11)}`);
+  comparison.points.forEach(point => {
+    const savings = (1 - point.amortizedGas / Number(comparison.directGas)) * 100;
+    console.log(
+      `  ${point.count.toString().padEnd(8)}${point.cloneGas.toString().padStart(11)}` +
+      `${point.amortizedGas.toFixed(0).padStart(11)}${`${savings.toFixed(1)}%`.padStart(11)}`
+    );
+  });
+  console.log(
+    comparison.breakEvenCount === null
+      ? '  Break-even: not within this run'
+      : `  Break-even: cloning is cheaper from ${comparison.breakEvenCount} instance(s)`
+  );
+}
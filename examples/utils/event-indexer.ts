@@ -0,0 +1,458 @@
+/**
+ * Token Event Indexer
+ *
+ * Follows a node and decodes the ERC-20, ERC-721 and ERC-1155 events of the
+ * contracts it watches (`Transfer`, `TransferSingle`, `TransferBatch`,
+ * `Approval`, `ApprovalForAll`). Every balance, owner and approval change is
+ * kept as a checkpoint, so holders can be read at any indexed block, and the
+ * demos can check their transfers against what actually happened on-chain.
+ */
+
+import { ethers } from 'ethers';
+
+export type TokenStandard = 'ERC-20' | 'ERC-721' | 'ERC-1155';
+
+export const TOKEN_EVENTS = ['Transfer', 'TransferSingle', 'TransferBatch', 'Approval', 'ApprovalForAll'] as const;
+
+export type TokenEventName = typeof TOKEN_EVENTS[number];
+
+// Blocks per eth_getLogs request, within what public RPCs accept
+export const DEFAULT_LOG_BLOCK_RANGE = 2000;
+
+export interface WatchedContract {
+  address: string;
+  standard: TokenStandard;
+  abi: ethers.InterfaceAbi;
+}
+
+// One token id moving between holders; the zero address mints or burns
+export interface TokenMovement {
+  from: string;
+  to: string;
+  // 0 for ERC-20
+  tokenId: bigint;
+  // 1 for ERC-721
+  amount: bigint;
+}
+
+export interface TokenApproval {
+  owner: string;
+  // Spender, approved address or operator
+  spender: string;
+  // ERC-20 allowance
+  amount?: bigint;
+  // ERC-721 single-token approval
+  tokenId?: bigint;
+  // ApprovalForAll
+  approved?: boolean;
+}
+
+export interface IndexedEvent {
+  contract: string;
+  standard: TokenStandard;
+  name: TokenEventName;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  // One per id for TransferBatch, empty for approvals
+  movements: TokenMovement[];
+  approval?: TokenApproval;
+}
+
+// The parts of a log the indexer reads
+export type RawLog = Pick<ethers.Log, 'address' | 'topics' | 'data' | 'blockNumber' | 'index' | 'transactionHash'>;
+
+export interface HolderBalance {
+  holder: string;
+  tokenId: bigint;
+  amount: bigint;
+}
+
+export interface HolderSnapshot {
+  contract: string;
+  standard: TokenStandard;
+  blockNumber: number;
+  // Non-zero balances, by token id then holder
+  balances: HolderBalance[];
+  // Operators approved for all of an owner's tokens
+  operators: { owner: string; operator: string }[];
+}
+
+export interface EventQuery {
+  contract?: string;
+  name?: TokenEventName;
+  // Sender or receiver of a movement, or owner of an approval
+  account?: string;
+  transactionHash?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface EventIndexerOptions {
+  // First block to read logs from, e.g. the block the contracts were deployed in
+  fromBlock?: number;
+  blockRange?: number;
+}
+
+/**
+ * Values per key, each kept with the block it was set in
+ */
+class Checkpoints<T> {
+  private history = new Map<string, { blockNumber: number; value: T }[]>();
+
+  set(key: string, blockNumber: number, value: T) {
+    const entries = this.history.get(key) ?? [];
+    const last = entries[entries.length - 1];
+    if (last && last.blockNumber === blockNumber) {
+      last.value = value;
+    } else {
+      entries.push({ blockNumber, value });
+    }
+    this.history.set(key, entries);
+  }
+
+  // Value as of the end of `blockNumber`; the latest one by default
+  get(key: string, blockNumber: number = Infinity): T | undefined {
+    const entries = this.history.get(key) ?? [];
+    let low = 0;
+    let high = entries.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (entries[mid].blockNumber <= blockNumber) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low > 0 ? entries[low - 1].value : undefined;
+  }
+
+  keys(): string[] {
+    return [...this.history.keys()];
+  }
+}
+
+interface ContractState {
+  watched: WatchedContract;
+  iface: ethers.Interface;
+  // `${tokenId}:${holder}`
+  balances: Checkpoints<bigint>;
+  // ERC-721 token id
+  owners: Checkpoints<string>;
+  tokenApprovals: Checkpoints<string>;
+  // `${owner}:${spender}`
+  allowances: Checkpoints<bigint>;
+  operators: Checkpoints<boolean>;
+  // Token id; minted minus burned
+  supply: Checkpoints<bigint>;
+}
+
+/**
+ * Indexes the token events of a fixed set of contracts. Logs must arrive in
+ * chain order, which `sync` guarantees; reorgs are not handled, as on a
+ * local dev chain.
+ */
+export class TokenEventIndexer {
+  private contracts = new Map<string, ContractState>();
+  private events: IndexedEvent[] = [];
+  private nextBlock: number;
+  private blockRange: number;
+  private syncing: Promise<number> = Promise.resolve(0);
+  // Position of the last applied log
+  private position = { blockNumber: -1, logIndex: -1 };
+
+  constructor(
+    private provider: ethers.Provider,
+    contracts: WatchedContract[],
+    options: EventIndexerOptions = {}
+  ) {
+    for (const watched of contracts) {
+      const address = ethers.getAddress(watched.address);
+      this.contracts.set(address, {
+        watched: { ...watched, address },
+        iface: new ethers.Interface(watched.abi),
+        balances: new Checkpoints(),
+        owners: new Checkpoints(),
+        tokenApprovals: new Checkpoints(),
+        allowances: new Checkpoints(),
+        operators: new Checkpoints(),
+        supply: new Checkpoints(),
+      });
+    }
+    this.nextBlock = options.fromBlock ?? 0;
+    this.blockRange = options.blockRange ?? DEFAULT_LOG_BLOCK_RANGE;
+  }
+
+  /**
+   * Last block whose logs have been read
+   */
+  get syncedBlock(): number {
+    return this.nextBlock - 1;
+  }
+
+  /**
+   * Read logs up to `toBlock` (the latest block by default) and return how
+   * many events were indexed. Concurrent calls run one after another.
+   */
+  sync(toBlock?: number): Promise<number> {
+    this.syncing = this.syncing.catch(() => 0).then(() => this.readLogs(toBlock));
+    return this.syncing;
+  }
+
+  /**
+   * Sync on every new block until the returned function is called
+   */
+  follow(onError: (error: Error) => void = () => {}): () => void {
+    const listener = (blockNumber: number) => {
+      this.sync(blockNumber).catch(onError);
+    };
+    this.provider.on('block', listener);
+    return () => {
+      this.provider.off('block', listener);
+    };
+  }
+
+  /**
+   * Decode and apply logs in chain order. Logs of unwatched contracts and
+   * other events are skipped.
+   */
+  ingest(logs: readonly RawLog[]): IndexedEvent[] {
+    const ordered = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const indexed: IndexedEvent[] = [];
+    for (const log of ordered) {
+      const { blockNumber, logIndex } = this.position;
+      if (log.blockNumber < blockNumber || (log.blockNumber === blockNumber && log.index <= logIndex)) {
+        throw new Error(`Log ${log.blockNumber}:${log.index} arrived after ${blockNumber}:${logIndex}`);
+      }
+
+      const event = this.decode(log);
+      this.position = { blockNumber: log.blockNumber, logIndex: log.index };
+      if (event) {
+        this.apply(event);
+        indexed.push(event);
+      }
+    }
+    this.events.push(...indexed);
+    return indexed;
+  }
+
+  /**
+   * Indexed events matching every field of `query`, in chain order
+   */
+  getEvents(query: EventQuery = {}): IndexedEvent[] {
+    const contract = query.contract && ethers.getAddress(query.contract);
+    const account = query.account && ethers.getAddress(query.account);
+    return this.events.filter(event =>
+      (!contract || event.contract === contract)
+      && (!query.name || event.name === query.name)
+      && (!query.transactionHash || event.transactionHash === query.transactionHash)
+      && event.blockNumber >= (query.fromBlock ?? 0)
+      && event.blockNumber <= (query.toBlock ?? Infinity)
+      && (!account
+        || event.movements.some(movement => movement.from === account || movement.to === account)
+        || event.approval?.owner === account)
+    );
+  }
+
+  /**
+   * Token movements a transaction made across the watched contracts
+   */
+  getMovements(transactionHash: string): (TokenMovement & { contract: string })[] {
+    return this.getEvents({ transactionHash })
+      .flatMap(event => event.movements.map(movement => ({ contract: event.contract, ...movement })));
+  }
+
+  /**
+   * Balance of `holder` in `tokenId`; for ERC-721, the number of tokens held
+   */
+  balanceOf(contract: string, holder: string, tokenId: bigint = 0n, blockNumber?: number): bigint {
+    const state = this.state(contract);
+    if (state.watched.standard === 'ERC-721') {
+      const owner = ethers.getAddress(holder);
+      return BigInt(this.snapshot(contract, blockNumber).balances.filter(balance => balance.holder === owner).length);
+    }
+    return state.balances.get(`${tokenId}:${ethers.getAddress(holder)}`, blockNumber) ?? 0n;
+  }
+
+  /**
+   * ERC-721 owner of `tokenId`, undefined before it is minted or after it is burned
+   */
+  ownerOf(contract: string, tokenId: bigint, blockNumber?: number): string | undefined {
+    const owner = this.state(contract).owners.get(tokenId.toString(), blockNumber);
+    return owner === ethers.ZeroAddress ? undefined : owner;
+  }
+
+  /**
+   * ERC-721 address approved for `tokenId`; a transfer clears it without an event
+   */
+  getApproved(contract: string, tokenId: bigint, blockNumber?: number): string {
+    return this.state(contract).tokenApprovals.get(tokenId.toString(), blockNumber) ?? ethers.ZeroAddress;
+  }
+
+  /**
+   * Last ERC-20 allowance approved. OpenZeppelin 5 tokens spend allowances
+   * in `transferFrom` without an `Approval` event, so it can be above the
+   * contract's.
+   */
+  approvedAmount(contract: string, owner: string, spender: string, blockNumber?: number): bigint {
+    return this.state(contract).allowances
+      .get(`${ethers.getAddress(owner)}:${ethers.getAddress(spender)}`, blockNumber) ?? 0n;
+  }
+
+  isApprovedForAll(contract: string, owner: string, operator: string, blockNumber?: number): boolean {
+    return this.state(contract).operators
+      .get(`${ethers.getAddress(owner)}:${ethers.getAddress(operator)}`, blockNumber) ?? false;
+  }
+
+  /**
+   * Minted minus burned: of `tokenId` for ERC-1155, all tokens otherwise
+   */
+  totalSupply(contract: string, tokenId: bigint = 0n, blockNumber?: number): bigint {
+    const state = this.state(contract);
+    const key = state.watched.standard === 'ERC-1155' ? tokenId.toString() : '0';
+    return state.supply.get(key, blockNumber) ?? 0n;
+  }
+
+  /**
+   * Every holder of `contract` as of `blockNumber` (the latest indexed block by default)
+   */
+  snapshot(contract: string, blockNumber?: number): HolderSnapshot {
+    const state = this.state(contract);
+    const balances: HolderBalance[] = [];
+    if (state.watched.standard === 'ERC-721') {
+      for (const key of state.owners.keys()) {
+        const holder = state.owners.get(key, blockNumber);
+        if (holder && holder !== ethers.ZeroAddress) {
+          balances.push({ holder, tokenId: BigInt(key), amount: 1n });
+        }
+      }
+    } else {
+      for (const key of state.balances.keys()) {
+        const amount = state.balances.get(key, blockNumber) ?? 0n;
+        if (amount > 0n) {
+          const [tokenId, holder] = key.split(':');
+          balances.push({ holder, tokenId: BigInt(tokenId), amount });
+        }
+      }
+    }
+    balances.sort((a, b) =>
+      a.tokenId < b.tokenId ? -1 : a.tokenId > b.tokenId ? 1 : a.holder.localeCompare(b.holder));
+
+    const operators = state.operators.keys()
+      .filter(key => state.operators.get(key, blockNumber))
+      .map(key => {
+        const [owner, operator] = key.split(':');
+        return { owner, operator };
+      });
+
+    return {
+      contract: state.watched.address,
+      standard: state.watched.standard,
+      blockNumber: blockNumber ?? this.syncedBlock,
+      balances,
+      operators,
+    };
+  }
+
+  private async readLogs(toBlock?: number): Promise<number> {
+    const lastBlock = toBlock ?? await this.provider.getBlockNumber();
+    const address = [...this.contracts.keys()];
+    let count = 0;
+    while (this.nextBlock <= lastBlock) {
+      const rangeEnd = Math.min(this.nextBlock + this.blockRange - 1, lastBlock);
+      const logs = await this.provider.getLogs({ address, fromBlock: this.nextBlock, toBlock: rangeEnd });
+      count += this.ingest(logs).length;
+      this.nextBlock = rangeEnd + 1;
+    }
+    return count;
+  }
+
+  private decode(log: RawLog): IndexedEvent | null {
+    const state = this.contracts.get(ethers.getAddress(log.address));
+    if (!state) {
+      return null;
+    }
+    const parsed = state.iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed || !(TOKEN_EVENTS as readonly string[]).includes(parsed.name)) {
+      return null;
+    }
+
+    const { standard } = state.watched;
+    const name = parsed.name as TokenEventName;
+    const args = parsed.args;
+    const event: IndexedEvent = {
+      contract: state.watched.address,
+      standard,
+      name,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      movements: [],
+    };
+
+    if (name === 'Transfer') {
+      // ERC-20 and ERC-721 share the signature; the third argument is a value or a token id
+      event.movements.push(standard === 'ERC-721'
+        ? { from: args[0], to: args[1], tokenId: args[2], amount: 1n }
+        : { from: args[0], to: args[1], tokenId: 0n, amount: args[2] });
+    } else if (name === 'TransferSingle') {
+      event.movements.push({ from: args.from, to: args.to, tokenId: args.id, amount: args.value });
+    } else if (name === 'TransferBatch') {
+      const ids: bigint[] = [...args.ids];
+      const values: bigint[] = [...args[4]];
+      event.movements.push(...ids.map((tokenId, i) => ({ from: args.from, to: args.to, tokenId, amount: values[i] })));
+    } else if (name === 'Approval') {
+      event.approval = standard === 'ERC-721'
+        ? { owner: args[0], spender: args[1], tokenId: args[2] }
+        : { owner: args[0], spender: args[1], amount: args[2] };
+    } else {
+      event.approval = { owner: args[0], spender: args[1], approved: args[2] };
+    }
+    return event;
+  }
+
+  private apply(event: IndexedEvent) {
+    const state = this.state(event.contract);
+    const block = event.blockNumber;
+
+    for (const movement of event.movements) {
+      const supplyKey = event.standard === 'ERC-1155' ? movement.tokenId.toString() : '0';
+      if (movement.from === ethers.ZeroAddress || movement.to === ethers.ZeroAddress) {
+        const change = movement.from === ethers.ZeroAddress ? movement.amount : -movement.amount;
+        state.supply.set(supplyKey, block, (state.supply.get(supplyKey) ?? 0n) + change);
+      }
+
+      if (event.standard === 'ERC-721') {
+        const key = movement.tokenId.toString();
+        state.owners.set(key, block, movement.to);
+        if (state.tokenApprovals.get(key) !== undefined) {
+          state.tokenApprovals.set(key, block, ethers.ZeroAddress);
+        }
+        continue;
+      }
+      for (const [holder, change] of [[movement.from, -movement.amount], [movement.to, movement.amount]] as const) {
+        if (holder !== ethers.ZeroAddress) {
+          const key = `${movement.tokenId}:${holder}`;
+          state.balances.set(key, block, (state.balances.get(key) ?? 0n) + change);
+        }
+      }
+    }
+
+    const approval = event.approval;
+    if (approval?.approved !== undefined) {
+      state.operators.set(`${approval.owner}:${approval.spender}`, block, approval.approved);
+    } else if (approval?.tokenId !== undefined) {
+      state.tokenApprovals.set(approval.tokenId.toString(), block, approval.spender);
+    } else if (approval) {
+      state.allowances.set(`${approval.owner}:${approval.spender}`, block, approval.amount!);
+    }
+  }
+
+  private state(contract: string): ContractState {
+    const state = this.contracts.get(ethers.getAddress(contract));
+    if (!state) {
+      throw new Error(`${contract} is not watched by this indexer`);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Gas Analyzer
+ *
+ * Breaks a mined transaction down into intrinsic gas, calldata cost,
+ * execution gas and refunds. When the node supports
+ * `debug_traceTransaction` it also counts storage reads and writes
+ * (SLOAD/SSTORE, cold vs warm), which explains *why* one token
+ * standard is cheaper than another.
+ */
+
+import { ethers } from 'ethers';
+
+// Intrinsic costs (Yellow Paper, EIP-2028, EIP-2930, EIP-3860)
+const TX_BASE_GAS = 21000n;
+const TX_CREATE_GAS = 32000n;
+const CALLDATA_ZERO_BYTE_GAS = 4n;
+const CALLDATA_NONZERO_BYTE_GAS = 16n;
+const ACCESS_LIST_ADDRESS_GAS = 2400n;
+const ACCESS_LIST_STORAGE_KEY_GAS = 1900n;
+const INITCODE_WORD_GAS = 2n;
+
+// Refunds are capped at gasUsed / 5 since London (EIP-3529)
+const MAX_REFUND_QUOTIENT = 5n;
+
+export interface CalldataStats {
+  zeroBytes: number;
+  nonZeroBytes: number;
+  gas: bigint;
+}
+
+export interface StorageAccessStats {
+  sload: { cold: number; warm: number };
+  sstore: { cold: number; warm: number };
+  // Distinct (contract, slot) pairs touched
+  slotsTouched: number;
+}
+
+export interface GasBreakdown {
+  txHash: string;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  totalCost: bigint;
+  intrinsicGas: bigint;
+  calldata: CalldataStats;
+  accessListGas: bigint;
+  creationGas: bigint;
+  // gasUsed minus intrinsic gas; already net of refunds
+  executionGas: bigint;
+  // Only known when the node returns a trace with refund counters
+  refund?: bigint;
+  storage?: StorageAccessStats;
+  traced: boolean;
+}
+
+export interface AnalyzeOptions {
+  // Ask the node for debug_traceTransaction (skipped once the node rejects it)
+  trace?: boolean;
+}
+
+interface StructLog {
+  op: string;
+  depth: number;
+  stack?: string[];
+  refund?: number;
+}
+
+/**
+ * Count zero and non-zero calldata bytes and their gas cost
+ */
+export function calldataCost(data: string): CalldataStats {
+  const bytes = ethers.getBytes(data);
+  const zeroBytes = bytes.filter(byte => byte === 0).length;
+  const nonZeroBytes = bytes.length - zeroBytes;
+
+  return {
+    zeroBytes,
+    nonZeroBytes,
+    gas: BigInt(zeroBytes) * CALLDATA_ZERO_BYTE_GAS + BigInt(nonZeroBytes) * CALLDATA_NONZERO_BYTE_GAS,
+  };
+}
+
+/**
+ * Count SLOAD/SSTORE from struct logs, classifying each access as cold
+ * (first touch of that contract slot in the transaction) or warm
+ */
+export function countStorageAccess(
+  structLogs: StructLog[],
+  to: string | null,
+  accessList: ethers.AccessList = []
+): StorageAccessStats {
+  const stats: StorageAccessStats = { sload: { cold: 0, warm: 0 }, sstore: { cold: 0, warm: 0 }, slotsTouched: 0 };
+
+  // Slots in the access list start warm
+  const warm = new Set<string>();
+  accessList.forEach(entry => {
+    entry.storageKeys.forEach(key => warm.add(slotKey(entry.address, key)));
+  });
+
+  // Storage context per call depth; DELEGATECALL/CALLCODE keep the caller's storage
+  const contexts: string[] = [to ?? 'create:0'];
+  let pendingContext: string | null = null;
+  let creates = 0;
+  let previousDepth = structLogs[0]?.depth ?? 1;
+  const touched = new Set<string>();
+
+  structLogs.forEach(log => {
+    if (log.depth > previousDepth) {
+      contexts.push(pendingContext ?? contexts[contexts.length - 1]);
+    } else if (log.depth < previousDepth) {
+      contexts.splice(contexts.length - (previousDepth - log.depth));
+    }
+    previousDepth = log.depth;
+    pendingContext = null;
+
+    const stack = log.stack ?? [];
+    const current = contexts[contexts.length - 1];
+
+    switch (log.op) {
+      case 'CALL':
+      case 'STATICCALL':
+        pendingContext = stack.length >= 2 ? toAddress(stack[stack.length - 2]) : current;
+        break;
+      case 'DELEGATECALL':
+      case 'CALLCODE':
+        pendingContext = current;
+        break;
+      case 'CREATE':
+      case 'CREATE2':
+        pendingContext = `create:${++creates}`;
+        break;
+      case 'SLOAD':
+      case 'SSTORE': {
+        if (stack.length === 0) {
+          break;
+        }
+        const key = slotKey(current, stack[stack.length - 1]);
+        const counter = log.op === 'SLOAD' ? stats.sload : stats.sstore;
+        if (warm.has(key)) {
+          counter.warm++;
+        } else {
+          counter.cold++;
+          warm.add(key);
+        }
+        touched.add(key);
+        break;
+      }
+    }
+  });
+
+  stats.slotsTouched = touched.size;
+  return stats;
+}
+
+/**
+ * Refund actually applied for a final refund `counter`. EIP-3529 caps it at
+ * a fifth of the gas before refunds, i.e. gasUsed = gasBeforeRefund -
+ * min(counter, gasBeforeRefund / 5), so the cap binds once 4 × counter
+ * exceeds gasUsed.
+ */
+export function appliedRefund(counter: bigint, gasUsed: bigint): bigint {
+  return counter * (MAX_REFUND_QUOTIENT - 1n) <= gasUsed
+    ? counter
+    : gasUsed / (MAX_REFUND_QUOTIENT - 1n);
+}
+
+// Geth prefixes stack words with 0x, Hardhat returns bare hex
+function toWord(value: string): string {
+  return ethers.toBeHex(value.startsWith('0x') ? value : `0x${value}`, 32);
+}
+
+function slotKey(address: string, slot: string): string {
+  return `${address.toLowerCase()}:${toWord(slot)}`;
+}
+
+function toAddress(word: string): string {
+  return ethers.getAddress(ethers.dataSlice(toWord(word), 12));
+}
+
+export class GasAnalyzer {
+  // Flipped off after the node rejects debug_traceTransaction once
+  private traceSupported = true;
+
+  constructor(private provider: ethers.JsonRpcProvider) {}
+
+  /**
+   * Analyze a mined transaction. Without `trace`, storage stats and refunds are omitted.
+   */
+  async analyzeTransaction(txHash: string, options: AnalyzeOptions = {}): Promise<GasBreakdown> {
+    const [receipt, tx] = await Promise.all([
+      this.provider.getTransactionReceipt(txHash),
+      this.provider.getTransaction(txHash),
+    ]);
+    if (!receipt || !tx) {
+      throw new Error(`Transaction ${txHash} not found or not mined`);
+    }
+
+    const gasUsed = receipt.gasUsed;
+    const effectiveGasPrice = receipt.gasPrice;
+    const calldata = calldataCost(tx.data);
+    const accessList = tx.accessList ?? [];
+    const accessListGas = accessList.reduce(
+      (sum, entry) => sum + ACCESS_LIST_ADDRESS_GAS + BigInt(entry.storageKeys.length) * ACCESS_LIST_STORAGE_KEY_GAS,
+      0n
+    );
+    const creationGas = tx.to === null
+      ? TX_CREATE_GAS + BigInt(Math.ceil(ethers.dataLength(tx.data) / 32)) * INITCODE_WORD_GAS
+      : 0n;
+    const intrinsicGas = TX_BASE_GAS + calldata.gas + accessListGas + creationGas;
+
+    const breakdown: GasBreakdown = {
+      txHash,
+      gasUsed,
+      effectiveGasPrice,
+      totalCost: gasUsed * effectiveGasPrice,
+      intrinsicGas,
+      calldata,
+      accessListGas,
+      creationGas,
+      executionGas: gasUsed > intrinsicGas ? gasUsed - intrinsicGas : 0n,
+      traced: false,
+    };
+
+    if (options.trace) {
+      const structLogs = await this.traceTransaction(txHash);
+      if (structLogs) {
+        breakdown.traced = true;
+        breakdown.storage = countStorageAccess(structLogs, tx.to, accessList);
+        breakdown.refund = this.refundFromTrace(structLogs, gasUsed);
+      }
+    }
+
+    return breakdown;
+  }
+
+  /**
+   * Struct logs from debug_traceTransaction, or null when the node doesn't support it
+   */
+  private async traceTransaction(txHash: string): Promise<StructLog[] | null> {
+    if (!this.traceSupported) {
+      return null;
+    }
+
+    try {
+      const trace = await this.provider.send('debug_traceTransaction', [
+        txHash,
+        { disableMemory: true, disableStorage: true, disableStack: false },
+      ]);
+      return trace?.structLogs ?? null;
+    } catch {
+      this.traceSupported = false;
+      return null;
+    }
+  }
+
+  /**
+   * Refund actually applied: the final refund counter, capped against gas before refund
+   */
+  private refundFromTrace(structLogs: StructLog[], gasUsed: bigint): bigint | undefined {
+    const counter = structLogs[structLogs.length - 1]?.refund;
+    return counter === undefined ? undefined : appliedRefund(BigInt(counter), gasUsed);
+  }
+}
+
+/**
+ * One-line explanation of where a transaction's gas went
+ */
+export function formatGasBreakdown(breakdown: GasBreakdown): string {
+  const parts = [
+    `intrinsic ${breakdown.intrinsicGas}`,
+    `calldata ${breakdown.calldata.gas} (${breakdown.calldata.nonZeroBytes} non-zero / ${breakdown.calldata.zeroBytes} zero bytes)`,
+    `execution ${breakdown.executionGas}`,
+  ];
+  if (breakdown.refund !== undefined) {
+    parts.push(`refund ${breakdown.refund}`);
+  }
+  if (breakdown.storage) {
+    const { sload, sstore } = breakdown.storage;
+    parts.push(`SLOAD ${sload.cold} cold/${sload.warm} warm`, `SSTORE ${sstore.cold} cold/${sstore.warm} warm`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,332 @@
+/**
+ * Gas Pricing Utilities
+ *
+ * Pluggable gas-price and fiat price sources, and per-chain cost
+ * estimates (including the L1 data fee paid by rollups).
+ */
+
+import * as fs from 'fs';
+import { ethers } from 'ethers';
+
+// Returns the gas price (in wei) a transaction would pay right now
+export interface GasPriceSource {
+  readonly name: string;
+  getGasPrice(): Promise<bigint>;
+}
+
+// Returns the USD price of a native token symbol (ETH, MATIC, ...)
+export interface FiatPriceSource {
+  readonly name: string;
+  getPriceUSD(symbol: string): Promise<number>;
+}
+
+export interface ChainPricing {
+  name: string;
+  nativeSymbol: string;
+  gasPrice: GasPriceSource;
+  // Rollups also pay for posting their calldata to L1
+  l1?: {
+    gasPrice: GasPriceSource;
+    feeScalar: number;
+  };
+}
+
+export interface PricingConfig {
+  fiat: FiatPriceSource;
+  chains: ChainPricing[];
+}
+
+export interface ChainCostEstimate {
+  chain: string;
+  layer: 'L1' | 'L2';
+  gasPriceWei: bigint;
+  executionCostWei: bigint;
+  l1DataFeeWei: bigint;
+  totalCostWei: bigint;
+  nativePriceUSD: number;
+  costUSD: number;
+}
+
+// Calldata gas per non-zero byte (EIP-2028) and fixed per-tx L1 overhead (OP Stack)
+const L1_GAS_PER_CALLDATA_BYTE = 16n;
+const L1_FIXED_OVERHEAD_GAS = 188n;
+
+// Scalars are stored with 6 decimals of precision so the fee math stays in bigint
+const SCALAR_PRECISION = 1_000_000;
+
+/**
+ * Gas price from the provider's `getFeeData()` (legacy gasPrice, or maxFeePerGas on EIP-1559 chains)
+ */
+export class ProviderFeeDataSource implements GasPriceSource {
+  readonly name = 'provider-fee-data';
+
+  constructor(private provider: ethers.Provider) {}
+
+  async getGasPrice(): Promise<bigint> {
+    const feeData = await this.provider.getFeeData();
+    const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas;
+    if (gasPrice == null) {
+      throw new Error('Provider returned no gas price');
+    }
+    return gasPrice;
+  }
+}
+
+/**
+ * EIP-1559 estimate: next block's base fee plus the median priority fee
+ * paid at `rewardPercentile` over the last `blockCount` blocks
+ */
+export class FeeHistorySource implements GasPriceSource {
+  readonly name = 'eip1559-fee-history';
+
+  constructor(
+    private provider: ethers.JsonRpcProvider,
+    private blockCount: number = 10,
+    private rewardPercentile: number = 50
+  ) {}
+
+  async getGasPrice(): Promise<bigint> {
+    const history = await this.provider.send('eth_feeHistory', [
+      ethers.toQuantity(this.blockCount),
+      'latest',
+      [this.rewardPercentile],
+    ]);
+
+    // The last entry is the base fee of the next (pending) block
+    const baseFees: string[] = history.baseFeePerGas ?? [];
+    if (baseFees.length === 0) {
+      throw new Error('eth_feeHistory returned no base fees');
+    }
+    const nextBaseFee = BigInt(baseFees[baseFees.length - 1]);
+
+    const rewards = ((history.reward ?? []) as string[][])
+      .map(reward => BigInt(reward[0]))
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const priorityFee = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+
+    return nextBaseFee + priorityFee;
+  }
+}
+
+/**
+ * Fixed gas price and fiat prices, e.g. from a config file
+ */
+export class StaticPriceSource implements GasPriceSource, FiatPriceSource {
+  readonly name = 'static';
+
+  constructor(
+    private gasPriceGwei: number,
+    private pricesUSD: Record<string, number> = {}
+  ) {}
+
+  async getGasPrice(): Promise<bigint> {
+    return ethers.parseUnits(this.gasPriceGwei.toFixed(9), 'gwei');
+  }
+
+  async getPriceUSD(symbol: string): Promise<number> {
+    const price = this.pricesUSD[symbol.toUpperCase()];
+    if (price === undefined) {
+      throw new Error(`No static USD price for ${symbol}`);
+    }
+    return price;
+  }
+}
+
+/**
+ * Fiat prices from a local JSON feed, re-read on every lookup so an
+ * external job can keep it fresh. Accepts `{ "ETH": 2000 }` or
+ * `{ "prices": { "ETH": 2000 }, "updatedAt": "..." }`.
+ */
+export class JsonPriceFeed implements FiatPriceSource {
+  readonly name = 'json-price-feed';
+
+  constructor(private filePath: string) {}
+
+  async getPriceUSD(symbol: string): Promise<number> {
+    const raw: unknown = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    const prices = isRecord(raw) && raw.prices !== undefined ? raw.prices : raw;
+    const price = isRecord(prices) ? prices[symbol.toUpperCase()] : undefined;
+    if (typeof price !== 'number' || !Number.isFinite(price)) {
+      throw new Error(`${this.filePath} has no USD price for ${symbol}`);
+    }
+    return price;
+  }
+}
+
+/**
+ * Default pricing: a single L1 at 20 gwei and $2000 ETH
+ */
+export function defaultPricing(): PricingConfig {
+  const prices = new StaticPriceSource(20, { ETH: 2000 });
+  return {
+    fiat: prices,
+    chains: [{ name: 'Ethereum', nativeSymbol: 'ETH', gasPrice: prices }],
+  };
+}
+
+// Pricing config file, as loadPricingConfig reads it
+export interface PricingConfigFile {
+  prices?: Record<string, number>;
+  chains: {
+    name: string;
+    nativeSymbol?: string;
+    gasPriceGwei: number;
+    l1?: { gasPriceGwei: number; feeScalar?: number };
+  }[];
+}
+
+/**
+ * Load a static pricing config file:
+ *
+ * {
+ *   "prices": { "ETH": 2000 },
+ *   "chains": [
+ *     { "name": "Ethereum", "nativeSymbol": "ETH", "gasPriceGwei": 20 },
+ *     { "name": "Optimism", "nativeSymbol": "ETH", "gasPriceGwei": 0.001,
+ *       "l1": { "gasPriceGwei": 20, "feeScalar": 0.684 } }
+ *   ]
+ * }
+ */
+export function loadPricingConfig(filePath: string): PricingConfig {
+  try {
+    return parsePricingConfig(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch (error) {
+    throw new Error(`${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Check a parsed pricing config file and build its price sources
+ */
+export function parsePricingConfig(raw: unknown): PricingConfig {
+  const config = checkPricingConfigFile(raw);
+  // Lookups upper-case the symbol, so "eth" in the file prices ETH
+  const prices = Object.fromEntries(
+    Object.entries(config.prices ?? {}).map(([symbol, price]) => [symbol.toUpperCase(), price])
+  );
+  return {
+    fiat: new StaticPriceSource(0, prices),
+    chains: config.chains.map(chain => ({
+      name: chain.name,
+      nativeSymbol: chain.nativeSymbol ?? 'ETH',
+      gasPrice: new StaticPriceSource(chain.gasPriceGwei, prices),
+      l1: chain.l1
+        ? { gasPrice: new StaticPriceSource(chain.l1.gasPriceGwei, prices), feeScalar: chain.l1.feeScalar ?? 1 }
+        : undefined,
+    })),
+  };
+}
+
+function checkPricingConfigFile(raw: unknown): PricingConfigFile {
+  if (!isRecord(raw) || !Array.isArray(raw.chains) || raw.chains.length === 0) {
+    throw new Error('pricing config must list at least one chain');
+  }
+
+  if (raw.prices !== undefined) {
+    if (!isRecord(raw.prices)) {
+      throw new Error('prices must map token symbols to USD prices');
+    }
+    const symbols = new Set<string>();
+    for (const [symbol, price] of Object.entries(raw.prices)) {
+      checkAmount(price, `prices.${symbol}`);
+      if (symbols.has(symbol.toUpperCase())) {
+        throw new Error(`prices lists ${symbol.toUpperCase()} more than once`);
+      }
+      symbols.add(symbol.toUpperCase());
+    }
+  }
+
+  raw.chains.forEach((chain: unknown, i: number) => {
+    const at = `chains[${i}]`;
+    if (!isRecord(chain) || typeof chain.name !== 'string' || chain.name === '') {
+      throw new Error(`${at} needs a name`);
+    }
+    if (chain.nativeSymbol !== undefined && typeof chain.nativeSymbol !== 'string') {
+      throw new Error(`${at}.nativeSymbol must be a token symbol`);
+    }
+    checkAmount(chain.gasPriceGwei, `${at}.gasPriceGwei`);
+    if (chain.l1 !== undefined) {
+      if (!isRecord(chain.l1)) {
+        throw new Error(`${at}.l1 must be an object`);
+      }
+      checkAmount(chain.l1.gasPriceGwei, `${at}.l1.gasPriceGwei`);
+      if (chain.l1.feeScalar !== undefined) {
+        checkAmount(chain.l1.feeScalar, `${at}.l1.feeScalar`);
+      }
+    }
+  });
+  return raw as unknown as PricingConfigFile;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkAmount(value: unknown, at: string) {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${at} must be a non-negative number, got ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * Prices gas usage on each configured chain
+ */
+export class GasCostEstimator {
+  constructor(private pricing: PricingConfig) {}
+
+  get chains(): ChainPricing[] {
+    return this.pricing.chains;
+  }
+
+  /**
+   * Estimate the cost of `gasUsed` on every chain. Rollups also pay for
+   * posting `calldataBytes` spread over `txCount` transactions to L1.
+   */
+  async estimateAll(gasUsed: bigint, calldataBytes: number = 0, txCount: number = 1): Promise<ChainCostEstimate[]> {
+    const estimates: ChainCostEstimate[] = [];
+    for (const chain of this.pricing.chains) {
+      estimates.push(await this.estimate(chain, gasUsed, calldataBytes, txCount));
+    }
+    return estimates;
+  }
+
+  /**
+   * USD cost of `gasUsed` on the first configured chain
+   */
+  async estimateUSD(gasUsed: bigint): Promise<number> {
+    const [chain] = this.pricing.chains;
+    return (await this.estimate(chain, gasUsed)).costUSD;
+  }
+
+  async estimate(
+    chain: ChainPricing,
+    gasUsed: bigint,
+    calldataBytes: number = 0,
+    txCount: number = 1
+  ): Promise<ChainCostEstimate> {
+    const gasPriceWei = await chain.gasPrice.getGasPrice();
+    const executionCostWei = gasUsed * gasPriceWei;
+
+    let l1DataFeeWei = 0n;
+    if (chain.l1) {
+      // Treat every byte as non-zero: an upper bound for the posted data
+      const l1Gas = BigInt(calldataBytes) * L1_GAS_PER_CALLDATA_BYTE + L1_FIXED_OVERHEAD_GAS * BigInt(txCount);
+      const scalar = BigInt(Math.round(chain.l1.feeScalar * SCALAR_PRECISION));
+      l1DataFeeWei = (l1Gas * (await chain.l1.gasPrice.getGasPrice()) * scalar) / BigInt(SCALAR_PRECISION);
+    }
+
+    const totalCostWei = executionCostWei + l1DataFeeWei;
+    const nativePriceUSD = await this.pricing.fiat.getPriceUSD(chain.nativeSymbol);
+
+    return {
+      chain: chain.name,
+      layer: chain.l1 ? 'L2' : 'L1',
+      gasPriceWei,
+      executionCostWei,
+      l1DataFeeWei,
+      totalCostWei,
+      nativePriceUSD,
+      costUSD: Number(ethers.formatEther(totalCostWei)) * nativePriceUSD,
+    };
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Gas Report Utilities
+ *
+ * Shared report shape for the gas demos, plus loading a saved
+ * gas-optimization-report.json and diffing it against a new run.
+ */
+
+import * as fs from 'fs';
+import type { ChainCostEstimate } from './gas-pricing';
+
+// Whether a gas figure came from a real receipt or from the built-in estimates
+export type GasSource = 'measured' | 'simulated';
+
+export interface GasReport {
+  standard: string;
+  operation: string;
+  gasUsed: bigint;
+  source: GasSource;
+  // Measured entries record what they sent, for pricing the L1 data fee on rollups
+  txCount?: number;
+  calldataBytes?: number;
+  gasCostUSD?: number;
+  savings?: string;
+}
+
+export interface GasSummary {
+  totalOperations: number;
+  measuredOperations: number;
+  simulatedOperations: number;
+  totalGasUsed: string;
+  averageGasPerOperation: string;
+  estimatedCostUSD: string;
+  costByChain: ChainCostEstimate[];
+}
+
+export interface GasDelta {
+  standard: string;
+  operation: string;
+  baselineGas: bigint;
+  currentGas: bigint;
+  deltaGas: bigint;
+  deltaPct: number;
+  regressed: boolean;
+  // Baseline and current run disagree on measured vs simulated; never a regression
+  sourceMismatch: boolean;
+}
+
+export interface GasComparison {
+  thresholdPct: number;
+  deltas: GasDelta[];
+  regressions: GasDelta[];
+  added: GasReport[];
+  removed: GasReport[];
+}
+
+// Default allowed increase before an operation counts as a regression
+export const DEFAULT_REGRESSION_THRESHOLD_PCT = 2;
+
+/**
+ * Load the `reports` array from a saved gas-optimization-report.json
+ */
+export function loadGasReport(filePath: string): GasReport[] {
+  const raw: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!isRecord(raw) || !Array.isArray(raw.reports)) {
+    throw new Error(`${filePath} is not a gas report (missing "reports" array)`);
+  }
+
+  try {
+    return raw.reports.map((report: unknown, i: number) => checkGasReportEntry(report, `reports[${i}]`));
+  } catch (error) {
+    throw new Error(`${filePath}: ${(error as Error).message}`);
+  }
+}
+
+function checkGasReportEntry(report: unknown, at: string): GasReport {
+  if (!isRecord(report)) {
+    throw new Error(`${at} must be an object`);
+  }
+  const { standard, operation, gasUsed } = report;
+  if (typeof standard !== 'string' || standard === '') {
+    throw new Error(`${at}.standard must be a non-empty string, got ${JSON.stringify(standard)}`);
+  }
+  if (typeof operation !== 'string' || operation === '') {
+    throw new Error(`${at}.operation must be a non-empty string, got ${JSON.stringify(operation)}`);
+  }
+  const gas = parseGas(gasUsed);
+  if (gas === undefined) {
+    throw new Error(`${at}.gasUsed must be a whole amount of gas, got ${JSON.stringify(gasUsed)}`);
+  }
+  // Reports saved before measured mode existed are all simulated
+  const source = report.source ?? 'simulated';
+  if (source !== 'measured' && source !== 'simulated') {
+    throw new Error(`${at}.source must be measured or simulated, got ${JSON.stringify(source)}`);
+  }
+
+  return { ...report, standard, operation, gasUsed: gas, source };
+}
+
+// Saved as a decimal string, since JSON has no bigint; hand-written files may use numbers
+function parseGas(value: unknown): bigint | undefined {
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Key used to match entries between two runs
+ */
+export function reportKey(report: Pick<GasReport, 'standard' | 'operation'>): string {
+  return `${report.standard}::${report.operation}`;
+}
+
+/**
+ * Match entries by standard + operation and compute per-operation deltas.
+ * An operation regresses when it grows by more than `thresholdPct` percent;
+ * a measured figure is not compared against a simulated one. Each run must
+ * list an operation at most once.
+ */
+export function compareGasReports(
+  baseline: GasReport[],
+  current: GasReport[],
+  thresholdPct: number = DEFAULT_REGRESSION_THRESHOLD_PCT
+): GasComparison {
+  const baselineByKey = reportsByKey(baseline, 'baseline');
+  const currentKeys = new Set(reportsByKey(current, 'current run').keys());
+
+  const deltas: GasDelta[] = [];
+  const added: GasReport[] = [];
+
+  current.forEach(report => {
+    const previous = baselineByKey.get(reportKey(report));
+    if (!previous) {
+      added.push(report);
+      return;
+    }
+
+    const deltaGas = report.gasUsed - previous.gasUsed;
+    const deltaPct = previous.gasUsed === 0n
+      ? (deltaGas === 0n ? 0 : Infinity)
+      : (Number(deltaGas) / Number(previous.gasUsed)) * 100;
+
+    const sourceMismatch = previous.source !== report.source;
+    deltas.push({
+      standard: report.standard,
+      operation: report.operation,
+      baselineGas: previous.gasUsed,
+      currentGas: report.gasUsed,
+      deltaGas,
+      deltaPct,
+      regressed: !sourceMismatch && deltaGas > 0n && deltaPct > thresholdPct,
+      sourceMismatch,
+    });
+  });
+
+  return {
+    thresholdPct,
+    deltas,
+    regressions: deltas.filter(delta => delta.regressed),
+    added,
+    removed: baseline.filter(report => !currentKeys.has(reportKey(report))),
+  };
+}
+
+function reportsByKey(reports: GasReport[], label: string): Map<string, GasReport> {
+  const byKey = new Map<string, GasReport>();
+  for (const report of reports) {
+    const key = reportKey(report);
+    if (byKey.has(key)) {
+      throw new Error(`The ${label} lists "${report.standard} / ${report.operation}" more than once`);
+    }
+    byKey.set(key, report);
+  }
+  return byKey;
+}
+
+/**
+ * Print the comparison as a console table
+ */
+export function printGasComparison(comparison: GasComparison) {
+  console.log('='.repeat(60));
+  console.log('📉 GAS REGRESSION CHECK');
+  console.log('='.repeat(60));
+  console.log(`Threshold: +${comparison.thresholdPct}% per operation\n`);
+
+  comparison.deltas.forEach(delta => {
+    const sign = delta.deltaGas > 0n ? '+' : '';
+    const marker = delta.regressed ? '❌' : delta.sourceMismatch ? '⚠️' : '✅';
+    const note = delta.sourceMismatch ? ' (measured vs simulated, not compared)' : '';
+    console.log(
+      `${marker} ${`${delta.standard} / ${delta.operation}`.padEnd(55)}: ` +
+      `${delta.baselineGas.toString().padStart(8)} → ${delta.currentGas.toString().padStart(8)} ` +
+      `(${sign}${delta.deltaGas.toString()} gas, ${sign}${delta.deltaPct.toFixed(2)}%)${note}`
+    );
+  });
+
+  comparison.added.forEach(report => {
+    console.log(`🆕 ${`${report.standard} / ${report.operation}`.padEnd(55)}: not in baseline`);
+  });
+  comparison.removed.forEach(report => {
+    console.log(`🗑️ ${`${report.standard} / ${report.operation}`.padEnd(55)}: missing from current run`);
+  });
+
+  if (comparison.regressions.length > 0) {
+    console.log(`\n❌ ${comparison.regressions.length} operation(s) regressed past +${comparison.thresholdPct}%\n`);
+  } else {
+    console.log('\n✅ No gas regressions\n');
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Gas Report Formatters
+ *
+ * Render gas demo results as Markdown, CSV, a standalone HTML page,
+ * or JUnit XML for CI dashboards.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { GasReport, GasSummary, GasComparison, reportKey } from './gas-report';
+
+export type ReportFormat = 'markdown' | 'csv' | 'html' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['markdown', 'csv', 'html', 'junit'];
+
+// Everything a reporter may render; summary and comparison are optional
+export interface ReportContext {
+  reports: GasReport[];
+  summary?: GasSummary;
+  comparison?: GasComparison;
+  generatedAt?: string;
+}
+
+export interface GasReporter {
+  format: ReportFormat;
+  extension: string;
+  render(context: ReportContext): string;
+}
+
+/**
+ * Markdown table, ready to paste into a PR or design doc
+ */
+export class MarkdownReporter implements GasReporter {
+  format = 'markdown' as const;
+  extension = 'md';
+
+  render({ reports, summary, comparison }: ReportContext): string {
+    const deltas = deltasByKey(comparison);
+    const lines = [
+      '## Gas Report',
+      '',
+      comparison
+        ? '| Standard | Operation | Gas | Source | Δ vs baseline |'
+        : '| Standard | Operation | Gas | Source |',
+      comparison ? '|---|---|---:|---|---:|' : '|---|---|---:|---|',
+    ];
+
+    reports.forEach(report => {
+      const cells = [
+        escapeMarkdown(report.standard),
+        escapeMarkdown(report.operation),
+        formatGas(report.gasUsed),
+        report.source,
+      ];
+      if (comparison) {
+        const delta = deltas.get(reportKey(report));
+        cells.push(delta ? `${delta.regressed ? '❌ ' : ''}${formatPct(delta.deltaPct)}` : 'new');
+      }
+      lines.push(`| ${cells.join(' | ')} |`);
+    });
+
+    if (summary) {
+      lines.push(
+        '',
+        '### Summary',
+        '',
+        `- Operations: ${summary.totalOperations} (${summary.measuredOperations} measured, ${summary.simulatedOperations} simulated)`,
+        `- Total gas: ${formatGas(BigInt(summary.totalGasUsed))}`,
+        `- Average gas per operation: ${summary.averageGasPerOperation}`,
+        '',
+        '| Chain | Layer | Gas price (gwei) | Cost (USD) |',
+        '|---|---|---:|---:|',
+        ...summary.costByChain.map(cost =>
+          `| ${escapeMarkdown(cost.chain)} | ${cost.layer} | ${ethers.formatUnits(cost.gasPriceWei, 'gwei')} | $${cost.costUSD.toFixed(2)} |`
+        )
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * One row per operation, for spreadsheets
+ */
+export class CsvReporter implements GasReporter {
+  format = 'csv' as const;
+  extension = 'csv';
+
+  render({ reports, comparison }: ReportContext): string {
+    const deltas = deltasByKey(comparison);
+    const header = ['standard', 'operation', 'gasUsed', 'source', 'txCount', 'calldataBytes'];
+    if (comparison) {
+      header.push('baselineGas', 'deltaGas', 'deltaPct', 'regressed');
+    }
+
+    const rows = reports.map(report => {
+      const row = [
+        report.standard,
+        report.operation,
+        report.gasUsed.toString(),
+        report.source,
+        report.txCount?.toString() ?? '',
+        report.calldataBytes?.toString() ?? '',
+      ];
+      if (comparison) {
+        const delta = deltas.get(reportKey(report));
+        row.push(
+          delta?.baselineGas.toString() ?? '',
+          delta?.deltaGas.toString() ?? '',
+          delta ? delta.deltaPct.toFixed(2) : '',
+          delta ? String(delta.regressed) : ''
+        );
+      }
+      return row;
+    });
+
+    return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+  }
+}
+
+/**
+ * Standalone HTML page with one bar chart per standard
+ */
+export class HtmlReporter implements GasReporter {
+  format = 'html' as const;
+  extension = 'html';
+
+  render({ reports, summary, generatedAt }: ReportContext): string {
+    const byStandard = new Map<string, GasReport[]>();
+    reports.forEach(report => {
+      byStandard.set(report.standard, [...(byStandard.get(report.standard) ?? []), report]);
+    });
+
+    const charts = [...byStandard.entries()].map(([standard, entries]) => {
+      const max = entries.reduce((m, entry) => (entry.gasUsed > m ? entry.gasUsed : m), 1n);
+      const bars = entries.map(entry => {
+        const width = (Number(entry.gasUsed) / Number(max)) * 100;
+        return `      <div class="row">
+        <span class="label">${escapeHtml(entry.operation)}</span>
+        <span class="bar ${entry.source}" style="width: ${width.toFixed(1)}%"></span>
+        <span class="value">${formatGas(entry.gasUsed)} gas</span>
+      </div>`;
+      });
+      return `    <section>
+      <h2>${escapeHtml(standard)}</h2>
+${bars.join('\n')}
+    </section>`;
+    });
+
+    const summaryHtml = summary
+      ? `    <p>${summary.totalOperations} operations (${summary.measuredOperations} measured, ${summary.simulatedOperations} simulated),
+      ${formatGas(BigInt(summary.totalGasUsed))} gas total, ${escapeHtml(summary.estimatedCostUSD)}</p>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Gas Optimization Report</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    section { margin-bottom: 2rem; }
+    .row { display: grid; grid-template-columns: 22rem 1fr 9rem; align-items: center; gap: 0.5rem; margin: 0.25rem 0; }
+    .bar { display: block; height: 1rem; background: #4f7cff; }
+    .bar.simulated { background: repeating-linear-gradient(45deg, #9bb2ff, #9bb2ff 6px, #c6d3ff 6px, #c6d3ff 12px); }
+    .value { text-align: right; font-variant-numeric: tabular-nums; }
+  </style>
+</head>
+<body>
+  <h1>Gas Optimization Report</h1>
+  <p>Generated ${escapeHtml(generatedAt ?? new Date().toISOString())}. Striped bars are simulated.</p>
+${summaryHtml}
+  <main>
+${charts.join('\n')}
+  </main>
+</body>
+</html>
+`;
+  }
+}
+
+/**
+ * JUnit XML: one test case per operation, failing when it regressed
+ */
+export class JUnitReporter implements GasReporter {
+  format = 'junit' as const;
+  extension = 'xml';
+
+  render({ reports, comparison }: ReportContext): string {
+    const deltas = deltasByKey(comparison);
+    const failures = reports.filter(report => deltas.get(reportKey(report))?.regressed).length;
+
+    const cases = reports.map(report => {
+      const delta = deltas.get(reportKey(report));
+      const properties = [
+        `        <property name="gasUsed" value="${report.gasUsed}"/>`,
+        `        <property name="source" value="${report.source}"/>`,
+      ];
+      if (delta) {
+        properties.push(
+          `        <property name="baselineGas" value="${delta.baselineGas}"/>`,
+          `        <property name="deltaPct" value="${delta.deltaPct.toFixed(2)}"/>`
+        );
+      }
+      const failure = delta?.regressed
+        ? `\n      <failure message="${escapeHtml(`+${delta.deltaGas} gas (${formatPct(delta.deltaPct)})`)}" type="GasRegression"/>`
+        : '';
+      return `    <testcase classname="${escapeHtml(report.standard)}" name="${escapeHtml(report.operation)}">
+      <properties>
+${properties.join('\n')}
+      </properties>${failure}
+    </testcase>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="gas-report" tests="${reports.length}" failures="${failures}">
+  <testsuite name="gas-optimization" tests="${reports.length}" failures="${failures}">
+${cases.join('\n')}
+  </testsuite>
+</testsuites>
+`;
+  }
+}
+
+/**
+ * Look up a reporter by format name
+ */
+export function getReporter(format: string): GasReporter {
+  switch (format) {
+    case 'markdown':
+    case 'md':
+      return new MarkdownReporter();
+    case 'csv':
+      return new CsvReporter();
+    case 'html':
+      return new HtmlReporter();
+    case 'junit':
+    case 'xml':
+      return new JUnitReporter();
+    default:
+      throw new Error(`Unknown report format "${format}" (expected ${REPORT_FORMATS.join(', ')})`);
+  }
+}
+
+/**
+ * Canonical names for `formats`, aliases folded together and repeats dropped;
+ * throws on the first unknown one
+ */
+export function resolveReportFormats(formats: string[]): ReportFormat[] {
+  return [...new Set(formats.map(format => getReporter(format).format))];
+}
+
+/**
+ * Write gas-optimization-report.<ext> for each format and return the paths
+ */
+export function writeGasReports(formats: string[], outDir: string, context: ReportContext): string[] {
+  fs.mkdirSync(outDir, { recursive: true });
+
+  return resolveReportFormats(formats).map(format => {
+    const reporter = getReporter(format);
+    const filePath = path.join(outDir, `gas-optimization-report.${reporter.extension}`);
+    fs.writeFileSync(filePath, reporter.render(context));
+    return filePath;
+  });
+}
+
+function deltasByKey(comparison?: GasComparison) {
+  return new Map((comparison?.deltas ?? []).map(delta => [reportKey(delta), delta]));
+}
+
+function formatGas(gas: bigint): string {
+  return gas.toLocaleString('en-US');
+}
+
+function formatPct(pct: number): string {
+  return `${pct > 0 ? '+' : ''}${pct.toFixed(2)}%`;
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,39 @@
+/**
+ * In-Process Hardhat Network
+ *
+ * The project's `hardhat` network runs inside this process, so demos and
+ * tests can deploy the real contracts and measure real gas without a node
+ * or network access.
+ */
+
+import { ethers } from 'ethers';
+
+// Balance given to every funded account
+const FUNDED_BALANCE = ethers.parseEther('10000');
+
+/**
+ * Provider for the in-process Hardhat network. Hardhat is loaded on demand,
+ * so only callers that run offline need it installed.
+ */
+export async function connectHardhatNetwork(): Promise<ethers.BrowserProvider> {
+  let hre: typeof import('hardhat');
+  try {
+    hre = (await import('hardhat')).default;
+  } catch (error) {
+    throw new Error(`Running offline needs the project's Hardhat setup: ${(error as Error).message}`);
+  }
+  if (hre.network.name !== 'hardhat') {
+    throw new Error(`Running offline needs the in-process "hardhat" network, HARDHAT_NETWORK selects "${hre.network.name}"`);
+  }
+  // Callers read balances right after changing them, so identical reads must not be served from cache
+  return new ethers.BrowserProvider(hre.network.provider, undefined, { cacheTimeout: -1 });
+}
+
+/**
+ * Give each account a fresh balance, whatever it held before
+ */
+export async function fundAccounts(provider: ethers.JsonRpcApiProvider, accounts: string[]) {
+  for (const account of accounts) {
+    await provider.send('hardhat_setBalance', [account, ethers.toQuantity(FUNDED_BALANCE)]);
+  }
+}
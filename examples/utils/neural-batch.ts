@@ -0,0 +1,223 @@
+/**
+ * Neural Batch Transfers
+ *
+ * Plans ERC-1155 batch transfers for NeuralMultiToken: checks an item list
+ * against the sender's balances, groups it per recipient into the
+ * safeBatchTransferFrom calls the contract makes, and signs one
+ * NeuralProof over the hash of the whole batch. One proof and one
+ * signature check are then shared by every item.
+ */
+
+import { ethers } from 'ethers';
+import {
+  DEFAULT_PROOF_TTL_SECONDS,
+  NeuralProof,
+  NeuralProofDomain,
+  NeuralProofNonces,
+  NeuralProofOptions,
+} from './neural-proof';
+import { TypedData, signTypedData } from './typed-data';
+
+export const NEURAL_BATCH_DOMAIN_NAME = 'NeuralMultiToken';
+export const NEURAL_BATCH_DOMAIN_VERSION = '1';
+
+export interface BatchItem {
+  to: string;
+  tokenId: bigint;
+  amount: bigint;
+}
+
+// The items one recipient receives, as one safeBatchTransferFrom
+export interface RecipientBatch {
+  to: string;
+  ids: bigint[];
+  amounts: bigint[];
+}
+
+export interface NeuralBatchPlan {
+  from: string;
+  batches: RecipientBatch[];
+  // Items as listed, before grouping
+  itemCount: number;
+  // EIP-712 struct hash of the batch
+  batchHash: string;
+}
+
+export type BatchRejection =
+  | 'empty-batch'
+  | 'invalid-recipient'
+  | 'zero-amount'
+  | 'unknown-token'
+  | 'insufficient-balance';
+
+export interface BatchValidation {
+  valid: boolean;
+  reason?: BatchRejection;
+  message?: string;
+}
+
+export const NEURAL_BATCH_TYPES: Record<string, ethers.TypedDataField[]> = {
+  NeuralBatchProof: [
+    { name: 'batch', type: 'BatchTransfer' },
+    { name: 'sender', type: 'address' },
+    { name: 'neuralHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+  BatchTransfer: [
+    { name: 'from', type: 'address' },
+    { name: 'batches', type: 'RecipientBatch[]' },
+  ],
+  RecipientBatch: [
+    { name: 'to', type: 'address' },
+    { name: 'ids', type: 'uint256[]' },
+    { name: 'amounts', type: 'uint256[]' },
+  ],
+};
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Check `items` against `holdings`, the sender's balance of every token id
+ * the collection has. Balances are checked per token id over the whole
+ * list, so two items can't spend the same balance.
+ */
+export function checkBatchItems(from: string, items: BatchItem[], holdings: Map<bigint, bigint>): BatchValidation {
+  if (items.length === 0) {
+    return reject('empty-batch', 'Batch has no items');
+  }
+
+  const totals = new Map<bigint, bigint>();
+  for (const item of items) {
+    if (!ethers.isAddress(item.to) || item.to === ethers.ZeroAddress || item.to.toLowerCase() === from.toLowerCase()) {
+      return reject('invalid-recipient', `Cannot send token ${item.tokenId} to ${item.to}`);
+    }
+    if (item.amount <= 0n) {
+      return reject('zero-amount', `Item for token ${item.tokenId} → ${item.to} has no amount`);
+    }
+    if (!holdings.has(item.tokenId)) {
+      return reject('unknown-token', `Token ${item.tokenId} does not exist`);
+    }
+    totals.set(item.tokenId, (totals.get(item.tokenId) ?? 0n) + item.amount);
+  }
+
+  for (const [tokenId, total] of totals) {
+    const balance = holdings.get(tokenId)!;
+    if (total > balance) {
+      return reject('insufficient-balance', `Batch sends ${total} of token ${tokenId}, ${from} holds ${balance}`);
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Items grouped per recipient, in the order recipients first appear; a
+ * recipient's repeated token ids are merged
+ */
+export function groupBatchItems(items: BatchItem[]): RecipientBatch[] {
+  const batches: RecipientBatch[] = [];
+  for (const item of items) {
+    let batch = batches.find(existing => existing.to.toLowerCase() === item.to.toLowerCase());
+    if (!batch) {
+      batch = { to: item.to, ids: [], amounts: [] };
+      batches.push(batch);
+    }
+    const i = batch.ids.indexOf(item.tokenId);
+    if (i === -1) {
+      batch.ids.push(item.tokenId);
+      batch.amounts.push(item.amount);
+    } else {
+      batch.amounts[i] += item.amount;
+    }
+  }
+  return batches;
+}
+
+/**
+ * EIP-712 struct hash of a BatchTransfer, as NeuralMultiToken.hashBatch computes it
+ */
+export function hashBatch(from: string, batches: RecipientBatch[]): string {
+  return ethers.TypedDataEncoder.hashStruct('BatchTransfer', NEURAL_BATCH_TYPES, { from, batches });
+}
+
+/**
+ * Check `items` and group them into the contract's per-recipient batches
+ */
+export function planNeuralBatch(from: string, items: BatchItem[], holdings: Map<bigint, bigint>): NeuralBatchPlan {
+  const validation = checkBatchItems(from, items, holdings);
+  if (!validation.valid) {
+    throw new Error(`Invalid batch (${validation.reason}): ${validation.message}`);
+  }
+
+  const batches = groupBatchItems(items);
+  return { from, batches, itemCount: items.length, batchHash: hashBatch(from, batches) };
+}
+
+/**
+ * Typed data signed by `plan.from` for a proof over the whole batch
+ */
+export function buildNeuralBatchProofTypedData(
+  domain: NeuralProofDomain,
+  plan: NeuralBatchPlan,
+  proof: Pick<NeuralProof, 'sender' | 'neuralHash' | 'nonce' | 'timestamp' | 'expiry'>
+): TypedData {
+  return {
+    domain: {
+      name: NEURAL_BATCH_DOMAIN_NAME,
+      version: NEURAL_BATCH_DOMAIN_VERSION,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    types: NEURAL_BATCH_TYPES,
+    primaryType: 'NeuralBatchProof',
+    message: {
+      batch: { from: plan.from, batches: plan.batches },
+      sender: proof.sender,
+      neuralHash: proof.neuralHash,
+      nonce: proof.nonce,
+      timestamp: proof.timestamp,
+      expiry: proof.expiry,
+    },
+  };
+}
+
+/**
+ * Sign one proof for every item of `plan` with the wallet of `plan.from`.
+ * The ZK proof from `options.proveDigest` is bound to the digest it signs.
+ */
+export async function createNeuralBatchProof(
+  signer: ethers.Signer,
+  domain: NeuralProofDomain,
+  nonces: NeuralProofNonces,
+  plan: NeuralBatchPlan,
+  options: NeuralProofOptions
+): Promise<NeuralProof> {
+  const timestamp = options.now ?? nowSeconds();
+  const fields = {
+    sender: options.sender,
+    neuralHash: options.neuralHash,
+    nonce: nonces.current(plan.from),
+    timestamp,
+    expiry: timestamp + (options.ttlSeconds ?? DEFAULT_PROOF_TTL_SECONDS),
+  };
+  const typedData = buildNeuralBatchProofTypedData(domain, plan, fields);
+  const digest = ethers.TypedDataEncoder.hash(typedData.domain, typedData.types, typedData.message);
+  const zkProof = options.proveDigest ? await options.proveDigest(digest) : '0x';
+  const { signature } = await signTypedData(signer, typedData);
+
+  return {
+    ...fields,
+    zkProof,
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+    payloadHash: plan.batchHash,
+    signature,
+  };
+}
+
+function reject(reason: BatchRejection, message: string): BatchValidation {
+  return { valid: false, reason, message };
+}
@@ -0,0 +1,381 @@
+/**
+ * Neural Input Adapters
+ *
+ * Signal-level sources for NeuralSignatureGenerator: replay of recorded
+ * EEG-like CSV/EDF files and a synthetic multi-channel generator with
+ * configurable noise and drift. Both produce raw signals; band-power
+ * features are extracted here, so the rest of the pipeline sees the same
+ * `NeuralInputSource` a device adapter would provide.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FeatureVector, NeuralInputSource, gaussian, seededRandom } from './neural-signature';
+
+// Frequency bands (Hz) used as features, per channel
+export const EEG_BANDS: { name: string; low: number; high: number }[] = [
+  { name: 'delta', low: 1, high: 4 },
+  { name: 'theta', low: 4, high: 8 },
+  { name: 'alpha', low: 8, high: 13 },
+  { name: 'beta', low: 13, high: 30 },
+  { name: 'gamma', low: 30, high: 45 },
+];
+
+export const DEFAULT_SAMPLE_RATE = 256;
+
+// Columns treated as timestamps rather than channels in CSV recordings
+const TIME_COLUMNS = new Set(['time', 'timestamp', 't']);
+
+// EDF header field widths (bytes), fixed part then per-signal fields
+const EDF_FIXED_HEADER_BYTES = 256;
+const EDF_SIGNAL_HEADER_BYTES = 256;
+const EDF_DIGITAL_MIN = -32768;
+const EDF_DIGITAL_MAX = 32767;
+
+export interface NeuralSignal {
+  sampleRate: number;
+  channels: string[];
+  // One array of samples (µV) per channel
+  data: number[][];
+}
+
+/**
+ * Produces raw signals for a subject's capture session
+ */
+export interface SignalReader {
+  readonly name: string;
+  read(subject: string, session: number): Promise<NeuralSignal>;
+}
+
+export interface SyntheticSignalOptions {
+  sampleRate?: number;
+  durationSeconds?: number;
+  channels?: string[];
+  // Standard deviation of white noise, µV
+  noise?: number;
+  // Largest baseline drift, µV per second (slope and sign vary by session)
+  drift?: number;
+}
+
+/**
+ * Log band power per channel and band, channel-major
+ */
+export function extractBandPowers(signal: NeuralSignal): FeatureVector {
+  return signal.data.flatMap(samples => {
+    const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+    const centered = samples.map(value => value - mean);
+    return EEG_BANDS.map(band => Math.log10(bandPower(centered, signal.sampleRate, band.low, band.high) + 1e-12));
+  });
+}
+
+/**
+ * Mean DFT power over the bins in [low, high) Hz
+ */
+function bandPower(samples: number[], sampleRate: number, low: number, high: number): number {
+  const n = samples.length;
+  const resolution = sampleRate / n;
+  const first = Math.max(1, Math.ceil(low / resolution));
+  const last = Math.min(Math.floor(n / 2), Math.ceil(high / resolution) - 1);
+
+  let total = 0;
+  let bins = 0;
+  for (let k = first; k <= last; k++) {
+    let re = 0;
+    let im = 0;
+    for (let i = 0; i < n; i++) {
+      const angle = (2 * Math.PI * k * i) / n;
+      re += samples[i] * Math.cos(angle);
+      im -= samples[i] * Math.sin(angle);
+    }
+    total += (re * re + im * im) / n;
+    bins++;
+  }
+  return bins === 0 ? 0 : total / bins;
+}
+
+/**
+ * Adapts a signal reader to the generator's feature-vector interface
+ */
+export class SignalFeatureSource implements NeuralInputSource {
+  readonly name: string;
+
+  constructor(private reader: SignalReader) {
+    this.name = reader.name;
+  }
+
+  async capture(subject: string, session: number): Promise<FeatureVector> {
+    return extractBandPowers(await this.reader.read(subject, session));
+  }
+}
+
+/**
+ * Deterministic EEG-like signals: each subject has its own peak frequency
+ * and amplitude per band and channel; sessions add noise, random phases
+ * and a linear baseline drift
+ */
+export class SyntheticSignalReader implements SignalReader {
+  readonly name = 'synthetic-signal';
+  private sampleRate: number;
+  private durationSeconds: number;
+  private channels: string[];
+  private noise: number;
+  private drift: number;
+
+  constructor(options: SyntheticSignalOptions = {}) {
+    this.sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    this.durationSeconds = options.durationSeconds ?? 2;
+    this.channels = options.channels ?? ['Fp1', 'Fp2', 'C3', 'C4'];
+    this.noise = options.noise ?? 2;
+    this.drift = options.drift ?? 0;
+  }
+
+  async read(subject: string, session: number): Promise<NeuralSignal> {
+    const traits = seededRandom(`signal:${subject}`);
+    const sessionRandom = seededRandom(`signal-session:${subject}:${session}`);
+    const length = Math.round(this.sampleRate * this.durationSeconds);
+
+    const data = this.channels.map(() => {
+      const rhythms = EEG_BANDS.map(band => ({
+        frequency: band.low + traits() * (band.high - band.low),
+        amplitude: 2 + traits() * 18,
+        phase: sessionRandom() * 2 * Math.PI,
+      }));
+      const slope = (sessionRandom() * 2 - 1) * this.drift;
+
+      return Array.from({ length }, (_, i) => {
+        const t = i / this.sampleRate;
+        const rhythm = rhythms.reduce(
+          (sum, r) => sum + r.amplitude * Math.sin(2 * Math.PI * r.frequency * t + r.phase),
+          0
+        );
+        return rhythm + slope * t + this.noise * gaussian(sessionRandom);
+      });
+    });
+
+    return { sampleRate: this.sampleRate, channels: [...this.channels], data };
+  }
+}
+
+/**
+ * Replays recordings laid out as `<dir>/<subject>/<session>.csv|.edf`,
+ * cycling through a subject's files in name order
+ */
+export class FileReplayReader implements SignalReader {
+  readonly name: string;
+
+  constructor(private directory: string, private sampleRate: number = DEFAULT_SAMPLE_RATE) {
+    this.name = `replay:${directory}`;
+  }
+
+  async read(subject: string, session: number): Promise<NeuralSignal> {
+    const subjectDir = path.join(this.directory, subject);
+    const files = fs.existsSync(subjectDir)
+      ? fs.readdirSync(subjectDir).filter(file => /\.(csv|edf)$/i.test(file)).sort()
+      : [];
+    if (files.length === 0) {
+      throw new Error(`No CSV/EDF recordings for subject "${subject}" in ${subjectDir}`);
+    }
+
+    const file = path.join(subjectDir, files[session % files.length]);
+    return /\.edf$/i.test(file)
+      ? parseEdf(fs.readFileSync(file))
+      : parseCsvSignal(fs.readFileSync(file, 'utf8'), this.sampleRate);
+  }
+}
+
+/**
+ * Parse a CSV recording: a header of channel names, one row per sample.
+ * A leading time column (seconds) sets the sample rate; otherwise `sampleRate` is used.
+ */
+export function parseCsvSignal(text: string, sampleRate: number = DEFAULT_SAMPLE_RATE): NeuralSignal {
+  const rows = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  if (rows.length < 2) {
+    throw new Error('CSV recording needs a header and at least one sample row');
+  }
+
+  const header = rows[0].split(',').map(cell => cell.trim());
+  const timeColumn = TIME_COLUMNS.has(header[0].toLowerCase()) ? 0 : -1;
+  const channels = header.filter((_, i) => i !== timeColumn);
+  const values = rows.slice(1).map((row, line) => {
+    const cells = row.split(',').map(cell => (cell.trim() === '' ? NaN : Number(cell)));
+    if (cells.length !== header.length || cells.some(Number.isNaN)) {
+      throw new Error(`CSV recording: malformed row ${line + 2}`);
+    }
+    return cells;
+  });
+
+  let rate = sampleRate;
+  if (timeColumn === 0 && values.length > 1) {
+    const duration = values[values.length - 1][0] - values[0][0];
+    rate = duration > 0 ? (values.length - 1) / duration : sampleRate;
+  }
+
+  return {
+    sampleRate: rate,
+    channels,
+    data: channels.map((_, c) => values.map(row => row[c + (timeColumn === 0 ? 1 : 0)])),
+  };
+}
+
+/**
+ * Serialize a signal as CSV with a time column (for recording synthetic sessions)
+ */
+export function formatCsvSignal(signal: NeuralSignal): string {
+  const lines = [['time', ...signal.channels].join(',')];
+  const length = signal.data[0]?.length ?? 0;
+  for (let i = 0; i < length; i++) {
+    lines.push([(i / signal.sampleRate).toFixed(6), ...signal.data.map(channel => channel[i].toFixed(4))].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse an EDF/EDF+ file. Annotation channels are skipped; all remaining
+ * signals must share one sample rate.
+ */
+export function parseEdf(buffer: Buffer): NeuralSignal {
+  const ascii = (offset: number, length: number) => buffer.toString('ascii', offset, offset + length).trim();
+  const signalCount = parseInt(ascii(252, 4), 10);
+  const recordCount = parseInt(ascii(236, 8), 10);
+  const recordDuration = parseFloat(ascii(244, 8));
+  if (!(signalCount > 0) || !(recordDuration > 0)) {
+    throw new Error('Not an EDF file: bad signal count or record duration');
+  }
+
+  // Per-signal header fields are stored column-wise: all labels, then all transducers, ...
+  const field = (fieldOffset: number, width: number, signal: number) =>
+    ascii(EDF_FIXED_HEADER_BYTES + fieldOffset * signalCount + signal * width, width);
+  const headerBytes = EDF_FIXED_HEADER_BYTES + EDF_SIGNAL_HEADER_BYTES * signalCount;
+  if (parseInt(ascii(184, 8), 10) !== headerBytes || buffer.length < headerBytes) {
+    throw new Error(`Not an EDF file: header of ${signalCount} signals should take ${headerBytes} bytes`);
+  }
+
+  const signals = Array.from({ length: signalCount }, (_, s) => {
+    const label = field(0, 16, s);
+    const physicalMin = parseFloat(field(104, 8, s));
+    const physicalMax = parseFloat(field(112, 8, s));
+    const digitalMin = parseFloat(field(120, 8, s));
+    const digitalMax = parseFloat(field(128, 8, s));
+    const samplesPerRecord = parseInt(field(216, 8, s), 10);
+    if (!(digitalMax > digitalMin) || Number.isNaN(physicalMin) || Number.isNaN(physicalMax) || !(samplesPerRecord > 0)) {
+      throw new Error(`EDF signal "${label}" has a malformed range or sample count`);
+    }
+    return {
+      label,
+      samplesPerRecord,
+      scale: (physicalMax - physicalMin) / (digitalMax - digitalMin),
+      physicalMin,
+      digitalMin,
+    };
+  });
+
+  const recordBytes = signals.reduce((sum, signal) => sum + signal.samplesPerRecord * 2, 0);
+  // -1 records means the writer didn't know the count yet: read as many as the file holds
+  const records = recordCount > 0 ? recordCount : Math.floor((buffer.length - headerBytes) / recordBytes);
+  if (buffer.length < headerBytes + records * recordBytes) {
+    throw new Error(`EDF file is truncated: ${records} records of ${recordBytes} bytes don't fit in ${buffer.length} bytes`);
+  }
+  const data: number[][] = signals.map(() => []);
+
+  let offset = headerBytes;
+  for (let r = 0; r < records; r++) {
+    signals.forEach((signal, s) => {
+      for (let i = 0; i < signal.samplesPerRecord; i++) {
+        const digital = buffer.readInt16LE(offset);
+        data[s].push((digital - signal.digitalMin) * signal.scale + signal.physicalMin);
+        offset += 2;
+      }
+    });
+  }
+
+  const kept = signals.map((_, s) => s).filter(s => signals[s].label !== 'EDF Annotations');
+  if (kept.length === 0) {
+    throw new Error('EDF file has only annotation channels');
+  }
+  const rates = new Set(kept.map(s => signals[s].samplesPerRecord / recordDuration));
+  if (rates.size !== 1) {
+    throw new Error(`EDF signals use different sample rates (${[...rates].join(', ')} Hz)`);
+  }
+
+  return {
+    sampleRate: [...rates][0],
+    channels: kept.map(s => signals[s].label),
+    data: kept.map(s => data[s]),
+  };
+}
+
+/**
+ * Encode a signal as a single-record-per-second EDF file (16-bit, per-channel range)
+ */
+export function encodeEdf(signal: NeuralSignal): Buffer {
+  const signalCount = signal.channels.length;
+  const samplesPerRecord = Math.round(signal.sampleRate);
+  const records = Math.floor((signal.data[0]?.length ?? 0) / samplesPerRecord);
+  const pad = (value: string | number, width: number) => String(value).slice(0, width).padEnd(width, ' ');
+
+  const ranges = signal.data.map(channel => {
+    const min = Math.min(...channel);
+    const max = Math.max(...channel);
+    return max > min ? { min, max } : { min: min - 1, max: max + 1 };
+  });
+  const perSignal = (width: number, value: (s: number) => string | number) =>
+    signal.channels.map((_, s) => pad(value(s), width)).join('');
+
+  const header =
+    pad('0', 8) + pad('X X X X', 80) + pad('Startdate X X X X', 80) + pad('01.01.00', 8) + pad('00.00.00', 8) +
+    pad(EDF_FIXED_HEADER_BYTES + EDF_SIGNAL_HEADER_BYTES * signalCount, 8) + pad('', 44) +
+    pad(records, 8) + pad(1, 8) + pad(signalCount, 4) +
+    perSignal(16, s => signal.channels[s]) +
+    perSignal(80, () => '') +
+    perSignal(8, () => 'uV') +
+    perSignal(8, s => ranges[s].min.toFixed(2)) +
+    perSignal(8, s => ranges[s].max.toFixed(2)) +
+    perSignal(8, () => EDF_DIGITAL_MIN) +
+    perSignal(8, () => EDF_DIGITAL_MAX) +
+    perSignal(80, () => '') +
+    perSignal(8, () => samplesPerRecord) +
+    perSignal(32, () => '');
+
+  const body = Buffer.alloc(records * samplesPerRecord * signalCount * 2);
+  let offset = 0;
+  for (let r = 0; r < records; r++) {
+    signal.data.forEach((channel, s) => {
+      // Header ranges are printed with 2 decimals; scale against the printed values
+      const min = parseFloat(ranges[s].min.toFixed(2));
+      const max = parseFloat(ranges[s].max.toFixed(2));
+      const scale = (EDF_DIGITAL_MAX - EDF_DIGITAL_MIN) / (max - min);
+      for (let i = 0; i < samplesPerRecord; i++) {
+        const value = channel[r * samplesPerRecord + i];
+        const digital = Math.round((value - min) * scale + EDF_DIGITAL_MIN);
+        body.writeInt16LE(Math.max(EDF_DIGITAL_MIN, Math.min(EDF_DIGITAL_MAX, digital)), offset);
+        offset += 2;
+      }
+    });
+  }
+
+  return Buffer.concat([Buffer.from(header, 'ascii'), body]);
+}
+
+/**
+ * Record `sessions` captures per subject from `reader` into `<dir>/<subject>/`
+ * in the given format, ready for FileReplayReader
+ */
+export async function recordSessions(
+  reader: SignalReader,
+  directory: string,
+  subjects: string[],
+  sessions: number,
+  format: 'csv' | 'edf' = 'csv'
+): Promise<string[]> {
+  const written: string[] = [];
+  for (const subject of subjects) {
+    fs.mkdirSync(path.join(directory, subject), { recursive: true });
+    for (let session = 0; session < sessions; session++) {
+      const signal = await reader.read(subject, session);
+      const file = path.join(directory, subject, `session-${String(session).padStart(3, '0')}.${format}`);
+      fs.writeFileSync(file, format === 'edf' ? encodeEdf(signal) : formatCsvSignal(signal));
+      written.push(file);
+    }
+  }
+  return written;
+}
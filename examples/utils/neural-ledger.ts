@@ -0,0 +1,703 @@
+/**
+ * Neural Ledgers
+ *
+ * Where the neural demo's contracts live: NeuralToken, its pattern
+ * verifier, NeuralSBT, NeuralMultiToken and the ERC-4337 EntryPoint
+ * stand-in with its NeuralAccounts, deployed to a node or to the
+ * in-process Hardhat network (see hardhat-network.ts). Every call reports
+ * the gas it used.
+ */
+
+import { ethers } from 'ethers';
+import { GasSource } from './gas-report';
+import { NeuralProof, NeuralProofDomain, TokenTransfer } from './neural-proof';
+import { NeuralBatchPlan } from './neural-batch';
+import { PatternProof, ZkProvingBackend } from './neural-zk';
+import { NEURAL_ACCOUNT_ABI, PackedUserOperation } from './user-operation';
+import { GuardianConfig, PendingRecovery, RecoveryRequest } from './social-recovery';
+
+const NEURAL_ARTIFACTS = {
+  PatternKnowledgeVerifier: '../../artifacts/contracts/neural/PatternKnowledgeVerifier.sol/PatternKnowledgeVerifier.json',
+  NeuralToken: '../../artifacts/contracts/neural/NeuralToken.sol/NeuralToken.json',
+  NeuralSBT: '../../artifacts/contracts/neural/NeuralSBT.sol/NeuralSBT.json',
+  NeuralMultiToken: '../../artifacts/contracts/neural/NeuralMultiToken.sol/NeuralMultiToken.json',
+  LocalEntryPoint: '../../artifacts/contracts/ERC4337/LocalEntryPoint.sol/LocalEntryPoint.json',
+  NeuralAccount: '../../artifacts/contracts/ERC4337/NeuralAccount.sol/NeuralAccount.json',
+  NeuralRecoveryModule: '../../artifacts/contracts/ERC4337/NeuralRecoveryModule.sol/NeuralRecoveryModule.json',
+};
+
+// NeuralToken decimals; TokenTransfer amounts are decimal strings in these units
+export const NEURAL_TOKEN_DECIMALS = 18;
+
+// NeuralMultiToken's ERC-1155 metadata URI
+const MULTI_TOKEN_URI = 'ipfs://neural-multi-token/{id}.json';
+
+// Calls a soulbound token's holder might try; all of them revert
+export type SoulboundAction = 'transferFrom' | 'safeTransferFrom' | 'approve';
+
+export interface SoulboundIssue {
+  tokenId: bigint;
+  gasUsed: bigint;
+}
+
+export interface PatternVerification {
+  accepted: boolean;
+  // Gas for a verify() call: the whole transaction and its execution share
+  total: bigint;
+  execution: bigint;
+}
+
+/**
+ * The neural token as the demo uses it. Transactions return the gas they used.
+ */
+export interface NeuralLedger {
+  readonly source: GasSource;
+  // Proofs for this ledger's token are bound to this domain
+  readonly domain: NeuralProofDomain;
+  // Unix seconds the ledger checks proof timestamps against
+  now(): Promise<number>;
+  // Move the ledger's clock forward, e.g. past a recovery delay
+  advanceTime(seconds: number): Promise<void>;
+  balanceOf(account: string): Promise<bigint>;
+  registerNeuralSignature(account: ethers.Wallet, neuralHash: string): Promise<bigint>;
+  transfer(from: ethers.Wallet, to: string, amount: bigint): Promise<bigint>;
+  // Transfer authorized by `transfer.neuralProof`, submitted by `submitter`
+  neuralTransfer(submitter: ethers.Wallet, transfer: TokenTransfer): Promise<bigint>;
+  // Error neuralTransfer would revert with right now, undefined if it would succeed
+  neuralTransferError(submitter: ethers.Wallet, transfer: TokenTransfer): Promise<string | undefined>;
+  verifyPatternProof(proof: PatternProof): Promise<PatternVerification>;
+  readonly soulbound: SoulboundLedger;
+  readonly multiToken: MultiTokenLedger;
+  readonly accounts: AccountLedger;
+}
+
+/**
+ * The NeuralSBT contract (ERC-721 + ERC-5192) as the demo uses it. Only the
+ * issuer may issue, revoke and reissue.
+ */
+export interface SoulboundLedger {
+  readonly address: string;
+  readonly issuer: string;
+  issue(issuer: ethers.Wallet, to: string, neuralHash: string, tokenURI: string): Promise<SoulboundIssue>;
+  revoke(issuer: ethers.Wallet, tokenId: bigint): Promise<bigint>;
+  // Burn `tokenId` and issue the same credential to `to`
+  reissue(issuer: ethers.Wallet, tokenId: bigint, to: string): Promise<SoulboundIssue>;
+  // undefined once the token is revoked
+  ownerOf(tokenId: bigint): Promise<string | undefined>;
+  // ERC-5192 locked(); reverts for tokens that don't exist
+  locked(tokenId: bigint): Promise<boolean>;
+  neuralHashOf(tokenId: bigint): Promise<string>;
+  tokenURI(tokenId: bigint): Promise<string>;
+  // Error `action` by `holder`, towards `to`, reverts with; undefined if it would succeed
+  actionError(holder: ethers.Wallet, action: SoulboundAction, tokenId: bigint, to: string): Promise<string | undefined>;
+}
+
+/**
+ * NeuralMultiToken (ERC-1155) as the demo uses it. Its deployer owns the
+ * collection and mints.
+ */
+export interface MultiTokenLedger {
+  readonly address: string;
+  // Batch proofs are bound to this domain
+  readonly domain: NeuralProofDomain;
+  mintBatch(owner: ethers.Wallet, to: string, ids: bigint[], amounts: bigint[]): Promise<bigint>;
+  balanceOf(account: string, tokenId: bigint): Promise<bigint>;
+  registerNeuralSignature(account: ethers.Wallet, neuralHash: string): Promise<bigint>;
+  // A plain safeTransferFrom of one item by its holder, without neural auth
+  safeTransferFrom(from: ethers.Wallet, to: string, tokenId: bigint, amount: bigint): Promise<bigint>;
+  // Every batch of `plan`, authorized by `proof`, submitted by `submitter`
+  neuralBatchTransfer(submitter: ethers.Wallet, plan: NeuralBatchPlan, proof: NeuralProof): Promise<bigint>;
+  // Error neuralBatchTransfer would revert with right now, undefined if it would succeed
+  neuralBatchTransferError(submitter: ethers.Wallet, plan: NeuralBatchPlan, proof: NeuralProof): Promise<string | undefined>;
+}
+
+export interface SmartAccount {
+  address: string;
+  gasUsed: bigint;
+}
+
+export interface UserOperationOutcome {
+  userOpHash: string;
+  sender: string;
+  nonce: bigint;
+  // Whether the account call went through; validation failures reject the whole bundle instead
+  success: boolean;
+  actualGasUsed: bigint;
+  // Wei charged to the account's deposit
+  actualGasCost: bigint;
+  revertReason?: string;
+}
+
+export interface HandleOpsResult {
+  transactionHash: string;
+  gasUsed: bigint;
+  outcomes: UserOperationOutcome[];
+}
+
+/**
+ * The local EntryPoint, NeuralAccounts and their recovery module as the
+ * demo uses them. Balances and amounts are in wei.
+ */
+export interface AccountLedger {
+  readonly entryPoint: string;
+  readonly recoveryModule: string;
+  // Deploy a NeuralAccount owned by `owner` with `neuralHash` registered
+  createAccount(owner: ethers.Wallet, neuralHash: string): Promise<SmartAccount>;
+  sendEth(from: ethers.Wallet, to: string, amount: bigint): Promise<bigint>;
+  ethBalance(account: string): Promise<bigint>;
+  // Prepay user operation gas for `account`
+  depositTo(from: ethers.Wallet, account: string, amount: bigint): Promise<bigint>;
+  depositOf(account: string): Promise<bigint>;
+  // Owner's direct revocation of a session key, needing no neural signature
+  revokeSession(owner: ethers.Wallet, account: string, sessionKey: string): Promise<bigint>;
+  ownerOf(account: string): Promise<string>;
+  // Next nonce for `account` under key 0
+  getNonce(account: string): Promise<bigint>;
+  gasFees(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }>;
+  // Execution gas of validateUserOp and of the account call, made as the EntryPoint makes them
+  estimateValidationGas(op: PackedUserOperation): Promise<bigint>;
+  estimateCallGas(op: PackedUserOperation): Promise<bigint>;
+  // FailedOp reason handleOps would revert with, undefined if it would succeed
+  handleOpsError(bundler: ethers.Wallet, ops: PackedUserOperation[]): Promise<string | undefined>;
+  // Run `ops` as one bundle submitted by `bundler`, who is paid their gas
+  handleOps(bundler: ethers.Wallet, ops: PackedUserOperation[]): Promise<HandleOpsResult>;
+  guardiansOf(account: string): Promise<GuardianConfig>;
+  // Nonce the next Recovery approvals for `account` must carry
+  recoveryNonce(account: string): Promise<bigint>;
+  // undefined when no recovery is pending
+  pendingRecovery(account: string): Promise<PendingRecovery | undefined>;
+  // Start `request`'s delay with guardian signatures, ordered as orderApprovals orders them
+  initiateRecovery(submitter: ethers.Wallet, request: RecoveryRequest, signatures: string[]): Promise<bigint>;
+  // Error initiateRecovery would revert with, undefined if it would succeed
+  initiateRecoveryError(submitter: ethers.Wallet, request: RecoveryRequest, signatures: string[]): Promise<string | undefined>;
+  // Owner's direct cancellation of a pending recovery, needing no neural signature
+  cancelRecovery(owner: ethers.Wallet, account: string): Promise<bigint>;
+  // Hand the account to the recovery's new owner once the delay has passed; anyone may submit it
+  executeRecovery(submitter: ethers.Wallet, account: string): Promise<bigint>;
+  executeRecoveryError(submitter: ethers.Wallet, account: string): Promise<string | undefined>;
+}
+
+function revertName(error: unknown): string {
+  return ethers.isCallException(error) && error.revert ? error.revert.name : (error as Error).message;
+}
+
+function loadArtifact(path: string): { abi: ethers.InterfaceAbi; bytecode: string } {
+  try {
+    return require(path);
+  } catch {
+    throw new Error(`Contract artifact ${path.split('/').pop()} not found, compile the contracts first`);
+  }
+}
+
+/**
+ * 4 gas per zero calldata byte, 16 per non-zero byte
+ */
+function calldataGas(data: string): bigint {
+  return ethers.getBytes(data).reduce((sum, byte) => sum + (byte === 0 ? 4n : 16n), 0n);
+}
+
+/**
+ * NeuralToken's struct argument for a transfer's proof
+ */
+function proofArgument(transfer: TokenTransfer) {
+  if (!transfer.neuralProof) {
+    throw new Error('Transfer has no neural proof');
+  }
+  return proofStruct(transfer.neuralProof);
+}
+
+/**
+ * The NeuralProof struct the neural contracts take
+ */
+function proofStruct(proof: NeuralProof) {
+  return {
+    neuralHash: proof.neuralHash,
+    zkProof: proof.zkProof,
+    nonce: proof.nonce,
+    timestamp: proof.timestamp,
+    expiry: proof.expiry,
+    signature: proof.signature,
+  };
+}
+
+/**
+ * NeuralToken, PatternKnowledgeVerifier, NeuralSBT, LocalEntryPoint,
+ * NeuralRecoveryModule and NeuralMultiToken deployed to a node
+ */
+export class ChainNeuralLedger implements NeuralLedger {
+  readonly source: GasSource = 'measured';
+  readonly soulbound: SoulboundLedger;
+  readonly multiToken: MultiTokenLedger;
+  readonly accounts: AccountLedger;
+  // The provider caches nonce lookups briefly, so back-to-back transactions track nonces locally
+  private signers = new Map<string, ethers.NonceManager>();
+
+  private constructor(
+    readonly domain: NeuralProofDomain,
+    private provider: ethers.Provider,
+    private verifier: ethers.Contract,
+    private token: ethers.Contract,
+    sbt: ethers.Contract,
+    entryPoint: ethers.Contract,
+    recoveryModule: ethers.Contract,
+    multiToken: ethers.Contract,
+    issuer: string,
+    private backend: ZkProvingBackend
+  ) {
+    const signerFor = (wallet: ethers.Wallet) => this.signerFor(wallet);
+    this.soulbound = new ChainSoulboundLedger(sbt, issuer, signerFor);
+    this.multiToken = new ChainMultiTokenLedger(multiToken, domain.chainId, signerFor);
+    this.accounts = new ChainAccountLedger(entryPoint, recoveryModule, verifier.target as string, provider, signerFor);
+  }
+
+  /**
+   * Deploy the pattern verifier, NeuralToken, NeuralSBT, the EntryPoint
+   * stand-in, the recovery module and NeuralMultiToken. `deployer` receives
+   * the initial token supply and owns the multi-token collection; `issuer`
+   * manages soulbound tokens.
+   */
+  static async deploy(
+    deployer: ethers.Wallet,
+    backend: ZkProvingBackend,
+    issuer: string = deployer.address
+  ): Promise<ChainNeuralLedger> {
+    const verifierArtifact = loadArtifact(NEURAL_ARTIFACTS.PatternKnowledgeVerifier);
+    const tokenArtifact = loadArtifact(NEURAL_ARTIFACTS.NeuralToken);
+    const sbtArtifact = loadArtifact(NEURAL_ARTIFACTS.NeuralSBT);
+    const entryPointArtifact = loadArtifact(NEURAL_ARTIFACTS.LocalEntryPoint);
+    const recoveryArtifact = loadArtifact(NEURAL_ARTIFACTS.NeuralRecoveryModule);
+    const multiTokenArtifact = loadArtifact(NEURAL_ARTIFACTS.NeuralMultiToken);
+    const provider = deployer.provider!;
+    const signer = new ethers.NonceManager(deployer);
+
+    const verifier = await new ethers.ContractFactory(verifierArtifact.abi, verifierArtifact.bytecode, signer).deploy();
+    await verifier.waitForDeployment();
+    const token = await new ethers.ContractFactory(tokenArtifact.abi, tokenArtifact.bytecode, signer)
+      .deploy(await verifier.getAddress());
+    await token.waitForDeployment();
+    const sbt = await new ethers.ContractFactory(sbtArtifact.abi, sbtArtifact.bytecode, signer).deploy(issuer);
+    await sbt.waitForDeployment();
+    const entryPoint = await new ethers.ContractFactory(entryPointArtifact.abi, entryPointArtifact.bytecode, signer).deploy();
+    await entryPoint.waitForDeployment();
+    const recoveryModule = await new ethers.ContractFactory(recoveryArtifact.abi, recoveryArtifact.bytecode, signer).deploy();
+    await recoveryModule.waitForDeployment();
+    const multiToken = await new ethers.ContractFactory(multiTokenArtifact.abi, multiTokenArtifact.bytecode, signer)
+      .deploy(await verifier.getAddress(), MULTI_TOKEN_URI);
+    await multiToken.waitForDeployment();
+
+    const { chainId } = await provider.getNetwork();
+    const ledger = new ChainNeuralLedger(
+      { chainId, verifyingContract: await token.getAddress() },
+      provider,
+      verifier as ethers.Contract,
+      token as ethers.Contract,
+      sbt as ethers.Contract,
+      entryPoint as ethers.Contract,
+      recoveryModule as ethers.Contract,
+      multiToken as ethers.Contract,
+      issuer,
+      backend
+    );
+    ledger.signers.set(deployer.address, signer);
+    return ledger;
+  }
+
+  async now(): Promise<number> {
+    return (await this.provider.getBlock('latest'))!.timestamp;
+  }
+
+  async advanceTime(seconds: number): Promise<void> {
+    if (!(this.provider instanceof ethers.JsonRpcApiProvider)) {
+      throw new Error('Advancing time needs a JSON-RPC dev node');
+    }
+    await this.provider.send('evm_increaseTime', [seconds]);
+    await this.provider.send('evm_mine', []);
+  }
+
+  async balanceOf(account: string): Promise<bigint> {
+    return this.token.balanceOf(account);
+  }
+
+  async registerNeuralSignature(account: ethers.Wallet, neuralHash: string): Promise<bigint> {
+    return gasUsed(this.tokenFor(account).registerNeuralSignature(neuralHash));
+  }
+
+  async transfer(from: ethers.Wallet, to: string, amount: bigint): Promise<bigint> {
+    return gasUsed(this.tokenFor(from).transfer(to, amount));
+  }
+
+  async neuralTransfer(submitter: ethers.Wallet, transfer: TokenTransfer): Promise<bigint> {
+    return gasUsed(this.tokenFor(submitter).neuralTransfer(...this.neuralTransferArgs(transfer)));
+  }
+
+  async neuralTransferError(submitter: ethers.Wallet, transfer: TokenTransfer): Promise<string | undefined> {
+    try {
+      await this.tokenFor(submitter).neuralTransfer.staticCall(...this.neuralTransferArgs(transfer));
+      return undefined;
+    } catch (error) {
+      return revertName(error);
+    }
+  }
+
+  async verifyPatternProof(proof: PatternProof): Promise<PatternVerification> {
+    const to = await this.verifier.getAddress();
+    const data = this.backend.exportCalldata(proof);
+    const [accepted] = this.verifier.interface.decodeFunctionResult('verify', await this.provider.call({ to, data }));
+    const total = await this.provider.estimateGas({ to, data });
+    return { accepted, total, execution: total - 21000n - calldataGas(data) };
+  }
+
+  private neuralTransferArgs(transfer: TokenTransfer) {
+    const amount = ethers.parseUnits(transfer.amount, NEURAL_TOKEN_DECIMALS);
+    return [transfer.from, transfer.to, amount, proofArgument(transfer)];
+  }
+
+  private tokenFor(wallet: ethers.Wallet): ethers.Contract {
+    return this.token.connect(this.signerFor(wallet)) as ethers.Contract;
+  }
+
+  private signerFor(wallet: ethers.Wallet): ethers.NonceManager {
+    let signer = this.signers.get(wallet.address);
+    if (!signer) {
+      signer = new ethers.NonceManager(wallet.connect(this.provider));
+      this.signers.set(wallet.address, signer);
+    }
+    return signer;
+  }
+
+}
+
+async function gasUsed(tx: Promise<ethers.ContractTransactionResponse>): Promise<bigint> {
+  const receipt = await (await tx).wait();
+  return receipt!.gasUsed;
+}
+
+/**
+ * NeuralSBT deployed next to the neural token
+ */
+class ChainSoulboundLedger implements SoulboundLedger {
+  readonly address: string;
+
+  constructor(
+    private sbt: ethers.Contract,
+    readonly issuer: string,
+    private signerFor: (wallet: ethers.Wallet) => ethers.Signer
+  ) {
+    this.address = sbt.target as string;
+  }
+
+  async issue(issuer: ethers.Wallet, to: string, neuralHash: string, tokenURI: string): Promise<SoulboundIssue> {
+    return this.issued(this.sbtFor(issuer).issue(to, neuralHash, tokenURI));
+  }
+
+  async revoke(issuer: ethers.Wallet, tokenId: bigint): Promise<bigint> {
+    return gasUsed(this.sbtFor(issuer).revoke(tokenId));
+  }
+
+  async reissue(issuer: ethers.Wallet, tokenId: bigint, to: string): Promise<SoulboundIssue> {
+    return this.issued(this.sbtFor(issuer).reissue(tokenId, to));
+  }
+
+  async ownerOf(tokenId: bigint): Promise<string | undefined> {
+    try {
+      return await this.sbt.ownerOf(tokenId);
+    } catch (error) {
+      if (revertName(error) === 'ERC721NonexistentToken') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async locked(tokenId: bigint): Promise<boolean> {
+    return this.sbt.locked(tokenId);
+  }
+
+  async neuralHashOf(tokenId: bigint): Promise<string> {
+    return this.sbt.neuralHashOf(tokenId);
+  }
+
+  async tokenURI(tokenId: bigint): Promise<string> {
+    return this.sbt.tokenURI(tokenId);
+  }
+
+  async actionError(holder: ethers.Wallet, action: SoulboundAction, tokenId: bigint, to: string): Promise<string | undefined> {
+    const sbt = this.sbtFor(holder);
+    try {
+      if (action === 'approve') {
+        await sbt.approve.staticCall(to, tokenId);
+      } else {
+        await sbt.getFunction(action === 'transferFrom'
+          ? 'transferFrom(address,address,uint256)'
+          : 'safeTransferFrom(address,address,uint256)'
+        ).staticCall(holder.address, to, tokenId);
+      }
+      return undefined;
+    } catch (error) {
+      return revertName(error);
+    }
+  }
+
+  private sbtFor(wallet: ethers.Wallet): ethers.Contract {
+    return this.sbt.connect(this.signerFor(wallet)) as ethers.Contract;
+  }
+
+  /**
+   * Token id minted by an issue() or reissue() transaction, read from its Locked event
+   */
+  private async issued(tx: Promise<ethers.ContractTransactionResponse>): Promise<SoulboundIssue> {
+    const receipt = (await (await tx).wait())!;
+    const locked = receipt.logs
+      .map(log => this.sbt.interface.parseLog(log))
+      .find(event => event?.name === 'Locked');
+    return { tokenId: locked!.args.tokenId, gasUsed: receipt.gasUsed };
+  }
+}
+
+/**
+ * NeuralMultiToken deployed next to the neural token
+ */
+class ChainMultiTokenLedger implements MultiTokenLedger {
+  readonly address: string;
+  readonly domain: NeuralProofDomain;
+
+  constructor(
+    private multiToken: ethers.Contract,
+    chainId: bigint,
+    private signerFor: (wallet: ethers.Wallet) => ethers.Signer
+  ) {
+    this.address = multiToken.target as string;
+    this.domain = { chainId, verifyingContract: this.address };
+  }
+
+  async mintBatch(owner: ethers.Wallet, to: string, ids: bigint[], amounts: bigint[]): Promise<bigint> {
+    return gasUsed(this.multiTokenFor(owner).mintBatch(to, ids, amounts));
+  }
+
+  async balanceOf(account: string, tokenId: bigint): Promise<bigint> {
+    return this.multiToken.balanceOf(account, tokenId);
+  }
+
+  async registerNeuralSignature(account: ethers.Wallet, neuralHash: string): Promise<bigint> {
+    return gasUsed(this.multiTokenFor(account).registerNeuralSignature(neuralHash));
+  }
+
+  async safeTransferFrom(from: ethers.Wallet, to: string, tokenId: bigint, amount: bigint): Promise<bigint> {
+    return gasUsed(this.multiTokenFor(from).safeTransferFrom(from.address, to, tokenId, amount, '0x'));
+  }
+
+  async neuralBatchTransfer(submitter: ethers.Wallet, plan: NeuralBatchPlan, proof: NeuralProof): Promise<bigint> {
+    return gasUsed(this.multiTokenFor(submitter).neuralBatchTransfer(plan.from, plan.batches, proofStruct(proof)));
+  }
+
+  async neuralBatchTransferError(submitter: ethers.Wallet, plan: NeuralBatchPlan, proof: NeuralProof): Promise<string | undefined> {
+    try {
+      await this.multiTokenFor(submitter).neuralBatchTransfer.staticCall(plan.from, plan.batches, proofStruct(proof));
+      return undefined;
+    } catch (error) {
+      return revertName(error);
+    }
+  }
+
+  private multiTokenFor(wallet: ethers.Wallet): ethers.Contract {
+    return this.multiToken.connect(this.signerFor(wallet)) as ethers.Contract;
+  }
+}
+
+/**
+ * LocalEntryPoint and NeuralRecoveryModule deployed next to the neural
+ * token, with NeuralAccounts deployed on demand
+ */
+class ChainAccountLedger implements AccountLedger {
+  readonly entryPoint: string;
+  readonly recoveryModule: string;
+  private accountInterface = new ethers.Interface(NEURAL_ACCOUNT_ABI);
+
+  constructor(
+    private entryPointContract: ethers.Contract,
+    private recoveryContract: ethers.Contract,
+    private verifier: string,
+    private provider: ethers.Provider,
+    private signerFor: (wallet: ethers.Wallet) => ethers.Signer
+  ) {
+    this.entryPoint = entryPointContract.target as string;
+    this.recoveryModule = recoveryContract.target as string;
+  }
+
+  async createAccount(owner: ethers.Wallet, neuralHash: string): Promise<SmartAccount> {
+    const artifact = loadArtifact(NEURAL_ARTIFACTS.NeuralAccount);
+    const account = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, this.signerFor(owner))
+      .deploy(this.entryPoint, this.verifier, this.recoveryModule, owner.address, neuralHash);
+    const receipt = (await account.deploymentTransaction()!.wait())!;
+    return { address: await account.getAddress(), gasUsed: receipt.gasUsed };
+  }
+
+  async sendEth(from: ethers.Wallet, to: string, amount: bigint): Promise<bigint> {
+    const receipt = await (await this.signerFor(from).sendTransaction({ to, value: amount })).wait();
+    return receipt!.gasUsed;
+  }
+
+  async ethBalance(account: string): Promise<bigint> {
+    return this.provider.getBalance(account);
+  }
+
+  async depositTo(from: ethers.Wallet, account: string, amount: bigint): Promise<bigint> {
+    return gasUsed(this.entryPointFor(from).depositTo(account, { value: amount }));
+  }
+
+  async depositOf(account: string): Promise<bigint> {
+    return this.entryPointContract.balanceOf(account);
+  }
+
+  async revokeSession(owner: ethers.Wallet, account: string, sessionKey: string): Promise<bigint> {
+    const contract = new ethers.Contract(account, NEURAL_ACCOUNT_ABI, this.signerFor(owner));
+    return gasUsed(contract.revokeSession(sessionKey));
+  }
+
+  async ownerOf(account: string): Promise<string> {
+    return new ethers.Contract(account, NEURAL_ACCOUNT_ABI, this.provider).owner();
+  }
+
+  async getNonce(account: string): Promise<bigint> {
+    return this.entryPointContract.getNonce(account, 0);
+  }
+
+  async gasFees(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const { maxFeePerGas, maxPriorityFeePerGas } = await this.provider.getFeeData();
+    return { maxFeePerGas: maxFeePerGas!, maxPriorityFeePerGas: maxPriorityFeePerGas! };
+  }
+
+  async estimateValidationGas(op: PackedUserOperation): Promise<bigint> {
+    const userOpHash = await this.entryPointContract.getUserOpHash(op);
+    const data = this.accountInterface.encodeFunctionData('validateUserOp', [op, userOpHash, 0]);
+    return this.executionGas(op.sender, data);
+  }
+
+  async estimateCallGas(op: PackedUserOperation): Promise<bigint> {
+    return this.executionGas(op.sender, op.callData);
+  }
+
+  async handleOpsError(bundler: ethers.Wallet, ops: PackedUserOperation[]): Promise<string | undefined> {
+    try {
+      await this.entryPointFor(bundler).handleOps.staticCall(ops, bundler.address);
+      return undefined;
+    } catch (error) {
+      return failedOpReason(error);
+    }
+  }
+
+  async handleOps(bundler: ethers.Wallet, ops: PackedUserOperation[]): Promise<HandleOpsResult> {
+    const tx: ethers.ContractTransactionResponse = await this.entryPointFor(bundler).handleOps(ops, bundler.address);
+    const receipt = (await tx.wait())!;
+    const events = receipt.logs.map(log => this.entryPointContract.interface.parseLog(log));
+
+    const outcomes = events
+      .filter(event => event?.name === 'UserOperationEvent')
+      .map(event => {
+        const { userOpHash, sender, nonce, success, actualGasCost, actualGasUsed } = event!.args;
+        const reverted = events.find(revert => revert?.name === 'UserOperationRevertReason' && revert.args.userOpHash === userOpHash);
+        return {
+          userOpHash,
+          sender,
+          nonce,
+          success,
+          actualGasUsed,
+          actualGasCost,
+          revertReason: reverted ? this.decodeRevert(reverted.args.revertReason) : undefined,
+        };
+      });
+    return { transactionHash: receipt.hash, gasUsed: receipt.gasUsed, outcomes };
+  }
+
+  async guardiansOf(account: string): Promise<GuardianConfig> {
+    const [guardians, threshold, delay] = await this.recoveryContract.guardiansOf(account);
+    return { guardians: [...guardians], threshold: Number(threshold), delaySeconds: Number(delay) };
+  }
+
+  async recoveryNonce(account: string): Promise<bigint> {
+    return this.recoveryContract.nonces(account);
+  }
+
+  async pendingRecovery(account: string): Promise<PendingRecovery | undefined> {
+    const { newOwner, oldNeuralHash, newNeuralHash, executeAfter } = await this.recoveryContract.pendingRecoveries(account);
+    return executeAfter === 0n ? undefined : { newOwner, oldNeuralHash, newNeuralHash, executeAfter: Number(executeAfter) };
+  }
+
+  async initiateRecovery(submitter: ethers.Wallet, request: RecoveryRequest, signatures: string[]): Promise<bigint> {
+    return gasUsed(this.recoveryFor(submitter).initiateRecovery(...this.initiateRecoveryArgs(request, signatures)));
+  }
+
+  async initiateRecoveryError(submitter: ethers.Wallet, request: RecoveryRequest, signatures: string[]): Promise<string | undefined> {
+    try {
+      await this.recoveryFor(submitter).initiateRecovery.staticCall(...this.initiateRecoveryArgs(request, signatures));
+      return undefined;
+    } catch (error) {
+      return revertName(error);
+    }
+  }
+
+  async cancelRecovery(owner: ethers.Wallet, account: string): Promise<bigint> {
+    const contract = new ethers.Contract(account, NEURAL_ACCOUNT_ABI, this.signerFor(owner));
+    return gasUsed(contract.execute(this.recoveryModule, 0, this.recoveryContract.interface.encodeFunctionData('cancelRecovery')));
+  }
+
+  async executeRecovery(submitter: ethers.Wallet, account: string): Promise<bigint> {
+    return gasUsed(this.recoveryFor(submitter).executeRecovery(account));
+  }
+
+  async executeRecoveryError(submitter: ethers.Wallet, account: string): Promise<string | undefined> {
+    try {
+      await this.recoveryFor(submitter).executeRecovery.staticCall(account);
+      return undefined;
+    } catch (error) {
+      return revertName(error);
+    }
+  }
+
+  private initiateRecoveryArgs(request: RecoveryRequest, signatures: string[]) {
+    return [request.account, request.newOwner, request.oldNeuralHash, request.newNeuralHash, signatures];
+  }
+
+  /**
+   * Gas a call from the EntryPoint to `account` executes, without the 21K base and calldata
+   */
+  private async executionGas(account: string, data: string): Promise<bigint> {
+    const total = await this.provider.estimateGas({ from: this.entryPoint, to: account, data });
+    return total - 21000n - calldataGas(data);
+  }
+
+  /**
+   * Name of an account call's revert: the account's own errors, or the recovery module's it passed on
+   */
+  private decodeRevert(data: string): string {
+    for (const contractInterface of [this.accountInterface, this.recoveryContract.interface]) {
+      try {
+        const error = contractInterface.parseError(data);
+        if (error) {
+          return error.name;
+        }
+      } catch {
+        // Not one of this contract's errors
+      }
+    }
+    return data;
+  }
+
+  private entryPointFor(wallet: ethers.Wallet): ethers.Contract {
+    return this.entryPointContract.connect(this.signerFor(wallet)) as ethers.Contract;
+  }
+
+  private recoveryFor(wallet: ethers.Wallet): ethers.Contract {
+    return this.recoveryContract.connect(this.signerFor(wallet)) as ethers.Contract;
+  }
+}
+
+/**
+ * The AAxx reason of an EntryPoint FailedOp revert, or the revert's name
+ */
+function failedOpReason(error: unknown): string {
+  if (ethers.isCallException(error) && error.revert?.name === 'FailedOp') {
+    return error.revert.args[1];
+  }
+  return revertName(error);
+}
@@ -0,0 +1,293 @@
+/**
+ * Neural Proofs
+ *
+ * Builds a `NeuralProof` as EIP-712 typed data bound to a chain, a
+ * verifying contract, the account that submits the transfer, the
+ * transfer payload and an expiry. The ZK proof of the pattern is bound to
+ * the same digest. The off-chain verifier tracks nonces per account, so a
+ * proof is accepted once, for one transfer, on one deployment.
+ */
+
+import { ethers } from 'ethers';
+import { TypedData, recoverTypedDataSigner, signTypedData } from './typed-data';
+
+export const NEURAL_PROOF_DOMAIN_NAME = 'NeuralToken';
+export const NEURAL_PROOF_DOMAIN_VERSION = '1';
+
+export const DEFAULT_PROOF_TTL_SECONDS = 300;
+
+// Clock difference tolerated between the prover and the verifier
+export const MAX_CLOCK_SKEW_SECONDS = 30;
+
+// tokenId encoded for fungible transfers, so it can't collide with NFT id 0
+export const NO_TOKEN_ID = ethers.MaxUint256;
+
+// Amounts are decimal strings; encoding them with 18 decimals makes "1" and "1.0" the same payload
+const AMOUNT_DECIMALS = 18;
+
+export interface NeuralProof {
+  neuralHash: string;
+  // Encoded ZK proof for the proof's EIP-712 digest (see neuralProofDigest), or '0x'
+  zkProof: string;
+  // Unix seconds
+  timestamp: number;
+  expiry: number;
+  nonce: number;
+  // Account allowed to submit the transfer
+  sender: string;
+  // Domain the proof was signed for; the verifier compares it with its own
+  chainId: bigint;
+  verifyingContract: string;
+  // EIP-712 struct hash of the transfer payload
+  payloadHash: string;
+  signature: string;
+}
+
+export interface TokenTransfer {
+  from: string;
+  to: string;
+  amount: string;
+  tokenId?: string;
+  neuralProof?: NeuralProof;
+}
+
+export interface NeuralProofDomain {
+  chainId: bigint;
+  verifyingContract: string;
+}
+
+export interface NeuralProofOptions {
+  sender: string;
+  neuralHash: string;
+  // Encoded ZK proof of the pattern for the digest the signer signs (see neural-zk.ts)
+  proveDigest?: (digest: string) => Promise<string>;
+  ttlSeconds?: number;
+  // Unix seconds; defaults to the current time
+  now?: number;
+}
+
+export type NeuralProofRejection =
+  | 'missing-proof'
+  | 'wrong-chain'
+  | 'wrong-contract'
+  | 'wrong-sender'
+  | 'malformed-payload'
+  | 'payload-mismatch'
+  | 'bad-signature'
+  | 'expired'
+  | 'not-yet-valid'
+  | 'replayed'
+  | 'nonce-gap';
+
+export interface NeuralProofVerification {
+  valid: boolean;
+  reason?: NeuralProofRejection;
+  message?: string;
+}
+
+export const NEURAL_PROOF_TYPES: Record<string, ethers.TypedDataField[]> = {
+  NeuralProof: [
+    { name: 'transfer', type: 'TokenTransfer' },
+    { name: 'sender', type: 'address' },
+    { name: 'neuralHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+  TokenTransfer: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'tokenId', type: 'uint256' },
+  ],
+};
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * The signed form of a transfer's payload fields (the proof itself excluded)
+ */
+function transferPayload(transfer: TokenTransfer) {
+  return {
+    from: transfer.from,
+    to: transfer.to,
+    amount: ethers.parseUnits(transfer.amount, AMOUNT_DECIMALS),
+    tokenId: transfer.tokenId === undefined ? NO_TOKEN_ID : BigInt(transfer.tokenId),
+  };
+}
+
+/**
+ * EIP-712 struct hash of a transfer's payload
+ */
+export function hashTransferPayload(transfer: TokenTransfer): string {
+  return ethers.TypedDataEncoder.hashStruct('TokenTransfer', NEURAL_PROOF_TYPES, transferPayload(transfer));
+}
+
+/**
+ * Typed data signed by `transfer.from` for a proof over `transfer`
+ */
+export function buildNeuralProofTypedData(
+  domain: NeuralProofDomain,
+  transfer: TokenTransfer,
+  proof: Pick<NeuralProof, 'sender' | 'neuralHash' | 'nonce' | 'timestamp' | 'expiry'>
+): TypedData {
+  return {
+    domain: {
+      name: NEURAL_PROOF_DOMAIN_NAME,
+      version: NEURAL_PROOF_DOMAIN_VERSION,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    types: NEURAL_PROOF_TYPES,
+    primaryType: 'NeuralProof',
+    message: {
+      transfer: transferPayload(transfer),
+      sender: proof.sender,
+      neuralHash: proof.neuralHash,
+      nonce: proof.nonce,
+      timestamp: proof.timestamp,
+      expiry: proof.expiry,
+    },
+  };
+}
+
+/**
+ * EIP-712 digest the signer signs and the ZK proof is bound to
+ */
+export function neuralProofDigest(
+  domain: NeuralProofDomain,
+  transfer: TokenTransfer,
+  proof: Pick<NeuralProof, 'sender' | 'neuralHash' | 'nonce' | 'timestamp' | 'expiry'>
+): string {
+  const typedData = buildNeuralProofTypedData(domain, transfer, proof);
+  return ethers.TypedDataEncoder.hash(typedData.domain, typedData.types, typedData.message);
+}
+
+/**
+ * Sequential nonces per account. Building a proof reads the current nonce;
+ * only a successful verification consumes it.
+ */
+export class NeuralProofNonces {
+  private nextNonce = new Map<string, number>();
+
+  /**
+   * Nonce the next proof from `account` must carry
+   */
+  current(account: string): number {
+    return this.nextNonce.get(account.toLowerCase()) ?? 0;
+  }
+
+  /**
+   * Consume `nonce` if it is the expected one
+   */
+  use(account: string, nonce: number): 'ok' | 'replayed' | 'nonce-gap' {
+    const expected = this.current(account);
+    if (nonce < expected) {
+      return 'replayed';
+    }
+    if (nonce > expected) {
+      return 'nonce-gap';
+    }
+    this.nextNonce.set(account.toLowerCase(), expected + 1);
+    return 'ok';
+  }
+}
+
+/**
+ * Sign a proof for `transfer` with the wallet of `transfer.from`
+ */
+export async function createNeuralProof(
+  signer: ethers.Signer,
+  domain: NeuralProofDomain,
+  nonces: NeuralProofNonces,
+  transfer: TokenTransfer,
+  options: NeuralProofOptions
+): Promise<NeuralProof> {
+  const timestamp = options.now ?? nowSeconds();
+  const fields = {
+    sender: options.sender,
+    neuralHash: options.neuralHash,
+    nonce: nonces.current(transfer.from),
+    timestamp,
+    expiry: timestamp + (options.ttlSeconds ?? DEFAULT_PROOF_TTL_SECONDS),
+  };
+  const zkProof = options.proveDigest ? await options.proveDigest(neuralProofDigest(domain, transfer, fields)) : '0x';
+  const { signature } = await signTypedData(signer, buildNeuralProofTypedData(domain, transfer, fields));
+
+  return {
+    ...fields,
+    zkProof,
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+    payloadHash: hashTransferPayload(transfer),
+    signature,
+  };
+}
+
+/**
+ * Off-chain checks mirroring what the neural token contract enforces
+ */
+export class NeuralProofVerifier {
+  constructor(private domain: NeuralProofDomain, private nonces: NeuralProofNonces) {}
+
+  /**
+   * Verify the proof attached to `transfer`, submitted by `sender` at `now`.
+   * Consumes the nonce only when every check passes.
+   */
+  verify(transfer: TokenTransfer, sender: string, now: number = nowSeconds()): NeuralProofVerification {
+    const proof = transfer.neuralProof;
+    if (!proof) {
+      return reject('missing-proof', 'Transfer has no neural proof');
+    }
+    if (proof.chainId !== this.domain.chainId) {
+      return reject('wrong-chain', `Proof is for chain ${proof.chainId}, expected ${this.domain.chainId}`);
+    }
+    if (proof.verifyingContract.toLowerCase() !== this.domain.verifyingContract.toLowerCase()) {
+      return reject('wrong-contract', `Proof is for contract ${proof.verifyingContract}`);
+    }
+    if (proof.sender.toLowerCase() !== sender.toLowerCase()) {
+      return reject('wrong-sender', `Proof may only be submitted by ${proof.sender}`);
+    }
+
+    let payloadHash: string;
+    try {
+      payloadHash = hashTransferPayload(transfer);
+    } catch (error) {
+      return reject('malformed-payload', `Transfer can't be encoded: ${(error as Error).message}`);
+    }
+    if (proof.payloadHash !== payloadHash) {
+      return reject('payload-mismatch', 'Transfer differs from the payload the proof was signed for');
+    }
+
+    let signer: string;
+    try {
+      signer = recoverTypedDataSigner(buildNeuralProofTypedData(this.domain, transfer, proof), proof.signature);
+    } catch {
+      return reject('bad-signature', 'Proof signature is malformed');
+    }
+    if (signer.toLowerCase() !== transfer.from.toLowerCase()) {
+      return reject('bad-signature', `Proof signed by ${signer}, not by ${transfer.from}`);
+    }
+
+    if (now > proof.expiry) {
+      return reject('expired', `Proof expired at ${proof.expiry}`);
+    }
+    if (proof.timestamp > now + MAX_CLOCK_SKEW_SECONDS) {
+      return reject('not-yet-valid', `Proof timestamp ${proof.timestamp} is in the future`);
+    }
+
+    const nonce = this.nonces.use(transfer.from, proof.nonce);
+    if (nonce !== 'ok') {
+      const expected = this.nonces.current(transfer.from);
+      return reject(nonce, `Nonce ${proof.nonce} rejected, expected ${expected}`);
+    }
+
+    return { valid: true };
+  }
+}
+
+function reject(reason: NeuralProofRejection, message: string): NeuralProofVerification {
+  return { valid: false, reason, message };
+}
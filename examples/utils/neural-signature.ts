@@ -0,0 +1,481 @@
+/**
+ * Neural Signature Generator
+ *
+ * Enrollment and verification for neural patterns. A feature vector is
+ * read from a pluggable input source and turned into a salted,
+ * cancelable template (a BioHash: signs of a salt-seeded random
+ * projection), which is kept in a local keystore. Verification accepts
+ * probes within a Hamming-distance threshold of the template, and
+ * `evaluate` reports false-accept and false-reject rates over a dataset.
+ *
+ * The template code doubles as the pattern the ZK proofs are made for, so
+ * anyone who reads it can sign as the subject. Give the keystore a
+ * passphrase to keep its file encrypted (scrypt + AES-256-GCM); without one
+ * the codes are written in plaintext, which is only fit for demo data.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { ethers } from 'ethers';
+
+// Template length: one bytes32 word
+export const TEMPLATE_BITS = 256;
+
+// Accept probes whose code differs from the template in at most this fraction of bits
+export const DEFAULT_MATCH_THRESHOLD = 0.25;
+
+// Captures averaged into one template
+export const DEFAULT_ENROLLMENT_SAMPLES = 3;
+
+const KEYSTORE_VERSION = 1;
+
+// scrypt cost for the keystore passphrase, and the AES-256-GCM key and nonce sizes
+const KEYSTORE_SCRYPT_N = 2 ** 15;
+const KEYSTORE_KEY_BYTES = 32;
+const KEYSTORE_IV_BYTES = 12;
+
+export type FeatureVector = number[];
+
+/**
+ * Where feature vectors come from: a recording, a generator or a device
+ */
+export interface NeuralInputSource {
+  readonly name: string;
+  // Feature vector for one capture session of `subject`
+  capture(subject: string, session: number): Promise<FeatureVector>;
+}
+
+export interface NeuralTemplate {
+  subject: string;
+  // Hex salt seeding the projection; re-enrolling with a new salt revokes the old template
+  salt: string;
+  // TEMPLATE_BITS-bit code as bytes32 hex
+  code: string;
+  dimensions: number;
+  source: string;
+  enrolledAt: string;
+}
+
+export interface MatchResult {
+  matched: boolean;
+  // Fraction of differing bits, 0..1
+  distance: number;
+  threshold: number;
+}
+
+export interface LabeledSample {
+  subject: string;
+  features: FeatureVector;
+}
+
+export interface MatchRates {
+  threshold: number;
+  genuineAttempts: number;
+  impostorAttempts: number;
+  falseAccepts: number;
+  falseRejects: number;
+  // False-accept rate: impostor probes accepted / impostor attempts
+  far: number;
+  // False-reject rate: genuine probes rejected / genuine attempts
+  frr: number;
+}
+
+export interface NeuralSignatureOptions {
+  source?: NeuralInputSource;
+  keystore?: NeuralKeystore;
+  threshold?: number;
+  enrollmentSamples?: number;
+  // Replace templates enrolled from another input source instead of refusing them
+  reenroll?: boolean;
+}
+
+/**
+ * Deterministic uniform [0, 1) stream (xoshiro128**) seeded from keccak256(seed)
+ */
+export function seededRandom(seed: string): () => number {
+  const words = ethers.getBytes(ethers.keccak256(ethers.toUtf8Bytes(seed)));
+  const state = new Uint32Array(4);
+  for (let i = 0; i < 4; i++) {
+    state[i] = (words[i * 4] << 24) | (words[i * 4 + 1] << 16) | (words[i * 4 + 2] << 8) | words[i * 4 + 3];
+  }
+
+  return () => {
+    const result = Math.imul(rotl(Math.imul(state[1], 5), 7), 9) >>> 0;
+    const t = state[1] << 9;
+    state[2] ^= state[0];
+    state[3] ^= state[1];
+    state[1] ^= state[2];
+    state[0] ^= state[3];
+    state[2] ^= t;
+    state[3] = rotl(state[3], 11);
+    return result / 2 ** 32;
+  };
+}
+
+/**
+ * Standard normal samples from a uniform stream (Box-Muller)
+ */
+export function gaussian(random: () => number): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function rotl(value: number, bits: number): number {
+  return ((value << bits) | (value >>> (32 - bits))) >>> 0;
+}
+
+/**
+ * Synthetic subjects: a fixed feature vector per subject plus per-session noise
+ */
+export class SyntheticFeatureSource implements NeuralInputSource {
+  readonly name = 'synthetic';
+
+  constructor(private dimensions = 32, private noise = 0.3) {}
+
+  async capture(subject: string, session: number): Promise<FeatureVector> {
+    const base = seededRandom(`subject:${subject}`);
+    const noise = seededRandom(`session:${subject}:${session}`);
+    return Array.from({ length: this.dimensions }, () => gaussian(base) + this.noise * gaussian(noise));
+  }
+}
+
+/**
+ * Replays recorded feature vectors from a JSON file: `{ "<subject>": [[...], ...] }`
+ */
+export class RecordedFeatureSource implements NeuralInputSource {
+  readonly name: string;
+  private recordings: Record<string, FeatureVector[]>;
+
+  constructor(filePath: string) {
+    this.name = `recorded:${filePath}`;
+    this.recordings = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  }
+
+  async capture(subject: string, session: number): Promise<FeatureVector> {
+    const sessions = this.recordings[subject];
+    if (!sessions || sessions.length === 0) {
+      throw new Error(`No recordings for subject "${subject}" in ${this.name}`);
+    }
+    return sessions[session % sessions.length];
+  }
+}
+
+// Hex fields of an encrypted keystore file, in place of `templates`
+interface EncryptedTemplates {
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * Templates by subject, persisted to a JSON file when a path is given. With
+ * a passphrase the file is encrypted; a plaintext file is read as is and
+ * encrypted on the next write.
+ */
+export class NeuralKeystore {
+  private templates = new Map<string, NeuralTemplate>();
+
+  constructor(private filePath?: string, private passphrase?: string) {
+    if (filePath && fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (stored.version !== KEYSTORE_VERSION) {
+        throw new Error(`Unsupported keystore version ${stored.version} in ${filePath}`);
+      }
+      const templates = stored.encrypted ? this.decrypt(stored.encrypted, filePath) : stored.templates;
+      Object.values(templates as Record<string, NeuralTemplate>).forEach(template => {
+        this.templates.set(template.subject, template);
+      });
+    }
+  }
+
+  get(subject: string): NeuralTemplate | undefined {
+    return this.templates.get(subject);
+  }
+
+  put(template: NeuralTemplate) {
+    this.templates.set(template.subject, template);
+    this.save();
+  }
+
+  remove(subject: string): boolean {
+    const removed = this.templates.delete(subject);
+    this.save();
+    return removed;
+  }
+
+  subjects(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  private save() {
+    if (!this.filePath) {
+      return;
+    }
+    const templates = Object.fromEntries(this.templates);
+    const stored = this.passphrase
+      ? { version: KEYSTORE_VERSION, encrypted: this.encrypt(JSON.stringify(templates), this.passphrase) }
+      : { version: KEYSTORE_VERSION, templates };
+    fs.writeFileSync(this.filePath, JSON.stringify(stored, null, 2));
+  }
+
+  private encrypt(plaintext: string, passphrase: string): EncryptedTemplates {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(KEYSTORE_IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', keystoreKey(passphrase, salt), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return {
+      salt: ethers.hexlify(salt),
+      iv: ethers.hexlify(iv),
+      tag: ethers.hexlify(cipher.getAuthTag()),
+      ciphertext: ethers.hexlify(ciphertext),
+    };
+  }
+
+  private decrypt(encrypted: EncryptedTemplates, filePath: string): Record<string, NeuralTemplate> {
+    if (!this.passphrase) {
+      throw new Error(`Keystore ${filePath} is encrypted; a passphrase is needed to read it`);
+    }
+    const key = keystoreKey(this.passphrase, ethers.getBytes(encrypted.salt));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, ethers.getBytes(encrypted.iv));
+    decipher.setAuthTag(ethers.getBytes(encrypted.tag));
+    try {
+      const plaintext = Buffer.concat([decipher.update(ethers.getBytes(encrypted.ciphertext)), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch {
+      throw new Error(`Wrong passphrase for keystore ${filePath}`);
+    }
+  }
+}
+
+function keystoreKey(passphrase: string, salt: Uint8Array): Buffer {
+  // scrypt needs 128 * N * r bytes of memory, past Node's 32 MB default at this cost
+  return crypto.scryptSync(passphrase, salt, KEYSTORE_KEY_BYTES, { N: KEYSTORE_SCRYPT_N, maxmem: 64 * 1024 * 1024 });
+}
+
+/**
+ * Salted BioHash of a feature vector: sign bits of a salt-seeded Gaussian projection
+ */
+export function bioHash(features: FeatureVector, salt: string): string {
+  const normalized = zNormalize(features);
+  const random = seededRandom(`projection:${salt}:${features.length}`);
+  const bytes = new Uint8Array(TEMPLATE_BITS / 8);
+
+  for (let bit = 0; bit < TEMPLATE_BITS; bit++) {
+    let projection = 0;
+    for (const value of normalized) {
+      projection += gaussian(random) * value;
+    }
+    if (projection >= 0) {
+      bytes[bit >> 3] |= 0x80 >> (bit & 7);
+    }
+  }
+
+  return ethers.hexlify(bytes);
+}
+
+/**
+ * Fraction of differing bits between two equal-length hex codes
+ */
+export function hammingDistance(a: string, b: string): number {
+  const left = ethers.getBytes(a);
+  const right = ethers.getBytes(b);
+  if (left.length !== right.length) {
+    throw new Error(`Cannot compare codes of ${left.length} and ${right.length} bytes`);
+  }
+
+  let differing = 0;
+  left.forEach((byte, i) => {
+    let x = byte ^ right[i];
+    while (x) {
+      differing += x & 1;
+      x >>= 1;
+    }
+  });
+  return differing / (left.length * 8);
+}
+
+function zNormalize(features: FeatureVector): FeatureVector {
+  const mean = features.reduce((sum, value) => sum + value, 0) / features.length;
+  const variance = features.reduce((sum, value) => sum + (value - mean) ** 2, 0) / features.length;
+  const std = Math.sqrt(variance) || 1;
+  return features.map(value => (value - mean) / std);
+}
+
+function averageVectors(vectors: FeatureVector[]): FeatureVector {
+  const dimensions = vectors[0].length;
+  if (vectors.some(vector => vector.length !== dimensions)) {
+    throw new Error('Enrollment samples have different dimensions');
+  }
+  return Array.from({ length: dimensions }, (_, i) =>
+    vectors.reduce((sum, vector) => sum + vector[i], 0) / vectors.length
+  );
+}
+
+export class NeuralSignatureGenerator {
+  private source: NeuralInputSource;
+  private keystore: NeuralKeystore;
+  private threshold: number;
+  private enrollmentSamples: number;
+  private reenroll: boolean;
+  // Next capture session per subject, so every probe is a fresh sample
+  private sessions = new Map<string, number>();
+
+  constructor(options: NeuralSignatureOptions = {}) {
+    this.source = options.source ?? new SyntheticFeatureSource();
+    this.keystore = options.keystore ?? new NeuralKeystore();
+    this.threshold = options.threshold ?? DEFAULT_MATCH_THRESHOLD;
+    this.enrollmentSamples = options.enrollmentSamples ?? DEFAULT_ENROLLMENT_SAMPLES;
+    this.reenroll = options.reenroll ?? false;
+  }
+
+  /**
+   * Capture enrollment samples, average them and store a freshly salted template
+   */
+  async enroll(subject: string): Promise<NeuralTemplate> {
+    const samples: FeatureVector[] = [];
+    for (let i = 0; i < this.enrollmentSamples; i++) {
+      samples.push(await this.capture(subject));
+    }
+
+    const features = averageVectors(samples);
+    const salt = ethers.hexlify(ethers.randomBytes(16));
+    const template: NeuralTemplate = {
+      subject,
+      salt,
+      code: bioHash(features, salt),
+      dimensions: features.length,
+      source: this.source.name,
+      enrolledAt: new Date().toISOString(),
+    };
+
+    this.keystore.put(template);
+    return template;
+  }
+
+  /**
+   * Match a probe against the subject's template; captures a fresh probe when none is given
+   */
+  async verify(subject: string, probe?: FeatureVector): Promise<MatchResult> {
+    const template = this.requireTemplate(subject);
+    const features = probe ?? await this.capture(subject);
+    return this.match(template, features);
+  }
+
+  /**
+   * Compare a feature vector with a template under that template's salt
+   */
+  match(template: NeuralTemplate, features: FeatureVector, threshold: number = this.threshold): MatchResult {
+    if (features.length !== template.dimensions) {
+      throw new Error(`Probe has ${features.length} features, template for ${template.subject} expects ${template.dimensions}`);
+    }
+    const distance = hammingDistance(template.code, bioHash(features, template.salt));
+    return { matched: distance <= threshold, distance, threshold };
+  }
+
+  /**
+   * The subject's enrolled pattern (template code), enrolling on first use.
+   * Stable for as long as the template stays in the keystore. A template from
+   * another input source is only replaced with the `reenroll` option, since
+   * that changes the pattern and revokes the old one.
+   */
+  async generatePattern(identifier: string): Promise<string> {
+    const stored = this.keystore.get(identifier);
+    if (stored && stored.source !== this.source.name && !this.reenroll) {
+      throw new Error(
+        `"${identifier}" was enrolled from ${stored.source}, not ${this.source.name}; revoke or re-enroll it first`
+      );
+    }
+    const template = stored && stored.source === this.source.name ? stored : await this.enroll(identifier);
+    return template.code;
+  }
+
+  /**
+   * On-chain commitment to a pattern
+   */
+  hashPattern(pattern: string): string {
+    return ethers.keccak256(pattern);
+  }
+
+  /**
+   * Fuzzy check of a presented pattern code against the enrolled one; a
+   * code of another length never matches
+   */
+  verifyPattern(identifier: string, pattern: string): boolean {
+    const template = this.keystore.get(identifier);
+    if (!template || !ethers.isHexString(pattern, ethers.dataLength(template.code))) {
+      return false;
+    }
+    return hammingDistance(template.code, pattern) <= this.threshold;
+  }
+
+  /**
+   * Drop a subject's template; the next enrollment gets a new salt and code
+   */
+  revoke(subject: string): boolean {
+    return this.keystore.remove(subject);
+  }
+
+  /**
+   * Match every sample against every enrolled template and count errors.
+   * Same-subject pairs are genuine attempts, all other pairs impostor attempts.
+   */
+  evaluate(dataset: LabeledSample[], threshold: number = this.threshold): MatchRates {
+    const rates: MatchRates = {
+      threshold,
+      genuineAttempts: 0,
+      impostorAttempts: 0,
+      falseAccepts: 0,
+      falseRejects: 0,
+      far: 0,
+      frr: 0,
+    };
+
+    const templates = this.keystore.subjects().map(subject => this.keystore.get(subject)!);
+    dataset.forEach(sample => {
+      templates
+        .filter(template => template.dimensions === sample.features.length)
+        .forEach(template => {
+          const { matched } = this.match(template, sample.features, threshold);
+          if (template.subject === sample.subject) {
+            rates.genuineAttempts++;
+            rates.falseRejects += matched ? 0 : 1;
+          } else {
+            rates.impostorAttempts++;
+            rates.falseAccepts += matched ? 1 : 0;
+          }
+        });
+    });
+
+    rates.far = rates.impostorAttempts === 0 ? 0 : rates.falseAccepts / rates.impostorAttempts;
+    rates.frr = rates.genuineAttempts === 0 ? 0 : rates.falseRejects / rates.genuineAttempts;
+    return rates;
+  }
+
+  /**
+   * Capture `sessions` fresh samples per subject as a labelled test set
+   */
+  async captureDataset(subjects: string[], sessions: number): Promise<LabeledSample[]> {
+    const dataset: LabeledSample[] = [];
+    for (const subject of subjects) {
+      for (let i = 0; i < sessions; i++) {
+        dataset.push({ subject, features: await this.capture(subject) });
+      }
+    }
+    return dataset;
+  }
+
+  private async capture(subject: string): Promise<FeatureVector> {
+    const session = this.sessions.get(subject) ?? 0;
+    this.sessions.set(subject, session + 1);
+    return this.source.capture(subject, session);
+  }
+
+  private requireTemplate(subject: string): NeuralTemplate {
+    const template = this.keystore.get(subject);
+    if (!template) {
+      throw new Error(`No neural template enrolled for "${subject}"`);
+    }
+    return template;
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Neural ZK Proofs
+ *
+ * Proving backends that show knowledge of the neural pattern behind a
+ * registered neuralHash without revealing the pattern. The local backend
+ * is a Schnorr proof of knowledge made non-interactive with Fiat-Shamir:
+ * the pattern derives a secret scalar x, the neuralHash commits to the
+ * public point X = x·G, and a proof (e, s) is checked off-chain here or
+ * on-chain by contracts/neural/PatternKnowledgeVerifier.sol.
+ */
+
+import { ethers } from 'ethers';
+
+// secp256k1 group order and field prime
+export const SECP256K1_ORDER = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const SECP256K1_PRIME = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+
+export const PATTERN_VERIFIER_ABI = [
+  'function commitment(uint256 px, uint8 parity) pure returns (bytes32)',
+  'function verify(bytes32 neuralHash, uint256 px, uint8 parity, bytes32 context, uint256 e, uint256 s) pure returns (bool)',
+];
+
+// Domain separation for deriving the secret scalar from a pattern
+const SECRET_TAG = 'neural-zk/secret';
+
+export interface PatternProof {
+  backend: string;
+  neuralHash: string;
+  // bytes32 the proof is bound to, e.g. a transfer payload hash
+  context: string;
+  // Public point X = x·G: x coordinate and y parity (27 even, 28 odd)
+  publicX: bigint;
+  parity: number;
+  challenge: bigint;
+  response: bigint;
+}
+
+/**
+ * A way to prove knowledge of a pattern behind a neuralHash
+ */
+export interface ZkProvingBackend {
+  readonly name: string;
+  // neuralHash to register for `pattern`
+  commit(pattern: string): string;
+  prove(pattern: string, context: string): Promise<PatternProof>;
+  verify(proof: PatternProof, neuralHash: string, context: string): Promise<boolean>;
+  // Proof bytes, as carried in NeuralProof.zkProof
+  encode(proof: PatternProof): string;
+  // Inverse of encode, for the neuralHash and context it is checked against
+  decode(data: string, neuralHash: string, context: string): PatternProof;
+  // Calldata for the on-chain verifier's verify()
+  exportCalldata(proof: PatternProof): string;
+}
+
+interface PatternKey {
+  secret: bigint;
+  publicX: bigint;
+  parity: number;
+}
+
+/**
+ * neuralHash for the public point (px, parity), as PatternKnowledgeVerifier.commitment computes it
+ */
+export function patternCommitment(publicX: bigint, parity: number): string {
+  return ethers.solidityPackedKeccak256(['uint8', 'uint256'], [parity, publicX]);
+}
+
+/**
+ * Fiat-Shamir challenge over the nonce point's address, the public point and the context
+ */
+function challengeFor(nonceAddress: string, publicX: bigint, parity: number, context: string): bigint {
+  return ethers.toBigInt(ethers.solidityPackedKeccak256(
+    ['address', 'uint8', 'uint256', 'bytes32'],
+    [nonceAddress, parity, publicX, context]
+  ));
+}
+
+function scalarHex(value: bigint): string {
+  return ethers.toBeHex(value, 32);
+}
+
+/**
+ * Uncompressed point -P for an uncompressed point P
+ */
+function negatePoint(point: string): string {
+  const y = ethers.toBigInt(ethers.dataSlice(point, 33));
+  return ethers.concat(['0x04', ethers.dataSlice(point, 1, 33), ethers.toBeHex(SECP256K1_PRIME - y, 32)]);
+}
+
+/**
+ * Local Schnorr backend on secp256k1. Proofs are 128 bytes and verify
+ * on-chain with a single ecrecover call.
+ */
+export class SchnorrPatternBackend implements ZkProvingBackend {
+  readonly name = 'schnorr-secp256k1';
+
+  commit(pattern: string): string {
+    const { publicX, parity } = this.keyFor(pattern);
+    return patternCommitment(publicX, parity);
+  }
+
+  async prove(pattern: string, context: string): Promise<PatternProof> {
+    const { secret, publicX, parity } = this.keyFor(pattern);
+
+    // Hedged nonce: the secret and context make it unique per statement, the random bytes per proof
+    let nonce = 0n;
+    while (nonce === 0n) {
+      nonce = ethers.toBigInt(ethers.keccak256(ethers.concat([scalarHex(secret), context, ethers.randomBytes(32)]))) % SECP256K1_ORDER;
+    }
+
+    const nonceAddress = ethers.computeAddress(ethers.SigningKey.computePublicKey(scalarHex(nonce)));
+    const challenge = challengeFor(nonceAddress, publicX, parity, context);
+    const response = (nonce + (challenge % SECP256K1_ORDER) * secret) % SECP256K1_ORDER;
+
+    return {
+      backend: this.name,
+      neuralHash: patternCommitment(publicX, parity),
+      context,
+      publicX,
+      parity,
+      challenge,
+      response,
+    };
+  }
+
+  async verify(proof: PatternProof, neuralHash: string, context: string): Promise<boolean> {
+    const { publicX, parity, challenge, response } = proof;
+    if (patternCommitment(publicX, parity) !== neuralHash || proof.context !== context) {
+      return false;
+    }
+    const challengeScalar = challenge % SECP256K1_ORDER;
+    if (publicX === 0n || publicX >= SECP256K1_ORDER || response === 0n || response >= SECP256K1_ORDER || challengeScalar === 0n) {
+      return false;
+    }
+    if (parity !== 27 && parity !== 28) {
+      return false;
+    }
+
+    // R = s·G - e·X must hash back to the challenge
+    try {
+      const publicPoint = ethers.concat([parity === 27 ? '0x02' : '0x03', scalarHex(publicX)]);
+      const sG = ethers.SigningKey.computePublicKey(scalarHex(response));
+      const eX = new ethers.SigningKey(scalarHex(challengeScalar)).computeSharedSecret(publicPoint);
+      const noncePoint = ethers.SigningKey.addPoints(sG, negatePoint(eX));
+      return challengeFor(ethers.computeAddress(noncePoint), publicX, parity, context) === challenge;
+    } catch {
+      // Not on the curve, or R is the point at infinity
+      return false;
+    }
+  }
+
+  encode(proof: PatternProof): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode(
+      ['uint256', 'uint8', 'uint256', 'uint256'],
+      [proof.publicX, proof.parity, proof.challenge, proof.response]
+    );
+  }
+
+  decode(data: string, neuralHash: string, context: string): PatternProof {
+    const [publicX, parity, challenge, response] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ['uint256', 'uint8', 'uint256', 'uint256'],
+      data
+    );
+    return { backend: this.name, neuralHash, context, publicX, parity: Number(parity), challenge, response };
+  }
+
+  exportCalldata(proof: PatternProof): string {
+    return new ethers.Interface(PATTERN_VERIFIER_ABI).encodeFunctionData('verify', [
+      proof.neuralHash,
+      proof.publicX,
+      proof.parity,
+      proof.context,
+      proof.challenge,
+      proof.response,
+    ]);
+  }
+
+  /**
+   * Secret scalar and public point for a pattern. The verifier's ecrecover
+   * trick needs px below the group order, so rare larger points are skipped.
+   */
+  private keyFor(pattern: string): PatternKey {
+    for (let counter = 0; ; counter++) {
+      const secret = ethers.toBigInt(ethers.solidityPackedKeccak256(
+        ['string', 'string', 'uint32'],
+        [SECRET_TAG, pattern, counter]
+      )) % SECP256K1_ORDER;
+      if (secret === 0n) {
+        continue;
+      }
+
+      const publicKey = ethers.SigningKey.computePublicKey(scalarHex(secret), true);
+      const publicX = ethers.toBigInt(ethers.dataSlice(publicKey, 1));
+      if (publicX < SECP256K1_ORDER) {
+        return { secret, publicX, parity: publicKey.startsWith('0x02') ? 27 : 28 };
+      }
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Optimization Benchmarks
+ *
+ * Deploys a baseline and an optimized variant of the same token
+ * (contracts/optimized/), runs an identical operation script against
+ * both and checks the measured savings against the claimed range.
+ */
+
+import { ethers } from 'ethers';
+import { GasAnalyzer } from './gas-analyzer';
+import { DeployableArtifact } from './deployment-profiler';
+
+// Supply minted to the deployer by every benchmark token
+const BENCHMARK_SUPPLY = ethers.parseEther('1000000');
+
+export interface ClaimedSavings {
+  text: string;
+  min: number;
+  max: number;
+  // Percent of baseline gas, or absolute gas per operation
+  unit: 'percent' | 'gas';
+}
+
+export interface BenchmarkContext {
+  signer: ethers.Signer;
+  owner: string;
+  recipients: string[];
+}
+
+// A deployed variant plus the deployment transactions that count towards its cost
+export interface VariantDeployment {
+  token: ethers.Contract;
+  txHashes: string[];
+}
+
+export interface OptimizationBenchmark {
+  technique: string;
+  description: string;
+  example: string;
+  claim: ClaimedSavings;
+  baseline: (ctx: BenchmarkContext) => Promise<VariantDeployment>;
+  optimized: (ctx: BenchmarkContext) => Promise<VariantDeployment>;
+  // Operations run identically against both variants; returns the hashes to measure
+  script?: (token: ethers.Contract, ctx: BenchmarkContext) => Promise<string[]>;
+}
+
+export interface BenchmarkResult {
+  technique: string;
+  claim: ClaimedSavings;
+  baselineGas: bigint;
+  optimizedGas: bigint;
+  savingsGas: bigint;
+  savingsPct: number;
+  withinClaim: boolean;
+}
+
+/**
+ * Load a compiled contracts/optimized artifact
+ */
+export function loadOptimizedArtifact(file: string, contract: string): DeployableArtifact {
+  return require(`../../artifacts/contracts/optimized/${file}/${contract}.json`);
+}
+
+async function send(tx: Promise<ethers.ContractTransactionResponse>): Promise<string> {
+  const response = await tx;
+  await response.wait();
+  return response.hash;
+}
+
+async function deployArtifact(
+  ctx: BenchmarkContext,
+  file: string,
+  contract: string,
+  ...args: unknown[]
+): Promise<{ contract: ethers.Contract; txHash: string }> {
+  const artifact = loadOptimizedArtifact(file, contract);
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, ctx.signer);
+  const deployed = await factory.deploy(...args);
+  await deployed.waitForDeployment();
+  return {
+    contract: new ethers.Contract(await deployed.getAddress(), artifact.abi, ctx.signer),
+    txHash: deployed.deploymentTransaction()!.hash,
+  };
+}
+
+/**
+ * Deploy a `constructor(uint256 supply)` token; its deployment is not measured
+ */
+function supplyToken(file: string, contract: string) {
+  return async (ctx: BenchmarkContext): Promise<VariantDeployment> => {
+    const { contract: token } = await deployArtifact(ctx, file, contract, BENCHMARK_SUPPLY);
+    return { token, txHashes: [] };
+  };
+}
+
+// Transfers to fresh recipients, then one to an account that already holds tokens
+async function transferScript(token: ethers.Contract, ctx: BenchmarkContext): Promise<string[]> {
+  const hashes: string[] = [];
+  for (const recipient of ctx.recipients) {
+    hashes.push(await send(token.transfer(recipient, 1000n)));
+  }
+  hashes.push(await send(token.transfer(ctx.recipients[0], 1000n)));
+  return hashes;
+}
+
+/**
+ * The techniques listed in GasOptimizationDemo's "Custom Optimizations" demo
+ */
+export const OPTIMIZATION_BENCHMARKS: OptimizationBenchmark[] = [
+  {
+    technique: 'Packed Storage',
+    description: 'Store multiple values in single storage slot',
+    example: 'address + timestamp in single bytes32',
+    claim: { text: '30-50%', min: 30, max: 50, unit: 'percent' },
+    baseline: supplyToken('PackedStorage.sol', 'UnpackedBalanceToken'),
+    optimized: supplyToken('PackedStorage.sol', 'PackedBalanceToken'),
+    script: transferScript,
+  },
+  {
+    technique: 'Unchecked Arithmetic',
+    description: 'Safe use of unchecked blocks',
+    example: 'balances[from] -= amount; (unchecked)',
+    claim: { text: '5-10% per operation', min: 5, max: 10, unit: 'percent' },
+    baseline: supplyToken('UncheckedArithmetic.sol', 'CheckedMathToken'),
+    optimized: supplyToken('UncheckedArithmetic.sol', 'UncheckedMathToken'),
+    script: transferScript,
+  },
+  {
+    technique: 'Memory Variables',
+    description: 'Cache storage reads in memory',
+    example: 'uint256 balance = balances[user];',
+    claim: { text: '15-25%', min: 15, max: 25, unit: 'percent' },
+    baseline: supplyToken('MemoryCaching.sol', 'StorageLoopToken'),
+    optimized: supplyToken('MemoryCaching.sol', 'CachedLoopToken'),
+    script: async (token, ctx) => [
+      await send(token.batchTransfer(ctx.recipients, ctx.recipients.map(() => 1000n))),
+    ],
+  },
+  {
+    technique: 'Custom Errors',
+    description: 'Replace require() with custom errors',
+    example: 'error InsufficientBalance();',
+    claim: { text: '~50 gas per revert', min: 25, max: 100, unit: 'gas' },
+    baseline: supplyToken('CustomErrors.sol', 'RevertStringToken'),
+    optimized: supplyToken('CustomErrors.sol', 'CustomErrorToken'),
+    // The probe holds no tokens, so its transfer always takes the revert path
+    script: async (token, ctx) => {
+      const { contract: probe } = await deployArtifact(ctx, 'CustomErrors.sol', 'RevertProbe');
+      const data = token.interface.encodeFunctionData('transfer', [ctx.recipients[0], 1n]);
+      return [await send(probe.probe(await token.getAddress(), data))];
+    },
+  },
+  {
+    technique: 'Minimal Proxy',
+    description: 'Use EIP-1167 for cheap deployments',
+    example: 'Clone factory pattern',
+    claim: { text: '90-95% deployment gas', min: 90, max: 95, unit: 'percent' },
+    // Full deployment plus initialization
+    baseline: async ctx => {
+      const { contract: token, txHash } = await deployArtifact(ctx, 'MinimalProxy.sol', 'CloneableToken');
+      const initHash = await send(token.initialize('Benchmark', 'BNCH', BENCHMARK_SUPPLY, ctx.owner));
+      return { token, txHashes: [txHash, initHash] };
+    },
+    // Implementation and factory are shared by every clone, so only the clone call counts
+    optimized: async ctx => {
+      const { contract: implementation } = await deployArtifact(ctx, 'MinimalProxy.sol', 'CloneableToken');
+      const { contract: factory } = await deployArtifact(ctx, 'MinimalProxy.sol', 'CloneFactory');
+      const initData = implementation.interface.encodeFunctionData('initialize', [
+        'Benchmark',
+        'BNCH',
+        BENCHMARK_SUPPLY,
+        ctx.owner,
+      ]);
+      const response: ethers.ContractTransactionResponse = await factory.clone(await implementation.getAddress(), initData);
+      const receipt = await response.wait();
+      const created = receipt!.logs
+        .map(log => factory.interface.parseLog(log))
+        .find(parsed => parsed?.name === 'CloneCreated');
+      const token = new ethers.Contract(created!.args.clone, implementation.interface, ctx.signer);
+      return { token, txHashes: [response.hash] };
+    },
+  },
+];
+
+/**
+ * Deploy both variants, run the script on each and compare measured gas
+ */
+export async function runOptimizationBenchmark(
+  benchmark: OptimizationBenchmark,
+  ctx: BenchmarkContext,
+  analyzer: GasAnalyzer
+): Promise<BenchmarkResult> {
+  const measure = async (deploy: OptimizationBenchmark['baseline']) => {
+    const { token, txHashes } = await deploy(ctx);
+    const scriptHashes = benchmark.script ? await benchmark.script(token, ctx) : [];
+    let gas = 0n;
+    for (const txHash of [...txHashes, ...scriptHashes]) {
+      gas += (await analyzer.analyzeTransaction(txHash)).gasUsed;
+    }
+    return gas;
+  };
+
+  const baselineGas = await measure(benchmark.baseline);
+  const optimizedGas = await measure(benchmark.optimized);
+  const savingsGas = baselineGas - optimizedGas;
+  const savingsPct = baselineGas === 0n ? 0 : (Number(savingsGas) / Number(baselineGas)) * 100;
+  const measured = benchmark.claim.unit === 'percent' ? savingsPct : Number(savingsGas);
+
+  return {
+    technique: benchmark.technique,
+    claim: benchmark.claim,
+    baselineGas,
+    optimizedGas,
+    savingsGas,
+    savingsPct,
+    withinClaim: measured >= benchmark.claim.min && measured <= benchmark.claim.max,
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Session Keys
+ *
+ * Short-lived keys a NeuralAccount grants through a neural-signed user
+ * operation. A session key signs ops on its own, but only for the calls its
+ * policy lists, within a per-op and a cumulative ETH cap, until the session
+ * expires or the owner revokes it. An op's gas is paid from the account to
+ * whoever submits it, so its prefund is capped per op and counts against the
+ * cumulative cap too. SessionKeyValidator applies the checks
+ * NeuralAccount's session validation does, off-chain.
+ */
+
+import { ethers } from 'ethers';
+import { HandleOpsResult } from './neural-ledger';
+import {
+  LocalBundler,
+  NEURAL_ACCOUNT_ABI,
+  PackedUserOperation,
+  UserOpSigner,
+  UserOperationBuilder,
+  decodeAccountCalls,
+  getUserOpHash,
+  unpackUserOpGas,
+} from './user-operation';
+
+// sessionKey (20) || EIP-191 signature of the userOpHash (65)
+export const SESSION_SIGNATURE_LENGTH = 85;
+
+// Selector a permission uses for plain ETH transfers, which have no calldata
+export const ETH_TRANSFER_SELECTOR = '0x00000000';
+
+export const DEFAULT_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+export interface SessionPermission {
+  target: string;
+  // Function selectors callable on `target`
+  selectors: string[];
+}
+
+export interface SessionPolicy {
+  sessionKey: string;
+  // Unix seconds
+  validAfter: number;
+  validUntil: number;
+  permissions: SessionPermission[];
+  // Wei an op may send, summed over a batch
+  maxValuePerOp: bigint;
+  // Wei all the session's ops may send together, prefunds included
+  maxTotalValue: bigint;
+  // Prefund an op may ask for: (verification + call + preVerification gas) * maxFeePerGas
+  maxGasFeePerOp: bigint;
+}
+
+export interface SessionPolicyOptions {
+  permissions: SessionPermission[];
+  maxValuePerOp: bigint;
+  maxTotalValue: bigint;
+  maxGasFeePerOp: bigint;
+  ttlSeconds?: number;
+  // Unix seconds; defaults to the current time
+  now?: number;
+}
+
+export type SessionRejection =
+  | 'not-session-signed'
+  | 'unknown-session'
+  | 'bad-signature'
+  | 'unsupported-call'
+  | 'target-not-allowed'
+  | 'selector-not-allowed'
+  | 'value-per-op-exceeded'
+  | 'gas-fee-per-op-exceeded'
+  | 'total-value-exceeded'
+  | 'not-yet-valid'
+  | 'expired';
+
+export interface SessionValidation {
+  valid: boolean;
+  reason?: SessionRejection;
+  message?: string;
+  // Wei the op sends, once valid
+  value?: bigint;
+  // The op's prefund, once valid
+  gasFee?: bigint;
+}
+
+export interface SessionSignature {
+  sessionKey: string;
+  signature: string;
+}
+
+const accountInterface = new ethers.Interface(NEURAL_ACCOUNT_ABI);
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Policy for `sessionKey`, valid from `now` for the TTL (24 hours by default)
+ */
+export function createSessionPolicy(sessionKey: string, options: SessionPolicyOptions): SessionPolicy {
+  const validAfter = options.now ?? nowSeconds();
+  return {
+    sessionKey,
+    validAfter,
+    validUntil: validAfter + (options.ttlSeconds ?? DEFAULT_SESSION_TTL_SECONDS),
+    permissions: options.permissions,
+    maxValuePerOp: options.maxValuePerOp,
+    maxTotalValue: options.maxTotalValue,
+    maxGasFeePerOp: options.maxGasFeePerOp,
+  };
+}
+
+/**
+ * NeuralAccount.grantSession callData for `policy`, to send as a neural-signed op's callData
+ */
+export function encodeGrantSession(policy: SessionPolicy): string {
+  const calls = policy.permissions.flatMap(permission =>
+    permission.selectors.map(selector => ({ target: permission.target, selector }))
+  );
+  return accountInterface.encodeFunctionData('grantSession', [
+    policy.sessionKey,
+    policy.validAfter,
+    policy.validUntil,
+    policy.maxValuePerOp,
+    policy.maxTotalValue,
+    policy.maxGasFeePerOp,
+    calls.map(call => call.target),
+    calls.map(call => call.selector),
+  ]);
+}
+
+/**
+ * Grant `policy` to `account` with one neural-signed op. The neural demo
+ * grants its session keys this way and the gas demo measures this bundle.
+ */
+export async function grantSession(
+  bundler: LocalBundler,
+  builder: UserOperationBuilder,
+  account: string,
+  policy: SessionPolicy,
+  signNeural: UserOpSigner
+): Promise<HandleOpsResult> {
+  return bundler.sendUserOperations([
+    await builder.build({ sender: account, callData: encodeGrantSession(policy) }, signNeural),
+  ]);
+}
+
+/**
+ * The policy a grantSession callData sets, undefined for any other callData
+ */
+export function decodeGrantSession(callData: string): SessionPolicy | undefined {
+  let call: ethers.TransactionDescription | null;
+  try {
+    call = accountInterface.parseTransaction({ data: callData });
+  } catch {
+    return undefined;
+  }
+  if (call?.name !== 'grantSession') {
+    return undefined;
+  }
+
+  const permissions: SessionPermission[] = [];
+  call.args.targets.forEach((target: string, i: number) => {
+    const permission = permissions.find(existing => existing.target === target);
+    if (permission) {
+      permission.selectors.push(call!.args.selectors[i]);
+    } else {
+      permissions.push({ target, selectors: [call!.args.selectors[i]] });
+    }
+  });
+  return {
+    sessionKey: call.args.sessionKey,
+    validAfter: Number(call.args.validAfter),
+    validUntil: Number(call.args.validUntil),
+    permissions,
+    maxValuePerOp: call.args.maxValuePerOp,
+    maxTotalValue: call.args.maxTotalValue,
+    maxGasFeePerOp: call.args.maxGasFeePerOp,
+  };
+}
+
+/**
+ * Signs user operations with a session key, in the layout NeuralAccount reads
+ */
+export function sessionUserOpSigner(sessionKey: ethers.BaseWallet): UserOpSigner {
+  return async userOpHash => ethers.concat([
+    sessionKey.address,
+    await sessionKey.signMessage(ethers.getBytes(userOpHash)),
+  ]);
+}
+
+export function decodeSessionSignature(signature: string): SessionSignature | undefined {
+  if (ethers.dataLength(signature) !== SESSION_SIGNATURE_LENGTH) {
+    return undefined;
+  }
+  return {
+    sessionKey: ethers.getAddress(ethers.dataSlice(signature, 0, 20)),
+    signature: ethers.dataSlice(signature, 20),
+  };
+}
+
+/**
+ * Check a session-signed op against `policy`, which has already sent or
+ * prefunded `spent` wei, in NeuralAccount's order. The EntryPoint checks the time
+ * window last, after the account has validated the rest. Like the account
+ * itself, the account's `recoveryModule` is never a session target.
+ */
+export function checkSessionOp(
+  policy: SessionPolicy | undefined,
+  spent: bigint,
+  op: PackedUserOperation,
+  userOpHash: string,
+  now: number,
+  recoveryModule?: string
+): SessionValidation {
+  const session = decodeSessionSignature(op.signature);
+  if (!session) {
+    return reject('not-session-signed', `Session signatures are ${SESSION_SIGNATURE_LENGTH} bytes`);
+  }
+  if (!policy || policy.sessionKey.toLowerCase() !== session.sessionKey.toLowerCase()) {
+    return reject('unknown-session', `No session for ${session.sessionKey}`);
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(ethers.getBytes(userOpHash), session.signature);
+  } catch {
+    return reject('bad-signature', 'Session signature is malformed');
+  }
+  if (signer !== session.sessionKey) {
+    return reject('bad-signature', `Op signed by ${signer}, not by ${session.sessionKey}`);
+  }
+
+  const calls = decodeAccountCalls(op.callData);
+  if (!calls) {
+    return reject('unsupported-call', 'Session ops may only call execute or executeBatch');
+  }
+  let value = 0n;
+  for (const call of calls) {
+    const permission = policy.permissions.find(allowed => allowed.target.toLowerCase() === call.target.toLowerCase());
+    const target = call.target.toLowerCase();
+    if (!permission || target === op.sender.toLowerCase() || target === recoveryModule?.toLowerCase()) {
+      return reject('target-not-allowed', `Session may not call ${call.target}`);
+    }
+    const selector = callSelector(call.data);
+    if (!selector || !permission.selectors.some(allowed => allowed.toLowerCase() === selector)) {
+      return reject('selector-not-allowed', `Session may not call ${selector ?? call.data} on ${call.target}`);
+    }
+    value += call.value;
+  }
+
+  if (value > policy.maxValuePerOp) {
+    return reject('value-per-op-exceeded', `Op sends ${value} wei, the session allows ${policy.maxValuePerOp} per op`);
+  }
+  const gasFee = maxGasFee(op);
+  if (gasFee > policy.maxGasFeePerOp) {
+    return reject('gas-fee-per-op-exceeded', `Op may be charged ${gasFee} wei for gas, the session allows ${policy.maxGasFeePerOp} per op`);
+  }
+  if (spent + value + gasFee > policy.maxTotalValue) {
+    return reject(
+      'total-value-exceeded',
+      `Session has ${policy.maxTotalValue - spent} wei left, op sends ${value} and may be charged ${gasFee} for gas`
+    );
+  }
+
+  if (now < policy.validAfter) {
+    return reject('not-yet-valid', `Session starts at ${policy.validAfter}`);
+  }
+  if (now > policy.validUntil) {
+    return reject('expired', `Session expired at ${policy.validUntil}`);
+  }
+
+  return { valid: true, value, gasFee };
+}
+
+/**
+ * The prefund the EntryPoint asks of the account for `op`: the most it can be charged
+ */
+function maxGasFee(op: PackedUserOperation): bigint {
+  const gas = unpackUserOpGas(op);
+  return (gas.verificationGasLimit + gas.callGasLimit + gas.preVerificationGas) * gas.maxFeePerGas;
+}
+
+/**
+ * Selector of a call, ETH_TRANSFER_SELECTOR for an empty one, undefined if it's too short to have one
+ */
+function callSelector(data: string): string | undefined {
+  const length = ethers.dataLength(data);
+  if (length === 0) {
+    return ETH_TRANSFER_SELECTOR;
+  }
+  return length < 4 ? undefined : ethers.dataSlice(data, 0, 4).toLowerCase();
+}
+
+/**
+ * Sessions of the accounts served by one EntryPoint, checked the way
+ * NeuralAccount checks them. A valid op's value and prefund count against
+ * its session's cap; rejected ops leave it untouched.
+ */
+export class SessionKeyValidator {
+  private sessions = new Map<string, { policy: SessionPolicy; spent: bigint }>();
+
+  constructor(private entryPoint: string, private chainId: bigint, private recoveryModule?: string) {}
+
+  /**
+   * Start `policy` for `account`, replacing any session its key already had
+   */
+  grant(account: string, policy: SessionPolicy) {
+    if (policy.validUntil <= policy.validAfter) {
+      throw new Error(`Session window ${policy.validAfter}..${policy.validUntil} is empty`);
+    }
+    this.sessions.set(sessionId(account, policy.sessionKey), { policy, spent: 0n });
+  }
+
+  revoke(account: string, sessionKey: string) {
+    this.sessions.delete(sessionId(account, sessionKey));
+  }
+
+  /**
+   * Wei the session has sent or prefunded so far
+   */
+  spent(account: string, sessionKey: string): bigint {
+    return this.sessions.get(sessionId(account, sessionKey))?.spent ?? 0n;
+  }
+
+  validate(op: PackedUserOperation, now: number = nowSeconds()): SessionValidation {
+    const sessionKey = decodeSessionSignature(op.signature)?.sessionKey ?? ethers.ZeroAddress;
+    const session = this.sessions.get(sessionId(op.sender, sessionKey));
+    const result = checkSessionOp(
+      session?.policy,
+      session?.spent ?? 0n,
+      op,
+      getUserOpHash(op, this.entryPoint, this.chainId),
+      now,
+      this.recoveryModule
+    );
+    if (result.valid) {
+      session!.spent += result.value! + result.gasFee!;
+    }
+    return result;
+  }
+}
+
+function sessionId(account: string, sessionKey: string): string {
+  return `${account.toLowerCase()}:${sessionKey.toLowerCase()}`;
+}
+
+function reject(reason: SessionRejection, message: string): SessionValidation {
+  return { valid: false, reason, message };
+}
@@ -0,0 +1,169 @@
+/**
+ * Social Recovery
+ *
+ * Guardian-based recovery for NeuralAccounts through NeuralRecoveryModule.
+ * An account names its guardians, how many must approve and a delay. When
+ * the owner loses their device, guardians sign an EIP-712 Recovery naming
+ * a new owner key and neural hash; once enough have signed, the recovery
+ * waits out the delay, during which the owner can still cancel it.
+ */
+
+import { ethers } from 'ethers';
+import { NEURAL_ACCOUNT_ABI } from './user-operation';
+import { TypedData, recoverTypedDataSigner, signTypedData } from './typed-data';
+
+export const RECOVERY_DOMAIN_NAME = 'NeuralRecovery';
+export const RECOVERY_DOMAIN_VERSION = '1';
+
+export const DEFAULT_RECOVERY_DELAY_SECONDS = 2 * 24 * 60 * 60;
+
+export const RECOVERY_MODULE_ABI = [
+  'function setGuardians(address[] guardians, uint256 threshold, uint256 delay)',
+  'function guardiansOf(address account) view returns (address[] guardians, uint256 threshold, uint256 delay)',
+  'function pendingRecoveries(address account) view returns (address newOwner, bytes32 oldNeuralHash, bytes32 newNeuralHash, uint256 executeAfter)',
+  'function nonces(address account) view returns (uint256)',
+  'function initiateRecovery(address account, address newOwner, bytes32 oldNeuralHash, bytes32 newNeuralHash, bytes[] signatures)',
+  'function cancelRecovery()',
+  'function executeRecovery(address account)',
+];
+
+export const RECOVERY_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Recovery: [
+    { name: 'account', type: 'address' },
+    { name: 'newOwner', type: 'address' },
+    { name: 'oldNeuralHash', type: 'bytes32' },
+    { name: 'newNeuralHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+export interface GuardianConfig {
+  guardians: string[];
+  // Approvals a recovery needs
+  threshold: number;
+  // Seconds between a recovery's approval and its execution
+  delaySeconds: number;
+}
+
+export interface RecoveryRequest {
+  account: string;
+  newOwner: string;
+  // Neural hash to revoke and the one to register in its place; ZeroHash keeps the account's hashes as they are
+  oldNeuralHash: string;
+  newNeuralHash: string;
+  // The module's recovery nonce for the account, bumped by every initiation and guardian change
+  nonce: bigint;
+}
+
+export interface PendingRecovery {
+  newOwner: string;
+  oldNeuralHash: string;
+  newNeuralHash: string;
+  // Unix seconds from which the recovery can be executed
+  executeAfter: number;
+}
+
+export interface GuardianApproval {
+  guardian: string;
+  signature: string;
+}
+
+const accountInterface = new ethers.Interface(NEURAL_ACCOUNT_ABI);
+const moduleInterface = new ethers.Interface(RECOVERY_MODULE_ABI);
+
+/**
+ * The Recovery guardians sign, for the module at `recoveryModule`
+ */
+export function buildRecoveryTypedData(recoveryModule: string, chainId: bigint, request: RecoveryRequest): TypedData {
+  return {
+    domain: {
+      name: RECOVERY_DOMAIN_NAME,
+      version: RECOVERY_DOMAIN_VERSION,
+      chainId,
+      verifyingContract: recoveryModule,
+    },
+    types: RECOVERY_TYPES,
+    primaryType: 'Recovery',
+    message: { ...request },
+  };
+}
+
+export async function approveRecovery(guardian: ethers.Signer, typedData: TypedData): Promise<GuardianApproval> {
+  const { signature } = await signTypedData(guardian, typedData);
+  return { guardian: await guardian.getAddress(), signature };
+}
+
+/**
+ * Approval signatures in the order initiateRecovery takes them: by guardian address, ascending
+ */
+export function orderApprovals(approvals: GuardianApproval[]): string[] {
+  return [...approvals]
+    .sort((a, b) => (ethers.toBigInt(a.guardian) < ethers.toBigInt(b.guardian) ? -1 : 1))
+    .map(approval => approval.signature);
+}
+
+/**
+ * Account callData that sets the account's guardians, to send as a neural-signed op's callData
+ */
+export function encodeSetGuardians(recoveryModule: string, config: GuardianConfig): string {
+  return accountInterface.encodeFunctionData('execute', [
+    recoveryModule,
+    0,
+    moduleInterface.encodeFunctionData('setGuardians', [config.guardians, config.threshold, config.delaySeconds]),
+  ]);
+}
+
+/**
+ * Account callData that cancels the account's pending recovery
+ */
+export function encodeCancelRecovery(recoveryModule: string): string {
+  return accountInterface.encodeFunctionData('execute', [
+    recoveryModule,
+    0,
+    moduleInterface.encodeFunctionData('cancelRecovery'),
+  ]);
+}
+
+/**
+ * Error NeuralRecoveryModule.setGuardians reverts with for `config`, undefined if it's accepted
+ */
+export function guardianConfigError(account: string, config: GuardianConfig): string | undefined {
+  const guardians = config.guardians.map(guardian => guardian.toLowerCase());
+  if (config.threshold === 0 || config.threshold > guardians.length || config.delaySeconds === 0) {
+    return 'InvalidGuardianConfig';
+  }
+  const invalid = guardians.some((guardian, i) =>
+    guardian === ethers.ZeroAddress || guardian === account.toLowerCase() || guardians.indexOf(guardian) !== i
+  );
+  return invalid ? 'InvalidGuardianConfig' : undefined;
+}
+
+/**
+ * Error NeuralRecoveryModule.initiateRecovery reverts with for guardians
+ * `config` approving `typedData` with `signatures`, in the contract's
+ * order. The caller checks the configuration and pending state first.
+ */
+export function recoveryApprovalError(config: GuardianConfig, typedData: TypedData, signatures: string[]): string | undefined {
+  if (signatures.length < config.threshold) {
+    return 'NotEnoughApprovals';
+  }
+
+  const guardians = new Set(config.guardians.map(guardian => guardian.toLowerCase()));
+  let previous = 0n;
+  for (const signature of signatures) {
+    let signer: string;
+    try {
+      signer = recoverTypedDataSigner(typedData, signature);
+    } catch {
+      return 'ECDSAInvalidSignature';
+    }
+    if (ethers.toBigInt(signer) <= previous) {
+      return 'UnsortedApprovals';
+    }
+    if (!guardians.has(signer.toLowerCase())) {
+      return 'NotGuardian';
+    }
+    previous = ethers.toBigInt(signer);
+  }
+  return undefined;
+}
@@ -0,0 +1,349 @@
+/**
+ * Token Client
+ *
+ * One client for ERC-20, ERC-721 and ERC-1155 tokens. `TokenClient.connect`
+ * detects the standard of a contract (ERC-165 first, then probing the
+ * ERC-20 view functions) and the client exposes the same balance, transfer
+ * and approve calls for all three. Amounts are whole-token decimal strings
+ * scaled by the token's decimals, or base units as bigint; results are typed
+ * per standard.
+ */
+
+import { ethers } from 'ethers';
+import { TokenStandard } from './event-indexer';
+
+// ERC-165 interface ids
+export const ERC721_INTERFACE_ID = '0x80ac58cd';
+export const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+// What the client calls, for any compliant token
+export const TOKEN_CLIENT_ABI = [
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function isApprovedForAll(address owner, address operator) view returns (bool)',
+  'function transfer(address to, uint256 value) returns (bool)',
+  'function transferFrom(address from, address to, uint256 value) returns (bool)',
+  'function approve(address spender, uint256 value) returns (bool)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)',
+];
+
+// ERC-20 tokens without decimals() are assumed to use ether's
+const DEFAULT_ERC20_DECIMALS = 18;
+
+// Whole tokens as a decimal string ("1.5"), or base units
+export type TokenAmount = string | bigint;
+
+export interface TokenBalance {
+  standard: TokenStandard;
+  holder: string;
+  // Omitted for ERC-20 and for an ERC-721 holder's token count
+  tokenId?: bigint;
+  amount: bigint;
+  formatted: string;
+}
+
+export interface TokenTransferRequest {
+  to: string;
+  // Sends from an account that approved the signer; the signer by default
+  from?: string;
+  // ERC-721 and ERC-1155 only
+  tokenId?: bigint;
+  // Required for ERC-20 and ERC-1155; ERC-721 only accepts 1
+  amount?: TokenAmount;
+}
+
+export interface TokenApprovalRequest {
+  spender: string;
+  // ERC-20 allowance
+  amount?: TokenAmount;
+  // ERC-721 approval of a single token; without it, approves an operator
+  tokenId?: bigint;
+  // Operator approvals; true by default
+  approved?: boolean;
+}
+
+interface TokenTxResult {
+  hash: string;
+  blockNumber: number;
+  gasUsed: bigint;
+}
+
+export interface ERC20TransferResult extends TokenTxResult {
+  standard: 'ERC-20';
+  from: string;
+  to: string;
+  amount: bigint;
+  formatted: string;
+}
+
+export interface ERC721TransferResult extends TokenTxResult {
+  standard: 'ERC-721';
+  from: string;
+  to: string;
+  tokenId: bigint;
+}
+
+export interface ERC1155TransferResult extends TokenTxResult {
+  standard: 'ERC-1155';
+  from: string;
+  to: string;
+  tokenId: bigint;
+  amount: bigint;
+}
+
+export interface ERC20ApprovalResult extends TokenTxResult {
+  standard: 'ERC-20';
+  owner: string;
+  spender: string;
+  amount: bigint;
+}
+
+export interface ERC721ApprovalResult extends TokenTxResult {
+  standard: 'ERC-721';
+  owner: string;
+  spender: string;
+  // Set for a single-token approval
+  tokenId?: bigint;
+  // Set for an operator approval
+  approved?: boolean;
+}
+
+export interface ERC1155ApprovalResult extends TokenTxResult {
+  standard: 'ERC-1155';
+  owner: string;
+  spender: string;
+  approved: boolean;
+}
+
+export interface TokenTransferResults {
+  'ERC-20': ERC20TransferResult;
+  'ERC-721': ERC721TransferResult;
+  'ERC-1155': ERC1155TransferResult;
+}
+
+export interface TokenApprovalResults {
+  'ERC-20': ERC20ApprovalResult;
+  'ERC-721': ERC721ApprovalResult;
+  'ERC-1155': ERC1155ApprovalResult;
+}
+
+/**
+ * Standard of the token at `address`. ERC-721 and ERC-1155 contracts must
+ * declare themselves through ERC-165; anything else that answers
+ * `totalSupply()` and `balanceOf(address)` is taken as ERC-20.
+ */
+export async function detectTokenStandard(address: string, runner: ethers.ContractRunner): Promise<TokenStandard> {
+  const contract = new ethers.Contract(address, TOKEN_CLIENT_ABI, runner);
+  const supports = async (interfaceId: string) => {
+    try {
+      return (await contract.supportsInterface(interfaceId)) === true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (await supports(ERC1155_INTERFACE_ID)) {
+    return 'ERC-1155';
+  }
+  if (await supports(ERC721_INTERFACE_ID)) {
+    return 'ERC-721';
+  }
+  try {
+    await contract.totalSupply();
+    await contract['balanceOf(address)'](ethers.ZeroAddress);
+    return 'ERC-20';
+  } catch {
+    throw new Error(`${address} is not an ERC-20, ERC-721 or ERC-1155 token`);
+  }
+}
+
+/**
+ * Balance, transfer and approve calls for a token of standard `S`. Reads
+ * need a runner with a provider; transfers and approvals need a signer.
+ */
+export class TokenClient<S extends TokenStandard = TokenStandard> {
+  private contract: ethers.Contract;
+
+  private constructor(
+    readonly address: string,
+    readonly standard: S,
+    // 0 for ERC-721 and ERC-1155
+    readonly decimals: number,
+    readonly symbol: string,
+    private runner: ethers.ContractRunner
+  ) {
+    this.contract = new ethers.Contract(address, TOKEN_CLIENT_ABI, runner);
+  }
+
+  /**
+   * Detect the standard of the token at `address` and read its metadata
+   */
+  static async connect(address: string, runner: ethers.ContractRunner): Promise<TokenClient> {
+    return TokenClient.at(address, await detectTokenStandard(address, runner), runner);
+  }
+
+  /**
+   * Client for a token whose standard is already known
+   */
+  static async at<S extends TokenStandard>(address: string, standard: S, runner: ethers.ContractRunner): Promise<TokenClient<S>> {
+    const contract = new ethers.Contract(address, TOKEN_CLIENT_ABI, runner);
+    // Both are optional in every standard
+    const symbol = await contract.symbol().catch(() => '');
+    const decimals = standard === 'ERC-20'
+      ? Number(await contract.decimals().catch(() => DEFAULT_ERC20_DECIMALS))
+      : 0;
+    return new TokenClient(ethers.getAddress(address), standard, decimals, symbol, runner);
+  }
+
+  is<T extends TokenStandard>(standard: T): this is TokenClient<T> {
+    return (this.standard as TokenStandard) === standard;
+  }
+
+  /**
+   * Base units of `amount`
+   */
+  parseAmount(amount: TokenAmount): bigint {
+    const units = typeof amount === 'bigint' ? amount : ethers.parseUnits(amount, this.decimals);
+    if (units < 0n) {
+      throw new Error(`Negative ${this.standard} amount ${amount}`);
+    }
+    return units;
+  }
+
+  formatAmount(units: bigint): string {
+    return ethers.formatUnits(units, this.decimals);
+  }
+
+  /**
+   * `holder`'s balance of the token, or of `tokenId`. Without a token id an
+   * ERC-721 balance counts the holder's tokens; with one it is 1 if the
+   * holder owns it.
+   */
+  async balanceOf(holder: string, tokenId?: bigint): Promise<TokenBalance> {
+    this.checkTokenId(tokenId);
+    let amount: bigint;
+    if (this.standard === 'ERC-1155') {
+      amount = await this.contract['balanceOf(address,uint256)'](holder, tokenId);
+    } else if (this.standard === 'ERC-721' && tokenId !== undefined) {
+      // ownerOf reverts for tokens that don't exist
+      const owner = await this.contract.ownerOf(tokenId).catch(() => ethers.ZeroAddress);
+      amount = owner === ethers.getAddress(holder) ? 1n : 0n;
+    } else {
+      amount = await this.contract['balanceOf(address)'](holder);
+    }
+    return { standard: this.standard, holder: ethers.getAddress(holder), tokenId, amount, formatted: this.formatAmount(amount) };
+  }
+
+  /**
+   * Whether `operator` may move all of `owner`'s tokens (ERC-721 and ERC-1155)
+   */
+  async isApprovedForAll(owner: string, operator: string): Promise<boolean> {
+    if (this.standard === 'ERC-20') {
+      throw new Error('ERC-20 tokens have no operator approvals');
+    }
+    return this.contract.isApprovedForAll(owner, operator);
+  }
+
+  /**
+   * Send `amount` (ERC-20), token `tokenId` (ERC-721) or `amount` of
+   * `tokenId` (ERC-1155) to `to`
+   */
+  async transfer(request: TokenTransferRequest): Promise<TokenTransferResults[S]> {
+    this.checkTokenId(request.tokenId, true);
+    const signer = await this.signerAddress();
+    const from = ethers.getAddress(request.from ?? signer);
+    const to = ethers.getAddress(request.to);
+
+    if (this.standard === 'ERC-721') {
+      if (request.amount !== undefined && this.parseAmount(request.amount) !== 1n) {
+        throw new Error('An ERC-721 transfer moves exactly one token');
+      }
+      const tx = await this.send(this.contract['safeTransferFrom(address,address,uint256)'](from, to, request.tokenId));
+      return { standard: 'ERC-721', ...tx, from, to, tokenId: request.tokenId! } as TokenTransferResults[S];
+    }
+
+    if (request.amount === undefined) {
+      throw new Error(`An ${this.standard} transfer needs an amount`);
+    }
+    const amount = this.parseAmount(request.amount);
+    if (this.standard === 'ERC-1155') {
+      const tx = await this.send(this.contract['safeTransferFrom(address,address,uint256,uint256,bytes)'](
+        from, to, request.tokenId, amount, '0x'
+      ));
+      return { standard: 'ERC-1155', ...tx, from, to, tokenId: request.tokenId!, amount } as TokenTransferResults[S];
+    }
+
+    const tx = await this.send(from === signer
+      ? this.contract.transfer(to, amount)
+      : this.contract.transferFrom(from, to, amount));
+    return { standard: 'ERC-20', ...tx, from, to, amount, formatted: this.formatAmount(amount) } as TokenTransferResults[S];
+  }
+
+  /**
+   * Approve `spender` for an ERC-20 `amount`, a single ERC-721 token, or as
+   * an operator over all of the signer's ERC-721 or ERC-1155 tokens
+   */
+  async approve(request: TokenApprovalRequest): Promise<TokenApprovalResults[S]> {
+    const owner = await this.signerAddress();
+    const spender = ethers.getAddress(request.spender);
+
+    if (this.standard === 'ERC-20') {
+      if (request.amount === undefined || request.tokenId !== undefined) {
+        throw new Error('An ERC-20 approval needs an amount and no token id');
+      }
+      const amount = this.parseAmount(request.amount);
+      const tx = await this.send(this.contract.approve(spender, amount));
+      return { standard: 'ERC-20', ...tx, owner, spender, amount } as TokenApprovalResults[S];
+    }
+
+    if (request.amount !== undefined) {
+      throw new Error(`${this.standard} approvals have no amount`);
+    }
+    if (this.standard === 'ERC-721' && request.tokenId !== undefined) {
+      const tx = await this.send(this.contract.approve(spender, request.tokenId));
+      return { standard: 'ERC-721', ...tx, owner, spender, tokenId: request.tokenId } as TokenApprovalResults[S];
+    }
+    if (request.tokenId !== undefined) {
+      throw new Error('ERC-1155 approvals cover every token id');
+    }
+
+    const approved = request.approved ?? true;
+    const tx = await this.send(this.contract.setApprovalForAll(spender, approved));
+    return { standard: this.standard, ...tx, owner, spender, approved } as TokenApprovalResults[S];
+  }
+
+  // ERC-20 balances have no token id; ERC-1155 ones always do, as do ERC-721 transfers
+  private checkTokenId(tokenId: bigint | undefined, transfer = false) {
+    if (this.standard === 'ERC-20' && tokenId !== undefined) {
+      throw new Error('ERC-20 tokens have no token ids');
+    }
+    if ((this.standard === 'ERC-1155' || (transfer && this.standard === 'ERC-721')) && tokenId === undefined) {
+      throw new Error(`${this.standard} ${transfer ? 'transfers' : 'balances'} need a token id`);
+    }
+  }
+
+  private async signerAddress(): Promise<string> {
+    const signer = this.runner as ethers.Signer;
+    if (typeof signer.getAddress !== 'function' || typeof signer.sendTransaction !== 'function') {
+      throw new Error(`Sending ${this.standard} transactions needs a signer`);
+    }
+    return ethers.getAddress(await signer.getAddress());
+  }
+
+  private async send(tx: Promise<ethers.ContractTransactionResponse>): Promise<TokenTxResult> {
+    const receipt = await (await tx).wait();
+    if (!receipt) {
+      throw new Error(`${this.standard} transaction was dropped`);
+    }
+    return { hash: receipt.hash, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed };
+  }
+}
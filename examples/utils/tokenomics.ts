@@ -0,0 +1,453 @@
+/**
+ * Tokenomics Planning
+ *
+ * Loads a tokenomics file in the layout of the repo's design template
+ * (`token`, `distribution`, `economics`), simulates circulating supply
+ * month by month from the vesting terms and the burn and fee mechanics,
+ * and prices the transactions that deploy the token and mint each
+ * allocation.
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { ethers } from 'ethers';
+import { GasCostEstimator } from './gas-pricing';
+
+export const TOKEN_TYPES = ['utility', 'governance', 'hybrid'] as const;
+
+export type TokenType = typeof TOKEN_TYPES[number];
+
+// Share of circulating supply transacted each month, for the burn and fee mechanics
+export const DEFAULT_MONTHLY_VOLUME_PCT = 10;
+
+// Months simulated at least, even when everything unlocks sooner
+const MIN_SIMULATED_MONTHS = 12;
+
+// Gas measured on a local Hardhat node for an OpenZeppelin 5 mintable ERC20 and VestingWalletCliff
+const PLAN_GAS = {
+  deployToken: 612992n,
+  deployVestingWallet: 620815n,
+  // The first mint also writes the total supply from zero
+  firstMint: 70715n,
+  mint: 53615n,
+};
+
+export interface TokenomicsToken {
+  name: string;
+  symbol: string;
+  decimals: number;
+  // Whole tokens
+  totalSupply: bigint;
+}
+
+// Nothing unlocks before the cliff; from there the allocation unlocks
+// linearly until the end of the vesting period, both counted from launch
+export interface VestingTerms {
+  cliffMonths: number;
+  durationMonths: number;
+}
+
+export interface Allocation {
+  name: string;
+  // Basis points of the total supply
+  shareBps: number;
+  // Base units
+  amount: bigint;
+  note?: string;
+  // Null: unlocked at launch
+  vesting: VestingTerms | null;
+}
+
+export interface TokenomicsEconomics {
+  type: TokenType;
+  useCases: string[];
+  // Basis points of every transaction burned, and taken as a fee
+  burnBps: number;
+  feeBps: number;
+  feeRecipient?: string;
+}
+
+export interface TokenomicsConfig {
+  token: TokenomicsToken;
+  allocations: Allocation[];
+  economics: TokenomicsEconomics;
+}
+
+// Amounts in base units
+export interface SupplyMonth {
+  // 0 is launch
+  month: number;
+  released: bigint;
+  unlocked: bigint;
+  volume: bigint;
+  burned: bigint;
+  totalBurned: bigint;
+  fees: bigint;
+  circulating: bigint;
+  totalSupply: bigint;
+}
+
+export interface SupplySimulationOptions {
+  months?: number;
+  monthlyVolumePct?: number;
+}
+
+export interface DeploymentStep {
+  action: 'deploy-token' | 'deploy-vesting' | 'mint';
+  description: string;
+  gas: bigint;
+  costUSD: number;
+}
+
+export interface DeploymentPlan {
+  // Chain the plan is priced on: the first configured one
+  chain: string;
+  steps: DeploymentStep[];
+  totalGas: bigint;
+  costUSD: number;
+}
+
+/**
+ * Parse a tokenomics file. A distribution entry is either a share
+ * (`team: 20%  # 4-year vesting`, the note read from the comment) or a
+ * map (`team: { share: 20%, vesting: "4-year vesting" }`). Shares must
+ * add up to 100%, and every note that mentions vesting, a cliff or a
+ * lock must parse as vesting terms.
+ */
+export function parseTokenomics(text: string): TokenomicsConfig {
+  const raw: unknown = yaml.load(text);
+  if (!isRecord(raw)) {
+    throw new Error('Tokenomics file is empty');
+  }
+
+  const token = parseToken(raw.token);
+  const comments = distributionComments(text);
+  const distribution = raw.distribution;
+  if (!isRecord(distribution) || Object.keys(distribution).length === 0) {
+    throw new Error('distribution must list at least one allocation');
+  }
+
+  const supply = token.totalSupply * 10n ** BigInt(token.decimals);
+  const allocations = Object.entries(distribution).map(([name, value]) => {
+    const structured = isRecord(value);
+    const shareBps = parsePercentBps(structured ? value.share : value, `distribution.${name}`);
+    if (shareBps === 0) {
+      throw new Error(`distribution.${name} has no share`);
+    }
+    const vesting = structured ? value.vesting : undefined;
+    if (vesting !== undefined && typeof vesting !== 'string') {
+      throw new Error(`distribution.${name}.vesting must be text, e.g. "4-year vesting"`);
+    }
+    const note = structured ? vesting : comments.get(name);
+    return {
+      name,
+      shareBps,
+      amount: (supply * BigInt(shareBps)) / 10000n,
+      note,
+      vesting: note ? parseVestingNote(note, `distribution.${name}`) : null,
+    };
+  });
+
+  const totalBps = allocations.reduce((sum, allocation) => sum + allocation.shareBps, 0);
+  if (totalBps !== 10000) {
+    throw new Error(`distribution adds up to ${totalBps / 100}%, not 100%`);
+  }
+
+  return { token, allocations, economics: parseEconomics(raw.economics ?? {}) };
+}
+
+export function loadTokenomics(filePath: string): TokenomicsConfig {
+  try {
+    return parseTokenomics(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Vesting terms in a distribution note, e.g. "4-year vesting",
+ * "1-year cliff, 2-year vesting" or "6-month lock". Null for notes that
+ * aren't about vesting ("Community rewards").
+ */
+export function parseVestingNote(note: string, field: string = 'vesting'): VestingTerms | null {
+  if (!/vest|cliff|lock/i.test(note)) {
+    return null;
+  }
+
+  let cliffMonths = 0;
+  let durationMonths = 0;
+  for (const term of note.split(/,|;|\band\b/).map(part => part.trim()).filter(Boolean)) {
+    const match = /^(\d+(?:\.\d+)?)[- ]?(year|month)s?[- ]?(vesting|cliff|lock|lockup)$/i.exec(term);
+    if (!match) {
+      throw new Error(`${field}: can't read vesting term "${term}" (expected e.g. "1-year cliff, 2-year vesting")`);
+    }
+    const months = Number(match[1]) * (match[2].toLowerCase() === 'year' ? 12 : 1);
+    if (!Number.isInteger(months)) {
+      throw new Error(`${field}: "${term}" is not a whole number of months`);
+    }
+    if (match[3].toLowerCase() === 'vesting') {
+      durationMonths = months;
+    } else {
+      cliffMonths = months;
+    }
+  }
+
+  if (durationMonths > 0 && cliffMonths > durationMonths) {
+    throw new Error(`${field}: cliff of ${cliffMonths} months is longer than the ${durationMonths}-month vesting`);
+  }
+  return { cliffMonths, durationMonths };
+}
+
+/**
+ * Base units of `allocation` unlocked `month` months after launch
+ */
+export function unlockedAt(allocation: Allocation, month: number): bigint {
+  const { vesting } = allocation;
+  if (!vesting) {
+    return allocation.amount;
+  }
+  if (month < vesting.cliffMonths) {
+    return 0n;
+  }
+  if (vesting.durationMonths === 0 || month >= vesting.durationMonths) {
+    return allocation.amount;
+  }
+  return (allocation.amount * BigInt(month)) / BigInt(vesting.durationMonths);
+}
+
+/**
+ * Circulating supply from launch (month 0) on. Each month a share of the
+ * circulating supply changes hands: the burn takes its cut out of the
+ * supply, the fee moves to its recipient without leaving circulation.
+ */
+export function simulateSupply(config: TokenomicsConfig, options: SupplySimulationOptions = {}): SupplyMonth[] {
+  const lastUnlock = Math.max(0, ...config.allocations.map(allocation =>
+    allocation.vesting ? Math.max(allocation.vesting.cliffMonths, allocation.vesting.durationMonths) : 0
+  ));
+  const months = options.months ?? Math.max(MIN_SIMULATED_MONTHS, lastUnlock);
+  const volumeBps = BigInt(Math.round((options.monthlyVolumePct ?? DEFAULT_MONTHLY_VOLUME_PCT) * 100));
+  if (!Number.isInteger(months) || months < 0 || volumeBps < 0n || volumeBps > 10000n) {
+    throw new Error('Simulate a whole number of months with a monthly volume of 0-100%');
+  }
+
+  const supply = config.allocations.reduce((sum, allocation) => sum + allocation.amount, 0n);
+  const rows: SupplyMonth[] = [];
+  let unlocked = 0n;
+  let totalBurned = 0n;
+  for (let month = 0; month <= months; month++) {
+    const nowUnlocked = config.allocations.reduce((sum, allocation) => sum + unlockedAt(allocation, month), 0n);
+    const released = nowUnlocked - unlocked;
+    unlocked = nowUnlocked;
+
+    // Nothing trades before launch
+    const volume = month === 0 ? 0n : ((unlocked - totalBurned) * volumeBps) / 10000n;
+    const burned = (volume * BigInt(config.economics.burnBps)) / 10000n;
+    totalBurned += burned;
+
+    rows.push({
+      month,
+      released,
+      unlocked,
+      volume,
+      burned,
+      totalBurned,
+      fees: (volume * BigInt(config.economics.feeBps)) / 10000n,
+      circulating: unlocked - totalBurned,
+      totalSupply: supply - totalBurned,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Transactions that launch the token: deploy it, deploy a VestingWallet for
+ * every vesting allocation, then mint each allocation to its wallet
+ */
+export function buildDeploymentSteps(config: TokenomicsConfig): Omit<DeploymentStep, 'costUSD'>[] {
+  const { token } = config;
+  const steps: Omit<DeploymentStep, 'costUSD'>[] = [
+    { action: 'deploy-token', description: `Deploy ${token.name} (${token.symbol}) ERC-20`, gas: PLAN_GAS.deployToken },
+  ];
+
+  config.allocations.filter(allocation => allocation.vesting).forEach(allocation => {
+    steps.push({
+      action: 'deploy-vesting',
+      description: `Deploy ${allocation.name} VestingWallet (${describeVesting(allocation.vesting)})`,
+      gas: PLAN_GAS.deployVestingWallet,
+    });
+  });
+
+  config.allocations.forEach((allocation, i) => {
+    const amount = formatTokenAmount(allocation.amount, token.decimals);
+    steps.push({
+      action: 'mint',
+      description: `Mint ${amount} ${token.symbol} to the ${allocation.name} ${allocation.vesting ? 'VestingWallet' : 'wallet'}`,
+      gas: i === 0 ? PLAN_GAS.firstMint : PLAN_GAS.mint,
+    });
+  });
+  return steps;
+}
+
+/**
+ * Deployment steps priced on the estimator's first chain, as the gas demo prices its total
+ */
+export async function planDeployment(config: TokenomicsConfig, estimator: GasCostEstimator): Promise<DeploymentPlan> {
+  const steps: DeploymentStep[] = [];
+  for (const step of buildDeploymentSteps(config)) {
+    steps.push({ ...step, costUSD: await estimator.estimateUSD(step.gas) });
+  }
+
+  const totalGas = steps.reduce((sum, step) => sum + step.gas, 0n);
+  return {
+    chain: estimator.chains[0].name,
+    steps,
+    totalGas,
+    costUSD: await estimator.estimateUSD(totalGas),
+  };
+}
+
+/**
+ * Vesting terms as the template writes them, in months
+ */
+export function describeVesting(vesting: VestingTerms | null): string {
+  if (!vesting) {
+    return 'unlocked at launch';
+  }
+  const terms = [];
+  if (vesting.cliffMonths > 0) {
+    terms.push(`${vesting.cliffMonths}-month ${vesting.durationMonths > 0 ? 'cliff' : 'lock'}`);
+  }
+  if (vesting.durationMonths > 0) {
+    terms.push(`${vesting.durationMonths}-month vesting`);
+  }
+  return terms.join(', ');
+}
+
+/**
+ * Whole tokens with thousands separators
+ */
+export function formatTokenAmount(amount: bigint, decimals: number): string {
+  return Math.round(Number(ethers.formatUnits(amount, decimals))).toLocaleString('en-US');
+}
+
+/**
+ * Print the allocations, the supply curve (quarterly, plus the last month) and the deployment plan
+ */
+export function printTokenomicsReport(config: TokenomicsConfig, supply: SupplyMonth[], plan: DeploymentPlan) {
+  const { token, economics } = config;
+  const tokens = (amount: bigint) => formatTokenAmount(amount, token.decimals);
+
+  console.log(`🪙 ${token.name} (${token.symbol}), ${token.totalSupply.toLocaleString('en-US')} tokens, ${economics.type}`);
+  console.log(`  Burn ${economics.burnBps / 100}% and fee ${economics.feeBps / 100}%${economics.feeRecipient ? ` to ${economics.feeRecipient}` : ''} per transaction\n`);
+
+  console.log('  Allocations:');
+  config.allocations.forEach(allocation => {
+    console.log(
+      `  ${allocation.name.padEnd(14)} ${`${allocation.shareBps / 100}%`.padStart(7)} ` +
+      `${tokens(allocation.amount).padStart(16)}  ${describeVesting(allocation.vesting)}`
+    );
+  });
+
+  console.log('\n  Circulating supply (released, burned and fees within the month):');
+  console.log(`  ${'Month'.padEnd(6)}${'Released'.padStart(16)}${'Burned'.padStart(14)}${'Fees'.padStart(14)}${'Circulating'.padStart(16)}${'Total supply'.padStart(16)}`);
+  supply
+    .filter(row => row.month % 3 === 0 || row.month === supply.length - 1)
+    .forEach(row => {
+      console.log(
+        `  ${String(row.month).padEnd(6)}${tokens(row.released).padStart(16)}${tokens(row.burned).padStart(14)}` +
+        `${tokens(row.fees).padStart(14)}${tokens(row.circulating).padStart(16)}${tokens(row.totalSupply).padStart(16)}`
+      );
+    });
+
+  console.log(`\n  Deployment plan (priced on ${plan.chain}):`);
+  plan.steps.forEach((step, i) => {
+    console.log(`  ${`${i + 1}. ${step.description}`.padEnd(72)}${step.gas.toString().padStart(9)} gas  $${step.costUSD.toFixed(2).padStart(8)}`);
+  });
+  console.log(`  ${'Total'.padEnd(72)}${plan.totalGas.toString().padStart(9)} gas  $${plan.costUSD.toFixed(2).padStart(8)}`);
+}
+
+function parseToken(raw: unknown): TokenomicsToken {
+  if (!isRecord(raw)) {
+    throw new Error('missing token section');
+  }
+  if (typeof raw.name !== 'string' || !raw.name || typeof raw.symbol !== 'string' || !raw.symbol) {
+    throw new Error('token needs a name and a symbol');
+  }
+  const decimals = raw.decimals ?? 18;
+  if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    throw new Error(`token.decimals must be a whole number from 0 to 36 (got ${decimals})`);
+  }
+  const supply = String(raw.total_supply ?? '').replace(/_/g, '');
+  if (!/^[1-9]\d*$/.test(supply) || (typeof raw.total_supply === 'number' && !Number.isSafeInteger(raw.total_supply))) {
+    throw new Error(`token.total_supply must be a positive whole number of tokens (got ${raw.total_supply})`);
+  }
+  return { name: raw.name, symbol: raw.symbol, decimals, totalSupply: BigInt(supply) };
+}
+
+function parseEconomics(raw: unknown): TokenomicsEconomics {
+  if (!isRecord(raw)) {
+    throw new Error('economics must be a map of settings');
+  }
+  const type = TOKEN_TYPES.find(known => known === (raw.type ?? 'utility'));
+  if (!type) {
+    throw new Error(`economics.type must be ${TOKEN_TYPES.join(', ')} (got "${raw.type}")`);
+  }
+  const fee = raw.fee_structure;
+  return {
+    type,
+    useCases: Array.isArray(raw.use_cases) ? raw.use_cases.map(String) : [],
+    burnBps: parseMechanismBps(raw.burn_mechanism, 'economics.burn_mechanism'),
+    feeBps: parseMechanismBps(fee, 'economics.fee_structure'),
+    feeRecipient: typeof fee === 'string' ? /\bto\s+(?:the\s+)?([\w-]+)/i.exec(fee)?.[1] : undefined,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Percentage in a mechanism description ("2% of transactions"); 0 when it is absent or "none"
+ */
+function parseMechanismBps(value: unknown, field: string): number {
+  if (value === undefined || value === null || /^none$/i.test(String(value).trim())) {
+    return 0;
+  }
+  const percent = typeof value === 'number' ? String(value) : /(\d+(?:\.\d+)?)\s*%/.exec(String(value))?.[1];
+  if (percent === undefined) {
+    throw new Error(`${field} must give a percentage, e.g. "2% of transactions" (got "${value}")`);
+  }
+  return parsePercentBps(percent, field);
+}
+
+function parsePercentBps(value: unknown, field: string): number {
+  const text = typeof value === 'number' ? String(value) : String(value ?? '').trim().replace(/%$/, '');
+  const percent = Number(text);
+  if (text === '' || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new Error(`${field} must be a percentage from 0 to 100 (got "${value}")`);
+  }
+  const bps = Math.round(percent * 100);
+  if (Math.abs(bps - percent * 100) > 1e-6) {
+    throw new Error(`${field} has more precision than 0.01%`);
+  }
+  return bps;
+}
+
+/**
+ * Trailing comments of the `distribution` block's entries, by name
+ */
+function distributionComments(text: string): Map<string, string> {
+  const comments = new Map<string, string>();
+  let inDistribution = false;
+  for (const line of text.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      inDistribution = /^distribution:/.test(line);
+      continue;
+    }
+    const match = inDistribution ? /^\s+([\w-]+):\s*[^#{]*?#\s*(.*\S)\s*$/.exec(line) : null;
+    if (match) {
+      comments.set(match[1], match[2]);
+    }
+  }
+  return comments;
+}
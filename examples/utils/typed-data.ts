@@ -0,0 +1,153 @@
+/**
+ * Typed Data Helpers
+ *
+ * Builds and signs EIP-712 payloads for EIP-2612 `permit` and Permit2
+ * signature transfers. The builders are pure, so the same payloads can
+ * be handed to a browser wallet via `toSignRequest`.
+ */
+
+import { ethers } from 'ethers';
+
+// Canonical Permit2 deployment (same address on every chain)
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+export interface TypedData {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+export const EIP2612_PERMIT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export const PERMIT2_TRANSFER_FROM_TYPES: Record<string, ethers.TypedDataField[]> = {
+  PermitTransferFrom: [
+    { name: 'permitted', type: 'TokenPermissions' },
+    { name: 'spender', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  TokenPermissions: [
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+  ],
+};
+
+export interface PermitMessage {
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface Permit2TransferMessage {
+  token: string;
+  amount: bigint;
+  spender: string;
+  // Unordered: any unused value works, see randomPermit2Nonce
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface SignedTypedData {
+  signature: string;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Read a token's EIP-712 domain: ERC-5267 `eip712Domain()` when available,
+ * otherwise `name()` with version "1" (the OpenZeppelin default)
+ */
+export async function readPermitDomain(token: ethers.Contract): Promise<ethers.TypedDataDomain> {
+  const verifyingContract = await token.getAddress();
+
+  try {
+    const domain = new ethers.Contract(verifyingContract, [
+      'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+    ], token.runner);
+    const [, name, version, domainChainId, domainContract] = await domain.eip712Domain();
+    return { name, version, chainId: domainChainId, verifyingContract: domainContract };
+  } catch {
+    const name: string = await new ethers.Contract(verifyingContract, ['function name() view returns (string)'], token.runner).name();
+    const { chainId } = await token.runner!.provider!.getNetwork();
+    return { name, version: '1', chainId, verifyingContract };
+  }
+}
+
+/**
+ * EIP-2612 permit payload for a token domain
+ */
+export function buildPermitTypedData(domain: ethers.TypedDataDomain, message: PermitMessage): TypedData {
+  return {
+    domain,
+    types: EIP2612_PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: { ...message },
+  };
+}
+
+/**
+ * Permit2 SignatureTransfer payload; the domain has no version field
+ */
+export function buildPermit2TransferTypedData(
+  chainId: bigint,
+  message: Permit2TransferMessage,
+  permit2Address: string = PERMIT2_ADDRESS
+): TypedData {
+  return {
+    domain: { name: 'Permit2', chainId, verifyingContract: permit2Address },
+    types: PERMIT2_TRANSFER_FROM_TYPES,
+    primaryType: 'PermitTransferFrom',
+    message: {
+      permitted: { token: message.token, amount: message.amount },
+      spender: message.spender,
+      nonce: message.nonce,
+      deadline: message.deadline,
+    },
+  };
+}
+
+/**
+ * Random 248-bit nonce for Permit2's unordered nonce bitmap
+ */
+export function randomPermit2Nonce(): bigint {
+  return ethers.toBigInt(ethers.randomBytes(31));
+}
+
+/**
+ * Sign typed data and split the signature for contracts that take (v, r, s)
+ */
+export async function signTypedData(signer: ethers.Signer, typedData: TypedData): Promise<SignedTypedData> {
+  const signature = await signer.signTypedData(typedData.domain, typedData.types, typedData.message);
+  const { v, r, s } = ethers.Signature.from(signature);
+  return { signature, v, r, s };
+}
+
+/**
+ * Address that signed `typedData`
+ */
+export function recoverTypedDataSigner(typedData: TypedData, signature: string): string {
+  return ethers.verifyTypedData(typedData.domain, typedData.types, typedData.message, signature);
+}
+
+/**
+ * JSON-RPC request for `eth_signTypedData_v4`, e.g. for window.ethereum.request()
+ */
+export function toSignRequest(typedData: TypedData, signer: string): { method: string; params: [string, string] } {
+  const payload = ethers.TypedDataEncoder.getPayload(typedData.domain, typedData.types, typedData.message);
+  return {
+    method: 'eth_signTypedData_v4',
+    params: [signer, JSON.stringify(payload)],
+  };
+}
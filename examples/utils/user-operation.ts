@@ -0,0 +1,296 @@
+/**
+ * ERC-4337 User Operations
+ *
+ * Builds v0.7 PackedUserOperations for NeuralAccount, computes the
+ * userOpHash the EntryPoint and account check, estimates gas and submits
+ * through a local bundler. Signatures use the layout
+ * NeuralAccount.validateUserOp expects:
+ *
+ *   neuralHash (32) || ZK proof bound to the userOpHash (128) || owner signature (65)
+ */
+
+import { ethers } from 'ethers';
+import { AccountLedger, HandleOpsResult } from './neural-ledger';
+import { ZkProvingBackend } from './neural-zk';
+
+export interface PackedUserOperation {
+  sender: string;
+  nonce: bigint;
+  initCode: string;
+  callData: string;
+  // verificationGasLimit << 128 | callGasLimit
+  accountGasLimits: string;
+  preVerificationGas: bigint;
+  // maxPriorityFeePerGas << 128 | maxFeePerGas
+  gasFees: string;
+  paymasterAndData: string;
+  signature: string;
+}
+
+export interface UserOperationGas {
+  verificationGasLimit: bigint;
+  callGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface NeuralSignatureParts {
+  neuralHash: string;
+  // Encoded proof, as ZkProvingBackend.encode returns it
+  zkProof: string;
+  // EIP-191 signature of the userOpHash by the account owner
+  ownerSignature: string;
+}
+
+// Produces userOp.signature for a userOpHash
+export type UserOpSigner = (userOpHash: string) => Promise<string>;
+
+// One call a NeuralAccount makes for an execute or executeBatch op
+export interface AccountCall {
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+export const PACKED_USER_OPERATION_TUPLE =
+  'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, ' +
+  'uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)';
+
+export const NEURAL_ACCOUNT_ABI = [
+  'function execute(address dest, uint256 value, bytes func)',
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)',
+  'function registerNeuralHash(bytes32 neuralHash)',
+  'function revokeNeuralHash(bytes32 neuralHash)',
+  'function verifiedNeuralHashes(bytes32 neuralHash) view returns (bool)',
+  `function validateUserOp(${PACKED_USER_OPERATION_TUPLE} userOp, bytes32 userOpHash, uint256 missingAccountFunds) returns (uint256)`,
+  'function grantSession(address sessionKey, uint48 validAfter, uint48 validUntil, uint128 maxValuePerOp, uint128 maxTotalValue, uint128 maxGasFeePerOp, address[] targets, bytes4[] selectors)',
+  'function revokeSession(address sessionKey)',
+  'function owner() view returns (address)',
+];
+
+const accountInterface = new ethers.Interface(NEURAL_ACCOUNT_ABI);
+
+export const ENTRY_POINT_ABI = [
+  `function handleOps(${PACKED_USER_OPERATION_TUPLE}[] ops, address beneficiary)`,
+];
+
+// Byte lengths of the neural signature's three parts
+const NEURAL_HASH_LENGTH = 32;
+const ZK_PROOF_LENGTH = 128;
+export const NEURAL_SIGNATURE_LENGTH = NEURAL_HASH_LENGTH + ZK_PROOF_LENGTH + 65;
+
+// Limits an op is drafted with before its gas is estimated
+const DRAFT_GAS = { verificationGasLimit: 1_000_000n, callGasLimit: 1_000_000n, preVerificationGas: 100_000n };
+
+// Headroom over the estimates: the EntryPoint forwards at most 63/64 of its gas to each call
+const GAS_MARGIN_PERCENT = 20n;
+// The EntryPoint's own work per op, which the prefund has to cover: hashing, nonce and deposit writes, events
+const VERIFICATION_GAS_OVERHEAD = 40_000n;
+
+// The base cost of a handleOps transaction, which a single-op bundle pays in full
+const BUNDLE_BASE_GAS = 21_000n;
+
+function packUint128Pair(high: bigint, low: bigint): string {
+  return ethers.toBeHex((high << 128n) | low, 32);
+}
+
+function unpackUint128Pair(word: string): [bigint, bigint] {
+  const value = ethers.toBigInt(word);
+  return [value >> 128n, value & ((1n << 128n) - 1n)];
+}
+
+/**
+ * The packed gas fields for `gas`
+ */
+export function packUserOpGas(gas: UserOperationGas): Pick<PackedUserOperation, 'accountGasLimits' | 'preVerificationGas' | 'gasFees'> {
+  return {
+    accountGasLimits: packUint128Pair(gas.verificationGasLimit, gas.callGasLimit),
+    preVerificationGas: gas.preVerificationGas,
+    gasFees: packUint128Pair(gas.maxPriorityFeePerGas, gas.maxFeePerGas),
+  };
+}
+
+export function unpackUserOpGas(op: PackedUserOperation): UserOperationGas {
+  const [verificationGasLimit, callGasLimit] = unpackUint128Pair(op.accountGasLimits);
+  const [maxPriorityFeePerGas, maxFeePerGas] = unpackUint128Pair(op.gasFees);
+  return { verificationGasLimit, callGasLimit, preVerificationGas: op.preVerificationGas, maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * userOpHash as EntryPoint v0.7 computes it: every field but the signature,
+ * with the dynamic ones hashed, bound to the EntryPoint and chain
+ */
+export function getUserOpHash(op: PackedUserOperation, entryPoint: string, chainId: bigint): string {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const packed = ethers.keccak256(coder.encode(
+    ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+    [
+      op.sender,
+      op.nonce,
+      ethers.keccak256(op.initCode),
+      ethers.keccak256(op.callData),
+      op.accountGasLimits,
+      op.preVerificationGas,
+      op.gasFees,
+      ethers.keccak256(op.paymasterAndData),
+    ]
+  ));
+  return ethers.keccak256(coder.encode(['bytes32', 'address', 'uint256'], [packed, entryPoint, chainId]));
+}
+
+/**
+ * Gas the op costs before validation: its share of the bundle's base cost
+ * and the calldata it adds to handleOps. The signature must already have
+ * its final length.
+ */
+export function calcPreVerificationGas(op: PackedUserOperation): bigint {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode([PACKED_USER_OPERATION_TUPLE], [op]);
+  return BUNDLE_BASE_GAS + ethers.getBytes(encoded).reduce((sum, byte) => sum + (byte === 0 ? 4n : 16n), 0n);
+}
+
+/**
+ * The calls an op's execute or executeBatch callData makes; undefined for
+ * any other callData, or a batch whose arrays differ in length
+ */
+export function decodeAccountCalls(callData: string): AccountCall[] | undefined {
+  let call: ethers.TransactionDescription | null;
+  try {
+    call = accountInterface.parseTransaction({ data: callData });
+  } catch {
+    return undefined;
+  }
+
+  if (call?.name === 'execute') {
+    return [{ target: call.args.dest, value: call.args.value, data: call.args.func }];
+  }
+  if (call?.name === 'executeBatch') {
+    const { dest, value, func } = call.args;
+    if (dest.length !== value.length || dest.length !== func.length) {
+      return undefined;
+    }
+    return dest.map((target: string, i: number) => ({ target, value: value[i], data: func[i] }));
+  }
+  return undefined;
+}
+
+export function encodeNeuralSignature(parts: NeuralSignatureParts): string {
+  const signature = ethers.concat([parts.neuralHash, parts.zkProof, parts.ownerSignature]);
+  if (ethers.dataLength(signature) !== NEURAL_SIGNATURE_LENGTH) {
+    throw new Error(`Neural signature must be ${NEURAL_SIGNATURE_LENGTH} bytes, got ${ethers.dataLength(signature)}`);
+  }
+  return signature;
+}
+
+export function decodeNeuralSignature(signature: string): NeuralSignatureParts {
+  if (ethers.dataLength(signature) !== NEURAL_SIGNATURE_LENGTH) {
+    throw new Error(`Neural signature must be ${NEURAL_SIGNATURE_LENGTH} bytes, got ${ethers.dataLength(signature)}`);
+  }
+  return {
+    neuralHash: ethers.dataSlice(signature, 0, NEURAL_HASH_LENGTH),
+    zkProof: ethers.dataSlice(signature, NEURAL_HASH_LENGTH, NEURAL_HASH_LENGTH + ZK_PROOF_LENGTH),
+    ownerSignature: ethers.dataSlice(signature, NEURAL_HASH_LENGTH + ZK_PROOF_LENGTH),
+  };
+}
+
+/**
+ * Signs user operations for a NeuralAccount: a fresh ZK proof of `pattern`
+ * bound to each userOpHash, plus `owner`'s signature of it
+ */
+export function neuralUserOpSigner(owner: ethers.Signer, pattern: string, backend: ZkProvingBackend): UserOpSigner {
+  return async userOpHash => encodeNeuralSignature({
+    neuralHash: backend.commit(pattern),
+    zkProof: backend.encode(await backend.prove(pattern, userOpHash)),
+    ownerSignature: await owner.signMessage(ethers.getBytes(userOpHash)),
+  });
+}
+
+/**
+ * Bundler for the local EntryPoint stand-in: estimates gas, simulates
+ * bundles and submits them from `wallet`, which collects the gas fees.
+ */
+export class LocalBundler {
+  constructor(readonly ledger: AccountLedger, private wallet: ethers.Wallet) {}
+
+  get entryPoint(): string {
+    return this.ledger.entryPoint;
+  }
+
+  /**
+   * Gas limits for a signed op, with headroom, at the ledger's current fees
+   */
+  async estimateUserOperationGas(op: PackedUserOperation): Promise<UserOperationGas> {
+    const validation = await this.ledger.estimateValidationGas(op);
+    const call = await this.ledger.estimateCallGas(op);
+    const fees = await this.ledger.gasFees();
+    return {
+      verificationGasLimit: withMargin(validation) + VERIFICATION_GAS_OVERHEAD,
+      callGasLimit: withMargin(call),
+      preVerificationGas: calcPreVerificationGas(op),
+      ...fees,
+    };
+  }
+
+  /**
+   * Reason the EntryPoint would reject `ops` with (an AAxx code), undefined if they'd go through
+   */
+  async simulate(ops: PackedUserOperation[]): Promise<string | undefined> {
+    return this.ledger.handleOpsError(this.wallet, ops);
+  }
+
+  /**
+   * Submit `ops` as one handleOps bundle, after simulating it
+   */
+  async sendUserOperations(ops: PackedUserOperation[]): Promise<HandleOpsResult> {
+    const error = await this.simulate(ops);
+    if (error) {
+      throw new Error(`Bundle rejected: ${error}`);
+    }
+    return this.ledger.handleOps(this.wallet, ops);
+  }
+}
+
+function withMargin(gas: bigint): bigint {
+  return gas + (gas * GAS_MARGIN_PERCENT) / 100n;
+}
+
+export interface UserOperationRequest {
+  sender: string;
+  callData: string;
+  // Defaults to the sender's next EntryPoint nonce; set it when queueing several ops
+  nonce?: bigint;
+}
+
+/**
+ * Builds signed, gas-estimated PackedUserOperations for a bundler's EntryPoint
+ */
+export class UserOperationBuilder {
+  constructor(private bundler: LocalBundler, private chainId: bigint) {}
+
+  hash(op: PackedUserOperation): string {
+    return getUserOpHash(op, this.bundler.entryPoint, this.chainId);
+  }
+
+  /**
+   * Draft the op with generous limits and sign it, estimate its gas, then
+   * sign the op with the estimated limits. Gas fields are part of the
+   * userOpHash, so the final op needs its own signature.
+   */
+  async build(request: UserOperationRequest, sign: UserOpSigner): Promise<PackedUserOperation> {
+    const { ledger } = this.bundler;
+    const draft: PackedUserOperation = {
+      sender: request.sender,
+      nonce: request.nonce ?? await ledger.getNonce(request.sender),
+      initCode: '0x',
+      callData: request.callData,
+      ...packUserOpGas({ ...DRAFT_GAS, ...await ledger.gasFees() }),
+      paymasterAndData: '0x',
+      signature: '0x',
+    };
+    draft.signature = await sign(this.hash(draft));
+
+    const op = { ...draft, ...packUserOpGas(await this.bundler.estimateUserOperationGas(draft)) };
+    op.signature = await sign(this.hash(op));
+    return op;
+  }
+}
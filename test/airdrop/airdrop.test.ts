@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  AirdropMerkleTree,
+  airdropListError,
+  hashAirdropLeaf,
+  parseAirdropCsv,
+  planAirdrop,
+  syntheticAirdrop,
+} from "../../examples/utils/airdrop";
+
+describe("Airdrop", function () {
+  const bob = ethers.Wallet.createRandom().address;
+  const charlie = ethers.Wallet.createRandom().address;
+
+  describe("CSV", function () {
+    it("Should read ERC-20 amounts in whole tokens", async function () {
+      const list = parseAirdropCsv(`address,amount\n${bob},1.5\n\n# comment\n${charlie},2\n`);
+
+      expect(list.standard).to.equal("ERC-20");
+      expect(list.entries).to.deep.equal([
+        { index: 0, account: bob, tokenId: 0n, amount: ethers.parseEther("1.5") },
+        { index: 1, account: charlie, tokenId: 0n, amount: ethers.parseEther("2") },
+      ]);
+    });
+
+    it("Should pick ERC-721 and ERC-1155 from the header", async function () {
+      const nfts = parseAirdropCsv(`address,tokenId\n${bob},7\n`);
+      const items = parseAirdropCsv(`address,tokenId,amount\n${bob},3,40\n`);
+
+      expect(nfts.standard).to.equal("ERC-721");
+      expect(nfts.entries[0]).to.include({ tokenId: 7n, amount: 1n });
+      expect(items.standard).to.equal("ERC-1155");
+      expect(items.entries[0]).to.include({ tokenId: 3n, amount: 40n });
+    });
+
+    it("Should reject an unknown header", async function () {
+      expect(() => parseAirdropCsv(`wallet,amount\n${bob},1\n`)).to.throw("unknown header");
+    });
+
+    it("Should name the line of a malformed row", async function () {
+      expect(() => parseAirdropCsv(`address,amount\n${bob},1\n0x1234,2\n`)).to.throw("malformed row 3");
+      expect(() => parseAirdropCsv(`address,tokenId,amount\n${bob},one,2\n`)).to.throw("malformed row 2");
+    });
+
+    it("Should reject the same NFT sent twice", async function () {
+      expect(() => parseAirdropCsv(`address,tokenId\n${bob},7\n${charlie},7\n`)).to.throw("second time");
+    });
+
+    it("Should reject a recipient listed twice for the same token", async function () {
+      const list = parseAirdropCsv(`address,tokenId,amount\n${bob},1,1\n${bob},2,1\n`);
+      const repeated = { ...list, entries: [...list.entries, { ...list.entries[0], index: 2 }] };
+
+      expect(airdropListError(list)).to.equal(undefined);
+      expect(airdropListError(repeated)).to.include("again");
+    });
+  });
+
+  describe("Merkle tree", function () {
+    it("Should prove every entry of odd and even sized lists", async function () {
+      for (const count of [1, 2, 5, 8, 25]) {
+        const plan = planAirdrop(syntheticAirdrop("ERC-1155", count));
+
+        plan.claims.forEach(claim => {
+          expect(AirdropMerkleTree.verify(plan.root, claim.leaf, claim.proof)).to.equal(true);
+        });
+      }
+    });
+
+    it("Should hash leaves the way MerkleDistributor does", async function () {
+      const entry = { index: 3, account: bob, tokenId: 9n, amount: 2n };
+      const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "address", "uint256", "uint256"],
+        [3, bob, 9n, 2n]
+      );
+
+      expect(hashAirdropLeaf(entry)).to.equal(ethers.keccak256(ethers.keccak256(encoded)));
+    });
+
+    it("Should reject a proof for a changed amount or recipient", async function () {
+      const plan = planAirdrop(syntheticAirdrop("ERC-20", 10));
+      const [claim] = plan.claims;
+
+      expect(AirdropMerkleTree.verify(plan.root, hashAirdropLeaf({ ...claim, amount: claim.amount + 1n }), claim.proof)).to.equal(false);
+      expect(AirdropMerkleTree.verify(plan.root, hashAirdropLeaf({ ...claim, account: charlie }), claim.proof)).to.equal(false);
+    });
+  });
+
+  describe("Push chunks", function () {
+    it("Should split recipients into chunks in list order", async function () {
+      const list = syntheticAirdrop("ERC-721", 7);
+      const plan = planAirdrop(list, 3);
+
+      expect(plan.chunks.map(chunk => chunk.length)).to.deep.equal([3, 3, 1]);
+      expect(plan.chunks.flat()).to.deep.equal(list.entries);
+    });
+
+    it("Should refuse an empty airdrop", async function () {
+      expect(() => planAirdrop({ standard: "ERC-20", entries: [] })).to.throw("no recipients");
+    });
+  });
+});
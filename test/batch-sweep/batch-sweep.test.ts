@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { buildSeries, fitLinear, findBreakEven } from "../../examples/utils/batch-sweep";
+
+describe("Batch sweep", function () {
+  // Totals on the line fixedGas + marginalGas × n for n = 1..sizes
+  function line(fixedGas: number, marginalGas: number, sizes = 5) {
+    return Array.from({ length: sizes }, (_, i) => ({
+      batchSize: i + 1,
+      totalGas: BigInt(fixedGas + marginalGas * (i + 1)),
+    }));
+  }
+
+  function series(mode: "batch" | "individual", totals: { batchSize: number; totalGas: bigint }[]) {
+    return buildSeries(mode === "batch" ? "ERC-1155" : "ERC-20", "transfer", mode, "measured", totals);
+  }
+
+  describe("Fitting", function () {
+    const cases: { name: string; totals: { batchSize: number; totalGas: bigint }[]; fit: [number, number, number] }[] = [
+      { name: "no points", totals: [], fit: [0, 0, 0] },
+      { name: "a single point", totals: [{ batchSize: 4, totalGas: 400n }], fit: [0, 100, 1] },
+      { name: "an exact line", totals: line(21000, 5000), fit: [21000, 5000, 1] },
+      { name: "a flat line", totals: line(60000, 0), fit: [60000, 0, 1] },
+      { name: "repeats of one size", totals: [{ batchSize: 3, totalGas: 100n }, { batchSize: 3, totalGas: 300n }], fit: [200, 0, 0] },
+    ];
+
+    for (const { name, totals, fit } of cases) {
+      it(`Should fit ${name}`, async function () {
+        const { fixedGas, marginalGas, r2 } = fitLinear(series("batch", totals).points);
+
+        expect(fixedGas).to.be.closeTo(fit[0], 1e-6);
+        expect(marginalGas).to.be.closeTo(fit[1], 1e-6);
+        expect(r2).to.be.closeTo(fit[2], 1e-9);
+      });
+    }
+
+    it("Should report a poor fit for points off any line", async function () {
+      const totals = [1n, 100n, 1n, 100n].map((totalGas, i) => ({ batchSize: i + 1, totalGas }));
+
+      expect(fitLinear(series("batch", totals).points).r2).to.be.lessThan(0.5);
+    });
+  });
+
+  describe("Break-even", function () {
+    const cases: { name: string; batch: [number, number]; individual: [number, number]; fitted: number | null; observed: number | null }[] = [
+      { name: "a batch cheaper from the first item", batch: [10000, 1000], individual: [0, 30000], fitted: 1, observed: 1 },
+      { name: "a batch that pays off its overhead", batch: [50000, 1000], individual: [0, 30000], fitted: 2, observed: 2 },
+      { name: "a tie at a whole batch size", batch: [58000, 1000], individual: [0, 30000], fitted: 3, observed: 3 },
+      { name: "a crossover past the sweep", batch: [200000, 1000], individual: [0, 30000], fitted: 7, observed: null },
+      { name: "no crossover at equal marginal gas", batch: [50000, 30000], individual: [0, 30000], fitted: null, observed: null },
+      { name: "no crossover at higher marginal gas", batch: [50000, 31000], individual: [0, 30000], fitted: null, observed: null },
+    ];
+
+    for (const { name, batch, individual, fitted, observed } of cases) {
+      it(`Should find the break-even for ${name}`, async function () {
+        const breakEven = findBreakEven(series("batch", line(...batch)), series("individual", line(...individual)));
+
+        expect(breakEven).to.deep.equal({
+          operation: "transfer",
+          batch: "ERC-1155",
+          individual: "ERC-20",
+          fittedBatchSize: fitted,
+          observedBatchSize: observed,
+        });
+      });
+    }
+
+    it("Should only observe batch sizes both series swept", async function () {
+      const batch = series("batch", line(10000, 1000).filter(point => point.batchSize > 2));
+
+      expect(findBreakEven(batch, series("individual", line(0, 30000))).observedBatchSize).to.equal(3);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadEnv, parseCliArgs, positiveIntegerFlag } from "../../examples/cli";
+
+describe("CLI", function () {
+  describe("Arguments", function () {
+    it("Should split the command, scenarios and flags", async function () {
+      const args = parseCliArgs(["gas", "minting", "--rpc-url", "http://node:8545", "airdrop", "--json", "--out=report.json"]);
+
+      expect(args).to.deep.equal({
+        command: "gas",
+        positionals: ["minting", "airdrop"],
+        flags: { "rpc-url": "http://node:8545", json: true, out: "report.json" },
+      });
+    });
+
+    it("Should keep everything after the first = in an inline value", async function () {
+      expect(parseCliArgs(["gas", "--rpc-url=http://node:8545/?key=abc"]).flags["rpc-url"]).to.equal("http://node:8545/?key=abc");
+    });
+
+    it("Should reject a value flag at the end of argv", async function () {
+      expect(() => parseCliArgs(["gas", "--compare"])).to.throw("Missing value for --compare");
+    });
+
+    it("Should read positive integer flags only", async function () {
+      const flags = (value: string) => parseCliArgs(["gas", "--sweep-max", value]);
+
+      expect(positiveIntegerFlag(flags("12"), "sweep-max")).to.equal(12);
+      expect(positiveIntegerFlag(parseCliArgs(["gas"]), "sweep-max")).to.equal(undefined);
+      for (const value of ["2.5", "0", "-3", "ten", ""]) {
+        expect(() => positiveIntegerFlag(flags(value), "sweep-max")).to.throw("--sweep-max must be a positive integer");
+      }
+      expect(() => positiveIntegerFlag(parseCliArgs(["gas", "--json"]), "json")).to.throw("--json must be a positive integer");
+    });
+  });
+
+  describe("Env files", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-env-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+      delete process.env.CLI_TEST_NETWORK;
+    });
+
+    it("Should read the env file without touching process.env", async function () {
+      const file = path.join(dir, "test.env");
+      fs.writeFileSync(file, "CLI_TEST_NETWORK=sepolia\nCLI_TEST_KEYS=0x01,0x02\n");
+
+      const env = loadEnv(file);
+      expect(env).to.include({ CLI_TEST_NETWORK: "sepolia", CLI_TEST_KEYS: "0x01,0x02" });
+      expect(process.env.CLI_TEST_KEYS).to.equal(undefined);
+    });
+
+    it("Should let process.env win over the file", async function () {
+      const file = path.join(dir, "test.env");
+      fs.writeFileSync(file, "CLI_TEST_NETWORK=sepolia\n");
+      process.env.CLI_TEST_NETWORK = "mainnet";
+
+      expect(loadEnv(file).CLI_TEST_NETWORK).to.equal("mainnet");
+    });
+
+    it("Should reject a missing env file only when one was asked for", async function () {
+      expect(() => loadEnv(path.join(dir, "missing.env"))).to.throw("Env file not found");
+
+      const cwd = process.cwd();
+      process.chdir(dir);
+      try {
+        expect(loadEnv()).to.deep.equal({ ...process.env });
+      } finally {
+        process.chdir(cwd);
+      }
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { connectHardhatNetwork, fundAccounts } from "../../examples/utils/hardhat-network";
+import { loadOptimizedArtifact } from "../../examples/utils/optimization-benchmark";
+
+describe("CloneableToken on the in-process network", function () {
+  this.timeout(60_000);
+
+  const token = loadOptimizedArtifact("MinimalProxy.sol", "CloneableToken");
+  const factory = loadOptimizedArtifact("MinimalProxy.sol", "CloneFactory");
+  let deployer: ethers.Wallet;
+  let mallory: ethers.Wallet;
+
+  before(async function () {
+    const provider = await connectHardhatNetwork();
+    deployer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    mallory = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    await fundAccounts(provider, [deployer.address, mallory.address]);
+  });
+
+  async function deployToken(): Promise<ethers.Contract> {
+    const deployed = await new ethers.ContractFactory(token.abi, token.bytecode, deployer).deploy();
+    await deployed.waitForDeployment();
+    return new ethers.Contract(await deployed.getAddress(), token.abi, deployer);
+  }
+
+  it("Should let only the deployer initialize a deployed token", async function () {
+    const implementation = await deployToken();
+    const asMallory = implementation.connect(mallory) as ethers.Contract;
+
+    expect(await rejection(asMallory.initialize.staticCall("Token", "TKN", 1000n, mallory.address)))
+      .to.include("Only the deployer initializes");
+    await (await implementation.initialize("Token", "TKN", 1000n, deployer.address)).wait();
+    expect(await implementation.balanceOf(deployer.address)).to.equal(1000n);
+  });
+
+  it("Should let the factory initialize clones of it once", async function () {
+    const implementation = await deployToken();
+    const deployedFactory = await new ethers.ContractFactory(factory.abi, factory.bytecode, mallory).deploy();
+    await deployedFactory.waitForDeployment();
+    const cloneFactory = new ethers.Contract(await deployedFactory.getAddress(), factory.abi, mallory);
+    const initData = implementation.interface.encodeFunctionData("initialize", ["Clone", "CLN", 500n, mallory.address]);
+
+    const receipt = await (await cloneFactory.clone(await implementation.getAddress(), initData)).wait();
+    const [event] = receipt!.logs
+      .map((log: ethers.Log) => cloneFactory.interface.parseLog(log))
+      .filter((parsed: ethers.LogDescription | null) => parsed?.name === "CloneCreated");
+    const clone = new ethers.Contract(event!.args.clone, token.abi, mallory);
+
+    expect(await clone.balanceOf(mallory.address)).to.equal(500n);
+    expect(await rejection(clone.initialize.staticCall("Clone", "CLN", 500n, mallory.address))).to.include("Already initialized");
+  });
+
+  async function rejection(promise: Promise<unknown>): Promise<string> {
+    try {
+      await promise;
+    } catch (error) {
+      return (error as Error).message;
+    }
+    throw new Error("Expected a rejection");
+  }
+});
@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { appliedRefund, calldataCost, countStorageAccess } from "../../examples/utils/gas-analyzer";
+
+describe("Gas analyzer", function () {
+  const token = "0x1000000000000000000000000000000000000001";
+  const other = "0x2000000000000000000000000000000000000002";
+
+  describe("Calldata", function () {
+    const transfer = new ethers.Interface(["function transfer(address to, uint256 amount)"])
+      .encodeFunctionData("transfer", [other, 1n]);
+    const cases: [string, string, { zeroBytes: number; nonZeroBytes: number; gas: bigint }][] = [
+      ["empty calldata", "0x", { zeroBytes: 0, nonZeroBytes: 0, gas: 0n }],
+      ["a zero byte", "0x00", { zeroBytes: 1, nonZeroBytes: 0, gas: 4n }],
+      ["a non-zero byte", "0xff", { zeroBytes: 0, nonZeroBytes: 1, gas: 16n }],
+      ["mixed bytes", "0x00ff0001", { zeroBytes: 2, nonZeroBytes: 2, gas: 40n }],
+      // Selector, then a padded address with 2 non-zero bytes and a padded 1
+      ["an ERC-20 transfer", transfer, { zeroBytes: 61, nonZeroBytes: 7, gas: 61n * 4n + 7n * 16n }],
+    ];
+
+    for (const [name, data, stats] of cases) {
+      it(`Should price ${name}`, async function () {
+        expect(calldataCost(data)).to.deep.equal(stats);
+      });
+    }
+  });
+
+  describe("Storage access", function () {
+    const sload = (slot: string, depth = 1) => ({ op: "SLOAD", depth, stack: [slot] });
+    const sstore = (slot: string, depth = 1) => ({ op: "SSTORE", depth, stack: ["0x2a", slot] });
+    // CALL keeps the target second from the top of the stack, under the gas
+    const call = (op: string, target: string) => ({ op, depth: 1, stack: ["0x0", target, "0xffff"] });
+    const stats = (sloads: [number, number], sstores: [number, number], slotsTouched: number) => ({
+      sload: { cold: sloads[0], warm: sloads[1] },
+      sstore: { cold: sstores[0], warm: sstores[1] },
+      slotsTouched,
+    });
+
+    const cases: {
+      name: string;
+      logs: { op: string; depth: number; stack?: string[] }[];
+      accessList?: ethers.AccessList;
+      expected: ReturnType<typeof stats>;
+    }[] = [
+      { name: "a repeated read as cold then warm", logs: [sload("0x1"), sload("0x1")], expected: stats([1, 1], [0, 0], 1) },
+      { name: "a write after a read as warm", logs: [sload("0x1"), sstore("0x1")], expected: stats([1, 0], [0, 1], 1) },
+      { name: "separate slots as cold", logs: [sload("0x1"), sstore("0x2")], expected: stats([1, 0], [1, 0], 2) },
+      { name: "bare and 0x-prefixed stack words as one slot", logs: [sload("1"), sload("0x01")], expected: stats([1, 1], [0, 0], 1) },
+      {
+        name: "access-list slots as warm",
+        logs: [sload("0x1")],
+        accessList: [{ address: token, storageKeys: [ethers.toBeHex(1, 32)] }],
+        expected: stats([0, 1], [0, 0], 1),
+      },
+      {
+        name: "the same slot in a called contract as another slot",
+        logs: [sload("0x1"), call("CALL", other), sload("0x1", 2), sload("0x1")],
+        expected: stats([2, 1], [0, 0], 2),
+      },
+      {
+        name: "a delegatecall in the caller's storage",
+        logs: [sload("0x1"), call("DELEGATECALL", other), sload("0x1", 2)],
+        expected: stats([1, 1], [0, 0], 1),
+      },
+      { name: "ops without a stack as no access", logs: [{ op: "SLOAD", depth: 1 }], expected: stats([0, 0], [0, 0], 0) },
+    ];
+
+    for (const { name, logs, accessList, expected } of cases) {
+      it(`Should count ${name}`, async function () {
+        expect(countStorageAccess(logs, token, accessList)).to.deep.equal(expected);
+      });
+    }
+  });
+
+  describe("Refunds", function () {
+    // [refund counter, gas used, refund applied]
+    const cases: [bigint, bigint, bigint][] = [
+      [0n, 50000n, 0n],
+      [4800n, 30000n, 4800n],
+      // 4 × counter == gasUsed: exactly a fifth of the 50000 gas before refunds
+      [10000n, 40000n, 10000n],
+      // Before refunds 50000 gas, a fifth of which is 10000
+      [19900n, 40000n, 10000n],
+      [100000n, 21000n, 5250n],
+    ];
+
+    for (const [counter, gasUsed, refund] of cases) {
+      it(`Should apply ${refund} of a ${counter} refund counter at ${gasUsed} gas used`, async function () {
+        expect(appliedRefund(counter, gasUsed)).to.equal(refund);
+      });
+    }
+
+    it("Should never refund more than a fifth of the gas before refunds", async function () {
+      for (const [counter, gasUsed] of cases) {
+        const refund = appliedRefund(counter, gasUsed);
+
+        expect(refund <= counter).to.equal(true);
+        expect(refund * 5n <= gasUsed + refund).to.equal(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { JsonPriceFeed, loadPricingConfig, parsePricingConfig } from "../../examples/utils/gas-pricing";
+
+describe("Gas pricing config", function () {
+  const chain = { name: "Ethereum", nativeSymbol: "ETH", gasPriceGwei: 20 };
+
+  describe("Parsing", function () {
+    it("Should build static sources for every chain and its L1", async function () {
+      const config = parsePricingConfig({
+        prices: { ETH: 2000 },
+        chains: [chain, { name: "Optimism", gasPriceGwei: 0.001, l1: { gasPriceGwei: 20 } }],
+      });
+
+      const [ethereum, optimism] = config.chains;
+      expect(await ethereum.gasPrice.getGasPrice()).to.equal(ethers.parseUnits("20", "gwei"));
+      expect(optimism.nativeSymbol).to.equal("ETH");
+      expect(optimism.l1!.feeScalar).to.equal(1);
+      expect(await optimism.l1!.gasPrice.getGasPrice()).to.equal(ethers.parseUnits("20", "gwei"));
+      expect(await config.fiat.getPriceUSD("eth")).to.equal(2000);
+    });
+
+    it("Should reject a config without chains", async function () {
+      expect(() => parsePricingConfig({ chains: [] })).to.throw("at least one chain");
+      expect(() => parsePricingConfig([chain])).to.throw("at least one chain");
+    });
+
+    it("Should name the entry missing its gas price", async function () {
+      expect(() => parsePricingConfig({ chains: [chain, { name: "Base" }] }))
+        .to.throw("chains[1].gasPriceGwei must be a non-negative number, got undefined");
+      expect(() => parsePricingConfig({ chains: [{ ...chain, l1: { gasPriceGwei: "20" } }] }))
+        .to.throw('chains[0].l1.gasPriceGwei must be a non-negative number, got "20"');
+    });
+
+    it("Should reject unnamed chains and bad fee scalars or prices", async function () {
+      expect(() => parsePricingConfig({ chains: [{ gasPriceGwei: 1 }] })).to.throw("chains[0] needs a name");
+      expect(() => parsePricingConfig({ chains: [{ ...chain, l1: { gasPriceGwei: 1, feeScalar: -1 } }] }))
+        .to.throw("chains[0].l1.feeScalar");
+      expect(() => parsePricingConfig({ prices: { ETH: "2000" }, chains: [chain] })).to.throw("prices.ETH");
+    });
+
+    it("Should price symbols whatever their case in the file", async function () {
+      const config = parsePricingConfig({ prices: { eth: 2000, Matic: 0.5 }, chains: [chain] });
+
+      expect(await config.fiat.getPriceUSD("ETH")).to.equal(2000);
+      expect(await config.fiat.getPriceUSD("matic")).to.equal(0.5);
+      expect(() => parsePricingConfig({ prices: { ETH: 2000, eth: 2100 }, chains: [chain] }))
+        .to.throw("prices lists ETH more than once");
+    });
+  });
+
+  describe("Loading", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "gas-pricing-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should prefix errors with the config file", async function () {
+      const file = path.join(dir, "pricing.json");
+      fs.writeFileSync(file, JSON.stringify({ chains: [{ name: "Ethereum", gasPriceGwei: null }] }));
+
+      expect(() => loadPricingConfig(file)).to.throw(`${file}: chains[0].gasPriceGwei`);
+    });
+
+    it("Should load a valid config file", async function () {
+      const file = path.join(dir, "pricing.json");
+      fs.writeFileSync(file, JSON.stringify({ prices: { ETH: 2000 }, chains: [chain] }));
+
+      expect(loadPricingConfig(file).chains.map(entry => entry.name)).to.deep.equal(["Ethereum"]);
+    });
+
+    it("Should read feed prices flat or under prices", async function () {
+      const file = path.join(dir, "feed.json");
+      const feed = new JsonPriceFeed(file);
+
+      fs.writeFileSync(file, JSON.stringify({ ETH: 2000 }));
+      expect(await feed.getPriceUSD("eth")).to.equal(2000);
+      fs.writeFileSync(file, JSON.stringify({ prices: { ETH: 2100 }, updatedAt: "2024-01-01T00:00:00Z" }));
+      expect(await feed.getPriceUSD("ETH")).to.equal(2100);
+    });
+
+    it("Should report a missing price for feeds of the wrong shape", async function () {
+      const file = path.join(dir, "feed.json");
+      const feed = new JsonPriceFeed(file);
+
+      for (const content of ["null", "2000", '{ "prices": null }', '{ "prices": 2000 }', '{ "ETH": null }', '{ "ETH": "2000" }']) {
+        fs.writeFileSync(file, content);
+        expect(await feed.getPriceUSD("ETH").then(() => "resolved", (error: Error) => error.message))
+          .to.equal(`${file} has no USD price for ETH`);
+      }
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GasReport, compareGasReports, loadGasReport } from "../../examples/utils/gas-report";
+
+describe("Gas report", function () {
+  function report(operation: string, gasUsed: bigint, overrides: Partial<GasReport> = {}): GasReport {
+    return { standard: "ERC-20", operation, gasUsed, source: "measured", ...overrides };
+  }
+
+  describe("Regression threshold", function () {
+    it("Should flag growth past the threshold only", async function () {
+      const comparison = compareGasReports(
+        [report("Transfer", 10000n), report("Approve", 10000n), report("Mint", 10000n)],
+        [report("Transfer", 10200n), report("Approve", 10201n), report("Mint", 9000n)],
+        2
+      );
+
+      expect(comparison.deltas.map(delta => delta.regressed)).to.deep.equal([false, true, false]);
+      expect(comparison.regressions.map(delta => delta.operation)).to.deep.equal(["Approve"]);
+      expect(comparison.deltas[1]).to.include({ deltaGas: 201n });
+      expect(comparison.deltas[2].deltaPct).to.equal(-10);
+    });
+
+    it("Should use the default threshold of 2%", async function () {
+      const comparison = compareGasReports([report("Transfer", 1000n)], [report("Transfer", 1021n)]);
+
+      expect(comparison.thresholdPct).to.equal(2);
+      expect(comparison.regressions).to.have.length(1);
+    });
+
+    it("Should treat any growth from zero as a regression", async function () {
+      const comparison = compareGasReports([report("Transfer", 0n)], [report("Transfer", 1n)], 50);
+
+      expect(comparison.deltas[0].deltaPct).to.equal(Infinity);
+      expect(comparison.regressions).to.have.length(1);
+    });
+
+    it("Should not compare a measured figure with a simulated one", async function () {
+      const comparison = compareGasReports(
+        [report("Transfer", 10000n, { source: "simulated" })],
+        [report("Transfer", 20000n)]
+      );
+
+      expect(comparison.deltas[0]).to.include({ sourceMismatch: true, regressed: false });
+      expect(comparison.regressions).to.deep.equal([]);
+    });
+
+    it("Should list operations added and removed between runs", async function () {
+      const comparison = compareGasReports([report("Transfer", 1n), report("Burn", 1n)], [report("Transfer", 1n), report("Mint", 1n)]);
+
+      expect(comparison.added.map(entry => entry.operation)).to.deep.equal(["Mint"]);
+      expect(comparison.removed.map(entry => entry.operation)).to.deep.equal(["Burn"]);
+    });
+
+    it("Should reject a run listing an operation twice", async function () {
+      const twice = [report("Transfer", 1n), report("Transfer", 2n)];
+
+      expect(() => compareGasReports(twice, [report("Transfer", 1n)])).to.throw('baseline lists "ERC-20 / Transfer" more than once');
+      expect(() => compareGasReports([report("Transfer", 1n)], twice)).to.throw("current run lists");
+    });
+  });
+
+  describe("Loading", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "gas-report-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should read gas as bigint and default old entries to simulated", async function () {
+      const file = path.join(dir, "report.json");
+      fs.writeFileSync(file, JSON.stringify({
+        reports: [
+          { standard: "ERC-20", operation: "Transfer", gasUsed: "45312" },
+          { standard: "ERC-721", operation: "Transfer", gasUsed: "59847", source: "measured" },
+        ],
+      }));
+
+      const [old, measured] = loadGasReport(file);
+      expect(old).to.include({ gasUsed: 45312n, source: "simulated" });
+      expect(measured).to.include({ gasUsed: 59847n, source: "measured" });
+    });
+
+    it("Should reject a file without a reports array", async function () {
+      const file = path.join(dir, "other.json");
+      fs.writeFileSync(file, JSON.stringify({ summary: {} }));
+
+      expect(() => loadGasReport(file)).to.throw('missing "reports" array');
+    });
+
+    it("Should name the entry with a bad field", async function () {
+      const file = path.join(dir, "report.json");
+      const valid = { standard: "ERC-20", operation: "Transfer", gasUsed: "45312" };
+      const cases: [Record<string, unknown>, string][] = [
+        [{ ...valid, standard: 20 }, "reports[1].standard must be a non-empty string, got 20"],
+        [{ ...valid, operation: "" }, 'reports[1].operation must be a non-empty string, got ""'],
+        [{ ...valid, gasUsed: "45k" }, 'reports[1].gasUsed must be a whole amount of gas, got "45k"'],
+        [{ ...valid, gasUsed: -1 }, "reports[1].gasUsed must be a whole amount of gas, got -1"],
+        [{ ...valid, source: "estimated" }, 'reports[1].source must be measured or simulated, got "estimated"'],
+      ];
+
+      for (const [entry, message] of cases) {
+        fs.writeFileSync(file, JSON.stringify({ reports: [valid, entry] }));
+        expect(() => loadGasReport(file)).to.throw(`${file}: ${message}`);
+      }
+      fs.writeFileSync(file, JSON.stringify({ reports: [{ ...valid, gasUsed: 45312 }] }));
+      expect(loadGasReport(file)[0].gasUsed).to.equal(45312n);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { resolveReportFormats, writeGasReports } from "../../examples/utils/gas-reporters";
+
+describe("Gas reporters", function () {
+  describe("Formats", function () {
+    it("Should fold aliases and drop repeats", async function () {
+      expect(resolveReportFormats(["md", "markdown", "csv", "xml", "junit", "csv"])).to.deep.equal(["markdown", "csv", "junit"]);
+    });
+
+    it("Should reject an unknown format", async function () {
+      expect(() => resolveReportFormats(["csv", "pdf"])).to.throw('Unknown report format "pdf"');
+    });
+
+    it("Should write each report once", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gas-reporters-"));
+      try {
+        const written = writeGasReports(["md", "markdown"], dir, { reports: [] });
+
+        expect(written).to.deep.equal([path.join(dir, "gas-optimization-report.md")]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
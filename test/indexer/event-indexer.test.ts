@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { RawLog, TokenEventIndexer } from "../../examples/utils/event-indexer";
+
+describe("Token event indexer", function () {
+  const abis = {
+    erc20: [
+      "event Transfer(address indexed from, address indexed to, uint256 value)",
+      "event Approval(address indexed owner, address indexed spender, uint256 value)",
+    ],
+    erc721: [
+      "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+      "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+      "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+    ],
+    erc1155: [
+      "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+      "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+      "event ApprovalForAll(address indexed account, address indexed operator, bool approved)",
+      "event URI(string value, uint256 indexed id)",
+    ],
+  };
+  const erc20 = ethers.Wallet.createRandom().address;
+  const erc721 = ethers.Wallet.createRandom().address;
+  const erc1155 = ethers.Wallet.createRandom().address;
+  const alice = ethers.Wallet.createRandom().address;
+  const bob = ethers.Wallet.createRandom().address;
+  const zero = ethers.ZeroAddress;
+
+  let logIndex = 0;
+
+  function log(address: string, abi: string[], name: string, args: unknown[], blockNumber: number): RawLog {
+    const iface = new ethers.Interface(abi);
+    const { topics, data } = iface.encodeEventLog(name, args);
+    return { address, topics, data, blockNumber, index: logIndex++, transactionHash: ethers.id(`${blockNumber}`) };
+  }
+
+  function createIndexer() {
+    logIndex = 0;
+    // Never synced: every test feeds logs directly
+    return new TokenEventIndexer(new ethers.JsonRpcProvider(), [
+      { address: erc20, standard: "ERC-20", abi: abis.erc20 },
+      { address: erc721, standard: "ERC-721", abi: abis.erc721 },
+      { address: erc1155, standard: "ERC-1155", abi: abis.erc1155 },
+    ]);
+  }
+
+  describe("ERC-20", function () {
+    it("Should track balances and supply at every block", async function () {
+      const indexer = createIndexer();
+      indexer.ingest([
+        log(erc20, abis.erc20, "Transfer", [zero, alice, 1000n], 1),
+        log(erc20, abis.erc20, "Transfer", [alice, bob, 300n], 2),
+        log(erc20, abis.erc20, "Transfer", [bob, zero, 100n], 4),
+      ]);
+
+      expect(indexer.balanceOf(erc20, alice, 0n, 1)).to.equal(1000n);
+      expect(indexer.balanceOf(erc20, bob, 0n, 3)).to.equal(300n);
+      expect(indexer.balanceOf(erc20, bob)).to.equal(200n);
+      expect(indexer.totalSupply(erc20, 0n, 3)).to.equal(1000n);
+      expect(indexer.totalSupply(erc20)).to.equal(900n);
+    });
+
+    it("Should keep the last approved allowance", async function () {
+      const indexer = createIndexer();
+      indexer.ingest([
+        log(erc20, abis.erc20, "Approval", [alice, bob, 500n], 1),
+        log(erc20, abis.erc20, "Approval", [alice, bob, 0n], 2),
+      ]);
+
+      expect(indexer.approvedAmount(erc20, alice, bob, 1)).to.equal(500n);
+      expect(indexer.approvedAmount(erc20, alice, bob)).to.equal(0n);
+    });
+  });
+
+  describe("ERC-721", function () {
+    it("Should follow owners and count balances per holder", async function () {
+      const indexer = createIndexer();
+      indexer.ingest([
+        log(erc721, abis.erc721, "Transfer", [zero, alice, 1n], 1),
+        log(erc721, abis.erc721, "Transfer", [zero, alice, 2n], 1),
+        log(erc721, abis.erc721, "Transfer", [alice, bob, 1n], 2),
+        log(erc721, abis.erc721, "Transfer", [bob, zero, 1n], 3),
+      ]);
+
+      expect(indexer.ownerOf(erc721, 1n, 1)).to.equal(alice);
+      expect(indexer.ownerOf(erc721, 1n, 2)).to.equal(bob);
+      expect(indexer.ownerOf(erc721, 1n)).to.equal(undefined);
+      expect(indexer.balanceOf(erc721, alice, 0n, 1)).to.equal(2n);
+      expect(indexer.balanceOf(erc721, alice)).to.equal(1n);
+      expect(indexer.totalSupply(erc721)).to.equal(1n);
+    });
+
+    it("Should clear a token's approval when it moves", async function () {
+      const indexer = createIndexer();
+      indexer.ingest([
+        log(erc721, abis.erc721, "Transfer", [zero, alice, 7n], 1),
+        log(erc721, abis.erc721, "Approval", [alice, bob, 7n], 2),
+        log(erc721, abis.erc721, "Transfer", [alice, bob, 7n], 3),
+      ]);
+
+      expect(indexer.getApproved(erc721, 7n, 2)).to.equal(bob);
+      expect(indexer.getApproved(erc721, 7n)).to.equal(zero);
+    });
+  });
+
+  describe("ERC-1155", function () {
+    it("Should split batch transfers per id", async function () {
+      const indexer = createIndexer();
+      const [mint, batch] = indexer.ingest([
+        log(erc1155, abis.erc1155, "TransferBatch", [alice, zero, alice, [1n, 2n], [10n, 20n]], 1),
+        log(erc1155, abis.erc1155, "TransferBatch", [alice, alice, bob, [1n, 2n], [4n, 5n]], 2),
+        log(erc1155, abis.erc1155, "TransferSingle", [alice, alice, bob, 2n, 15n], 3),
+      ]);
+
+      expect(mint.movements).to.have.length(2);
+      expect(indexer.getMovements(batch.transactionHash)).to.deep.equal([
+        { contract: erc1155, from: alice, to: bob, tokenId: 1n, amount: 4n },
+        { contract: erc1155, from: alice, to: bob, tokenId: 2n, amount: 5n },
+      ]);
+      expect(indexer.balanceOf(erc1155, alice, 2n)).to.equal(0n);
+      expect(indexer.balanceOf(erc1155, bob, 2n)).to.equal(20n);
+      expect(indexer.totalSupply(erc1155, 1n)).to.equal(10n);
+    });
+
+    it("Should snapshot holders and operators at a block", async function () {
+      const indexer = createIndexer();
+      indexer.ingest([
+        log(erc1155, abis.erc1155, "TransferSingle", [alice, zero, alice, 3n, 9n], 1),
+        log(erc1155, abis.erc1155, "ApprovalForAll", [alice, bob, true], 1),
+        log(erc1155, abis.erc1155, "TransferSingle", [bob, alice, bob, 3n, 9n], 2),
+        log(erc1155, abis.erc1155, "ApprovalForAll", [alice, bob, false], 2),
+      ]);
+
+      const before = indexer.snapshot(erc1155, 1);
+      expect(before.balances).to.deep.equal([{ holder: alice, tokenId: 3n, amount: 9n }]);
+      expect(before.operators).to.deep.equal([{ owner: alice, operator: bob }]);
+      expect(indexer.snapshot(erc1155).balances).to.deep.equal([{ holder: bob, tokenId: 3n, amount: 9n }]);
+      expect(indexer.isApprovedForAll(erc1155, alice, bob)).to.equal(false);
+    });
+  });
+
+  describe("Ingestion", function () {
+    it("Should skip other events and unwatched contracts", async function () {
+      const indexer = createIndexer();
+      const indexed = indexer.ingest([
+        log(erc1155, abis.erc1155, "URI", ["ipfs://1", 1n], 1),
+        log(ethers.Wallet.createRandom().address, abis.erc20, "Transfer", [zero, alice, 1n], 1),
+      ]);
+
+      expect(indexed).to.deep.equal([]);
+    });
+
+    it("Should filter events by account, name and block", async function () {
+      const indexer = createIndexer();
+      indexer.ingest([
+        log(erc20, abis.erc20, "Transfer", [zero, alice, 1000n], 1),
+        log(erc20, abis.erc20, "Approval", [alice, bob, 5n], 2),
+        log(erc721, abis.erc721, "Transfer", [zero, bob, 1n], 3),
+      ]);
+
+      expect(indexer.getEvents({ account: alice })).to.have.length(2);
+      expect(indexer.getEvents({ account: bob, name: "Transfer" })).to.have.length(1);
+      expect(indexer.getEvents({ contract: erc20, fromBlock: 2 })).to.have.length(1);
+    });
+
+    it("Should refuse logs older than the ones already applied", async function () {
+      const indexer = createIndexer();
+      indexer.ingest([log(erc20, abis.erc20, "Transfer", [zero, alice, 1n], 5)]);
+
+      expect(() => indexer.ingest([log(erc20, abis.erc20, "Transfer", [zero, alice, 1n], 4)])).to.throw("arrived after");
+    });
+
+    it("Should refuse queries about unwatched contracts", async function () {
+      expect(() => createIndexer().balanceOf(alice, bob)).to.throw("not watched");
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { connectHardhatNetwork, fundAccounts } from "../../examples/utils/hardhat-network";
+import { ChainNeuralLedger } from "../../examples/utils/neural-ledger";
+import { SchnorrPatternBackend } from "../../examples/utils/neural-zk";
+import {
+  ETH_TRANSFER_SELECTOR,
+  SessionKeyValidator,
+  SessionPolicy,
+  createSessionPolicy,
+  grantSession,
+  sessionUserOpSigner,
+} from "../../examples/utils/session-keys";
+import {
+  LocalBundler,
+  NEURAL_ACCOUNT_ABI,
+  PackedUserOperation,
+  UserOperationBuilder,
+  neuralUserOpSigner,
+  packUserOpGas,
+  unpackUserOpGas,
+} from "../../examples/utils/user-operation";
+
+describe("NeuralAccount sessions on the in-process network", function () {
+  // Deploying every neural contract takes a few seconds
+  this.timeout(60_000);
+
+  const backend = new SchnorrPatternBackend();
+  const pattern = ethers.hexlify(ethers.randomBytes(32));
+  const sessionKey = ethers.Wallet.createRandom();
+  const bob = ethers.Wallet.createRandom().address;
+  const accountCalls = new ethers.Interface(NEURAL_ACCOUNT_ABI);
+  let bundler: LocalBundler;
+  let builder: UserOperationBuilder;
+  let validator: SessionKeyValidator;
+  let ledger: ChainNeuralLedger;
+  let account: string;
+  let policy: SessionPolicy;
+
+  before(async function () {
+    const provider = await connectHardhatNetwork();
+    const owner = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    const bundlerWallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    await fundAccounts(provider, [owner.address, bundlerWallet.address]);
+
+    ledger = await ChainNeuralLedger.deploy(owner, backend);
+    const { accounts } = ledger;
+    account = (await accounts.createAccount(owner, backend.commit(pattern))).address;
+    await accounts.depositTo(owner, account, ethers.parseEther("0.1"));
+    await fundAccounts(provider, [account]);
+
+    bundler = new LocalBundler(accounts, bundlerWallet);
+    builder = new UserOperationBuilder(bundler, ledger.domain.chainId);
+    policy = createSessionPolicy(sessionKey.address, {
+      now: await ledger.now(),
+      permissions: [{ target: bob, selectors: [ETH_TRANSFER_SELECTOR] }],
+      maxValuePerOp: ethers.parseEther("0.05"),
+      maxTotalValue: ethers.parseEther("0.08"),
+      maxGasFeePerOp: ethers.parseEther("0.01"),
+    });
+    await grantSession(bundler, builder, account, policy, neuralUserOpSigner(owner, pattern, backend));
+    validator = new SessionKeyValidator(accounts.entryPoint, ledger.domain.chainId, accounts.recoveryModule);
+    validator.grant(account, policy);
+  });
+
+  // A session-signed 0.01 ETH transfer to Bob, re-signed at `maxFeePerGas` if given
+  async function sendToBob(maxFeePerGas?: bigint): Promise<PackedUserOperation> {
+    const callData = accountCalls.encodeFunctionData("execute", [bob, ethers.parseEther("0.01"), "0x"]);
+    const signSession = sessionUserOpSigner(sessionKey);
+    const op = await builder.build({ sender: account, callData }, signSession);
+    if (maxFeePerGas === undefined) {
+      return op;
+    }
+    const inflated = { ...op, ...packUserOpGas({ ...unpackUserOpGas(op), maxFeePerGas }) };
+    inflated.signature = await signSession(builder.hash(inflated));
+    return inflated;
+  }
+
+  it("Should accept a session op within the gas cap", async function () {
+    const op = await sendToBob();
+
+    expect(validator.validate(op, await ledger.now()).valid).to.equal(true);
+    expect(await bundler.simulate([op])).to.equal(undefined);
+  });
+
+  it("Should reject a session op whose fees could be charged past the gas cap", async function () {
+    const op = await sendToBob(ethers.parseUnits("100", "gwei"));
+
+    expect(validator.validate(op, await ledger.now()).reason).to.equal("gas-fee-per-op-exceeded");
+    expect(await bundler.simulate([op])).to.include("AA24");
+  });
+});
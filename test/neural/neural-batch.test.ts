@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  BatchItem,
+  checkBatchItems,
+  groupBatchItems,
+  hashBatch,
+  planNeuralBatch,
+} from "../../examples/utils/neural-batch";
+
+describe("NeuralBatch", function () {
+  const alice = ethers.Wallet.createRandom().address;
+  const bob = ethers.Wallet.createRandom().address;
+  const charlie = ethers.Wallet.createRandom().address;
+
+  // Alice's balance of every token id in the collection
+  const holdings = new Map<bigint, bigint>([[1n, 100n], [2n, 1n], [3n, 50n]]);
+
+  const items: BatchItem[] = [
+    { to: bob, tokenId: 1n, amount: 10n },
+    { to: charlie, tokenId: 2n, amount: 1n },
+    { to: bob, tokenId: 3n, amount: 5n },
+  ];
+
+  describe("Validation", function () {
+    it("Should accept items within the sender's balances", async function () {
+      expect(checkBatchItems(alice, items, holdings)).to.deep.equal({ valid: true });
+    });
+
+    it("Should reject an empty batch", async function () {
+      expect(checkBatchItems(alice, [], holdings).reason).to.equal("empty-batch");
+    });
+
+    it("Should reject the zero address or the sender as recipient", async function () {
+      const toZero = [{ to: ethers.ZeroAddress, tokenId: 1n, amount: 1n }];
+      const toSelf = [{ to: alice.toLowerCase(), tokenId: 1n, amount: 1n }];
+
+      expect(checkBatchItems(alice, toZero, holdings).reason).to.equal("invalid-recipient");
+      expect(checkBatchItems(alice, toSelf, holdings).reason).to.equal("invalid-recipient");
+    });
+
+    it("Should reject an item without an amount", async function () {
+      expect(checkBatchItems(alice, [{ to: bob, tokenId: 1n, amount: 0n }], holdings).reason).to.equal("zero-amount");
+    });
+
+    it("Should reject a token id outside the collection", async function () {
+      expect(checkBatchItems(alice, [{ to: bob, tokenId: 9n, amount: 1n }], holdings).reason).to.equal("unknown-token");
+    });
+
+    it("Should reject items that together spend more than the balance", async function () {
+      const overspend = [
+        { to: bob, tokenId: 2n, amount: 1n },
+        { to: charlie, tokenId: 2n, amount: 1n },
+      ];
+
+      expect(checkBatchItems(alice, overspend, holdings).reason).to.equal("insufficient-balance");
+    });
+  });
+
+  describe("Planning", function () {
+    it("Should group items per recipient in order of first appearance", async function () {
+      expect(groupBatchItems(items)).to.deep.equal([
+        { to: bob, ids: [1n, 3n], amounts: [10n, 5n] },
+        { to: charlie, ids: [2n], amounts: [1n] },
+      ]);
+    });
+
+    it("Should merge a recipient's repeated token ids", async function () {
+      const repeated = [...items, { to: bob.toLowerCase(), tokenId: 1n, amount: 5n }];
+
+      expect(groupBatchItems(repeated)[0]).to.deep.equal({ to: bob, ids: [1n, 3n], amounts: [15n, 5n] });
+    });
+
+    it("Should hash the grouped batches and keep the item count", async function () {
+      const plan = planNeuralBatch(alice, items, holdings);
+
+      expect(plan.itemCount).to.equal(3);
+      expect(plan.batchHash).to.equal(hashBatch(alice, plan.batches));
+    });
+
+    it("Should change the batch hash when a batch is redirected", async function () {
+      const plan = planNeuralBatch(alice, items, holdings);
+      const redirected = plan.batches.map(batch => ({ ...batch, to: charlie }));
+
+      expect(hashBatch(alice, redirected)).to.not.equal(plan.batchHash);
+    });
+
+    it("Should refuse to plan an invalid batch", async function () {
+      expect(() => planNeuralBatch(alice, [], holdings)).to.throw("empty-batch");
+    });
+  });
+});
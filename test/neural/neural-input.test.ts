@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileReplayReader, encodeEdf, parseCsvSignal, parseEdf } from "../../examples/utils/neural-input";
+
+describe("Neural input files", function () {
+  const csvFixture = path.join(__dirname, "fixtures", "eeg-recording.csv");
+
+  interface EdfSignalHeader {
+    label: string;
+    physicalMin: number;
+    physicalMax: number;
+    digitalMin: number;
+    digitalMax: number;
+    samplesPerRecord: number;
+  }
+
+  // Writes every EDF header field at its offset from the spec, then the records
+  // (per record: each signal's samples in turn, as little-endian int16)
+  function edf(
+    signals: EdfSignalHeader[],
+    records: number[][][],
+    { recordDuration = 0.5, recordCount = records.length, headerBytes = 256 * (signals.length + 1) } = {}
+  ): Buffer {
+    const header = Buffer.alloc(256 * (signals.length + 1), " ");
+    const put = (offset: number, width: number, value: string | number) => header.write(String(value).padEnd(width).slice(0, width), offset, "ascii");
+    put(0, 8, "0");
+    put(184, 8, headerBytes);
+    put(236, 8, recordCount);
+    put(244, 8, recordDuration);
+    put(252, 4, signals.length);
+
+    // Signal fields are column-wise: every label, then every transducer, ...
+    const fields: [number, (signal: EdfSignalHeader) => string | number][] = [
+      [16, signal => signal.label],
+      [80, () => "AgAgCl electrode"],
+      [8, () => "uV"],
+      [8, signal => signal.physicalMin],
+      [8, signal => signal.physicalMax],
+      [8, signal => signal.digitalMin],
+      [8, signal => signal.digitalMax],
+      [80, () => ""],
+      [8, signal => signal.samplesPerRecord],
+      [32, () => ""],
+    ];
+    let offset = 256;
+    for (const [width, value] of fields) {
+      signals.forEach(signal => {
+        put(offset, width, value(signal));
+        offset += width;
+      });
+    }
+
+    const samples = records.flat(2);
+    const body = Buffer.alloc(samples.length * 2);
+    samples.forEach((sample, i) => body.writeInt16LE(sample, i * 2));
+    return Buffer.concat([header, body]);
+  }
+
+  const eeg = (label: string, samplesPerRecord = 2): EdfSignalHeader => ({
+    label, physicalMin: -100, physicalMax: 100, digitalMin: -1000, digitalMax: 1000, samplesPerRecord,
+  });
+  const annotations: EdfSignalHeader = {
+    label: "EDF Annotations", physicalMin: -1, physicalMax: 1, digitalMin: -32768, digitalMax: 32767, samplesPerRecord: 3,
+  };
+
+  describe("CSV", function () {
+    it("Should read channels and the sample rate from a recorder export", async function () {
+      const signal = parseCsvSignal(fs.readFileSync(csvFixture, "utf8"));
+
+      expect(signal).to.deep.equal({
+        sampleRate: 4,
+        channels: ["Fp1", "Fp2"],
+        data: [[1.5, 2.5, 3.5, 4.5], [-2, -1, 0, 1]],
+      });
+    });
+
+    it("Should treat every column as a channel without a time column", async function () {
+      const signal = parseCsvSignal("C3,C4\n1,2\n3,4\n", 128);
+
+      expect(signal).to.deep.equal({ sampleRate: 128, channels: ["C3", "C4"], data: [[1, 3], [2, 4]] });
+    });
+
+    it("Should reject recordings without samples", async function () {
+      expect(() => parseCsvSignal("# nothing recorded\ntime,Fp1\n")).to.throw("needs a header and at least one sample row");
+    });
+
+    it("Should name the malformed row", async function () {
+      const header = "time,Fp1,Fp2\n0,1,2\n";
+
+      expect(() => parseCsvSignal(header + "0.1,1\n")).to.throw("malformed row 3");
+      expect(() => parseCsvSignal(header + "0.1,1,2\n0.2,1,high\n")).to.throw("malformed row 4");
+      expect(() => parseCsvSignal(header + "0.1,,2\n")).to.throw("malformed row 3");
+    });
+  });
+
+  describe("EDF", function () {
+    it("Should scale samples from the header ranges and skip annotation channels", async function () {
+      const signal = parseEdf(edf([eeg("Fp1"), annotations, eeg("Fp2")], [
+        [[500, -500], [0, 0, 0], [1000, -1000]],
+        [[250, 0], [0, 0, 0], [10, -10]],
+      ]));
+
+      expect(signal).to.deep.equal({
+        sampleRate: 4,
+        channels: ["Fp1", "Fp2"],
+        data: [[50, -50, 25, 0], [100, -100, 1, -1]],
+      });
+    });
+
+    it("Should read as many records as the file holds when the count is unknown", async function () {
+      const signal = parseEdf(edf([eeg("Cz")], [[[100, 200]], [[300, 400]]], { recordCount: -1 }));
+
+      expect(signal.data).to.deep.equal([[10, 20, 30, 40]]);
+    });
+
+    it("Should read back what encodeEdf wrote, to 16-bit precision", async function () {
+      const data = [[-40, -10.5, 0, 12.25], [5, 6, 7, 8]];
+      const signal = parseEdf(encodeEdf({ sampleRate: 2, channels: ["C3", "C4"], data }));
+
+      expect(signal.sampleRate).to.equal(2);
+      expect(signal.channels).to.deep.equal(["C3", "C4"]);
+      signal.data.flat().forEach((value, i) => expect(value).to.be.closeTo(data.flat()[i], 0.01));
+    });
+
+    it("Should reject files that aren't EDF", async function () {
+      expect(() => parseEdf(Buffer.from("time,Fp1\n0,1\n"))).to.throw("Not an EDF file");
+      expect(() => parseEdf(edf([eeg("Fp1")], [], { recordDuration: 0 }))).to.throw("bad signal count or record duration");
+      expect(() => parseEdf(edf([eeg("Fp1")], [], { headerBytes: 256 }))).to.throw("header of 1 signals should take 512 bytes");
+    });
+
+    it("Should reject truncated files and malformed signal headers", async function () {
+      const complete = edf([eeg("Fp1")], [[[1, 2]], [[3, 4]]]);
+
+      expect(() => parseEdf(complete.subarray(0, complete.length - 1))).to.throw("EDF file is truncated");
+      expect(() => parseEdf(edf([{ ...eeg("Fp1"), digitalMax: -1000 }], []))).to.throw('EDF signal "Fp1" has a malformed range');
+      expect(() => parseEdf(edf([eeg("Fp1", 0)], []))).to.throw("malformed range or sample count");
+    });
+
+    it("Should reject channel sets it can't turn into one signal", async function () {
+      expect(() => parseEdf(edf([eeg("Fp1", 2), eeg("Fp2", 4)], []))).to.throw("different sample rates (4, 8 Hz)");
+      expect(() => parseEdf(edf([annotations], []))).to.throw("only annotation channels");
+    });
+  });
+
+  describe("Replay", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "neural-input-"));
+      fs.mkdirSync(path.join(dir, "alice"));
+      fs.copyFileSync(csvFixture, path.join(dir, "alice", "session-000.csv"));
+      fs.writeFileSync(path.join(dir, "alice", "session-001.edf"), edf([eeg("Cz")], [[[100, 200]]]));
+      fs.writeFileSync(path.join(dir, "alice", "notes.txt"), "not a recording");
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should cycle through a subject's CSV and EDF files in name order", async function () {
+      const reader = new FileReplayReader(dir);
+
+      expect((await reader.read("alice", 0)).channels).to.deep.equal(["Fp1", "Fp2"]);
+      expect((await reader.read("alice", 1)).channels).to.deep.equal(["Cz"]);
+      expect((await reader.read("alice", 2)).channels).to.deep.equal(["Fp1", "Fp2"]);
+    });
+
+    it("Should reject subjects without recordings", async function () {
+      const reader = new FileReplayReader(dir);
+
+      try {
+        await reader.read("bob", 0);
+      } catch (error) {
+        expect((error as Error).message).to.include('No CSV/EDF recordings for subject "bob"');
+        return;
+      }
+      throw new Error("Expected a rejection");
+    });
+  });
+});
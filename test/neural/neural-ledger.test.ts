@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { connectHardhatNetwork, fundAccounts } from "../../examples/utils/hardhat-network";
+import { ChainNeuralLedger, NEURAL_TOKEN_DECIMALS } from "../../examples/utils/neural-ledger";
+import { NeuralProofNonces, TokenTransfer, createNeuralProof } from "../../examples/utils/neural-proof";
+import { SchnorrPatternBackend } from "../../examples/utils/neural-zk";
+
+describe("Neural ledger on the in-process network", function () {
+  // Deploying every neural contract takes a few seconds
+  this.timeout(60_000);
+
+  const backend = new SchnorrPatternBackend();
+  const pattern = ethers.hexlify(ethers.randomBytes(32));
+  // Mirrors the token's nonces: consumed only when a transfer goes through
+  const nonces = new NeuralProofNonces();
+  let ledger: ChainNeuralLedger;
+  let alice: ethers.Wallet;
+  let bob: ethers.Wallet;
+
+  before(async function () {
+    const provider = await connectHardhatNetwork();
+    alice = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    bob = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+    await fundAccounts(provider, [alice.address, bob.address]);
+    ledger = await ChainNeuralLedger.deploy(alice, backend);
+  });
+
+  // A transfer from Alice to Bob with a neural proof for `proverPattern`
+  async function neuralTransfer(amount: string, proverPattern = pattern): Promise<TokenTransfer> {
+    const transfer: TokenTransfer = { from: alice.address, to: bob.address, amount };
+    transfer.neuralProof = await createNeuralProof(alice, ledger.domain, nonces, transfer, {
+      sender: alice.address,
+      neuralHash: backend.commit(pattern),
+      proveDigest: async digest => backend.encode(await backend.prove(proverPattern, digest)),
+      now: await ledger.now(),
+    });
+    return transfer;
+  }
+
+  it("Should deploy the token with its supply to the deployer", async function () {
+    expect(ledger.source).to.equal("measured");
+    expect(ledger.domain.chainId).to.equal(31337n);
+    expect(await ledger.balanceOf(alice.address)).to.equal(ethers.parseUnits("1000000", NEURAL_TOKEN_DECIMALS));
+  });
+
+  it("Should move tokens for a registered pattern's proof once", async function () {
+    expect(Number(await ledger.registerNeuralSignature(alice, backend.commit(pattern)))).to.be.greaterThan(0);
+    const transfer = await neuralTransfer("12.5");
+
+    expect(await ledger.neuralTransferError(alice, transfer)).to.equal(undefined);
+    expect(Number(await ledger.neuralTransfer(alice, transfer))).to.be.greaterThan(0);
+    nonces.use(alice.address, transfer.neuralProof!.nonce);
+    expect(await ledger.balanceOf(bob.address)).to.equal(ethers.parseUnits("12.5", NEURAL_TOKEN_DECIMALS));
+    expect(await ledger.neuralTransferError(alice, transfer)).to.equal("InvalidNeuralNonce");
+  });
+
+  it("Should revert a pattern proof made for another signed proof", async function () {
+    const earlier = await neuralTransfer("1");
+    const transfer = await neuralTransfer("2");
+    transfer.neuralProof!.zkProof = earlier.neuralProof!.zkProof;
+
+    expect(await ledger.neuralTransferError(alice, transfer)).to.equal("InvalidPatternProof");
+  });
+
+  it("Should revert proofs of another pattern and proofs that expired", async function () {
+    expect(await ledger.neuralTransferError(alice, await neuralTransfer("1", ethers.hexlify(ethers.randomBytes(32)))))
+      .to.equal("InvalidPatternProof");
+
+    const transfer = await neuralTransfer("1");
+    await ledger.advanceTime(3600);
+    expect(await ledger.neuralTransferError(alice, transfer)).to.equal("NeuralProofExpired");
+  });
+});
@@ -0,0 +1,188 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  NeuralProofDomain,
+  NeuralProofNonces,
+  NeuralProofVerifier,
+  TokenTransfer,
+  createNeuralProof,
+} from "../../examples/utils/neural-proof";
+
+describe("NeuralProof", function () {
+  const alice = ethers.Wallet.createRandom();
+  const bob = ethers.Wallet.createRandom();
+  const mallory = ethers.Wallet.createRandom();
+  const neuralHash = ethers.keccak256(ethers.toUtf8Bytes("alice-brain-pattern"));
+  const domain: NeuralProofDomain = {
+    chainId: 31337n,
+    verifyingContract: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  };
+  const now = 1_700_000_000;
+
+  // A fresh nonce store, verifier and signed transfer from Alice to Bob
+  async function signedTransferFixture(overrides: Partial<TokenTransfer> = {}) {
+    const nonces = new NeuralProofNonces();
+    const verifier = new NeuralProofVerifier(domain, nonces);
+    const transfer: TokenTransfer = { from: alice.address, to: bob.address, amount: "100.0", ...overrides };
+    transfer.neuralProof = await createNeuralProof(alice, domain, nonces, transfer, {
+      sender: alice.address,
+      neuralHash,
+      now,
+    });
+
+    return { nonces, verifier, transfer };
+  }
+
+  describe("Construction", function () {
+    it("Should bind the proof to the domain, sender and expiry", async function () {
+      const { transfer } = await signedTransferFixture();
+      const proof = transfer.neuralProof!;
+
+      expect(proof.chainId).to.equal(domain.chainId);
+      expect(proof.verifyingContract).to.equal(domain.verifyingContract);
+      expect(proof.sender).to.equal(alice.address);
+      expect(proof.timestamp).to.equal(now);
+      expect(proof.expiry).to.be.greaterThan(now);
+      expect(proof.nonce).to.equal(0);
+    });
+
+    it("Should not consume a nonce when building a proof", async function () {
+      const { nonces } = await signedTransferFixture();
+
+      expect(nonces.current(alice.address)).to.equal(0);
+    });
+  });
+
+  describe("Verification", function () {
+    it("Should accept a valid proof and advance the nonce", async function () {
+      const { nonces, verifier, transfer } = await signedTransferFixture();
+
+      expect(verifier.verify(transfer, alice.address, now)).to.deep.equal({ valid: true });
+      expect(nonces.current(alice.address)).to.equal(1);
+    });
+
+    it("Should accept NFT transfers bound to a token id", async function () {
+      const { verifier, transfer } = await signedTransferFixture({ amount: "1", tokenId: "0" });
+
+      expect(verifier.verify(transfer, alice.address, now).valid).to.equal(true);
+    });
+  });
+
+  describe("Rejections", function () {
+    it("Should reject a transfer without a proof", async function () {
+      const { verifier } = await signedTransferFixture();
+
+      const result = verifier.verify({ from: alice.address, to: bob.address, amount: "1" }, alice.address, now);
+      expect(result.reason).to.equal("missing-proof");
+    });
+
+    it("Should reject a replayed proof", async function () {
+      const { verifier, transfer } = await signedTransferFixture();
+
+      expect(verifier.verify(transfer, alice.address, now).valid).to.equal(true);
+      expect(verifier.verify(transfer, alice.address, now).reason).to.equal("replayed");
+    });
+
+    it("Should reject a proof whose nonce skips ahead", async function () {
+      const { verifier } = await signedTransferFixture();
+      // Signed against a nonce store that is already two proofs further
+      const ahead = new NeuralProofNonces();
+      ahead.use(alice.address, 0);
+      ahead.use(alice.address, 1);
+      const transfer: TokenTransfer = { from: alice.address, to: bob.address, amount: "100.0" };
+      transfer.neuralProof = await createNeuralProof(alice, domain, ahead, transfer, {
+        sender: alice.address,
+        neuralHash,
+        now,
+      });
+
+      expect(verifier.verify(transfer, alice.address, now).reason).to.equal("nonce-gap");
+    });
+
+    it("Should reject an expired proof", async function () {
+      const { verifier, transfer } = await signedTransferFixture();
+
+      const result = verifier.verify(transfer, alice.address, transfer.neuralProof!.expiry + 1);
+      expect(result.reason).to.equal("expired");
+    });
+
+    it("Should reject a proof timestamped in the future", async function () {
+      const { verifier, transfer } = await signedTransferFixture();
+
+      expect(verifier.verify(transfer, alice.address, now - 3600).reason).to.equal("not-yet-valid");
+    });
+
+    it("Should reject a proof made for another chain", async function () {
+      const { nonces, transfer } = await signedTransferFixture();
+      const otherChain = new NeuralProofVerifier({ ...domain, chainId: 1n }, nonces);
+
+      expect(otherChain.verify(transfer, alice.address, now).reason).to.equal("wrong-chain");
+    });
+
+    it("Should reject a proof relabelled for another chain", async function () {
+      const { nonces, transfer } = await signedTransferFixture();
+      const otherChain = new NeuralProofVerifier({ ...domain, chainId: 1n }, nonces);
+      transfer.neuralProof!.chainId = 1n;
+
+      expect(otherChain.verify(transfer, alice.address, now).reason).to.equal("bad-signature");
+    });
+
+    it("Should reject a proof made for another contract", async function () {
+      const { nonces, transfer } = await signedTransferFixture();
+      const otherContract = new NeuralProofVerifier({ ...domain, verifyingContract: bob.address }, nonces);
+
+      expect(otherContract.verify(transfer, alice.address, now).reason).to.equal("wrong-contract");
+    });
+
+    it("Should reject a proof submitted by someone else", async function () {
+      const { verifier, transfer } = await signedTransferFixture();
+
+      expect(verifier.verify(transfer, mallory.address, now).reason).to.equal("wrong-sender");
+    });
+
+    it("Should reject a proof attached to a different amount", async function () {
+      const { verifier, transfer } = await signedTransferFixture();
+
+      const result = verifier.verify({ ...transfer, amount: "1000.0" }, alice.address, now);
+      expect(result.reason).to.equal("payload-mismatch");
+    });
+
+    it("Should reject a proof attached to a different recipient", async function () {
+      const { verifier, transfer } = await signedTransferFixture();
+
+      const result = verifier.verify({ ...transfer, to: mallory.address }, alice.address, now);
+      expect(result.reason).to.equal("payload-mismatch");
+    });
+
+    it("Should reject a transfer whose amount, token id or address can't be encoded", async function () {
+      const { nonces, verifier, transfer } = await signedTransferFixture();
+
+      for (const malformed of [{ amount: "1e3" }, { amount: "0.0000000000000000001" }, { tokenId: "one" }, { to: "bob" }]) {
+        const result = verifier.verify({ ...transfer, ...malformed }, alice.address, now);
+        expect(result.reason).to.equal("malformed-payload");
+        expect(result.message).to.include("can't be encoded");
+      }
+      expect(nonces.current(alice.address)).to.equal(0);
+    });
+
+    it("Should reject a proof signed by someone other than the sender of funds", async function () {
+      const { nonces, verifier } = await signedTransferFixture();
+      const transfer: TokenTransfer = { from: alice.address, to: mallory.address, amount: "100.0" };
+      transfer.neuralProof = await createNeuralProof(mallory, domain, nonces, transfer, {
+        sender: alice.address,
+        neuralHash,
+        now,
+      });
+
+      expect(verifier.verify(transfer, alice.address, now).reason).to.equal("bad-signature");
+    });
+
+    it("Should not consume the nonce when a proof is rejected", async function () {
+      const { nonces, verifier, transfer } = await signedTransferFixture();
+
+      verifier.verify(transfer, mallory.address, now);
+      expect(nonces.current(alice.address)).to.equal(0);
+      expect(verifier.verify(transfer, alice.address, now).valid).to.equal(true);
+    });
+  });
+});
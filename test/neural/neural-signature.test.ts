@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  DEFAULT_MATCH_THRESHOLD,
+  FeatureVector,
+  NeuralInputSource,
+  NeuralKeystore,
+  NeuralSignatureGenerator,
+  SyntheticFeatureSource,
+  TEMPLATE_BITS,
+  bioHash,
+  hammingDistance,
+} from "../../examples/utils/neural-signature";
+
+describe("Neural signatures", function () {
+  const subjects = ["alice", "bob", "charlie"];
+
+  // Serves the same synthetic subjects under another source name
+  class RenamedSource implements NeuralInputSource {
+    readonly name = "renamed";
+    private inner = new SyntheticFeatureSource();
+
+    capture(subject: string, session: number): Promise<FeatureVector> {
+      return this.inner.capture(subject, session);
+    }
+  }
+
+  describe("Templates", function () {
+    it("Should hash features into a salted template code", async function () {
+      const features = await new SyntheticFeatureSource().capture("alice", 0);
+      const code = bioHash(features, "0x01");
+
+      expect(code).to.have.length(2 + TEMPLATE_BITS / 4);
+      expect(bioHash(features, "0x01")).to.equal(code);
+      expect(hammingDistance(bioHash(features, "0x02"), code)).to.be.greaterThan(0.3);
+    });
+
+    it("Should count differing bits as a fraction of the code", async function () {
+      expect(hammingDistance("0x00ff", "0x00ff")).to.equal(0);
+      expect(hammingDistance("0x0000", "0x0f01")).to.equal(5 / 16);
+      expect(() => hammingDistance("0x00", "0x0000")).to.throw("Cannot compare codes of 1 and 2 bytes");
+    });
+  });
+
+  describe("Enrollment", function () {
+    it("Should store a template with a fresh salt on every enrollment", async function () {
+      const keystore = new NeuralKeystore();
+      const generator = new NeuralSignatureGenerator({ keystore });
+
+      const first = await generator.enroll("alice");
+      expect(keystore.get("alice")).to.deep.equal(first);
+      expect(first).to.include({ subject: "alice", dimensions: 32, source: "synthetic" });
+
+      const second = await generator.enroll("alice");
+      expect(second.salt).to.not.equal(first.salt);
+      expect(second.code).to.not.equal(first.code);
+      expect(keystore.get("alice")).to.deep.equal(second);
+    });
+
+    it("Should keep templates in a keystore file between runs", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "neural-keystore-"));
+      const file = path.join(dir, "keystore.json");
+      try {
+        const template = await new NeuralSignatureGenerator({ keystore: new NeuralKeystore(file) }).enroll("alice");
+
+        expect(new NeuralKeystore(file).get("alice")).to.deep.equal(template);
+        fs.writeFileSync(file, JSON.stringify({ version: 2, templates: {} }));
+        expect(() => new NeuralKeystore(file)).to.throw("Unsupported keystore version 2");
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should keep template codes out of an encrypted keystore file", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "neural-keystore-"));
+      const file = path.join(dir, "keystore.json");
+      try {
+        const template = await new NeuralSignatureGenerator({ keystore: new NeuralKeystore(file, "hunter2") }).enroll("alice");
+
+        expect(fs.readFileSync(file, "utf8")).to.not.include(template.code.slice(2));
+        expect(new NeuralKeystore(file, "hunter2").get("alice")).to.deep.equal(template);
+        expect(() => new NeuralKeystore(file)).to.throw("is encrypted; a passphrase is needed");
+        expect(() => new NeuralKeystore(file, "hunter3")).to.throw("Wrong passphrase");
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should encrypt a plaintext keystore on its next write", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "neural-keystore-"));
+      const file = path.join(dir, "keystore.json");
+      try {
+        const alice = await new NeuralSignatureGenerator({ keystore: new NeuralKeystore(file) }).enroll("alice");
+        const keystore = new NeuralKeystore(file, "hunter2");
+        await new NeuralSignatureGenerator({ keystore }).enroll("bob");
+
+        expect(fs.readFileSync(file, "utf8")).to.not.include(alice.code.slice(2));
+        expect(new NeuralKeystore(file, "hunter2").subjects()).to.deep.equal(["alice", "bob"]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should return the same pattern until the template is revoked", async function () {
+      const generator = new NeuralSignatureGenerator();
+      const pattern = await generator.generatePattern("alice");
+
+      expect(await generator.generatePattern("alice")).to.equal(pattern);
+      expect(generator.revoke("alice")).to.equal(true);
+      expect(await generator.generatePattern("alice")).to.not.equal(pattern);
+    });
+
+    it("Should re-enroll a template from another input source only when asked", async function () {
+      const keystore = new NeuralKeystore();
+      const pattern = await new NeuralSignatureGenerator({ keystore }).generatePattern("alice");
+
+      const other = new NeuralSignatureGenerator({ keystore, source: new RenamedSource() });
+      expect(await rejection(other.generatePattern("alice"))).to.include('"alice" was enrolled from synthetic, not renamed');
+      expect(keystore.get("alice")!.code).to.equal(pattern);
+
+      const reenrolled = await new NeuralSignatureGenerator({ keystore, source: new RenamedSource(), reenroll: true })
+        .generatePattern("alice");
+      expect(reenrolled).to.not.equal(pattern);
+      expect(keystore.get("alice")!.source).to.equal("renamed");
+    });
+  });
+
+  describe("Matching", function () {
+    it("Should match fresh captures of the enrolled subject only", async function () {
+      const source = new SyntheticFeatureSource();
+      const generator = new NeuralSignatureGenerator({ source });
+      await generator.enroll("alice");
+
+      const genuine = await generator.verify("alice");
+      expect(genuine).to.include({ matched: true, threshold: DEFAULT_MATCH_THRESHOLD });
+      expect((await generator.verify("alice", await source.capture("bob", 0))).matched).to.equal(false);
+    });
+
+    it("Should accept a probe exactly at the threshold and reject it just below", async function () {
+      const generator = new NeuralSignatureGenerator();
+      const template = await generator.enroll("alice");
+      const probe = await new SyntheticFeatureSource().capture("alice", 99);
+      const { distance } = generator.match(template, probe);
+
+      expect(distance).to.be.greaterThan(0);
+      expect(generator.match(template, probe, distance).matched).to.equal(true);
+      expect(generator.match(template, probe, distance - 1 / TEMPLATE_BITS).matched).to.equal(false);
+    });
+
+    it("Should check presented pattern codes against the threshold", async function () {
+      const generator = new NeuralSignatureGenerator();
+      const pattern = await generator.generatePattern("alice");
+      // Flip the first 8 bits, then the first 80
+      const flipped = (bytes: number) => "0x" + "ff".repeat(bytes) + "00".repeat(32 - bytes);
+      const xor = (a: string, b: string) =>
+        "0x" + (BigInt(a) ^ BigInt(b)).toString(16).padStart(64, "0");
+
+      expect(generator.verifyPattern("alice", xor(pattern, flipped(1)))).to.equal(true);
+      expect(generator.verifyPattern("alice", xor(pattern, flipped(10)))).to.equal(false);
+      expect(generator.verifyPattern("bob", pattern)).to.equal(false);
+    });
+
+    it("Should reject presented codes of another length instead of throwing", async function () {
+      const generator = new NeuralSignatureGenerator();
+      const pattern = await generator.generatePattern("alice");
+
+      for (const code of [ethers.dataSlice(pattern, 0, 16), ethers.concat([pattern, "0x00"]), "0x", "not hex"]) {
+        expect(generator.verifyPattern("alice", code)).to.equal(false);
+      }
+    });
+
+    it("Should refuse unknown subjects and probes of the wrong size", async function () {
+      const generator = new NeuralSignatureGenerator();
+      await generator.enroll("alice");
+
+      expect(await rejection(generator.verify("bob"))).to.include('No neural template enrolled for "bob"');
+      expect(await rejection(generator.verify("alice", [1, 2, 3]))).to.include("Probe has 3 features");
+    });
+  });
+
+  describe("Error rates", function () {
+    async function enrolledGenerator() {
+      const generator = new NeuralSignatureGenerator();
+      for (const subject of subjects) {
+        await generator.enroll(subject);
+      }
+      return generator;
+    }
+
+    it("Should count every sample against every template", async function () {
+      const generator = await enrolledGenerator();
+      const rates = generator.evaluate(await generator.captureDataset(subjects, 4));
+
+      expect(rates).to.include({ genuineAttempts: 12, impostorAttempts: 24, threshold: DEFAULT_MATCH_THRESHOLD });
+      expect(rates.far).to.equal(rates.falseAccepts / 24);
+      expect(rates.frr).to.equal(rates.falseRejects / 12);
+      expect(rates.far).to.equal(0);
+      expect(rates.frr).to.be.lessThan(0.5);
+    });
+
+    it("Should trade false rejects for false accepts as the threshold grows", async function () {
+      const generator = await enrolledGenerator();
+      const dataset = await generator.captureDataset(subjects, 4);
+
+      expect(generator.evaluate(dataset, -1)).to.include({ far: 0, frr: 1 });
+      expect(generator.evaluate(dataset, 1)).to.include({ far: 1, frr: 0 });
+      const rates = [0, 0.1, 0.25, 0.4, 0.6].map(threshold => generator.evaluate(dataset, threshold));
+      for (let i = 1; i < rates.length; i++) {
+        expect(rates[i].far).to.be.at.least(rates[i - 1].far);
+        expect(rates[i].frr).to.be.at.most(rates[i - 1].frr);
+      }
+    });
+
+    it("Should report zero rates with nothing to compare", async function () {
+      const rates = new NeuralSignatureGenerator().evaluate([{ subject: "alice", features: [1, 2] }]);
+
+      expect(rates).to.include({ genuineAttempts: 0, impostorAttempts: 0, far: 0, frr: 0 });
+    });
+  });
+
+  async function rejection(promise: Promise<unknown>): Promise<string> {
+    try {
+      await promise;
+    } catch (error) {
+      return (error as Error).message;
+    }
+    throw new Error("Expected a rejection");
+  }
+});
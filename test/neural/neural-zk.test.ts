@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { connectHardhatNetwork, fundAccounts } from "../../examples/utils/hardhat-network";
+import {
+  PATTERN_VERIFIER_ABI,
+  PatternProof,
+  SECP256K1_ORDER,
+  SchnorrPatternBackend,
+  patternCommitment,
+} from "../../examples/utils/neural-zk";
+
+describe("Schnorr pattern proofs", function () {
+  const backend = new SchnorrPatternBackend();
+  const pattern = ethers.hexlify(ethers.randomBytes(32));
+  const otherPattern = ethers.hexlify(ethers.randomBytes(32));
+  const context = ethers.id("transfer payload");
+  const otherContext = ethers.id("another transfer payload");
+
+  // Proofs the verifiers must reject, each with one thing wrong
+  async function forgeries(): Promise<Record<string, PatternProof>> {
+    const proof = await backend.prove(pattern, context);
+    return {
+      "wrong context": await backend.prove(pattern, otherContext),
+      "another pattern's proof": { ...(await backend.prove(otherPattern, context)), neuralHash: proof.neuralHash },
+      "tampered challenge": { ...proof, challenge: proof.challenge ^ 1n },
+      "tampered response": { ...proof, response: (proof.response + 1n) % SECP256K1_ORDER },
+      "zero response": { ...proof, response: 0n },
+      "response out of range": { ...proof, response: SECP256K1_ORDER },
+      "flipped parity": { ...proof, parity: proof.parity === 27 ? 28 : 27 },
+      "unknown parity": { ...proof, parity: 29 },
+    };
+  }
+
+  describe("Prover and off-chain verifier", function () {
+    it("Should verify a proof against the pattern's commitment and context", async function () {
+      const proof = await backend.prove(pattern, context);
+
+      expect(proof.neuralHash).to.equal(backend.commit(pattern));
+      expect(proof.neuralHash).to.equal(patternCommitment(proof.publicX, proof.parity));
+      expect(await backend.verify(proof, backend.commit(pattern), context)).to.equal(true);
+    });
+
+    it("Should commit to the same point for a pattern and to another one for another pattern", async function () {
+      expect(backend.commit(pattern)).to.equal(backend.commit(pattern));
+      expect(backend.commit(otherPattern)).to.not.equal(backend.commit(pattern));
+    });
+
+    it("Should randomize proofs without revealing a reusable response", async function () {
+      const [first, second] = [await backend.prove(pattern, context), await backend.prove(pattern, context)];
+
+      expect(first.response).to.not.equal(second.response);
+      expect(await backend.verify(second, backend.commit(pattern), context)).to.equal(true);
+    });
+
+    it("Should reject a proof bound to another context", async function () {
+      const proof = await backend.prove(pattern, context);
+
+      expect(await backend.verify(proof, backend.commit(pattern), otherContext)).to.equal(false);
+      expect(await backend.verify({ ...proof, context: otherContext }, backend.commit(pattern), otherContext)).to.equal(false);
+    });
+
+    it("Should reject a proof checked against another neural hash", async function () {
+      const proof = await backend.prove(pattern, context);
+
+      expect(await backend.verify(proof, backend.commit(otherPattern), context)).to.equal(false);
+    });
+
+    it("Should reject forged proofs", async function () {
+      for (const [name, proof] of Object.entries(await forgeries())) {
+        expect(await backend.verify(proof, backend.commit(pattern), context), name).to.equal(false);
+      }
+    });
+
+    it("Should decode what it encodes into 128 bytes", async function () {
+      const proof = await backend.prove(pattern, context);
+      const encoded = backend.encode(proof);
+
+      expect(ethers.dataLength(encoded)).to.equal(128);
+      expect(backend.decode(encoded, proof.neuralHash, context)).to.deep.equal(proof);
+    });
+  });
+
+  describe("PatternKnowledgeVerifier", function () {
+    // Deploying to the in-process network takes a moment on first use
+    this.timeout(60_000);
+
+    let provider: ethers.BrowserProvider;
+    let verifier: ethers.Contract;
+
+    before(async function () {
+      const artifact = require("../../artifacts/contracts/neural/PatternKnowledgeVerifier.sol/PatternKnowledgeVerifier.json");
+      provider = await connectHardhatNetwork();
+      const deployer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
+      await fundAccounts(provider, [deployer.address]);
+      const deployed = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, deployer).deploy();
+      verifier = new ethers.Contract(await deployed.getAddress(), PATTERN_VERIFIER_ABI, provider);
+    });
+
+    // verify() through the calldata the backend exports for it
+    async function verifyOnChain(proof: PatternProof): Promise<boolean> {
+      const result = await provider.call({ to: await verifier.getAddress(), data: backend.exportCalldata(proof) });
+      return verifier.interface.decodeFunctionResult("verify", result)[0];
+    }
+
+    it("Should compute the same commitment as the prover", async function () {
+      const proof = await backend.prove(pattern, context);
+
+      expect(await verifier.commitment(proof.publicX, proof.parity)).to.equal(proof.neuralHash);
+    });
+
+    it("Should accept the proofs the off-chain verifier accepts", async function () {
+      for (const candidate of [pattern, otherPattern]) {
+        const proof = await backend.prove(candidate, context);
+
+        expect(await backend.verify(proof, backend.commit(candidate), context)).to.equal(true);
+        expect(await verifyOnChain(proof)).to.equal(true);
+      }
+    });
+
+    it("Should reject the proofs the off-chain verifier rejects", async function () {
+      for (const [name, proof] of Object.entries(await forgeries())) {
+        const offChain = await backend.verify(proof, backend.commit(pattern), context);
+        // The contract checks against the hash and context the calldata names
+        const onChain = await verifyOnChain({ ...proof, neuralHash: backend.commit(pattern), context });
+
+        expect([offChain, onChain], name).to.deep.equal([false, false]);
+      }
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  DEFAULT_SESSION_TTL_SECONDS,
+  ETH_TRANSFER_SELECTOR,
+  SessionKeyValidator,
+  SessionPolicyOptions,
+  createSessionPolicy,
+  decodeGrantSession,
+  encodeGrantSession,
+  sessionUserOpSigner,
+} from "../../examples/utils/session-keys";
+import {
+  NEURAL_ACCOUNT_ABI,
+  PackedUserOperation,
+  UserOperationGas,
+  getUserOpHash,
+  packUserOpGas,
+} from "../../examples/utils/user-operation";
+
+describe("SessionKeys", function () {
+  const entryPoint = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const chainId = 31337n;
+  const account = ethers.Wallet.createRandom().address;
+  const sessionKey = ethers.Wallet.createRandom();
+  const mallory = ethers.Wallet.createRandom();
+  const bob = ethers.Wallet.createRandom().address;
+  const charlie = ethers.Wallet.createRandom().address;
+  const token = ethers.Wallet.createRandom().address;
+  const now = 1_700_000_000;
+
+  const accountCalls = new ethers.Interface(NEURAL_ACCOUNT_ABI);
+  const tokenCalls = new ethers.Interface([
+    "function transfer(address to, uint256 amount)",
+    "function approve(address spender, uint256 amount)",
+  ]);
+
+  function policyFixture(overrides: Partial<SessionPolicyOptions> = {}) {
+    return createSessionPolicy(sessionKey.address, {
+      now,
+      permissions: [
+        { target: bob, selectors: [ETH_TRANSFER_SELECTOR] },
+        { target: token, selectors: [tokenCalls.getFunction("transfer")!.selector] },
+      ],
+      maxValuePerOp: ethers.parseEther("0.05"),
+      maxTotalValue: ethers.parseEther("0.08"),
+      maxGasFeePerOp: 1_000_000n,
+      ...overrides,
+    });
+  }
+
+  // A validator with the default policy granted to the account
+  function validatorFixture(policy = policyFixture()) {
+    const validator = new SessionKeyValidator(entryPoint, chainId);
+    validator.grant(account, policy);
+    return validator;
+  }
+
+  // Prefunds 500,000 wei unless `gas` overrides it
+  async function sessionOp(
+    callData: string,
+    signer: ethers.BaseWallet = sessionKey,
+    gas: Partial<UserOperationGas> = {}
+  ): Promise<PackedUserOperation> {
+    const op: PackedUserOperation = {
+      sender: account,
+      nonce: 0n,
+      initCode: "0x",
+      callData,
+      ...packUserOpGas({
+        verificationGasLimit: 100_000n,
+        callGasLimit: 100_000n,
+        preVerificationGas: 50_000n,
+        maxFeePerGas: 2n,
+        maxPriorityFeePerGas: 1n,
+        ...gas,
+      }),
+      paymasterAndData: "0x",
+      signature: "0x",
+    };
+    op.signature = await sessionUserOpSigner(signer)(getUserOpHash(op, entryPoint, chainId));
+    return op;
+  }
+
+  function sendEth(to: string, amount: string) {
+    return accountCalls.encodeFunctionData("execute", [to, ethers.parseEther(amount), "0x"]);
+  }
+
+  function callToken(fn: "transfer" | "approve", to: string) {
+    return accountCalls.encodeFunctionData("execute", [token, 0, tokenCalls.encodeFunctionData(fn, [to, 1n])]);
+  }
+
+  describe("Policy", function () {
+    it("Should last 24 hours by default", async function () {
+      const policy = policyFixture();
+
+      expect(policy.validAfter).to.equal(now);
+      expect(policy.validUntil).to.equal(now + DEFAULT_SESSION_TTL_SECONDS);
+    });
+
+    it("Should round-trip through grantSession calldata", async function () {
+      const policy = policyFixture();
+
+      expect(decodeGrantSession(encodeGrantSession(policy))).to.deep.equal(policy);
+    });
+
+    it("Should refuse an empty session window", async function () {
+      const validator = new SessionKeyValidator(entryPoint, chainId);
+
+      expect(() => validator.grant(account, policyFixture({ ttlSeconds: 0 }))).to.throw("empty");
+    });
+  });
+
+  describe("Validation", function () {
+    it("Should accept an allowed ETH transfer and count its value and prefund", async function () {
+      const validator = validatorFixture();
+
+      const result = validator.validate(await sessionOp(sendEth(bob, "0.05")), now);
+      expect(result).to.deep.equal({ valid: true, value: ethers.parseEther("0.05"), gasFee: 500_000n });
+      expect(validator.spent(account, sessionKey.address)).to.equal(ethers.parseEther("0.05") + 500_000n);
+    });
+
+    it("Should accept an allowed token call", async function () {
+      const validator = validatorFixture();
+
+      expect(validator.validate(await sessionOp(callToken("transfer", charlie)), now).valid).to.equal(true);
+    });
+
+    it("Should accept a batch of allowed calls", async function () {
+      const validator = validatorFixture();
+      const callData = accountCalls.encodeFunctionData("executeBatch", [
+        [bob, token],
+        [ethers.parseEther("0.01"), 0],
+        ["0x", tokenCalls.encodeFunctionData("transfer", [charlie, 1n])],
+      ]);
+
+      expect(validator.validate(await sessionOp(callData), now).valid).to.equal(true);
+    });
+
+    it("Should accept ops up to the last second of the session", async function () {
+      const validator = validatorFixture();
+
+      const result = validator.validate(await sessionOp(sendEth(bob, "0.01")), now + DEFAULT_SESSION_TTL_SECONDS);
+      expect(result.valid).to.equal(true);
+    });
+  });
+
+  describe("Limits", function () {
+    it("Should reject an op after the session expires", async function () {
+      const validator = validatorFixture();
+
+      const result = validator.validate(await sessionOp(sendEth(bob, "0.01")), now + DEFAULT_SESSION_TTL_SECONDS + 1);
+      expect(result.reason).to.equal("expired");
+    });
+
+    it("Should reject an op before the session starts", async function () {
+      const validator = validatorFixture();
+
+      expect(validator.validate(await sessionOp(sendEth(bob, "0.01")), now - 1).reason).to.equal("not-yet-valid");
+    });
+
+    it("Should reject a call to a target outside the policy", async function () {
+      const validator = validatorFixture();
+
+      expect(validator.validate(await sessionOp(sendEth(charlie, "0.01")), now).reason).to.equal("target-not-allowed");
+    });
+
+    it("Should reject a call to the account itself", async function () {
+      const validator = validatorFixture(policyFixture({
+        permissions: [{ target: account, selectors: [accountCalls.getFunction("revokeSession")!.selector] }],
+      }));
+      const callData = accountCalls.encodeFunctionData("execute", [
+        account,
+        0,
+        accountCalls.encodeFunctionData("revokeSession", [sessionKey.address]),
+      ]);
+
+      expect(validator.validate(await sessionOp(callData), now).reason).to.equal("target-not-allowed");
+    });
+
+    it("Should reject a call to the account's recovery module", async function () {
+      const recoveryModule = ethers.Wallet.createRandom().address;
+      const validator = new SessionKeyValidator(entryPoint, chainId, recoveryModule);
+      validator.grant(account, policyFixture({ permissions: [{ target: recoveryModule, selectors: [ETH_TRANSFER_SELECTOR] }] }));
+
+      expect(validator.validate(await sessionOp(sendEth(recoveryModule, "0.01")), now).reason).to.equal("target-not-allowed");
+    });
+
+    it("Should reject a selector outside the policy", async function () {
+      const validator = validatorFixture();
+
+      expect(validator.validate(await sessionOp(callToken("approve", charlie)), now).reason).to.equal("selector-not-allowed");
+    });
+
+    it("Should reject calldata to an allowed target that only permits ETH", async function () {
+      const validator = validatorFixture();
+      const callData = accountCalls.encodeFunctionData("execute", [bob, 0, tokenCalls.encodeFunctionData("transfer", [charlie, 1n])]);
+
+      expect(validator.validate(await sessionOp(callData), now).reason).to.equal("selector-not-allowed");
+    });
+
+    it("Should reject an op over the per-op value cap", async function () {
+      const validator = validatorFixture();
+
+      expect(validator.validate(await sessionOp(sendEth(bob, "0.06")), now).reason).to.equal("value-per-op-exceeded");
+    });
+
+    it("Should apply the per-op cap to a batch's total", async function () {
+      const validator = validatorFixture();
+      const callData = accountCalls.encodeFunctionData("executeBatch", [
+        [bob, bob],
+        [ethers.parseEther("0.03"), ethers.parseEther("0.03")],
+        ["0x", "0x"],
+      ]);
+
+      expect(validator.validate(await sessionOp(callData), now).reason).to.equal("value-per-op-exceeded");
+    });
+
+    it("Should reject an op that would pass the cumulative cap", async function () {
+      const validator = validatorFixture();
+
+      expect(validator.validate(await sessionOp(sendEth(bob, "0.05")), now).valid).to.equal(true);
+      expect(validator.validate(await sessionOp(sendEth(bob, "0.05")), now).reason).to.equal("total-value-exceeded");
+      expect(validator.validate(await sessionOp(sendEth(bob, "0.02")), now).valid).to.equal(true);
+    });
+
+    it("Should reject an op that may be charged more gas than the per-op cap", async function () {
+      const validator = validatorFixture();
+      const inflated = [{ preVerificationGas: 10_000_000n }, { maxFeePerGas: 5n }, { callGasLimit: 400_000n }];
+
+      for (const gas of inflated) {
+        expect(validator.validate(await sessionOp(sendEth(bob, "0.01"), sessionKey, gas), now).reason)
+          .to.equal("gas-fee-per-op-exceeded");
+      }
+      expect(validator.spent(account, sessionKey.address)).to.equal(0n);
+    });
+
+    it("Should count prefunds against the cumulative cap", async function () {
+      const validator = validatorFixture(policyFixture({ maxTotalValue: 1_000_000n }));
+
+      expect(validator.validate(await sessionOp(callToken("transfer", charlie)), now).valid).to.equal(true);
+      expect(validator.validate(await sessionOp(callToken("transfer", charlie)), now).valid).to.equal(true);
+      expect(validator.validate(await sessionOp(callToken("transfer", charlie)), now).reason).to.equal("total-value-exceeded");
+    });
+
+    it("Should not count a rejected op against the cumulative cap", async function () {
+      const validator = validatorFixture();
+
+      validator.validate(await sessionOp(sendEth(bob, "0.05")), now + DEFAULT_SESSION_TTL_SECONDS + 1);
+      expect(validator.spent(account, sessionKey.address)).to.equal(0n);
+    });
+
+    it("Should reset the spent value when the session is granted again", async function () {
+      const validator = validatorFixture();
+
+      validator.validate(await sessionOp(sendEth(bob, "0.05")), now);
+      validator.grant(account, policyFixture());
+      expect(validator.spent(account, sessionKey.address)).to.equal(0n);
+    });
+  });
+
+  describe("Rejections", function () {
+    it("Should reject ops after the session is revoked", async function () {
+      const validator = validatorFixture();
+
+      validator.revoke(account, sessionKey.address);
+      expect(validator.validate(await sessionOp(sendEth(bob, "0.01")), now).reason).to.equal("unknown-session");
+    });
+
+    it("Should reject an op signed by another key in the session key's name", async function () {
+      const validator = validatorFixture();
+      const op = await sessionOp(sendEth(bob, "0.01"), mallory);
+      op.signature = ethers.concat([sessionKey.address, ethers.dataSlice(op.signature, 20)]);
+
+      expect(validator.validate(op, now).reason).to.equal("bad-signature");
+    });
+
+    it("Should reject an op whose fields changed after signing", async function () {
+      const validator = validatorFixture();
+      const op = await sessionOp(sendEth(bob, "0.01"));
+
+      expect(validator.validate({ ...op, nonce: 1n }, now).reason).to.equal("bad-signature");
+    });
+
+    it("Should reject a session op that grants itself a new session", async function () {
+      const validator = validatorFixture();
+      const op = await sessionOp(encodeGrantSession(policyFixture({ maxTotalValue: ethers.parseEther("100") })));
+
+      expect(validator.validate(op, now).reason).to.equal("unsupported-call");
+    });
+
+    it("Should reject an op without a session signature", async function () {
+      const validator = validatorFixture();
+      const op = { ...(await sessionOp(sendEth(bob, "0.01"))), signature: "0x" };
+
+      expect(validator.validate(op, now).reason).to.equal("not-session-signed");
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  GuardianConfig,
+  RecoveryRequest,
+  approveRecovery,
+  buildRecoveryTypedData,
+  guardianConfigError,
+  orderApprovals,
+  recoveryApprovalError,
+} from "../../examples/utils/social-recovery";
+
+describe("SocialRecovery", function () {
+  const recoveryModule = "0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9";
+  const chainId = 31337n;
+  const account = ethers.Wallet.createRandom().address;
+  const guardians = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+  const mallory = ethers.Wallet.createRandom();
+
+  const config: GuardianConfig = {
+    guardians: guardians.map(guardian => guardian.address),
+    threshold: 2,
+    delaySeconds: 2 * 24 * 60 * 60,
+  };
+
+  const request: RecoveryRequest = {
+    account,
+    newOwner: ethers.Wallet.createRandom().address,
+    oldNeuralHash: ethers.keccak256(ethers.toUtf8Bytes("alice-brain-pattern")),
+    newNeuralHash: ethers.keccak256(ethers.toUtf8Bytes("alice-brain-pattern-new-device")),
+    nonce: 1n,
+  };
+
+  // The Recovery for `request` and approvals from `signers`, in contract order
+  async function approvalsFixture(signers: ethers.BaseWallet[], overrides: Partial<RecoveryRequest> = {}) {
+    const typedData = buildRecoveryTypedData(recoveryModule, chainId, { ...request, ...overrides });
+    const approvals = await Promise.all(signers.map(signer => approveRecovery(signer, typedData)));
+    return { typedData, approvals, signatures: orderApprovals(approvals) };
+  }
+
+  describe("Guardians", function () {
+    it("Should accept M of N guardians with a delay", async function () {
+      expect(guardianConfigError(account, config)).to.equal(undefined);
+    });
+
+    it("Should reject a threshold above the number of guardians", async function () {
+      expect(guardianConfigError(account, { ...config, threshold: 4 })).to.equal("InvalidGuardianConfig");
+    });
+
+    it("Should reject a configuration without a delay", async function () {
+      expect(guardianConfigError(account, { ...config, delaySeconds: 0 })).to.equal("InvalidGuardianConfig");
+    });
+
+    it("Should reject a duplicate guardian or the account as its own guardian", async function () {
+      const duplicate = [...config.guardians, config.guardians[0].toLowerCase()];
+
+      expect(guardianConfigError(account, { ...config, guardians: duplicate })).to.equal("InvalidGuardianConfig");
+      expect(guardianConfigError(account, { ...config, guardians: [account], threshold: 1 })).to.equal("InvalidGuardianConfig");
+    });
+  });
+
+  describe("Approvals", function () {
+    it("Should accept threshold approvals from guardians", async function () {
+      const { typedData, signatures } = await approvalsFixture([guardians[2], guardians[0]]);
+
+      expect(recoveryApprovalError(config, typedData, signatures)).to.equal(undefined);
+    });
+
+    it("Should order approvals by guardian address", async function () {
+      const { approvals, signatures } = await approvalsFixture(guardians);
+      const sorted = [...approvals].sort((a, b) => (BigInt(a.guardian) < BigInt(b.guardian) ? -1 : 1));
+
+      expect(signatures).to.deep.equal(sorted.map(approval => approval.signature));
+    });
+
+    it("Should reject fewer approvals than the threshold", async function () {
+      const { typedData, signatures } = await approvalsFixture([guardians[0]]);
+
+      expect(recoveryApprovalError(config, typedData, signatures)).to.equal("NotEnoughApprovals");
+    });
+
+    it("Should reject the same guardian approving twice", async function () {
+      const { typedData, signatures } = await approvalsFixture([guardians[0]]);
+
+      expect(recoveryApprovalError(config, typedData, [signatures[0], signatures[0]])).to.equal("UnsortedApprovals");
+    });
+
+    it("Should reject approvals out of guardian order", async function () {
+      const { typedData, signatures } = await approvalsFixture([guardians[0], guardians[1]]);
+
+      expect(recoveryApprovalError(config, typedData, [...signatures].reverse())).to.equal("UnsortedApprovals");
+    });
+
+    it("Should reject an approval from someone who isn't a guardian", async function () {
+      const { typedData, signatures } = await approvalsFixture([guardians[0], mallory]);
+
+      expect(recoveryApprovalError(config, typedData, signatures)).to.equal("NotGuardian");
+    });
+
+    it("Should reject approvals signed for an earlier nonce", async function () {
+      const { signatures } = await approvalsFixture([guardians[0], guardians[1]], { nonce: 0n });
+      const current = buildRecoveryTypedData(recoveryModule, chainId, request);
+
+      expect(recoveryApprovalError(config, current, signatures)).to.not.equal(undefined);
+    });
+
+    it("Should reject approvals for a different new owner", async function () {
+      const { signatures } = await approvalsFixture([guardians[0], guardians[1]]);
+      const swapped = buildRecoveryTypedData(recoveryModule, chainId, { ...request, newOwner: mallory.address });
+
+      expect(recoveryApprovalError(config, swapped, signatures)).to.not.equal(undefined);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  ERC1155_INTERFACE_ID,
+  ERC721_INTERFACE_ID,
+  TOKEN_CLIENT_ABI,
+  TokenClient,
+  detectTokenStandard,
+} from "../../examples/utils/token-client";
+
+describe("Token client", function () {
+  const iface = new ethers.Interface(TOKEN_CLIENT_ABI);
+  const token = ethers.Wallet.createRandom().address;
+  const alice = ethers.Wallet.createRandom().address;
+  const bob = ethers.Wallet.createRandom().address;
+
+  // The view calls a fake token can answer, by signature
+  interface ViewCalls {
+    "totalSupply()": () => bigint;
+    "decimals()": () => number;
+    "balanceOf(address)": (account: string) => bigint;
+    "balanceOf(address,uint256)": (account: string, id: bigint) => bigint;
+    "ownerOf(uint256)": (tokenId: bigint) => string;
+    "supportsInterface(bytes4)": (interfaceId: string) => boolean;
+  }
+
+  // Answers the view calls in `handlers`; any other call returns no data,
+  // as a contract without that function does
+  function fakeToken(handlers: Partial<ViewCalls>) {
+    return {
+      provider: null,
+      call: async (tx: ethers.TransactionRequest) => {
+        const fragment = iface.getFunction((tx.data as string).slice(0, 10))!;
+        const handler = handlers[fragment.format() as keyof ViewCalls] as ((...args: unknown[]) => unknown) | undefined;
+        if (!handler) {
+          return "0x";
+        }
+        const args = iface.decodeFunctionData(fragment, tx.data as string);
+        return iface.encodeFunctionResult(fragment, [handler(...args)]);
+      },
+      getAddress: async () => alice,
+      sendTransaction: async () => {
+        throw new Error("Not sent in tests");
+      },
+    } as unknown as ethers.ContractRunner;
+  }
+
+  async function rejection(promise: Promise<unknown>): Promise<string> {
+    try {
+      await promise;
+    } catch (error) {
+      return (error as Error).message;
+    }
+    throw new Error("Expected a rejection");
+  }
+
+  const erc20 = (decimals?: number) => fakeToken({
+    "totalSupply()": () => 1000n,
+    "balanceOf(address)": () => 250n,
+    ...(decimals === undefined ? {} : { "decimals()": () => decimals }),
+  });
+  const supporting = (interfaceId: string, handlers: Partial<ViewCalls> = {}) => fakeToken({
+    "supportsInterface(bytes4)": id => id === interfaceId,
+    ...handlers,
+  });
+
+  describe("Detection", function () {
+    it("Should detect ERC-721 and ERC-1155 through ERC-165", async function () {
+      expect(await detectTokenStandard(token, supporting(ERC721_INTERFACE_ID))).to.equal("ERC-721");
+      expect(await detectTokenStandard(token, supporting(ERC1155_INTERFACE_ID))).to.equal("ERC-1155");
+    });
+
+    it("Should detect ERC-20 by probing when ERC-165 isn't supported", async function () {
+      expect(await detectTokenStandard(token, erc20(6))).to.equal("ERC-20");
+    });
+
+    it("Should reject a contract that is no token", async function () {
+      const error = await rejection(detectTokenStandard(token, supporting("0x01ffc9a7")));
+
+      expect(error).to.include("is not an ERC-20, ERC-721 or ERC-1155 token");
+    });
+  });
+
+  describe("Amounts", function () {
+    it("Should scale amounts by the token's decimals", async function () {
+      const client = await TokenClient.connect(token, erc20(6));
+
+      expect(client.standard).to.equal("ERC-20");
+      expect(client.parseAmount("1.5")).to.equal(1_500_000n);
+      expect(client.parseAmount(7n)).to.equal(7n);
+      expect(client.formatAmount(2_500_000n)).to.equal("2.5");
+    });
+
+    it("Should assume 18 decimals for an ERC-20 without decimals()", async function () {
+      expect((await TokenClient.connect(token, erc20())).decimals).to.equal(18);
+    });
+
+    it("Should count whole ERC-1155 units", async function () {
+      const client = await TokenClient.connect(token, supporting(ERC1155_INTERFACE_ID));
+
+      expect(client.parseAmount("5")).to.equal(5n);
+      expect(() => client.parseAmount("1.5")).to.throw();
+    });
+  });
+
+  describe("Balances", function () {
+    it("Should read an ERC-721 token as 1 for its owner and 0 otherwise", async function () {
+      const client = await TokenClient.connect(token, supporting(ERC721_INTERFACE_ID, {
+        "ownerOf(uint256)": (tokenId: bigint) => (tokenId === 1n ? alice : ethers.ZeroAddress),
+        "balanceOf(address)": () => 3n,
+      }));
+
+      expect((await client.balanceOf(alice, 1n)).amount).to.equal(1n);
+      expect((await client.balanceOf(bob, 1n)).amount).to.equal(0n);
+      expect(await client.balanceOf(alice)).to.deep.equal({
+        standard: "ERC-721", holder: alice, tokenId: undefined, amount: 3n, formatted: "3",
+      });
+    });
+
+    it("Should read ERC-1155 balances per token id", async function () {
+      const client = await TokenClient.connect(token, supporting(ERC1155_INTERFACE_ID, {
+        "balanceOf(address,uint256)": (_account: string, id: bigint) => id * 10n,
+      }));
+
+      expect((await client.balanceOf(alice, 4n)).amount).to.equal(40n);
+      expect(await rejection(client.balanceOf(alice))).to.include("need a token id");
+    });
+
+    it("Should refuse a token id for ERC-20 balances", async function () {
+      const client = await TokenClient.connect(token, erc20(18));
+
+      expect(await rejection(client.balanceOf(alice, 1n))).to.include("no token ids");
+    });
+  });
+
+  describe("Transfers and approvals", function () {
+    it("Should reject requests that don't fit the standard before sending", async function () {
+      const nft = await TokenClient.connect(token, supporting(ERC721_INTERFACE_ID));
+      const items = await TokenClient.connect(token, supporting(ERC1155_INTERFACE_ID));
+      const coin = await TokenClient.connect(token, erc20(18));
+
+      expect(await rejection(nft.transfer({ to: bob }))).to.include("need a token id");
+      expect(await rejection(nft.transfer({ to: bob, tokenId: 1n, amount: 2n }))).to.include("exactly one token");
+      expect(await rejection(items.transfer({ to: bob, tokenId: 1n }))).to.include("needs an amount");
+      expect(await rejection(items.approve({ spender: bob, tokenId: 1n }))).to.include("every token id");
+      expect(await rejection(coin.approve({ spender: bob }))).to.include("needs an amount");
+    });
+
+    it("Should need a signer to send", async function () {
+      const runner = { ...(erc20(18) as object), getAddress: undefined } as unknown as ethers.ContractRunner;
+      const client = await TokenClient.connect(token, runner);
+
+      expect(await rejection(client.transfer({ to: bob, amount: "1" }))).to.include("needs a signer");
+    });
+  });
+});
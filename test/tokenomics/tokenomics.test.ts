@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { GasCostEstimator, defaultPricing } from "../../examples/utils/gas-pricing";
+import {
+  buildDeploymentSteps,
+  parseTokenomics,
+  parseVestingNote,
+  planDeployment,
+  simulateSupply,
+  unlockedAt,
+} from "../../examples/utils/tokenomics";
+
+describe("Tokenomics", function () {
+  // The repo's design template
+  const template = `
+token:
+  name: "Your Token Name"
+  symbol: "SYMBOL"
+  decimals: 18
+  total_supply: 1000000000  # 1 billion
+
+distribution:
+  team: 20%       # 4-year vesting
+  investors: 15%  # 1-year cliff, 2-year vesting
+  ecosystem: 30%  # Community rewards
+  treasury: 25%   # Future development
+  liquidity: 10%  # Initial DEX listing
+
+economics:
+  type: "utility"  # utility | governance | hybrid
+  use_cases:
+    - "Payment for services"
+  burn_mechanism: "2% of transactions"
+  fee_structure: "1% fee to treasury"
+`;
+
+  function withDistribution(distribution: string) {
+    return template.replace(/distribution:[\s\S]*?\n\neconomics/, `distribution:\n${distribution}\n\neconomics`);
+  }
+
+  describe("Loading", function () {
+    it("Should read the template's allocations, vesting notes and mechanics", async function () {
+      const config = parseTokenomics(template);
+      const [team, investors, ecosystem] = config.allocations;
+
+      expect(config.token.totalSupply).to.equal(1_000_000_000n);
+      expect(team).to.include({ name: "team", shareBps: 2000, amount: ethers.parseEther("200000000") });
+      expect(team.vesting).to.deep.equal({ cliffMonths: 0, durationMonths: 48 });
+      expect(investors.vesting).to.deep.equal({ cliffMonths: 12, durationMonths: 24 });
+      expect(ecosystem.vesting).to.equal(null);
+      expect(config.economics).to.include({ burnBps: 200, feeBps: 100, feeRecipient: "treasury" });
+    });
+
+    it("Should read vesting from a structured entry", async function () {
+      const config = parseTokenomics(withDistribution('  team: { share: 40%, vesting: "6-month lock" }\n  public: 60%'));
+
+      expect(config.allocations[0].vesting).to.deep.equal({ cliffMonths: 6, durationMonths: 0 });
+      expect(config.allocations[1].vesting).to.equal(null);
+    });
+
+    it("Should reject allocations that don't add up to 100%", async function () {
+      expect(() => parseTokenomics(withDistribution("  team: 20%\n  public: 75%"))).to.throw("95%, not 100%");
+    });
+
+    it("Should reject a vesting note it can't read", async function () {
+      expect(() => parseTokenomics(withDistribution("  team: 20%  # vests quarterly\n  public: 80%")))
+        .to.throw('distribution.team: can\'t read vesting term "vests quarterly"');
+    });
+
+    it("Should reject fields of the wrong type", async function () {
+      expect(() => parseTokenomics(withDistribution("  team: { share: 40%, vesting: 4 }\n  public: 60%")))
+        .to.throw("distribution.team.vesting must be text");
+      expect(() => parseTokenomics(template.replace("decimals: 18", 'decimals: "18"'))).to.throw("token.decimals");
+      expect(() => parseTokenomics(template.replace(/economics:[\s\S]*$/, 'economics: "utility"\n'))).to.throw("economics must be");
+    });
+
+    it("Should reject a cliff longer than the vesting", async function () {
+      expect(() => parseVestingNote("2-year cliff, 1-year vesting")).to.throw("longer than");
+    });
+
+    it("Should reject an unknown token type", async function () {
+      expect(() => parseTokenomics(template.replace('"utility"', '"meme"'))).to.throw("economics.type");
+    });
+  });
+
+  describe("Supply", function () {
+    it("Should unlock nothing before the cliff and vest linearly after it", async function () {
+      const investors = parseTokenomics(template).allocations[1];
+
+      expect(unlockedAt(investors, 11)).to.equal(0n);
+      expect(unlockedAt(investors, 12)).to.equal(investors.amount / 2n);
+      expect(unlockedAt(investors, 18)).to.equal((investors.amount * 3n) / 4n);
+      expect(unlockedAt(investors, 30)).to.equal(investors.amount);
+    });
+
+    it("Should simulate until the last allocation unlocks", async function () {
+      const supply = simulateSupply(parseTokenomics(template));
+
+      expect(supply.length).to.equal(49);
+      expect(supply[0].circulating).to.equal(ethers.parseEther("650000000"));
+      expect(supply[48].unlocked).to.equal(ethers.parseEther("1000000000"));
+    });
+
+    it("Should burn out of the supply and keep fees in circulation", async function () {
+      const [launch, first] = simulateSupply(parseTokenomics(template), { monthlyVolumePct: 10 });
+      // Month 1 trades what is unlocked by then, team vesting included
+      const volume = first.unlocked / 10n;
+
+      expect(first.burned).to.equal((volume * 2n) / 100n);
+      expect(first.fees).to.equal(volume / 100n);
+      expect(first.totalSupply).to.equal(launch.totalSupply - first.burned);
+      expect(first.circulating).to.equal(first.unlocked - first.burned);
+    });
+  });
+
+  describe("Deployment plan", function () {
+    it("Should deploy a vesting wallet per vesting allocation and mint every allocation", async function () {
+      const actions = buildDeploymentSteps(parseTokenomics(template)).map(step => step.action);
+
+      expect(actions).to.deep.equal(["deploy-token", "deploy-vesting", "deploy-vesting", "mint", "mint", "mint", "mint", "mint"]);
+    });
+
+    it("Should price the plan on the first configured chain", async function () {
+      const estimator = new GasCostEstimator(defaultPricing());
+      const plan = await planDeployment(parseTokenomics(template), estimator);
+
+      expect(plan.chain).to.equal("Ethereum");
+      expect(plan.totalGas).to.equal(plan.steps.reduce((sum, step) => sum + step.gas, 0n));
+      expect(plan.costUSD).to.equal(await estimator.estimateUSD(plan.totalGas));
+    });
+  });
+});